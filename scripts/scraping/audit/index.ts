@@ -1,17 +1,32 @@
 /**
  * Audit Module Index
  *
- * Exports audit logging functionality.
+ * Exports audit logging and persisted rate limit state.
  */
 
+export { type AuditLogEntry, type AuditSummary, createAuditLogEntry } from './types';
+
 export {
-  type AuditLogEntry,
-  type AuditSummary,
-  createAuditLogEntry,
-} from './types';
+  type SelectorStats,
+  type SelectorStatsMap,
+  type SelectorDriftWarning,
+  DRIFT_CONFIG,
+  recordSelectorOutcomes,
+  detectSelectorDrift,
+  selectorHitRates,
+  selectorKey,
+} from './selectorStats';
 
 export {
-  AuditLogger,
-  auditLogger,
-  type AuditLoggerConfig,
-} from './logger';
+  type RateLimitState,
+  type RateLimitSession,
+  type RateLimitBudget,
+  RateLimitStore,
+  DEFAULT_RATE_LIMIT_PATH,
+  RATE_LIMIT_LOCK_CONFIG,
+  rateLimitBudget,
+  rollRateLimitState,
+  formatRateLimitBudget,
+} from './rateLimitStore';
+
+export { AuditLogger, auditLogger, type AuditLoggerConfig } from './logger';
@@ -8,6 +8,17 @@
 import fs from 'fs';
 import path from 'path';
 import { type AuditLogEntry, type AuditSummary } from './types';
+import {
+  type SelectorStatsMap,
+  type SelectorDriftWarning,
+  recordSelectorOutcomes,
+  detectSelectorDrift,
+  selectorHitRates,
+  selectorKey,
+} from './selectorStats';
+
+// Selector hit rates persist across runs in the audit directory
+const SELECTOR_STATS_FILE = 'selector-stats.json';
 
 export interface AuditLoggerConfig {
   // Output destinations
@@ -38,6 +49,7 @@ const DEFAULT_CONFIG: AuditLoggerConfig = {
 export class AuditLogger {
   private config: AuditLoggerConfig;
   private entries: AuditLogEntry[] = [];
+  private selectorStats: SelectorStatsMap | null = null;
 
   constructor(config: Partial<AuditLoggerConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -68,6 +80,14 @@ export class AuditLogger {
       this.logToConsole(entry);
     }
 
+    if (entry.extraction.selectors) {
+      this.recordSelectors(
+        entry.extraction.selectors,
+        entry.extraction.source,
+        entry.timestamp
+      );
+    }
+
     // File output
     if (this.config.file) {
       await this.logToFile(entry);
@@ -131,6 +151,67 @@ export class AuditLogger {
     fs.appendFileSync(filepath, line, 'utf8');
   }
 
+  /**
+   * Add one parse's selector outcomes to the hit-rate stats and warn about
+   * selectors it tipped into drifting. Called for every parsed page, including
+   * failed scrapes that never produce an audit entry.
+   *
+   * @returns Drift warnings for selectors this parse tipped into drifting
+   */
+  recordSelectors(
+    selectors: { found: string[]; missing: string[] },
+    source: string | null | undefined,
+    at: string = new Date().toISOString()
+  ): SelectorDriftWarning[] {
+    const keys = [...selectors.found, ...selectors.missing].map((name) =>
+      selectorKey(source, name)
+    );
+    const previous = this.getSelectorStats();
+    const alreadyDrifting = new Set(detectSelectorDrift(previous, keys).map((d) => d.key));
+    const stats = recordSelectorOutcomes(previous, selectors, source, at);
+    this.selectorStats = stats;
+
+    if (this.config.file && this.config.filePath) {
+      const filepath = path.join(this.config.filePath, SELECTOR_STATS_FILE);
+      fs.writeFileSync(filepath, JSON.stringify(stats, null, 2), 'utf8');
+    }
+
+    const drifts = detectSelectorDrift(stats, keys).filter((d) => !alreadyDrifting.has(d.key));
+
+    // Selector drift is worth seeing even when entries aren't printed
+    for (const drift of drifts) {
+      console.warn(`\u26A0\uFE0F  Selector drift: ${drift.message}`);
+    }
+    return drifts;
+  }
+
+  /**
+   * Selector hit rates across runs (loaded from the audit directory)
+   */
+  getSelectorStats(): SelectorStatsMap {
+    if (!this.selectorStats) {
+      this.selectorStats = {};
+      const filepath = this.config.filePath
+        ? path.join(this.config.filePath, SELECTOR_STATS_FILE)
+        : null;
+      if (this.config.file && filepath && fs.existsSync(filepath)) {
+        try {
+          this.selectorStats = JSON.parse(fs.readFileSync(filepath, 'utf8'));
+        } catch {
+          console.warn(`Failed to parse selector stats: ${filepath}`);
+        }
+      }
+    }
+    return this.selectorStats!;
+  }
+
+  /**
+   * Selectors that used to match reliably but have started failing
+   */
+  getSelectorDrift(): SelectorDriftWarning[] {
+    return detectSelectorDrift(this.getSelectorStats());
+  }
+
   /**
    * Get emoji for decision type
    */
@@ -304,6 +385,17 @@ export class AuditLogger {
     console.log(`  Verified: ${s.humanReview.verified}`);
     console.log(`  Rejected: ${s.humanReview.rejected}`);
 
+    const hitRates = selectorHitRates(this.getSelectorStats());
+    if (hitRates.length > 0) {
+      console.log('\nSelector Hit Rates (all runs):');
+      for (const rate of hitRates) {
+        console.log(`  ${rate.key}: ${(rate.hitRate * 100).toFixed(1)}% of ${rate.attempts}`);
+      }
+      for (const drift of this.getSelectorDrift()) {
+        console.log(`  DRIFT: ${drift.message}`);
+      }
+    }
+
     console.log('');
   }
 
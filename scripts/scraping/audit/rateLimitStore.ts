@@ -0,0 +1,226 @@
+/**
+ * Persisted Rate Limit State
+ *
+ * The scraper's daily request count, recent request times and per-session
+ * request counts live in a JSON file next to the audit logs, so the daily cap
+ * and per-minute limit hold across restarts and across scraper processes
+ * running at the same time. Updates take a lock file so two processes never
+ * claim the same request slot.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export const DEFAULT_RATE_LIMIT_PATH = './audit-logs/rate-limit.json';
+
+export const RATE_LIMIT_LOCK_CONFIG = {
+  retryMs: 50,
+  timeoutMs: 10000,
+  // A lock older than this was left behind by a crashed process
+  staleMs: 30000,
+};
+
+export interface RateLimitSession {
+  pid: number;
+  startedAt: string;
+  lastRequestAt: string | null;
+  requestCount: number;
+}
+
+export interface RateLimitState {
+  version: 1;
+  date: string; // UTC day the daily count belongs to (YYYY-MM-DD)
+  dailyCount: number;
+  requestTimes: number[]; // Epoch ms of requests in the last minute, oldest first
+  sessions: Record<string, RateLimitSession>; // Today's scraper processes
+  updatedAt: string;
+}
+
+export interface RateLimitBudget {
+  date: string;
+  dailyCount: number;
+  dailyLimit: number;
+  remaining: number;
+  requestsInLastMinute: number;
+  requestsPerMinute: number;
+  nextSlotAt: string | null; // When the per-minute limit frees up, if it is full now
+  sessions: Array<RateLimitSession & { id: string; active: boolean }>;
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().split('T')[0];
+}
+
+function emptyState(now: number): RateLimitState {
+  return {
+    version: 1,
+    date: utcDay(now),
+    dailyCount: 0,
+    requestTimes: [],
+    sessions: {},
+    updatedAt: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * Start a new day's count and drop request times older than a minute
+ */
+export function rollRateLimitState(state: RateLimitState, now: number): RateLimitState {
+  if (state.date !== utcDay(now)) {
+    return emptyState(now);
+  }
+  return {
+    ...state,
+    requestTimes: state.requestTimes.filter((t) => t > now - 60000),
+  };
+}
+
+/**
+ * Whether a process with this pid is still alive
+ */
+export function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Remaining quota under the given limits
+ */
+export function rateLimitBudget(
+  state: RateLimitState,
+  limits: { requestsPerMinute: number; maxDailyRequests: number },
+  now: number = Date.now()
+): RateLimitBudget {
+  const current = rollRateLimitState(state, now);
+  const minuteFull = current.requestTimes.length >= limits.requestsPerMinute;
+
+  return {
+    date: current.date,
+    dailyCount: current.dailyCount,
+    dailyLimit: limits.maxDailyRequests,
+    remaining: Math.max(0, limits.maxDailyRequests - current.dailyCount),
+    requestsInLastMinute: current.requestTimes.length,
+    requestsPerMinute: limits.requestsPerMinute,
+    nextSlotAt: minuteFull
+      ? new Date(Math.min(...current.requestTimes) + 60000).toISOString()
+      : null,
+    sessions: Object.entries(current.sessions).map(([id, session]) => ({
+      id,
+      ...session,
+      active: isProcessRunning(session.pid),
+    })),
+  };
+}
+
+export class RateLimitStore {
+  constructor(private filePath: string = DEFAULT_RATE_LIMIT_PATH) {}
+
+  /**
+   * Current state, rolled over to today; does not take the lock
+   */
+  read(now: number = Date.now()): RateLimitState {
+    if (!fs.existsSync(this.filePath)) return emptyState(now);
+    const state = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as RateLimitState;
+    return rollRateLimitState(state, now);
+  }
+
+  /**
+   * Read, change and write the state while holding the lock
+   *
+   * The state is only written when `change` returns without throwing.
+   */
+  async update<T>(change: (state: RateLimitState, now: number) => T): Promise<T> {
+    await this.lock();
+    try {
+      const now = Date.now();
+      const state = this.read(now);
+      const result = change(state, now);
+      this.write(state, now);
+      return result;
+    } finally {
+      this.unlock();
+    }
+  }
+
+  private get lockPath(): string {
+    return `${this.filePath}.lock`;
+  }
+
+  private write(state: RateLimitState, now: number): void {
+    state.updatedAt = new Date(now).toISOString();
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(state, null, 2), 'utf8');
+    fs.renameSync(tmp, this.filePath);
+  }
+
+  private async lock(): Promise<void> {
+    const dir = path.dirname(path.resolve(this.filePath));
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const deadline = Date.now() + RATE_LIMIT_LOCK_CONFIG.timeoutMs;
+    for (;;) {
+      try {
+        fs.writeFileSync(this.lockPath, String(process.pid), { flag: 'wx' });
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      this.clearStaleLock();
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for rate limit lock: ${this.lockPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, RATE_LIMIT_LOCK_CONFIG.retryMs));
+    }
+  }
+
+  private clearStaleLock(): void {
+    try {
+      const age = Date.now() - fs.statSync(this.lockPath).mtimeMs;
+      if (age > RATE_LIMIT_LOCK_CONFIG.staleMs) {
+        fs.unlinkSync(this.lockPath);
+      }
+    } catch {
+      // Released by its owner in the meantime
+    }
+  }
+
+  private unlock(): void {
+    try {
+      fs.unlinkSync(this.lockPath);
+    } catch {
+      // Already removed as stale
+    }
+  }
+}
+
+/**
+ * Human-readable budget report for the CLIs
+ */
+export function formatRateLimitBudget(budget: RateLimitBudget): string {
+  const lines = [
+    `Daily requests (${budget.date} UTC): ${budget.dailyCount}/${budget.dailyLimit} used, ` +
+      `${budget.remaining} remaining`,
+    `Last minute: ${budget.requestsInLastMinute}/${budget.requestsPerMinute}` +
+      (budget.nextSlotAt ? ` (next slot ${budget.nextSlotAt})` : ''),
+  ];
+
+  if (budget.sessions.length > 0) {
+    lines.push('Sessions today:');
+    for (const session of budget.sessions) {
+      lines.push(
+        `  ${session.id}  ${session.requestCount} requests, ` +
+          `last ${session.lastRequestAt ?? 'never'}${session.active ? '  (running)' : ''}`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
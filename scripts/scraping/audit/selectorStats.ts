@@ -0,0 +1,126 @@
+/**
+ * Selector Hit Rates
+ *
+ * Tracks how often each parser selector matches across scraping runs so a
+ * page layout change shows up as a selector whose hit rate suddenly drops,
+ * even while fallback strategies keep the scrape itself succeeding.
+ */
+
+export interface SelectorStats {
+  hits: number;
+  attempts: number;
+  recent: boolean[]; // Newest last, at most DRIFT_CONFIG.recentWindow outcomes
+  lastHitAt: string | null;
+  lastMissAt: string | null;
+}
+
+// Keyed by "<source>/<selector>", e.g. "seeking-alpha/transcriptBody"
+export type SelectorStatsMap = Record<string, SelectorStats>;
+
+export interface SelectorDriftWarning {
+  key: string;
+  baselineHitRate: number; // 0-1, runs before the recent window
+  recentHitRate: number; // 0-1, last recentWindow runs
+  message: string;
+}
+
+export const DRIFT_CONFIG = {
+  recentWindow: 5,
+  minBaselineAttempts: 5,
+  // A selector that used to hit this often...
+  baselineHitRate: 0.8,
+  // ...and now hits at most this often is drifting
+  recentHitRate: 0.4,
+};
+
+export function selectorKey(source: string | null | undefined, selector: string): string {
+  return `${source || 'unknown'}/${selector}`;
+}
+
+/**
+ * Add one parse's found/missing selectors to the running stats
+ */
+export function recordSelectorOutcomes(
+  stats: SelectorStatsMap,
+  selectors: { found: string[]; missing: string[] },
+  source: string | null | undefined,
+  at: string = new Date().toISOString()
+): SelectorStatsMap {
+  const next: SelectorStatsMap = { ...stats };
+  const outcomes: Array<[string, boolean]> = [
+    ...selectors.found.map((name): [string, boolean] => [name, true]),
+    ...selectors.missing.map((name): [string, boolean] => [name, false]),
+  ];
+
+  for (const [name, hit] of outcomes) {
+    const key = selectorKey(source, name);
+    const previous = next[key] || {
+      hits: 0,
+      attempts: 0,
+      recent: [],
+      lastHitAt: null,
+      lastMissAt: null,
+    };
+    next[key] = {
+      hits: previous.hits + (hit ? 1 : 0),
+      attempts: previous.attempts + 1,
+      recent: [...previous.recent, hit].slice(-DRIFT_CONFIG.recentWindow),
+      lastHitAt: hit ? at : previous.lastHitAt,
+      lastMissAt: hit ? previous.lastMissAt : at,
+    };
+  }
+
+  return next;
+}
+
+/**
+ * Lifetime hit rate per selector, lowest first
+ */
+export function selectorHitRates(
+  stats: SelectorStatsMap
+): Array<{ key: string; hitRate: number; attempts: number }> {
+  return Object.entries(stats)
+    .map(([key, s]) => ({
+      key,
+      hitRate: s.attempts > 0 ? s.hits / s.attempts : 0,
+      attempts: s.attempts,
+    }))
+    .sort((a, b) => a.hitRate - b.hitRate || a.key.localeCompare(b.key));
+}
+
+/**
+ * Selectors that used to match reliably but have started failing
+ */
+export function detectSelectorDrift(
+  stats: SelectorStatsMap,
+  keys: string[] = Object.keys(stats)
+): SelectorDriftWarning[] {
+  const warnings: SelectorDriftWarning[] = [];
+
+  for (const key of keys) {
+    const s = stats[key];
+    if (!s || s.recent.length < DRIFT_CONFIG.recentWindow) continue;
+
+    const recentHits = s.recent.filter(Boolean).length;
+    const baselineAttempts = s.attempts - s.recent.length;
+    if (baselineAttempts < DRIFT_CONFIG.minBaselineAttempts) continue;
+
+    const baselineHitRate = (s.hits - recentHits) / baselineAttempts;
+    const recentHitRate = recentHits / s.recent.length;
+    if (
+      baselineHitRate >= DRIFT_CONFIG.baselineHitRate &&
+      recentHitRate <= DRIFT_CONFIG.recentHitRate
+    ) {
+      warnings.push({
+        key,
+        baselineHitRate,
+        recentHitRate,
+        message:
+          `Selector ${key} matched ${recentHits}/${s.recent.length} recent pages ` +
+          `(was ${(baselineHitRate * 100).toFixed(0)}%); the page layout may have changed`,
+      });
+    }
+  }
+
+  return warnings;
+}
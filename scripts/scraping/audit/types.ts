@@ -5,7 +5,7 @@
  * validation result, and decision for forensic analysis.
  */
 
-import { type CombinedValidationResult } from '../validators/types';
+import { type CombinedValidationResult, type FieldSources } from '../validators/types';
 
 /**
  * Audit log entry for a scraping attempt
@@ -40,6 +40,12 @@ export interface AuditLogEntry {
     callDate: string | null;
     wordCount: number;
     participantCount: number;
+    source?: string; // Transcript source adapter id
+    fieldSources?: FieldSources; // Strategy that produced each field
+    selectors?: {
+      found: string[];
+      missing: string[];
+    };
   };
 
   // Expected values (for comparison)
@@ -160,6 +166,12 @@ export function createAuditLogEntry(
       callDate: string | null;
       content: string | null;
       participants: string[];
+      source?: string;
+      fieldSources?: FieldSources;
+    };
+    selectors?: {
+      found: string[];
+      missing: string[];
     };
     expectedData: {
       companyName: string;
@@ -255,6 +267,11 @@ export function createAuditLogEntry(
         ? params.extractedData.content.split(/\s+/).filter((w) => w.length > 0).length
         : 0,
       participantCount: params.extractedData.participants.length,
+      ...(params.extractedData.source && { source: params.extractedData.source }),
+      ...(params.extractedData.fieldSources && {
+        fieldSources: params.extractedData.fieldSources,
+      }),
+      ...(params.selectors && { selectors: params.selectors }),
     },
 
     expected: {
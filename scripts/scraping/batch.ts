@@ -0,0 +1,394 @@
+/**
+ * Batch Transcript Scraping
+ *
+ * Fills in missing transcripts for earnings events through a persistent job
+ * queue (./scrape-queue.json by default). A run stops at the scraper's daily
+ * request cap, on pause, or on Ctrl+C, and the next run carries on from the
+ * same queue.
+ *
+ * Usage:
+ *   bun run scripts/scraping/batch.ts plan              # Show events missing transcripts
+ *   bun run scripts/scraping/batch.ts enqueue           # Queue them
+ *   bun run scripts/scraping/batch.ts run               # Work through the queue
+ *   bun run scripts/scraping/batch.ts status            # Progress
+ */
+
+import 'dotenv/config';
+import {
+  ScrapeJobQueue,
+  DEFAULT_QUEUE_PATH,
+  planMissingTranscripts,
+  runScrapeQueue,
+  type ScrapeJob,
+  type NewScrapeJob,
+  type QueueRunnerDeps,
+} from './queue';
+import { runScrapingPipeline, createTranscriptSaveHandler } from './index';
+import { TranscriptScraper } from './scraper';
+import { AuditLogger, formatRateLimitBudget } from './audit';
+import {
+  buildCrossReferenceFromTranscripts,
+  type CrossReferenceData,
+  type ExpectedTranscriptData,
+} from './validators';
+import { buildSeekingAlphaUrl } from './sources';
+import {
+  getAllEarningsEvents,
+  getAllTranscripts,
+  getTranscriptsForEvent,
+  type Transcript,
+} from '../../server/lib/dynamodb';
+
+const DAILY_LIMIT_ERROR = /Daily request limit/i;
+
+/**
+ * Events that still need a transcript, optionally for one company
+ */
+async function planFromDatabase(company?: string) {
+  const events = (await getAllEarningsEvents()).filter(
+    (event) => !company || event.company.toLowerCase() === company.toLowerCase()
+  );
+
+  const transcriptsByEvent = new Map<string, Transcript[]>();
+  for (const transcript of await getAllTranscripts()) {
+    const list = transcriptsByEvent.get(transcript.eventTicker) || [];
+    list.push(transcript);
+    transcriptsByEvent.set(transcript.eventTicker, list);
+  }
+
+  return planMissingTranscripts(events, transcriptsByEvent);
+}
+
+/**
+ * Scrape, validate and save one job through the standard pipeline
+ */
+function createRunnerDeps(
+  scraper: TranscriptScraper,
+  auditLogger: AuditLogger,
+  verbose: boolean
+): QueueRunnerDeps {
+  return {
+    async runJob(job) {
+      const expected: ExpectedTranscriptData = {
+        companyName: job.company,
+        ticker: job.ticker,
+        quarter: job.quarter,
+        fiscalYear: job.fiscalYear,
+        expectedDate: job.expectedDate ? new Date(job.expectedDate) : undefined,
+      };
+
+      const existingTranscripts = await getTranscriptsForEvent(job.eventTicker);
+      const crossRef: CrossReferenceData = {
+        ...buildCrossReferenceFromTranscripts(existingTranscripts),
+        kalshiEventDate: expected.expectedDate,
+        kalshiEventTicker: job.eventTicker,
+      };
+
+      let result;
+      try {
+        result = await runScrapingPipeline(
+          job.url,
+          {
+            expected,
+            crossRef,
+            verbose,
+            saveHandler: createTranscriptSaveHandler(job.eventTicker, expected),
+          },
+          scraper,
+          auditLogger
+        );
+      } catch (error) {
+        if (error instanceof Error && DAILY_LIMIT_ERROR.test(error.message)) {
+          return { status: 'rate-limited', message: error.message };
+        }
+        throw error;
+      }
+
+      if (!result.validationResult) {
+        return { status: 'error', message: result.errors.join('; ') || 'Scrape failed' };
+      }
+      if (result.validationResult.autoDecision === 'reject') {
+        return {
+          status: 'rejected',
+          message: `Validation rejected: ${result.validationResult.reasons.join('; ')}`,
+        };
+      }
+      if (!result.savedTranscriptId) {
+        return {
+          status: 'error',
+          message: result.errors.join('; ') || 'Transcript was not saved',
+        };
+      }
+
+      return {
+        status: 'saved',
+        transcriptId: result.savedTranscriptId,
+        verificationStatus: result.auditEntry?.decision.verificationStatus ?? undefined,
+      };
+    },
+
+    async hasVerifiedTranscript(job) {
+      const transcripts = await getTranscriptsForEvent(job.eventTicker);
+      return transcripts.some((t) => t.verificationStatus === 'verified');
+    },
+
+    dailyBudget() {
+      const stats = scraper.getStats();
+      return { used: stats.dailyCount, limit: stats.dailyLimit };
+    },
+  };
+}
+
+function describeJob(job: ScrapeJob): string {
+  return `${job.eventTicker} ${job.company} (${job.ticker}) ${job.quarter} ${job.fiscalYear}`;
+}
+
+function printProgress(queue: ScrapeJobQueue): void {
+  const progress = queue.progress();
+  const done = progress.succeeded + progress.failed + progress.skipped;
+  const width = 30;
+  const filled = progress.total > 0 ? Math.round((done / progress.total) * width) : 0;
+
+  console.log(
+    `[${'#'.repeat(filled)}${'.'.repeat(width - filled)}] ${done}/${progress.total} done`
+  );
+  console.log(
+    `  Pending: ${progress.pending}  Running: ${progress.running}  ` +
+      `Succeeded: ${progress.succeeded}  Failed: ${progress.failed}  Skipped: ${progress.skipped}`
+  );
+
+  const state = queue.getState();
+  if (state.paused) {
+    console.log(`  PAUSED since ${state.pausedAt} (${state.pausedReason})`);
+  }
+  const nextRetryAt = queue.nextRetryAt();
+  if (nextRetryAt) {
+    console.log(`  Next retry: ${nextRetryAt}`);
+  }
+}
+
+function printFailed(jobs: ScrapeJob[]): void {
+  if (jobs.length === 0) {
+    console.log('No failed jobs');
+    return;
+  }
+
+  for (const job of jobs) {
+    console.log(`\n${describeJob(job)}`);
+    console.log(`  URL: ${job.url}`);
+    console.log(`  Attempts: ${job.attempts}/${job.maxAttempts}`);
+    for (const error of job.errors) {
+      console.log(`  - ${error.at}: ${error.message}`);
+    }
+  }
+  console.log(
+    `\nRetry with: bun run scripts/scraping/batch.ts retry [--job <event-ticker>]`
+  );
+}
+
+/**
+ * CLI Entry Point
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+
+  const getArg = (name: string): string | undefined => {
+    const index = args.indexOf(`--${name}`);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+
+  const queuePath = getArg('queue') || DEFAULT_QUEUE_PATH;
+  const company = getArg('company');
+  const limitArg = getArg('limit');
+  const verbose = args.includes('--verbose');
+
+  switch (command) {
+    case 'plan': {
+      const plan = await planFromDatabase(company);
+      for (const job of plan.jobs) {
+        console.log(
+          `MISSING  ${job.eventTicker} ${job.company} (${job.ticker}) ${job.quarter} ${job.fiscalYear}`
+        );
+      }
+      if (verbose) {
+        for (const skip of plan.skipped) {
+          console.log(`SKIP     ${skip.eventTicker} ${skip.company}: ${skip.reason}`);
+        }
+      }
+      console.log(`\n${plan.jobs.length} events missing transcripts`);
+      break;
+    }
+
+    case 'enqueue': {
+      const queue = new ScrapeJobQueue(queuePath);
+      let jobs: NewScrapeJob[];
+
+      const eventTicker = getArg('event-ticker');
+      if (eventTicker) {
+        // A single event given by hand
+        const ticker = getArg('ticker');
+        const quarter = getArg('quarter');
+        const year = getArg('year');
+        if (!ticker || !quarter || !year) {
+          console.error('--event-ticker needs --ticker, --quarter and --year');
+          process.exit(1);
+        }
+        jobs = [
+          {
+            eventTicker,
+            company: company || ticker,
+            ticker: ticker.toUpperCase(),
+            quarter: quarter.toUpperCase(),
+            fiscalYear: parseInt(year, 10),
+            url: getArg('url') || buildSeekingAlphaUrl(ticker),
+            expectedDate: getArg('expected-date'),
+          },
+        ];
+      } else {
+        jobs = (await planFromDatabase(company)).jobs;
+      }
+
+      if (limitArg) {
+        jobs = jobs.slice(0, parseInt(limitArg, 10));
+      }
+
+      const added = queue.enqueue(jobs);
+      for (const job of added) {
+        console.log(`QUEUED   ${describeJob(job)}`);
+      }
+      console.log(
+        `\nQueued ${added.length} jobs (${jobs.length - added.length} already queued)`
+      );
+      printProgress(queue);
+      break;
+    }
+
+    case 'run': {
+      const queue = new ScrapeJobQueue(queuePath);
+      if (queue.isPaused()) {
+        console.log('Queue is paused; run `resume` first');
+        printProgress(queue);
+        break;
+      }
+
+      const scraper = new TranscriptScraper({ headless: !verbose });
+      const auditLogger = new AuditLogger({ console: verbose });
+
+      let interrupted = false;
+      process.on('SIGINT', () => {
+        if (interrupted) process.exit(130);
+        interrupted = true;
+        console.log('\nStopping after the current job (Ctrl+C again to quit now)...');
+      });
+
+      try {
+        const summary = await runScrapeQueue(
+          queue,
+          createRunnerDeps(scraper, auditLogger, verbose),
+          {
+            maxJobs: limitArg ? parseInt(limitArg, 10) : undefined,
+            shouldStop: () => interrupted,
+            onJobDone: (job) => {
+              const detail =
+                job.status === 'skipped'
+                  ? job.skipReason
+                  : job.errors[job.errors.length - 1]?.message;
+              console.log(
+                `${job.status.toUpperCase().padEnd(9)} ${describeJob(job)}` +
+                  (detail && job.status !== 'succeeded' ? ` - ${detail}` : '')
+              );
+            },
+          }
+        );
+
+        console.log('\n=== Batch Run Complete ===');
+        console.log(`Processed: ${summary.processed}`);
+        console.log(`Succeeded: ${summary.succeeded}`);
+        console.log(`Failed: ${summary.failed}`);
+        console.log(`Retrying later: ${summary.retrying}`);
+        console.log(`Skipped: ${summary.skipped}`);
+        console.log(`Stopped: ${summary.stoppedBecause}`);
+        printProgress(queue);
+      } finally {
+        await scraper.close();
+      }
+      break;
+    }
+
+    case 'status': {
+      const queue = new ScrapeJobQueue(queuePath);
+      printProgress(queue);
+      console.log(
+        formatRateLimitBudget(new TranscriptScraper({ storeRawHtml: false }).getBudget())
+      );
+      if (verbose) {
+        for (const job of queue.getJobs()) {
+          console.log(`  ${job.status.padEnd(9)} ${describeJob(job)}`);
+        }
+      }
+      break;
+    }
+
+    case 'failed': {
+      printFailed(new ScrapeJobQueue(queuePath).getJobs('failed'));
+      break;
+    }
+
+    case 'retry': {
+      const queue = new ScrapeJobQueue(queuePath);
+      const jobId = getArg('job');
+      const retried = queue.retry(jobId ? [jobId] : undefined);
+      console.log(`Re-queued ${retried.length} failed jobs`);
+      break;
+    }
+
+    case 'pause': {
+      const queue = new ScrapeJobQueue(queuePath, { recover: false });
+      queue.pause(getArg('reason'));
+      console.log('Queue paused; a running batch stops after its current job');
+      break;
+    }
+
+    case 'resume': {
+      const queue = new ScrapeJobQueue(queuePath, { recover: false });
+      queue.resume();
+      console.log('Queue resumed');
+      break;
+    }
+
+    default:
+      console.log(`
+Usage: bun run scripts/scraping/batch.ts <command> [options]
+
+Commands:
+  plan                List events that still need a transcript
+  enqueue             Queue those events (or one event with --event-ticker)
+  run                 Scrape queued jobs until the queue is empty, paused,
+                      or the daily request cap is reached
+  status              Show queue progress and the remaining daily request quota
+                      (--verbose lists every job)
+  failed              Show failed jobs and their errors
+  retry               Re-queue failed jobs (all, or --job <event-ticker>)
+  pause / resume      Pause or resume the queue (works while a run is active)
+
+Options:
+  --queue <path>      Queue file (default: ${DEFAULT_QUEUE_PATH})
+  --company <name>    Only plan/enqueue events for this company
+  --limit <n>         Enqueue or run at most n jobs
+  --event-ticker <id> With --ticker, --quarter, --year [--url] [--expected-date]:
+                      enqueue a single event
+  --reason <text>     Note stored with pause
+  --verbose           Show detailed output
+      `);
+      if (command) process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
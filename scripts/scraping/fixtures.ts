@@ -0,0 +1,282 @@
+/**
+ * Parser Fixture Regression Suite
+ *
+ * Runs parseTranscriptHtml over the HTML snapshots checked in under
+ * tests/fixtures/raw-html/ and compares each result with a golden JSON file.
+ * A page the scraper stored in raw-html/ becomes a fixture by copying it there.
+ * A Seeking Alpha layout change that breaks extraction shows up as a field
+ * diff here before it shows up as a failed scrape.
+ *
+ * Usage:
+ *   bun run scripts/scraping/fixtures.ts            # Check against goldens
+ *   bun run scripts/scraping/fixtures.ts --update   # Rewrite goldens
+ */
+
+import fs from 'fs';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import { parseTranscriptHtml } from './parser';
+import { generateContentHash } from './utils/hashUtils';
+import { type FieldSources } from './validators/types';
+
+export const DEFAULT_FIXTURE_DIR = './tests/fixtures/raw-html';
+
+// Goldens live beside the snapshots so both move together
+const GOLDEN_SUBDIR = 'goldens';
+
+// Used when a snapshot has no canonical URL (block pages, stripped HTML)
+const FALLBACK_SOURCE_URL = 'https://seekingalpha.com/';
+
+/**
+ * The parts of a parse result a golden file pins down
+ */
+export interface FixtureSnapshot {
+  sourceUrl: string;
+  success: boolean;
+  title: string | null;
+  companyName: string | null;
+  ticker: string | null;
+  quarter: string | null;
+  fiscalYear: number | null;
+  callDate: string | null;
+  wordCount: number;
+  contentHash: string | null;
+  selectorsFound: string[];
+  selectorsMissing: string[];
+  // Which strategy produced each field; a switch to a fallback is a diff
+  fieldSources: FieldSources;
+}
+
+export interface FieldDiff {
+  field: keyof FixtureSnapshot;
+  expected: unknown;
+  actual: unknown;
+}
+
+/**
+ * pass: matches its golden
+ * fail: differs from its golden
+ * missing: no golden yet (run with --update)
+ * updated: golden written in update mode
+ */
+export type FixtureStatus = 'pass' | 'fail' | 'missing' | 'updated';
+
+export interface FixtureResult {
+  fixture: string;
+  status: FixtureStatus;
+  diffs: FieldDiff[];
+}
+
+export interface FixtureSuiteReport {
+  results: FixtureResult[];
+  // Goldens whose snapshot has been deleted
+  orphanedGoldens: string[];
+  passed: number;
+  failed: number;
+}
+
+export interface FixtureSuiteOptions {
+  dir?: string;
+  update?: boolean;
+  // Only run fixtures whose file name contains this
+  only?: string;
+}
+
+/**
+ * Snapshot files in a fixture directory, sorted by name
+ */
+export function listFixtures(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith('.html'))
+    .sort();
+}
+
+export function goldenPath(dir: string, fixture: string): string {
+  return path.join(dir, GOLDEN_SUBDIR, fixture.replace(/\.html$/, '.json'));
+}
+
+/**
+ * URL the snapshot was fetched from, read from its canonical link
+ */
+export function fixtureSourceUrl(html: string): string {
+  const $ = cheerio.load(html);
+  return (
+    $('link[rel="canonical"]').attr('href') ||
+    $('meta[property="og:url"]').attr('content') ||
+    FALLBACK_SOURCE_URL
+  );
+}
+
+/**
+ * Parse a snapshot and keep the fields a golden compares
+ */
+export function snapshotFixture(html: string, sourceUrl: string): FixtureSnapshot {
+  const result = parseTranscriptHtml(html, sourceUrl);
+  const data = result.data;
+
+  return {
+    sourceUrl,
+    success: result.success,
+    title: data?.title ?? null,
+    companyName: data?.companyName ?? null,
+    ticker: data?.ticker ?? null,
+    quarter: data?.quarter ?? null,
+    fiscalYear: data?.fiscalYear ?? null,
+    callDate: data?.callDate ?? null,
+    wordCount: data?.wordCount ?? 0,
+    contentHash: data?.content ? generateContentHash(data.content) : null,
+    selectorsFound: [...result.selectors.found].sort(),
+    selectorsMissing: [...result.selectors.missing].sort(),
+    fieldSources: data?.fieldSources ?? {},
+  };
+}
+
+/**
+ * Fields that differ between a golden and a fresh parse
+ */
+export function diffSnapshots(
+  expected: FixtureSnapshot,
+  actual: FixtureSnapshot
+): FieldDiff[] {
+  const fields = Object.keys(actual) as Array<keyof FixtureSnapshot>;
+  return fields
+    .filter((field) => JSON.stringify(expected[field]) !== JSON.stringify(actual[field]))
+    .map((field) => ({ field, expected: expected[field], actual: actual[field] }));
+}
+
+/**
+ * Check every snapshot against its golden, or rewrite the goldens in update mode
+ */
+export function runFixtureSuite(options: FixtureSuiteOptions = {}): FixtureSuiteReport {
+  const dir = options.dir || DEFAULT_FIXTURE_DIR;
+  const fixtures = listFixtures(dir).filter(
+    (name) => !options.only || name.includes(options.only)
+  );
+  const results: FixtureResult[] = [];
+
+  for (const fixture of fixtures) {
+    const html = fs.readFileSync(path.join(dir, fixture), 'utf8');
+    const file = goldenPath(dir, fixture);
+    const golden: FixtureSnapshot | null = fs.existsSync(file)
+      ? JSON.parse(fs.readFileSync(file, 'utf8'))
+      : null;
+
+    // Keep the URL a golden was recorded with so URL-derived fields stay stable
+    const actual = snapshotFixture(html, golden?.sourceUrl || fixtureSourceUrl(html));
+
+    if (options.update) {
+      const diffs = golden ? diffSnapshots(golden, actual) : [];
+      if (!golden || diffs.length > 0) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, `${JSON.stringify(actual, null, 2)}\n`, 'utf8');
+        results.push({ fixture, status: 'updated', diffs });
+      } else {
+        results.push({ fixture, status: 'pass', diffs });
+      }
+      continue;
+    }
+
+    if (!golden) {
+      results.push({ fixture, status: 'missing', diffs: [] });
+      continue;
+    }
+
+    const diffs = diffSnapshots(golden, actual);
+    results.push({ fixture, status: diffs.length === 0 ? 'pass' : 'fail', diffs });
+  }
+
+  const goldenDir = path.join(dir, GOLDEN_SUBDIR);
+  const orphanedGoldens = options.only
+    ? []
+    : fs.existsSync(goldenDir)
+      ? fs
+          .readdirSync(goldenDir)
+          .filter((name) => name.endsWith('.json'))
+          .filter((name) => !fixtures.includes(name.replace(/\.json$/, '.html')))
+          .sort()
+      : [];
+
+  return {
+    results,
+    orphanedGoldens,
+    passed: results.filter((r) => r.status === 'pass' || r.status === 'updated').length,
+    failed: results.filter((r) => r.status === 'fail' || r.status === 'missing').length,
+  };
+}
+
+function formatValue(value: unknown): string {
+  // Fields added since a golden was recorded are undefined there
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/**
+ * Human-readable diff report
+ */
+export function formatFixtureReport(report: FixtureSuiteReport): string {
+  const lines: string[] = [];
+
+  for (const result of report.results) {
+    lines.push(`${result.status.toUpperCase().padEnd(8)} ${result.fixture}`);
+    for (const diff of result.diffs) {
+      lines.push(`  ${diff.field}:`);
+      lines.push(`    - ${formatValue(diff.expected)}`);
+      lines.push(`    + ${formatValue(diff.actual)}`);
+    }
+    if (result.status === 'missing') {
+      lines.push('  No golden file; run with --update to record one');
+    }
+  }
+
+  for (const golden of report.orphanedGoldens) {
+    lines.push(`ORPHANED ${golden} (snapshot no longer exists)`);
+  }
+
+  lines.push('');
+  lines.push(
+    `${report.results.length} fixtures: ${report.passed} passed, ${report.failed} failed`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * CLI Entry Point
+ */
+function main() {
+  const args = process.argv.slice(2);
+
+  const getArg = (name: string): string | undefined => {
+    const index = args.indexOf(`--${name}`);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+
+  if (args.includes('--help')) {
+    console.log(`
+Usage: bun run scripts/scraping/fixtures.ts [options]
+
+Options:
+  --dir <path>     Snapshot directory (default: ${DEFAULT_FIXTURE_DIR})
+  --only <text>    Only run fixtures whose file name contains <text>
+  --update         Rewrite golden files from the current parser output
+    `);
+    return;
+  }
+
+  const report = runFixtureSuite({
+    dir: getArg('dir'),
+    only: getArg('only'),
+    update: args.includes('--update'),
+  });
+
+  console.log(formatFixtureReport(report));
+  if (report.failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main();
+}
@@ -1,7 +1,8 @@
 /**
- * Seeking Alpha Transcript Scraping Module
+ * Earnings Call Transcript Scraping Module
  *
- * Main entry point for scraping earnings call transcripts.
+ * Main entry point for scraping earnings call transcripts from Seeking Alpha,
+ * investor-relations pages and press-release documents.
  * Provides a complete pipeline: scrape -> parse -> validate -> audit -> save.
  *
  * Usage:
@@ -29,9 +30,16 @@ export {
   type ParseResult,
 } from './parser';
 
+// Transcript sources
+export * from './sources';
+
+// Batch job queue
+export * from './queue';
+
 // Scraper
 export {
   TranscriptScraper,
+  RateLimiter,
   buildTranscriptUrl,
   scraper,
   type ScraperConfig,
@@ -45,7 +53,8 @@ export {
   type CombinedValidationResult,
 } from './validators/types';
 
-import { TranscriptScraper, type ScrapeResult } from './scraper';
+import { TranscriptScraper, buildTranscriptUrl, type ScrapeResult } from './scraper';
+import { getTranscriptSourceById, type TranscriptSourceId } from './sources';
 import {
   runValidationPipeline,
   type CombinedValidationResult,
@@ -54,12 +63,19 @@ import {
   buildCrossReferenceFromTranscripts,
   formatValidationResult,
 } from './validators';
-import { AuditLogger, createAuditLogEntry, type AuditLogEntry } from './audit';
+import {
+  AuditLogger,
+  createAuditLogEntry,
+  formatRateLimitBudget,
+  type AuditLogEntry,
+} from './audit';
 import { generateContentHash, generateRawHtmlHash } from './utils/hashUtils';
 import { parseDate } from './utils/dateUtils';
+import { countMentions } from '../../src/lib/utils/mentionMatcher';
 import {
   getTranscriptsForEvent,
   saveTranscript,
+  saveTranscriptSegments,
   updateEarningsEventDate,
 } from '../../server/lib/dynamodb';
 
@@ -73,6 +89,7 @@ export interface PipelineResult {
   auditEntry: AuditLogEntry | null;
   savedTranscriptId: string | null;
   shouldSave: boolean;
+  mentionCounts: Record<string, number> | null;
   errors: string[];
 }
 
@@ -87,8 +104,10 @@ export interface PipelineConfig {
   crossRef: CrossReferenceData;
 
   // Options
+  source?: TranscriptSourceId; // Force a transcript source instead of matching the URL
   dryRun?: boolean; // Don't save to DB
   verbose?: boolean;
+  trackedWords?: string[]; // MENTION words to count in the scraped transcript
   saveHandler?: (params: {
     extracted: ExtractedTranscriptData;
     validation: CombinedValidationResult;
@@ -122,12 +141,20 @@ export async function runScrapingPipeline(
 
   // Step 1: Scrape
   console.log(`\n=== Scraping: ${url} ===\n`);
-  const scrapeResult = await scraperInstance.scrapeTranscript(url);
+  const scrapeResult = config.source
+    ? await scraperInstance.scrapeTranscript(url, 0, getTranscriptSourceById(config.source))
+    : await scraperInstance.scrapeTranscript(url);
 
   if (!scrapeResult.success || !scrapeResult.data) {
     errors.push(...scrapeResult.errors);
     console.log('Scraping failed:', scrapeResult.errors.join('; '));
 
+    // No audit entry is written for a failed scrape, but a page the parser
+    // could not read is exactly what selector drift tracking needs to count
+    if (scrapeResult.selectors) {
+      logger.recordSelectors(scrapeResult.selectors, scrapeResult.source);
+    }
+
     return {
       success: false,
       scrapeResult,
@@ -135,16 +162,31 @@ export async function runScrapingPipeline(
       auditEntry: null,
       savedTranscriptId: null,
       shouldSave: false,
+      mentionCounts: null,
       errors,
     };
   }
 
   console.log('Scraping successful');
+  console.log(`  Source: ${scrapeResult.source}`);
   console.log(`  Company: ${scrapeResult.data.companyName}`);
   console.log(`  Ticker: ${scrapeResult.data.ticker}`);
   console.log(`  Quarter: ${scrapeResult.data.quarter} ${scrapeResult.data.fiscalYear}`);
   console.log(`  Words: ${scrapeResult.data.wordCount}`);
 
+  // Count tracked MENTION words using the same rules as the app
+  let mentionCounts: Record<string, number> | null = null;
+  if (config.trackedWords && config.trackedWords.length > 0) {
+    const content = scrapeResult.data.content || '';
+    mentionCounts = Object.fromEntries(
+      config.trackedWords.map((word) => [word, countMentions(content, word)])
+    );
+    console.log('  Mentions:');
+    for (const [word, count] of Object.entries(mentionCounts)) {
+      console.log(`    ${word}: ${count}`);
+    }
+  }
+
   // Step 2: Validate
   console.log('\n=== Running Validation ===\n');
   const validationResult = runValidationPipeline(
@@ -177,7 +219,10 @@ export async function runScrapingPipeline(
       callDate: scrapeResult.data.callDate,
       content: scrapeResult.data.content,
       participants: scrapeResult.data.participants,
+      source: scrapeResult.data.source,
+      fieldSources: scrapeResult.data.fieldSources,
     },
+    selectors: scrapeResult.selectors,
     expectedData: {
       companyName: config.expected.companyName,
       ticker: config.expected.ticker,
@@ -240,10 +285,94 @@ export async function runScrapingPipeline(
     auditEntry,
     savedTranscriptId,
     shouldSave,
+    mentionCounts,
     errors,
   };
 }
 
+/**
+ * Save handler that persists a validated transcript to DynamoDB
+ *
+ * Stores the transcript and its speaker turns under the event, and marks the
+ * event date verified when the transcript was auto-approved.
+ */
+export function createTranscriptSaveHandler(
+  eventTicker: string | undefined,
+  expected: ExpectedTranscriptData
+): NonNullable<PipelineConfig['saveHandler']> {
+  return async ({ extracted, validation, audit, contentHash, rawHtmlHash }) => {
+    if (!eventTicker) {
+      throw new Error('Missing --event-ticker (required for --save)');
+    }
+
+    const parsedDate = extracted.callDate ? parseDate(extracted.callDate) : null;
+    if (!parsedDate?.success || !parsedDate.date) {
+      throw new Error('Call date could not be parsed; refusing to save transcript');
+    }
+
+    const normalizedDate = parsedDate.date.toISOString().split('T')[0];
+    const verificationStatus =
+      validation.autoDecision === 'approve' ? 'verified' : 'pending';
+
+    let sourceDomain: string | undefined;
+    try {
+      sourceDomain = new URL(extracted.sourceUrl).hostname;
+    } catch {
+      sourceDomain = undefined;
+    }
+
+    const transcript = await saveTranscript({
+      eventTicker,
+      company: expected.companyName,
+      date: normalizedDate,
+      quarter: extracted.quarter || expected.quarter,
+      year: extracted.fiscalYear || expected.fiscalYear,
+      content: extracted.content || '',
+      wordCount: extracted.wordCount,
+      verificationStatus,
+      verifiedAt:
+        verificationStatus === 'verified' ? new Date().toISOString() : undefined,
+      verifiedBy: verificationStatus === 'verified' ? 'auto' : undefined,
+      sourceUrl: extracted.sourceUrl,
+      sourceTitle: extracted.title || undefined,
+      sourceDate: extracted.callDate || undefined,
+      sourceTicker: extracted.ticker || undefined,
+      sourceDomain,
+      parsedCompany: extracted.companyName || undefined,
+      parsedQuarter: extracted.quarter || undefined,
+      parsedEarningsDate: parsedDate.date.toISOString(),
+      contentHash: contentHash || undefined,
+      rawHtmlHash: rawHtmlHash || undefined,
+      validationDecision: validation.autoDecision,
+      validationConfidence: validation.confidence,
+      validationReasons: validation.reasons,
+      auditId: audit.auditId,
+      ...(extracted.fieldSources && { fieldSources: extracted.fieldSources }),
+    });
+
+    // Saved content is flattened, so keep the speaker turns alongside it
+    if (extracted.segmented && extracted.segmented.segments.length > 0) {
+      await saveTranscriptSegments({
+        eventTicker,
+        date: normalizedDate,
+        participants: extracted.segmented.participants,
+        segments: extracted.segmented.segments,
+      });
+    }
+
+    if (verificationStatus === 'verified') {
+      await updateEarningsEventDate(expected.companyName, eventTicker, {
+        eventDate: parsedDate.date.toISOString(),
+        source: 'transcript',
+        verified: true,
+        confidence: validation.confidence,
+      });
+    }
+
+    return { transcriptId: transcript.SK, verificationStatus };
+  };
+}
+
 /**
  * CLI Entry Point
  */
@@ -263,10 +392,19 @@ async function main() {
   const company = getArg('company');
   const eventTicker = getArg('event-ticker');
   const expectedDateArg = getArg('expected-date');
+  const wordsArg = getArg('words');
+  const sourceArg = getArg('source');
   const save = args.includes('--save');
   const dryRun = args.includes('--dry-run');
   const verbose = args.includes('--verbose');
 
+  // Report remaining quota without scraping
+  if (args.includes('--budget')) {
+    const budget = new TranscriptScraper({ storeRawHtml: false }).getBudget();
+    console.log(formatRateLimitBudget(budget));
+    return;
+  }
+
   if (!url && (!ticker || !quarter || !year)) {
     console.log(`
 Usage: bun run scripts/scraping/index.ts [options]
@@ -279,20 +417,30 @@ Options:
   --ticker <symbol>   Stock ticker (e.g., AAPL)
   --quarter <Q1-Q4>   Fiscal quarter
   --year <YYYY>       Fiscal year
+  --words <list>      Comma-separated MENTION words to count
+  --source <id>       Force a transcript source (seeking-alpha, investor-relations,
+                      press-release); otherwise picked from the URL
   --save              Persist validated transcript to DynamoDB
   --dry-run           Don't save to database
   --verbose           Show detailed output
+  --budget            Show remaining daily request quota and exit
 
 Examples:
   bun run scripts/scraping/index.ts --url https://seekingalpha.com/article/...
   bun run scripts/scraping/index.ts --ticker AAPL --quarter Q4 --year 2025
+  bun run scripts/scraping/index.ts --url https://investor.example.com/q4-2025-call.pdf
+  bun run scripts/scraping/index.ts --budget
     `);
     process.exit(1);
   }
 
-  // Build URL if not provided
-  const targetUrl =
-    url || `https://seekingalpha.com/symbol/${ticker}/earnings/transcripts`;
+  if (sourceArg && !getTranscriptSourceById(sourceArg)) {
+    console.error(`Unknown transcript source: ${sourceArg}`);
+    process.exit(1);
+  }
+
+  // Build URL if not provided (only Seeking Alpha has predictable URLs)
+  const targetUrl = url || buildTranscriptUrl(ticker!);
 
   // Build expected data
   const expectedDate = expectedDateArg ? parseDate(expectedDateArg) : null;
@@ -320,82 +468,23 @@ Examples:
   const scraper = new TranscriptScraper({ headless: !verbose });
 
   try {
-    await scraper.initialize();
-
+    // The browser starts on the first page that needs it
     const result = await runScrapingPipeline(
       targetUrl,
       {
         expected,
         crossRef,
+        source: sourceArg as TranscriptSourceId | undefined,
         dryRun: dryRun || !save,
         verbose,
+        trackedWords: wordsArg
+          ? wordsArg
+              .split(',')
+              .map((w) => w.trim())
+              .filter(Boolean)
+          : undefined,
         saveHandler: save
-          ? async ({ extracted, validation, audit, contentHash, rawHtmlHash }) => {
-              if (!eventTicker) {
-                throw new Error('Missing --event-ticker (required for --save)');
-              }
-
-              const parsedDate = extracted.callDate
-                ? parseDate(extracted.callDate)
-                : null;
-              if (!parsedDate?.success || !parsedDate.date) {
-                throw new Error(
-                  'Call date could not be parsed; refusing to save transcript'
-                );
-              }
-
-              const normalizedDate = parsedDate.date.toISOString().split('T')[0];
-              const verificationStatus =
-                validation.autoDecision === 'approve' ? 'verified' : 'pending';
-
-              let sourceDomain: string | undefined;
-              try {
-                sourceDomain = new URL(extracted.sourceUrl).hostname;
-              } catch {
-                sourceDomain = undefined;
-              }
-
-              const transcript = await saveTranscript({
-                eventTicker,
-                company: expected.companyName,
-                date: normalizedDate,
-                quarter: extracted.quarter || expected.quarter,
-                year: extracted.fiscalYear || expected.fiscalYear,
-                content: extracted.content || '',
-                wordCount: extracted.wordCount,
-                verificationStatus,
-                verifiedAt:
-                  verificationStatus === 'verified'
-                    ? new Date().toISOString()
-                    : undefined,
-                verifiedBy: verificationStatus === 'verified' ? 'auto' : undefined,
-                sourceUrl: extracted.sourceUrl,
-                sourceTitle: extracted.title || undefined,
-                sourceDate: extracted.callDate || undefined,
-                sourceTicker: extracted.ticker || undefined,
-                sourceDomain,
-                parsedCompany: extracted.companyName || undefined,
-                parsedQuarter: extracted.quarter || undefined,
-                parsedEarningsDate: parsedDate.date.toISOString(),
-                contentHash: contentHash || undefined,
-                rawHtmlHash: rawHtmlHash || undefined,
-                validationDecision: validation.autoDecision,
-                validationConfidence: validation.confidence,
-                validationReasons: validation.reasons,
-                auditId: audit.auditId,
-              });
-
-              if (verificationStatus === 'verified') {
-                await updateEarningsEventDate(expected.companyName, eventTicker, {
-                  eventDate: parsedDate.date.toISOString(),
-                  source: 'transcript',
-                  verified: true,
-                  confidence: validation.confidence,
-                });
-              }
-
-              return { transcriptId: transcript.SK, verificationStatus };
-            }
+          ? createTranscriptSaveHandler(eventTicker, expected)
           : undefined,
       },
       scraper
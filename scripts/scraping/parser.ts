@@ -9,9 +9,18 @@
  */
 
 import * as cheerio from 'cheerio';
-import { type ExtractedTranscriptData } from './validators/types';
+import {
+  type ExtractedTranscriptData,
+  type ExtractionStrategy,
+  type FieldSources,
+} from './validators/types';
 import { calculateWordCount } from './validators/extraction';
 import { generateRawHtmlHash, generateContentHash } from './utils/hashUtils';
+import {
+  segmentTranscript,
+  formatParticipant,
+  type SegmentedTranscript,
+} from '../../src/lib/utils/transcriptSegments';
 
 /**
  * CSS Selectors for Seeking Alpha transcript pages
@@ -38,8 +47,17 @@ const SELECTORS = {
 
   // Company info
   companyName: '[data-test-id="post-title"], .article-title',
+
+  // Text blocks used to split the transcript into speaker turns
+  transcriptBlocks: 'p, h2, h3, h4, li',
 };
 
+// Schema.org types whose JSON-LD describes the article itself
+const ARTICLE_JSON_LD_TYPES = ['Article', 'NewsArticle', 'ReportageNewsArticle'];
+
+// Smallest paragraph block the text-density fallback will treat as the body
+const MIN_DENSE_BLOCK_WORDS = 200;
+
 /**
  * Parse result with extraction metadata
  */
@@ -80,60 +98,66 @@ export function parseTranscriptHtml(html: string, sourceUrl: string): ParseResul
   const $ = cheerio.load(html);
   const extractedAt = new Date().toISOString();
   const rawHtmlHash = generateRawHtmlHash(html);
+  const fieldSources: FieldSources = {};
+  const jsonLd = readArticleJsonLd($);
 
   // ===== EXTRACT TITLE =====
-  let title: string | null = null;
+  // Ranked: article heading, JSON-LD headline, OpenGraph title, <title> tag
+  const titleCandidates: Array<{ text: string; strategy: ExtractionStrategy }> = [];
   const titleEl = $(SELECTORS.articleTitle).first();
   if (titleEl.length > 0) {
-    title = titleEl.text().trim();
+    titleCandidates.push({ text: titleEl.text().trim(), strategy: 'selector' });
     foundSelectors.push('articleTitle');
   } else {
-    // Fallback: try document title
-    title = $('title').text().trim().split('|')[0].trim() || null;
-    if (title) {
-      warnings.push('Used fallback title extraction from <title> tag');
-    } else {
-      missingSelectors.push('articleTitle');
+    missingSelectors.push('articleTitle');
+  }
+  if (jsonLd.headline) {
+    titleCandidates.push({ text: jsonLd.headline, strategy: 'json-ld' });
+  }
+  const ogTitle = stripSiteName($('meta[property="og:title"]').attr('content') || '');
+  if (ogTitle) {
+    titleCandidates.push({ text: ogTitle, strategy: 'opengraph' });
+  }
+  const documentTitle = stripSiteName($('title').text());
+  if (documentTitle) {
+    titleCandidates.push({ text: documentTitle, strategy: 'title-tag' });
+  }
+
+  const titleSource = titleCandidates.find((candidate) => candidate.text) || null;
+  const title = titleSource ? titleSource.text : null;
+  if (titleSource) {
+    fieldSources.title = titleSource.strategy;
+    if (titleSource.strategy !== 'selector') {
+      warnings.push(`Used fallback title extraction from ${titleSource.strategy}`);
     }
   }
 
   // ===== EXTRACT COMPANY NAME AND TICKER FROM TITLE =====
+  // The first title candidate with the full pattern wins; otherwise the best partial
   let companyName: string | null = null;
   let ticker: string | null = null;
   let quarter: string | null = null;
   let fiscalYear: number | null = null;
 
-  if (title) {
-    // Pattern: "Company Name (TICKER) Q1 2025 Earnings Call Transcript"
-    const titlePattern = /^(.+?)\s*\(([A-Z]{1,5}(?:\.[A-Z])?)\)\s*(Q[1-4])\s*(\d{4})/i;
-    const titleMatch = title.match(titlePattern);
-
-    if (titleMatch) {
-      companyName = titleMatch[1].trim();
-      ticker = titleMatch[2].toUpperCase();
-      quarter = titleMatch[3].toUpperCase();
-      fiscalYear = parseInt(titleMatch[4], 10);
-    } else {
-      // Try alternative patterns
-      // Pattern: "TICKER Q1 2025 Earnings Call"
-      const altPattern = /^([A-Z]{1,5})\s*(Q[1-4])\s*(\d{4})/i;
-      const altMatch = title.match(altPattern);
-      if (altMatch) {
-        ticker = altMatch[1].toUpperCase();
-        quarter = altMatch[2].toUpperCase();
-        fiscalYear = parseInt(altMatch[3], 10);
-        warnings.push('Company name not found in title, only ticker');
-      }
-
-      // Try to extract quarter and year separately
-      if (!quarter) {
-        const quarterPattern = /Q([1-4])\s*(?:FY)?(\d{4})/i;
-        const quarterMatch = title.match(quarterPattern);
-        if (quarterMatch) {
-          quarter = `Q${quarterMatch[1]}`;
-          fiscalYear = parseInt(quarterMatch[2], 10);
-        }
-      }
+  const titleMatches = titleCandidates
+    .map((candidate) => ({ ...matchTitle(candidate.text), strategy: candidate.strategy }))
+    .filter((match) => match.quarter || match.ticker);
+  const titleMatch =
+    titleMatches.find((match) => match.companyName && match.ticker) ||
+    titleMatches[0] ||
+    null;
+
+  if (titleMatch) {
+    companyName = titleMatch.companyName;
+    ticker = titleMatch.ticker;
+    quarter = titleMatch.quarter;
+    fiscalYear = titleMatch.fiscalYear;
+    if (companyName) fieldSources.companyName = titleMatch.strategy;
+    if (ticker) fieldSources.ticker = titleMatch.strategy;
+    if (quarter) fieldSources.quarter = titleMatch.strategy;
+    if (fiscalYear) fieldSources.fiscalYear = titleMatch.strategy;
+    if (ticker && !companyName) {
+      warnings.push('Company name not found in title, only ticker');
     }
   }
 
@@ -144,6 +168,7 @@ export function parseTranscriptHtml(html: string, sourceUrl: string): ParseResul
     const urlMatch = sourceUrl.match(urlPattern);
     if (urlMatch) {
       ticker = urlMatch[1].toUpperCase();
+      fieldSources.ticker = 'url';
       warnings.push('Ticker extracted from URL, not page content');
     }
   }
@@ -158,6 +183,7 @@ export function parseTranscriptHtml(html: string, sourceUrl: string): ParseResul
         .replace(/[\(\)]/g, '');
       if (/^[A-Z]{1,5}$/i.test(tickerText)) {
         ticker = tickerText.toUpperCase();
+        fieldSources.ticker = 'selector';
         foundSelectors.push('ticker');
       }
     } else {
@@ -166,20 +192,31 @@ export function parseTranscriptHtml(html: string, sourceUrl: string): ParseResul
   }
 
   // ===== EXTRACT CALL DATE =====
+  // Ranked: datetime attribute, JSON-LD, OpenGraph, date element text, body text
   let callDate: string | null = null;
   let callTime: string | null = null;
 
   const dateEl = $(SELECTORS.publishDate).first();
+  const datetime = dateEl.attr('datetime');
+  const ogDate = $('meta[property="article:published_time"]').attr('content');
   if (dateEl.length > 0) {
-    // Try datetime attribute first
-    const datetime = dateEl.attr('datetime');
-    if (datetime) {
-      callDate = datetime;
-      foundSelectors.push('publishDate');
-    } else {
-      // Parse text content
-      callDate = dateEl.text().trim();
-    }
+    foundSelectors.push('publishDate');
+  } else {
+    missingSelectors.push('publishDate');
+  }
+
+  if (datetime) {
+    callDate = datetime;
+    fieldSources.callDate = 'selector';
+  } else if (jsonLd.datePublished) {
+    callDate = jsonLd.datePublished;
+    fieldSources.callDate = 'json-ld';
+  } else if (ogDate) {
+    callDate = ogDate;
+    fieldSources.callDate = 'opengraph';
+  } else if (dateEl.length > 0 && dateEl.text().trim()) {
+    callDate = dateEl.text().trim();
+    fieldSources.callDate = 'selector';
   } else {
     // Try to find date in article
     const datePattern =
@@ -188,14 +225,16 @@ export function parseTranscriptHtml(html: string, sourceUrl: string): ParseResul
     const dateMatch = bodyText.match(datePattern);
     if (dateMatch) {
       callDate = dateMatch[0];
+      fieldSources.callDate = 'body-text';
       warnings.push('Date extracted from body text, not metadata');
-    } else {
-      missingSelectors.push('publishDate');
     }
   }
 
   // ===== EXTRACT TRANSCRIPT CONTENT =====
+  // Ranked: transcript/article containers, JSON-LD articleBody, article
+  // paragraphs, then the densest block of paragraph text on the page
   let content: string | null = null;
+  let segmented: SegmentedTranscript = { participants: [], segments: [] };
 
   // Try primary content selector
   let contentEl = $(SELECTORS.transcriptBody).first();
@@ -204,12 +243,25 @@ export function parseTranscriptHtml(html: string, sourceUrl: string): ParseResul
     contentEl = $(SELECTORS.articleBody).first();
   }
 
+  const paragraphs = $('article p, .article-content p')
+    .map((_, el) => $(el).text())
+    .get();
+  const densest = contentEl.length === 0 ? findDensestTextBlock($) : null;
+
   if (contentEl.length > 0) {
     // Remove scripts, styles, and navigation elements
     contentEl
       .find('script, style, nav, header, footer, .paywall, .ad, [data-test-id="paywall"]')
       .remove();
 
+    // Split into speaker turns before the text is flattened
+    const blocks = contentEl
+      .find(SELECTORS.transcriptBlocks)
+      .filter((_, el) => $(el).find(SELECTORS.transcriptBlocks).length === 0)
+      .map((_, el) => $(el).text())
+      .get();
+    segmented = segmentTranscript(blocks);
+
     // Get text content
     content = contentEl
       .text()
@@ -218,16 +270,27 @@ export function parseTranscriptHtml(html: string, sourceUrl: string): ParseResul
       .trim();
 
     foundSelectors.push('transcriptBody');
+    fieldSources.content = 'selector';
   } else {
-    // Fallback: try to get all paragraph text
-    const paragraphs = $('article p, .article-content p')
-      .map((_, el) => $(el).text())
-      .get();
-    if (paragraphs.length > 0) {
+    missingSelectors.push('transcriptBody');
+
+    if (jsonLd.articleBody) {
+      const blocks = jsonLd.articleBody.split(/\n+/);
+      content = blocks.join('\n\n');
+      segmented = segmentTranscript(blocks);
+      fieldSources.content = 'json-ld';
+      warnings.push('Content extracted from JSON-LD articleBody, not article body');
+    } else if (paragraphs.length > 0) {
       content = paragraphs.join('\n\n');
+      segmented = segmentTranscript(paragraphs);
+      fieldSources.content = 'paragraphs';
       warnings.push('Content extracted from paragraphs, not article body');
+    } else if (densest) {
+      content = densest.join('\n\n');
+      segmented = segmentTranscript(densest);
+      fieldSources.content = 'text-density';
+      warnings.push('Content extracted from the densest text block on the page');
     } else {
-      missingSelectors.push('transcriptBody');
       errors.push('Could not extract transcript content - selectors not found');
     }
   }
@@ -254,9 +317,17 @@ export function parseTranscriptHtml(html: string, sourceUrl: string): ParseResul
         }
       });
       foundSelectors.push('participantsSection');
+      fieldSources.participants = 'selector';
     }
   }
 
+  // SA usually lists participants as paragraphs rather than a <ul>
+  if (participants.length === 0 && segmented.participants.length > 0) {
+    participants.push(...segmented.participants.map(formatParticipant));
+    foundSelectors.push('participantsSection');
+    fieldSources.participants = 'speaker-turns';
+  }
+
   if (participants.length === 0) {
     // Try to find participants in content
     if (content) {
@@ -273,14 +344,20 @@ export function parseTranscriptHtml(html: string, sourceUrl: string): ParseResul
     }
 
     if (participants.length === 0) {
+      missingSelectors.push('participantsSection');
       warnings.push('Could not extract call participants');
     } else {
+      fieldSources.participants = 'body-text';
       warnings.push(
         'Participants extracted from content patterns, not dedicated section'
       );
     }
   }
 
+  if (content && segmented.segments.length === 0) {
+    warnings.push('Could not split transcript into speaker turns');
+  }
+
   // ===== CALCULATE WORD COUNT =====
   const wordCount = content ? calculateWordCount(content) : 0;
 
@@ -312,6 +389,8 @@ export function parseTranscriptHtml(html: string, sourceUrl: string): ParseResul
     participants,
     title,
     wordCount,
+    segmented,
+    fieldSources,
     sourceUrl,
     sourceTitle: title,
     rawHtml: html,
@@ -330,6 +409,131 @@ export function parseTranscriptHtml(html: string, sourceUrl: string): ParseResul
   };
 }
 
+interface ArticleJsonLd {
+  headline: string | null;
+  datePublished: string | null;
+  articleBody: string | null;
+}
+
+/**
+ * Headline, date and body from the page's schema.org Article JSON-LD
+ */
+function readArticleJsonLd($: cheerio.CheerioAPI): ArticleJsonLd {
+  const result: ArticleJsonLd = {
+    headline: null,
+    datePublished: null,
+    articleBody: null,
+  };
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse($(el).contents().text());
+    } catch {
+      return;
+    }
+
+    const nodes = (Array.isArray(parsed) ? parsed : [parsed]).flatMap((node) =>
+      node && typeof node === 'object' && Array.isArray(node['@graph'])
+        ? node['@graph']
+        : [node]
+    );
+    for (const node of nodes) {
+      if (!node || typeof node !== 'object') continue;
+      const types = ([] as unknown[]).concat(node['@type']);
+      if (!types.some((type) => ARTICLE_JSON_LD_TYPES.includes(String(type)))) continue;
+
+      result.headline ??= typeof node.headline === 'string' ? node.headline.trim() : null;
+      result.datePublished ??=
+        typeof node.datePublished === 'string' ? node.datePublished : null;
+      result.articleBody ??=
+        typeof node.articleBody === 'string' && node.articleBody.trim()
+          ? node.articleBody.trim()
+          : null;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Drop a trailing " | Seeking Alpha" style site name
+ */
+function stripSiteName(title: string): string {
+  return title.trim().split('|')[0].trim();
+}
+
+/**
+ * Company, ticker, quarter and year from a transcript title
+ */
+function matchTitle(title: string): {
+  companyName: string | null;
+  ticker: string | null;
+  quarter: string | null;
+  fiscalYear: number | null;
+} {
+  // Pattern: "Company Name (TICKER) Q1 2025 Earnings Call Transcript"
+  const titlePattern = /^(.+?)\s*\(([A-Z]{1,5}(?:\.[A-Z])?)\)\s*(Q[1-4])\s*(\d{4})/i;
+  const titleMatch = title.match(titlePattern);
+  if (titleMatch) {
+    return {
+      companyName: titleMatch[1].trim(),
+      ticker: titleMatch[2].toUpperCase(),
+      quarter: titleMatch[3].toUpperCase(),
+      fiscalYear: parseInt(titleMatch[4], 10),
+    };
+  }
+
+  // Pattern: "TICKER Q1 2025 Earnings Call"
+  const altPattern = /^([A-Z]{1,5})\s*(Q[1-4])\s*(\d{4})/i;
+  const altMatch = title.match(altPattern);
+  if (altMatch) {
+    return {
+      companyName: null,
+      ticker: altMatch[1].toUpperCase(),
+      quarter: altMatch[2].toUpperCase(),
+      fiscalYear: parseInt(altMatch[3], 10),
+    };
+  }
+
+  // Quarter and year on their own
+  const quarterPattern = /Q([1-4])\s*(?:FY)?(\d{4})/i;
+  const quarterMatch = title.match(quarterPattern);
+  return {
+    companyName: null,
+    ticker: null,
+    quarter: quarterMatch ? `Q${quarterMatch[1]}` : null,
+    fiscalYear: quarterMatch ? parseInt(quarterMatch[2], 10) : null,
+  };
+}
+
+/**
+ * Paragraphs of the page block holding the most paragraph text, ignoring
+ * link-heavy blocks such as navigation and related-article lists
+ */
+function findDensestTextBlock($: cheerio.CheerioAPI): string[] | null {
+  let best: string[] | null = null;
+  let bestWords = 0;
+
+  $('body p')
+    .parent()
+    .not('nav, header, footer, aside')
+    .each((_, el) => {
+      const paragraphs = $(el).children('p');
+      const text = paragraphs.text();
+      const linkText = paragraphs.find('a').text();
+      if (linkText.length > text.length / 2) return;
+
+      const words = text.split(/\s+/).filter(Boolean).length;
+      if (words > bestWords) {
+        bestWords = words;
+        best = paragraphs.map((_, p) => $(p).text()).get();
+      }
+    });
+
+  return bestWords >= MIN_DENSE_BLOCK_WORDS ? best : null;
+}
+
 /**
  * Check if HTML appears to be a Seeking Alpha transcript page
  */
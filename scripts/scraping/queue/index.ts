@@ -0,0 +1,32 @@
+/**
+ * Scrape Queue Module Index
+ *
+ * Exports the persistent batch scraping queue, planner and runner.
+ */
+
+export {
+  type ScrapeJob,
+  type ScrapeJobStatus,
+  type ScrapeJobError,
+  type NewScrapeJob,
+  type ScrapeQueueState,
+  type ScrapeQueueProgress,
+} from './types';
+
+export {
+  ScrapeJobQueue,
+  DEFAULT_QUEUE_PATH,
+  QUEUE_CONFIG,
+  QUEUE_LOCK_CONFIG,
+} from './jobQueue';
+
+export { planMissingTranscripts, type ScrapePlan, type PlannedSkip } from './planner';
+
+export {
+  runScrapeQueue,
+  type ScrapeJobOutcome,
+  type QueueRunnerDeps,
+  type QueueRunOptions,
+  type QueueRunSummary,
+  type QueueStopReason,
+} from './runner';
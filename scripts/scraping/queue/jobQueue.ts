@@ -0,0 +1,432 @@
+/**
+ * Persistent Scrape Job Queue
+ *
+ * Jobs and the pause flag live in one JSON file that is rewritten after every
+ * change. The batch CLI can enqueue, retry, pause or resume from another
+ * process while a run is in progress, so every save takes a lock file and
+ * merges with what is on disk instead of overwriting it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { isProcessRunning } from '../audit/rateLimitStore';
+import {
+  type ScrapeJob,
+  type NewScrapeJob,
+  type ScrapeQueueState,
+  type ScrapeQueueProgress,
+} from './types';
+
+export const DEFAULT_QUEUE_PATH = './scrape-queue.json';
+
+export const QUEUE_CONFIG = {
+  maxAttempts: 3,
+  // Doubles after each failed attempt
+  retryDelayMs: 15 * 60 * 1000,
+};
+
+export const QUEUE_LOCK_CONFIG = {
+  retryMs: 50,
+  timeoutMs: 10000,
+  // A lock older than this was left behind by a crashed process
+  staleMs: 30000,
+};
+
+function emptyState(): ScrapeQueueState {
+  return { version: 1, paused: false, jobs: [], updatedAt: new Date().toISOString() };
+}
+
+function touch(job: ScrapeJob): void {
+  job.revision = (job.revision ?? 0) + 1;
+  job.updatedAt = new Date().toISOString();
+}
+
+export class ScrapeJobQueue {
+  private state: ScrapeQueueState;
+
+  /**
+   * @param options.recover - Put back jobs left running by a dead process
+   *   (off for commands that only flip the pause flag)
+   */
+  constructor(
+    private filePath: string = DEFAULT_QUEUE_PATH,
+    options: { recover?: boolean } = {}
+  ) {
+    this.state = this.read() || emptyState();
+    if (options.recover ?? true) this.recoverInterrupted();
+  }
+
+  /**
+   * A job still marked running whose runner has exited was interrupted; it
+   * goes back to pending without using up its attempt. Jobs a live runner is
+   * working on are left alone.
+   */
+  private recoverInterrupted(): void {
+    let recovered = false;
+    for (const job of this.state.jobs) {
+      if (job.status !== 'running') continue;
+      if (job.runnerPid && isProcessRunning(job.runnerPid)) continue;
+      job.status = 'pending';
+      job.attempts = Math.max(0, job.attempts - 1);
+      delete job.runnerPid;
+      touch(job);
+      recovered = true;
+    }
+    if (recovered) this.save();
+  }
+
+  private read(): ScrapeQueueState | null {
+    if (!fs.existsSync(this.filePath)) return null;
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as ScrapeQueueState;
+  }
+
+  /**
+   * Write the queue while holding the lock, merged with the file on disk
+   *
+   * Jobs another process added are kept, and of two copies of a job the one
+   * with more changes wins. The pause flag comes from disk unless this save is the
+   * one setting it.
+   */
+  private save(options: { ownPause?: boolean } = {}): void {
+    this.withLock(() => {
+      const onDisk = this.read();
+      if (onDisk) this.merge(onDisk, options.ownPause ?? false);
+      this.write();
+    });
+  }
+
+  private withLock<T>(work: () => T): T {
+    this.lock();
+    try {
+      return work();
+    } finally {
+      this.unlock();
+    }
+  }
+
+  private merge(onDisk: ScrapeQueueState, ownPause: boolean): void {
+    const ours = new Map(this.state.jobs.map((job) => [job.id, job]));
+    const jobs = onDisk.jobs.map((theirs) => {
+      const mine = ours.get(theirs.id);
+      ours.delete(theirs.id);
+      return mine && (mine.revision ?? 0) >= (theirs.revision ?? 0) ? mine : theirs;
+    });
+    // Whatever is left was enqueued here and is not on disk yet
+    this.state.jobs = [...jobs, ...ours.values()];
+
+    if (!ownPause) {
+      this.state.paused = onDisk.paused;
+      this.state.pausedAt = onDisk.pausedAt;
+      this.state.pausedReason = onDisk.pausedReason;
+    }
+  }
+
+  private get lockPath(): string {
+    return `${this.filePath}.lock`;
+  }
+
+  private lock(): void {
+    const dir = path.dirname(path.resolve(this.filePath));
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const deadline = Date.now() + QUEUE_LOCK_CONFIG.timeoutMs;
+    for (;;) {
+      try {
+        fs.writeFileSync(this.lockPath, String(process.pid), { flag: 'wx' });
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      this.clearStaleLock();
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for queue lock: ${this.lockPath}`);
+      }
+      // Queue methods are synchronous, so sleep the thread between tries
+      Atomics.wait(
+        new Int32Array(new SharedArrayBuffer(4)),
+        0,
+        0,
+        QUEUE_LOCK_CONFIG.retryMs
+      );
+    }
+  }
+
+  private clearStaleLock(): void {
+    try {
+      const age = Date.now() - fs.statSync(this.lockPath).mtimeMs;
+      if (age > QUEUE_LOCK_CONFIG.staleMs) {
+        fs.unlinkSync(this.lockPath);
+      }
+    } catch {
+      // Released by its owner in the meantime
+    }
+  }
+
+  private unlock(): void {
+    try {
+      fs.unlinkSync(this.lockPath);
+    } catch {
+      // Already removed as stale
+    }
+  }
+
+  private write(): void {
+    this.state.updatedAt = new Date().toISOString();
+
+    // Write then rename so a crash never leaves a half-written queue
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.state, null, 2), 'utf8');
+    fs.renameSync(tmp, this.filePath);
+  }
+
+  /**
+   * Pick up a pause or resume made by another process
+   */
+  refreshPause(): void {
+    const onDisk = this.read();
+    if (!onDisk) return;
+    this.state.paused = onDisk.paused;
+    this.state.pausedAt = onDisk.pausedAt;
+    this.state.pausedReason = onDisk.pausedReason;
+  }
+
+  isPaused(): boolean {
+    this.refreshPause();
+    return this.state.paused;
+  }
+
+  pause(reason: string = 'Paused from CLI'): void {
+    this.state.paused = true;
+    this.state.pausedAt = new Date().toISOString();
+    this.state.pausedReason = reason;
+    this.save({ ownPause: true });
+  }
+
+  resume(): void {
+    this.state.paused = false;
+    delete this.state.pausedAt;
+    delete this.state.pausedReason;
+    this.save({ ownPause: true });
+  }
+
+  getState(): ScrapeQueueState {
+    return this.state;
+  }
+
+  getJob(id: string): ScrapeJob | undefined {
+    return this.state.jobs.find((job) => job.id === id);
+  }
+
+  getJobs(status?: ScrapeJob['status']): ScrapeJob[] {
+    return status
+      ? this.state.jobs.filter((job) => job.status === status)
+      : this.state.jobs;
+  }
+
+  /**
+   * Add jobs for events not already queued
+   *
+   * @returns The jobs that were added
+   */
+  enqueue(jobs: NewScrapeJob[]): ScrapeJob[] {
+    const now = new Date().toISOString();
+    const added: ScrapeJob[] = [];
+
+    for (const job of jobs) {
+      if (this.getJob(job.eventTicker)) continue;
+      const { maxAttempts, ...fields } = job;
+      const created: ScrapeJob = {
+        id: job.eventTicker,
+        ...fields,
+        status: 'pending',
+        attempts: 0,
+        maxAttempts: maxAttempts ?? QUEUE_CONFIG.maxAttempts,
+        errors: [],
+        revision: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.state.jobs.push(created);
+      added.push(created);
+    }
+
+    if (added.length > 0) this.save();
+    return added;
+  }
+
+  /**
+   * Next pending job whose retry delay has passed, oldest first
+   */
+  next(now: Date = new Date()): ScrapeJob | null {
+    return (
+      this.state.jobs.find(
+        (job) =>
+          job.status === 'pending' &&
+          (!job.nextAttemptAt || new Date(job.nextAttemptAt) <= now)
+      ) || null
+    );
+  }
+
+  /**
+   * Earliest retry time among pending jobs that are still waiting
+   */
+  nextRetryAt(now: Date = new Date()): string | null {
+    const waiting = this.state.jobs
+      .filter(
+        (job) =>
+          job.status === 'pending' &&
+          job.nextAttemptAt &&
+          new Date(job.nextAttemptAt) > now
+      )
+      .map((job) => job.nextAttemptAt!)
+      .sort();
+    return waiting[0] ?? null;
+  }
+
+  private update(id: string, changes: Partial<ScrapeJob>): ScrapeJob {
+    const job = this.getJob(id);
+    if (!job) throw new Error(`Unknown scrape job: ${id}`);
+    Object.assign(job, changes);
+    // Only a running job belongs to a runner process
+    if (job.status !== 'running') delete job.runnerPid;
+    touch(job);
+    this.save();
+    return job;
+  }
+
+  /**
+   * Claim a pending job for this process
+   *
+   * The claim is checked against the file under the lock, so when two runners
+   * pick the same job only the first one gets it.
+   *
+   * @returns The job, or null when it is no longer pending (another runner
+   *   claimed or finished it)
+   */
+  start(id: string): ScrapeJob | null {
+    return this.withLock(() => {
+      const onDisk = this.read();
+      if (onDisk) this.merge(onDisk, false);
+
+      const job = this.getJob(id);
+      if (!job) throw new Error(`Unknown scrape job: ${id}`);
+      if (job.status !== 'pending') return null;
+
+      Object.assign(job, {
+        status: 'running',
+        attempts: job.attempts + 1,
+        runnerPid: process.pid,
+        startedAt: new Date().toISOString(),
+      });
+      touch(job);
+      this.write();
+      return job;
+    });
+  }
+
+  succeed(
+    id: string,
+    result: {
+      transcriptId: string | null;
+      verificationStatus?: ScrapeJob['verificationStatus'];
+    }
+  ): ScrapeJob {
+    return this.update(id, {
+      status: 'succeeded',
+      transcriptId: result.transcriptId ?? undefined,
+      verificationStatus: result.verificationStatus,
+      nextAttemptAt: undefined,
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record a failed attempt; the job is retried with backoff until it runs
+   * out of attempts, or fails straight away when `retry` is false
+   */
+  fail(
+    id: string,
+    message: string,
+    options: { retry?: boolean; now?: Date } = {}
+  ): ScrapeJob {
+    const job = this.getJob(id);
+    if (!job) throw new Error(`Unknown scrape job: ${id}`);
+    const now = options.now ?? new Date();
+    const errors = [...job.errors, { at: now.toISOString(), message }];
+    const canRetry = (options.retry ?? true) && job.attempts < job.maxAttempts;
+
+    if (canRetry) {
+      const delay = QUEUE_CONFIG.retryDelayMs * 2 ** Math.max(0, job.attempts - 1);
+      return this.update(id, {
+        status: 'pending',
+        errors,
+        nextAttemptAt: new Date(now.getTime() + delay).toISOString(),
+      });
+    }
+
+    return this.update(id, {
+      status: 'failed',
+      errors,
+      nextAttemptAt: undefined,
+      completedAt: now.toISOString(),
+    });
+  }
+
+  skip(id: string, reason: string): ScrapeJob {
+    return this.update(id, {
+      status: 'skipped',
+      skipReason: reason,
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Put a started job back without counting the attempt (e.g. daily cap hit
+   * before the page was fetched)
+   */
+  release(id: string): ScrapeJob {
+    const job = this.getJob(id);
+    return this.update(id, {
+      status: 'pending',
+      attempts: Math.max(0, (job?.attempts ?? 1) - 1),
+    });
+  }
+
+  /**
+   * Send failed jobs (all, or the given ids) back to the queue with fresh attempts
+   */
+  retry(ids?: string[]): ScrapeJob[] {
+    const jobs = this.state.jobs.filter(
+      (job) => job.status === 'failed' && (!ids || ids.includes(job.id))
+    );
+    for (const job of jobs) {
+      Object.assign(job, {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: undefined,
+        completedAt: undefined,
+      });
+      touch(job);
+    }
+    if (jobs.length > 0) this.save();
+    return jobs;
+  }
+
+  progress(): ScrapeQueueProgress {
+    const progress: ScrapeQueueProgress = {
+      pending: 0,
+      running: 0,
+      succeeded: 0,
+      failed: 0,
+      skipped: 0,
+      total: this.state.jobs.length,
+    };
+    for (const job of this.state.jobs) {
+      progress[job.status]++;
+    }
+    return progress;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Scrape Job Planner
+ *
+ * Works out which earnings events still need a transcript: the call has
+ * happened, the stock ticker and transcript URL are known, and no verified
+ * transcript is stored.
+ */
+
+import { type NewScrapeJob } from './types';
+import { parseQuarter } from '../utils/fuzzyMatch';
+import { getFiscalQuarterFromDate } from '../utils/dateUtils';
+import { type EarningsEvent, type Transcript } from '../../../server/lib/dynamodb';
+
+export interface PlannedSkip {
+  eventTicker: string;
+  company: string;
+  reason: string;
+}
+
+export interface ScrapePlan {
+  jobs: NewScrapeJob[];
+  skipped: PlannedSkip[];
+}
+
+/**
+ * Stock ticker from the event, or from its Seeking Alpha symbol URL
+ */
+function eventStockTicker(event: EarningsEvent): string | null {
+  if (event.stockTicker) return event.stockTicker.toUpperCase();
+  const match = event.seekingAlphaUrl?.match(
+    /\/symbol\/([A-Z]{1,5}(?:\.[A-Z])?)(?:\/|$)/i
+  );
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * The event's Seeking Alpha transcript article
+ *
+ * A ticker's listing page is not enough: the scraper follows its first link,
+ * which is the latest call rather than the one the event is about.
+ */
+function eventTranscriptUrl(event: EarningsEvent): string | null {
+  return event.seekingAlphaUrl && /\/article\//.test(event.seekingAlphaUrl)
+    ? event.seekingAlphaUrl
+    : null;
+}
+
+/**
+ * Quarter from the event title ("Q4 2024", "Q1 FY2025"), else from the call date
+ */
+function eventQuarter(
+  event: EarningsEvent,
+  callDate: Date
+): { quarter: string; fiscalYear: number } {
+  const fromDate = getFiscalQuarterFromDate(callDate);
+  const parsed = parseQuarter(event.title);
+  if (parsed.match && parsed.quarter) {
+    return { quarter: parsed.quarter, fiscalYear: parsed.year ?? fromDate.fiscalYear };
+  }
+  return fromDate;
+}
+
+/**
+ * Jobs for events whose call has happened and that lack a verified transcript
+ *
+ * @param transcriptsByEvent - Stored transcripts keyed by event ticker
+ */
+export function planMissingTranscripts(
+  events: EarningsEvent[],
+  transcriptsByEvent: Map<string, Transcript[]>,
+  now: Date = new Date()
+): ScrapePlan {
+  const jobs: NewScrapeJob[] = [];
+  const skipped: PlannedSkip[] = [];
+
+  const sorted = [...events].sort((a, b) =>
+    (a.eventDate || a.closeTime || '').localeCompare(b.eventDate || b.closeTime || '')
+  );
+
+  for (const event of sorted) {
+    const skip = (reason: string) =>
+      skipped.push({ eventTicker: event.eventTicker, company: event.company, reason });
+
+    const callDateText = event.eventDate || event.closeTime;
+    if (!callDateText) {
+      skip('No call date');
+      continue;
+    }
+    const callDate = new Date(callDateText);
+    if (isNaN(callDate.getTime()) || callDate > now) {
+      skip('Call has not happened yet');
+      continue;
+    }
+
+    const transcripts = transcriptsByEvent.get(event.eventTicker) || [];
+    if (transcripts.some((t) => t.verificationStatus === 'verified')) {
+      skip('Verified transcript already stored');
+      continue;
+    }
+
+    const ticker = eventStockTicker(event);
+    if (!ticker) {
+      skip('No stock ticker');
+      continue;
+    }
+
+    const url = eventTranscriptUrl(event);
+    if (!url) {
+      skip('No transcript URL');
+      continue;
+    }
+
+    const { quarter, fiscalYear } = eventQuarter(event, callDate);
+    jobs.push({
+      eventTicker: event.eventTicker,
+      company: event.company,
+      ticker,
+      quarter,
+      fiscalYear,
+      url,
+      expectedDate: callDate.toISOString().split('T')[0],
+    });
+  }
+
+  return { jobs, skipped };
+}
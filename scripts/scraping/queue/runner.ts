@@ -0,0 +1,137 @@
+/**
+ * Scrape Job Runner
+ *
+ * Works through the queue one job at a time. Before each job it checks the
+ * pause flag and the scraper's daily request cap, and skips events that got
+ * a verified transcript since they were queued. Scraping and saving are
+ * passed in so the loop can run without a browser or database.
+ */
+
+import { type ScrapeJob } from './types';
+import { type ScrapeJobQueue } from './jobQueue';
+
+/**
+ * saved: transcript stored
+ * rejected: validation rejected it; retrying would scrape the same page
+ * error: scrape or save failed; worth retrying
+ * rate-limited: the daily cap was hit before the page was fetched
+ */
+export type ScrapeJobOutcome =
+  | {
+      status: 'saved';
+      transcriptId: string | null;
+      verificationStatus?: ScrapeJob['verificationStatus'];
+    }
+  | { status: 'rejected' | 'error' | 'rate-limited'; message: string };
+
+export interface QueueRunnerDeps {
+  runJob(job: ScrapeJob): Promise<ScrapeJobOutcome>;
+  hasVerifiedTranscript(job: ScrapeJob): Promise<boolean>;
+  dailyBudget(): { used: number; limit: number };
+}
+
+export interface QueueRunOptions {
+  maxJobs?: number;
+  // Checked between jobs, e.g. set by a SIGINT handler
+  shouldStop?: () => boolean;
+  onJobDone?: (job: ScrapeJob) => void;
+}
+
+export type QueueStopReason =
+  | 'empty'
+  | 'waiting-retry'
+  | 'paused'
+  | 'daily-limit'
+  | 'max-jobs'
+  | 'interrupted';
+
+export interface QueueRunSummary {
+  processed: number;
+  succeeded: number;
+  failed: number;
+  retrying: number;
+  skipped: number;
+  stoppedBecause: QueueStopReason;
+  nextRetryAt: string | null;
+}
+
+export async function runScrapeQueue(
+  queue: ScrapeJobQueue,
+  deps: QueueRunnerDeps,
+  options: QueueRunOptions = {}
+): Promise<QueueRunSummary> {
+  const summary: QueueRunSummary = {
+    processed: 0,
+    succeeded: 0,
+    failed: 0,
+    retrying: 0,
+    skipped: 0,
+    stoppedBecause: 'empty',
+    nextRetryAt: null,
+  };
+
+  const stop = (reason: QueueStopReason): QueueRunSummary => {
+    summary.stoppedBecause = reason;
+    summary.nextRetryAt = queue.nextRetryAt();
+    return summary;
+  };
+
+  while (true) {
+    if (options.shouldStop?.()) return stop('interrupted');
+    if (queue.isPaused()) return stop('paused');
+    if (options.maxJobs !== undefined && summary.processed >= options.maxJobs) {
+      return stop('max-jobs');
+    }
+
+    const job = queue.next();
+    if (!job) {
+      return stop(queue.nextRetryAt() ? 'waiting-retry' : 'empty');
+    }
+
+    // Checking for a verified transcript costs no scraper requests
+    if (await deps.hasVerifiedTranscript(job)) {
+      queue.skip(job.id, 'Verified transcript already stored');
+      summary.processed++;
+      summary.skipped++;
+      options.onJobDone?.(queue.getJob(job.id)!);
+      continue;
+    }
+
+    const budget = deps.dailyBudget();
+    if (budget.used >= budget.limit) return stop('daily-limit');
+
+    // Another runner got to it first
+    if (!queue.start(job.id)) continue;
+
+    let outcome: ScrapeJobOutcome;
+    try {
+      outcome = await deps.runJob(job);
+    } catch (error) {
+      outcome = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Unknown scrape error',
+      };
+    }
+
+    if (outcome.status === 'rate-limited') {
+      queue.release(job.id);
+      return stop('daily-limit');
+    }
+
+    summary.processed++;
+    if (outcome.status === 'saved') {
+      queue.succeed(job.id, outcome);
+      summary.succeeded++;
+    } else {
+      const updated = queue.fail(job.id, outcome.message, {
+        retry: outcome.status === 'error',
+      });
+      if (updated.status === 'failed') {
+        summary.failed++;
+      } else {
+        summary.retrying++;
+      }
+    }
+    options.onJobDone?.(queue.getJob(job.id)!);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Scrape Job Queue Types
+ *
+ * A job scrapes the transcript for one earnings event. The queue is kept in a
+ * JSON file so a batch can stop (daily cap, pause, crash) and pick up where
+ * it left off.
+ */
+
+/**
+ * pending: waiting to run (possibly after a retry delay)
+ * running: being scraped; reset to pending if the process died mid-job
+ * succeeded: transcript saved
+ * failed: out of attempts, or rejected by validation
+ * skipped: nothing to do (event already has a verified transcript)
+ */
+export type ScrapeJobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface ScrapeJobError {
+  at: string;
+  message: string;
+}
+
+export interface ScrapeJob {
+  id: string; // Event ticker; one transcript per earnings event
+  eventTicker: string;
+  company: string;
+  ticker: string; // Stock ticker
+  quarter: string; // Q1-Q4
+  fiscalYear: number;
+  url: string; // Page the scrape starts from
+  expectedDate?: string; // Call date from the event (YYYY-MM-DD)
+
+  status: ScrapeJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: string; // Earliest retry time after a failure
+  errors: ScrapeJobError[]; // Every failed attempt, oldest first
+  skipReason?: string;
+  transcriptId?: string;
+  verificationStatus?: 'pending' | 'verified' | 'rejected';
+  runnerPid?: number; // Process scraping the job while it is running
+
+  revision?: number; // Bumped on every change; the higher copy wins when merging
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export type NewScrapeJob = Pick<
+  ScrapeJob,
+  'eventTicker' | 'company' | 'ticker' | 'quarter' | 'fiscalYear' | 'url' | 'expectedDate'
+> & { maxAttempts?: number };
+
+export interface ScrapeQueueState {
+  version: 1;
+  paused: boolean;
+  pausedAt?: string;
+  pausedReason?: string;
+  jobs: ScrapeJob[];
+  updatedAt: string;
+}
+
+export type ScrapeQueueProgress = Record<ScrapeJobStatus, number> & { total: number };
@@ -1,23 +1,32 @@
 /**
- * Web Scraper for Seeking Alpha Transcripts
+ * Web Scraper for Earnings Call Transcripts
  *
- * Uses Puppeteer for browser automation with authenticated sessions.
- * Implements rate limiting, retry logic, and safety measures.
+ * Uses Puppeteer for browser automation with authenticated sessions, or a
+ * plain download for text and PDF documents, depending on the transcript
+ * source that handles the URL. Implements rate limiting, retry logic, and
+ * safety measures.
  *
- * IMPORTANT: Requires valid Seeking Alpha Premium subscription.
+ * IMPORTANT: Seeking Alpha requires a valid Premium subscription.
  */
 
 import puppeteer, { type Browser, type Page, type Cookie } from 'puppeteer';
 import fs from 'fs';
 import path from 'path';
-import {
-  parseTranscriptHtml,
-  isTranscriptPage,
-  detectPaywall,
-  extractTranscriptLinks,
-} from './parser';
 import { type ExtractedTranscriptData } from './validators/types';
 import { generateRawHtmlHash } from './utils/hashUtils';
+import { type ParseResult } from './parser';
+import {
+  RateLimitStore,
+  rateLimitBudget,
+  DEFAULT_RATE_LIMIT_PATH,
+  type RateLimitBudget,
+} from './audit/rateLimitStore';
+import {
+  getTranscriptSource,
+  buildSeekingAlphaUrl,
+  type TranscriptSource,
+  type TranscriptSourceId,
+} from './sources';
 
 /**
  * Scraper configuration
@@ -35,6 +44,7 @@ export interface ScraperConfig {
 
   // Safety
   maxDailyRequests: number;
+  rateLimitStatePath?: string; // Shared by all scraper processes
   headless: boolean;
   timeout: number; // ms
 
@@ -53,6 +63,7 @@ const DEFAULT_CONFIG: ScraperConfig = {
   maxRequestsPerSession: 50,
 
   maxDailyRequests: 100,
+  rateLimitStatePath: DEFAULT_RATE_LIMIT_PATH,
   headless: true,
   timeout: 60000, // 1 minute
 
@@ -60,16 +71,21 @@ const DEFAULT_CONFIG: ScraperConfig = {
   rawHtmlPath: './raw-html',
 };
 
+const USER_AGENT =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
 /**
  * Scrape result
  */
 export interface ScrapeResult {
   success: boolean;
+  source: TranscriptSourceId | null; // Adapter that fetched and parsed the page
   data: ExtractedTranscriptData | null;
   rawHtml: string | null;
   rawHtmlHash: string | null;
   errors: string[];
   warnings: string[];
+  selectors?: ParseResult['selectors']; // Which parser selectors matched the page
   timing: {
     startedAt: string;
     completedAt: string;
@@ -78,49 +94,63 @@ export interface ScrapeResult {
   retryCount: number;
 }
 
+// Keeps session ids unique when one process creates several limiters
+let limiterCount = 0;
+
 /**
  * Rate limiter for scraping requests
+ *
+ * Counts are kept in a RateLimitStore shared by every scraper process, so the
+ * daily cap and per-minute limit survive restarts and concurrent runs. Each
+ * limiter records its own request count as one session in the store.
  */
-class RateLimiter {
-  private requestTimes: number[] = [];
-  private dailyCount: number = 0;
-  private lastResetDate: string = '';
+export class RateLimiter {
+  private sessionId: string;
+  private startedAt: string;
 
   constructor(
     private requestsPerMinute: number,
-    private maxDailyRequests: number
-  ) {}
+    private maxDailyRequests: number,
+    private store: RateLimitStore = new RateLimitStore()
+  ) {
+    this.startedAt = new Date().toISOString();
+    this.sessionId = `${process.pid}-${Date.now()}-${++limiterCount}`;
+  }
 
   async waitForSlot(): Promise<void> {
-    // Reset daily counter if new day
-    const today = new Date().toISOString().split('T')[0];
-    if (today !== this.lastResetDate) {
-      this.dailyCount = 0;
-      this.lastResetDate = today;
-    }
+    for (;;) {
+      const waitTime = await this.store.update((state, now) => {
+        // Check daily limit
+        if (state.dailyCount >= this.maxDailyRequests) {
+          throw new Error(`Daily request limit (${this.maxDailyRequests}) reached`);
+        }
 
-    // Check daily limit
-    if (this.dailyCount >= this.maxDailyRequests) {
-      throw new Error(`Daily request limit (${this.maxDailyRequests}) reached`);
-    }
+        // Wait if at rate limit
+        if (state.requestTimes.length >= this.requestsPerMinute) {
+          return Math.min(...state.requestTimes) + 60000 - now;
+        }
 
-    // Clean old request times (older than 1 minute)
-    const oneMinuteAgo = Date.now() - 60000;
-    this.requestTimes = this.requestTimes.filter((t) => t > oneMinuteAgo);
-
-    // Wait if at rate limit
-    if (this.requestTimes.length >= this.requestsPerMinute) {
-      const oldestRequest = this.requestTimes[0];
-      const waitTime = oldestRequest + 60000 - Date.now();
-      if (waitTime > 0) {
-        console.log(`Rate limit: waiting ${Math.ceil(waitTime / 1000)}s...`);
-        await this.sleep(waitTime);
-      }
-    }
+        // Record this request
+        const session = state.sessions[this.sessionId] || {
+          pid: process.pid,
+          startedAt: this.startedAt,
+          lastRequestAt: null,
+          requestCount: 0,
+        };
+        state.sessions[this.sessionId] = {
+          ...session,
+          lastRequestAt: new Date(now).toISOString(),
+          requestCount: session.requestCount + 1,
+        };
+        state.requestTimes.push(now);
+        state.dailyCount++;
+        return 0;
+      });
 
-    // Record this request
-    this.requestTimes.push(Date.now());
-    this.dailyCount++;
+      if (waitTime <= 0) return;
+      console.log(`Rate limit: waiting ${Math.ceil(waitTime / 1000)}s...`);
+      await this.sleep(waitTime);
+    }
   }
 
   private sleep(ms: number): Promise<void> {
@@ -128,14 +158,23 @@ class RateLimiter {
   }
 
   getStats(): { requestsInLastMinute: number; dailyCount: number } {
-    const oneMinuteAgo = Date.now() - 60000;
-    const requestsInLastMinute = this.requestTimes.filter((t) => t > oneMinuteAgo).length;
-    return { requestsInLastMinute, dailyCount: this.dailyCount };
+    const state = this.store.read();
+    return {
+      requestsInLastMinute: state.requestTimes.length,
+      dailyCount: state.dailyCount,
+    };
+  }
+
+  getBudget(): RateLimitBudget {
+    return rateLimitBudget(this.store.read(), {
+      requestsPerMinute: this.requestsPerMinute,
+      maxDailyRequests: this.maxDailyRequests,
+    });
   }
 }
 
 /**
- * Seeking Alpha Transcript Scraper
+ * Transcript Scraper
  */
 export class TranscriptScraper {
   private config: ScraperConfig;
@@ -148,7 +187,8 @@ export class TranscriptScraper {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.rateLimiter = new RateLimiter(
       this.config.requestsPerMinute,
-      this.config.maxDailyRequests
+      this.config.maxDailyRequests,
+      new RateLimitStore(this.config.rateLimitStatePath)
     );
 
     // Ensure raw HTML directory exists
@@ -182,9 +222,7 @@ export class TranscriptScraper {
 
     // Set realistic viewport and user agent
     await this.page.setViewport({ width: 1920, height: 1080 });
-    await this.page.setUserAgent(
-      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-    );
+    await this.page.setUserAgent(USER_AGENT);
 
     // Load cookies if available
     await this.loadCookies();
@@ -258,22 +296,59 @@ export class TranscriptScraper {
   }
 
   /**
-   * Scrape a transcript page
+   * Fetch a page with the browser, or download a document for 'http' sources
+   */
+  private async fetchDocument(url: string, source: TranscriptSource): Promise<string> {
+    if (source.fetchMode === 'http') {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': USER_AGENT },
+        signal: AbortSignal.timeout(this.config.timeout),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} fetching ${url}`);
+      }
+
+      const body = Buffer.from(await response.arrayBuffer());
+      const contentType = response.headers.get('content-type');
+      return source.decode ? source.decode(body, contentType) : body.toString('utf8');
+    }
+
+    if (!this.page) throw new Error('Page not initialized');
+
+    // Navigate to page
+    await this.page.goto(url, {
+      waitUntil: 'networkidle2',
+      timeout: this.config.timeout,
+    });
+
+    // Wait a bit for dynamic content
+    await this.sleep(2000);
+
+    return this.page.content();
+  }
+
+  /**
+   * Scrape a transcript page with the source that handles its URL
    */
-  async scrapeTranscript(url: string, redirectCount: number = 0): Promise<ScrapeResult> {
+  async scrapeTranscript(
+    url: string,
+    redirectCount: number = 0,
+    source: TranscriptSource | null = getTranscriptSource(url)
+  ): Promise<ScrapeResult> {
     const startedAt = new Date().toISOString();
     const errors: string[] = [];
     const warnings: string[] = [];
     let retryCount = 0;
 
-    // Validate URL
-    if (!url.includes('seekingalpha.com')) {
+    // Pick the transcript source
+    if (!source) {
       return {
         success: false,
+        source: null,
         data: null,
         rawHtml: null,
         rawHtmlHash: null,
-        errors: ['URL is not from Seeking Alpha'],
+        errors: [`No transcript source handles ${url}`],
         warnings: [],
         timing: {
           startedAt,
@@ -284,17 +359,19 @@ export class TranscriptScraper {
       };
     }
 
-    // Initialize if needed
-    if (!this.browser || !this.page) {
-      await this.initialize();
-    }
+    if (source.fetchMode === 'browser') {
+      // Initialize if needed
+      if (!this.browser || !this.page) {
+        await this.initialize();
+      }
 
-    // Check session limit
-    if (this.sessionRequestCount >= this.config.maxRequestsPerSession) {
-      console.log('Session request limit reached, restarting browser...');
-      await this.close();
-      await this.initialize();
-      this.sessionRequestCount = 0;
+      // Check session limit
+      if (this.sessionRequestCount >= this.config.maxRequestsPerSession) {
+        console.log('Session request limit reached, restarting browser...');
+        await this.close();
+        await this.initialize();
+        this.sessionRequestCount = 0;
+      }
     }
 
     // Wait for rate limit slot
@@ -306,38 +383,26 @@ export class TranscriptScraper {
 
     while (retryCount <= this.config.maxRetries) {
       try {
-        if (!this.page) throw new Error('Page not initialized');
-
         console.log(
-          `Fetching: ${url} (attempt ${retryCount + 1}/${this.config.maxRetries + 1})`
+          `Fetching: ${url} via ${source.name} (attempt ${retryCount + 1}/${this.config.maxRetries + 1})`
         );
 
-        // Navigate to page
-        await this.page.goto(url, {
-          waitUntil: 'networkidle2',
-          timeout: this.config.timeout,
-        });
-
-        // Wait a bit for dynamic content
-        await this.sleep(2000);
-
-        // Get page content
-        rawHtml = await this.page.content();
+        rawHtml = await this.fetchDocument(url, source);
 
         // Check for paywall
-        if (detectPaywall(rawHtml)) {
+        if (source.detectPaywall(rawHtml)) {
           throw new Error('Content is behind a paywall. Login may be required.');
         }
 
         // Check if it's a transcript page
-        const pageCheck = isTranscriptPage(rawHtml);
-        const transcriptLinks = extractTranscriptLinks(rawHtml);
+        const pageCheck = source.isTranscriptPage(rawHtml);
+        const transcriptLinks = source.extractTranscriptLinks?.(rawHtml) ?? [];
         if (!pageCheck.isTranscript) {
           if (transcriptLinks.length > 0 && redirectCount < 1) {
             warnings.push(
               `Detected transcript listing page; following first transcript link (${transcriptLinks[0]})`
             );
-            return this.scrapeTranscript(transcriptLinks[0], redirectCount + 1);
+            return this.scrapeTranscript(transcriptLinks[0], redirectCount + 1, source);
           }
 
           warnings.push(
@@ -347,7 +412,7 @@ export class TranscriptScraper {
         }
 
         // Success - break retry loop
-        this.sessionRequestCount++;
+        if (source.fetchMode === 'browser') this.sessionRequestCount++;
         break;
       } catch (error) {
         lastError = error as Error;
@@ -366,6 +431,7 @@ export class TranscriptScraper {
     if (!rawHtml) {
       return {
         success: false,
+        source: source.id,
         data: null,
         rawHtml: null,
         rawHtmlHash: null,
@@ -383,19 +449,23 @@ export class TranscriptScraper {
     // Store raw HTML if configured
     const rawHtmlHash = generateRawHtmlHash(rawHtml);
     if (this.config.storeRawHtml && this.config.rawHtmlPath) {
-      await this.storeRawHtml(rawHtml, rawHtmlHash);
+      await this.storeRawHtml(
+        rawHtml,
+        rawHtmlHash,
+        source.fetchMode === 'http' ? 'txt' : 'html'
+      );
     }
 
-    // Parse the HTML
-    const parseResult = parseTranscriptHtml(rawHtml, url);
+    // Parse the page
+    const parseResult = source.parse(rawHtml, url);
 
     if (!parseResult.success) {
-      const transcriptLinks = extractTranscriptLinks(rawHtml);
+      const transcriptLinks = source.extractTranscriptLinks?.(rawHtml) ?? [];
       if (transcriptLinks.length > 0 && redirectCount < 1) {
         warnings.push(
           `Parsing failed on listing page; retrying first transcript link (${transcriptLinks[0]})`
         );
-        return this.scrapeTranscript(transcriptLinks[0], redirectCount + 1);
+        return this.scrapeTranscript(transcriptLinks[0], redirectCount + 1, source);
       }
     }
 
@@ -414,11 +484,13 @@ export class TranscriptScraper {
 
     return {
       success: parseResult.success,
-      data: parseResult.data,
+      source: source.id,
+      data: parseResult.data ? { ...parseResult.data, source: source.id } : null,
       rawHtml,
       rawHtmlHash,
       errors,
       warnings,
+      selectors: parseResult.selectors,
       timing: {
         startedAt,
         completedAt: new Date().toISOString(),
@@ -429,10 +501,14 @@ export class TranscriptScraper {
   }
 
   /**
-   * Store raw HTML to disk
+   * Store raw HTML (or decoded document text) to disk
    */
-  private async storeRawHtml(html: string, hash: string): Promise<string> {
-    const filename = `${hash.substring(0, 16)}-${Date.now()}.html`;
+  private async storeRawHtml(
+    html: string,
+    hash: string,
+    extension: 'html' | 'txt' = 'html'
+  ): Promise<string> {
+    const filename = `${hash.substring(0, 16)}-${Date.now()}.${extension}`;
     const filepath = path.join(this.config.rawHtmlPath!, filename);
     fs.writeFileSync(filepath, html, 'utf8');
     return filepath;
@@ -441,14 +517,27 @@ export class TranscriptScraper {
   /**
    * Get rate limiter stats
    */
-  getStats(): { requestsInLastMinute: number; dailyCount: number; sessionCount: number } {
+  getStats(): {
+    requestsInLastMinute: number;
+    dailyCount: number;
+    dailyLimit: number;
+    sessionCount: number;
+  } {
     const limiterStats = this.rateLimiter.getStats();
     return {
       ...limiterStats,
+      dailyLimit: this.config.maxDailyRequests,
       sessionCount: this.sessionRequestCount,
     };
   }
 
+  /**
+   * Remaining daily quota and today's sessions across all scraper processes
+   */
+  getBudget(): RateLimitBudget {
+    return this.rateLimiter.getBudget();
+  }
+
   /**
    * Sleep helper
    */
@@ -473,11 +562,7 @@ export class TranscriptScraper {
  * Build Seeking Alpha transcript URL from ticker and transcript ID
  */
 export function buildTranscriptUrl(ticker: string, transcriptSlug?: string): string {
-  const base = `https://seekingalpha.com/symbol/${ticker.toUpperCase()}/earnings/transcripts`;
-  if (transcriptSlug) {
-    return `https://seekingalpha.com/article/${transcriptSlug}`;
-  }
-  return base;
+  return buildSeekingAlphaUrl(ticker, transcriptSlug);
 }
 
 /**
@@ -0,0 +1,236 @@
+/**
+ * Shared Extraction Helpers for Transcript Sources
+ *
+ * Pattern-based metadata extraction for pages that don't follow Seeking
+ * Alpha's "Company (TICKER) Q1 2025 Earnings Call Transcript" titles, and the
+ * common tail of those parsers: segmentation, word count and minimum requirements.
+ */
+
+import { type ParseResult } from '../parser';
+import { type ExtractedTranscriptData } from '../validators/types';
+import { calculateWordCount } from '../validators/extraction';
+import {
+  segmentTranscript,
+  formatParticipant,
+  type SegmentedTranscript,
+} from '../../../src/lib/utils/transcriptSegments';
+
+const ORDINAL_QUARTERS: Record<string, string> = {
+  first: 'Q1',
+  second: 'Q2',
+  third: 'Q3',
+  fourth: 'Q4',
+  '1st': 'Q1',
+  '2nd': 'Q2',
+  '3rd': 'Q3',
+  '4th': 'Q4',
+};
+
+export const DATE_IN_TEXT_PATTERN =
+  /(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?\s+\d{1,2},?\s+\d{4}/i;
+
+/**
+ * Fiscal quarter and year from text such as "Q3 2025", "Q3 FY25",
+ * "third quarter fiscal 2025" or "fiscal 2025 fourth-quarter"
+ */
+export function findQuarter(text: string): {
+  quarter: string | null;
+  fiscalYear: number | null;
+} {
+  const short = text.match(/\bQ([1-4])\s*(?:FY\s*)?'?(\d{4}|\d{2})\b/i);
+  if (short) {
+    const year = parseInt(short[2], 10);
+    return { quarter: `Q${short[1]}`, fiscalYear: year < 100 ? 2000 + year : year };
+  }
+
+  const ordinal = '(first|second|third|fourth|1st|2nd|3rd|4th)';
+  const quarterFirst = text.match(
+    new RegExp(
+      `\\b${ordinal}[- ]quarter(?:\\s+(?:of\\s+)?(?:fiscal\\s+(?:year\\s+)?)?(\\d{4}))?`,
+      'i'
+    )
+  );
+  const yearFirst = text.match(
+    new RegExp(`\\b(?:fiscal\\s+(?:year\\s+)?)?(\\d{4})\\s+${ordinal}[- ]quarter`, 'i')
+  );
+
+  if (yearFirst) {
+    return {
+      quarter: ORDINAL_QUARTERS[yearFirst[2].toLowerCase()],
+      fiscalYear: parseInt(yearFirst[1], 10),
+    };
+  }
+  if (quarterFirst) {
+    return {
+      quarter: ORDINAL_QUARTERS[quarterFirst[1].toLowerCase()],
+      fiscalYear: quarterFirst[2] ? parseInt(quarterFirst[2], 10) : null,
+    };
+  }
+
+  return { quarter: null, fiscalYear: null };
+}
+
+/**
+ * Ticker from an exchange listing such as "(NASDAQ: AAPL)" or "NYSE:KO"
+ */
+export function findExchangeTicker(text: string): string | null {
+  const match = text.match(
+    /\b(?:NASDAQ|Nasdaq|NYSE(?: American)?|NYSE Arca|TSX|AMEX)\s*(?:GS|GM)?\s*:\s*([A-Z]{1,5}(?:\.[A-Z])?)\b/
+  );
+  return match ? match[1] : null;
+}
+
+/**
+ * Company name from a title or sentence like "Apple Inc. (NASDAQ: AAPL)",
+ * "Apple Q4 2025 Earnings Call" or "Apple Reports Fourth Quarter Results"
+ */
+export function findCompanyName(text: string): string | null {
+  const listed = text.match(
+    /([A-Z][\w&.,'’-]*(?:\s+[A-Z][\w&.,'’-]*){0,5})\s*\((?:NASDAQ|Nasdaq|NYSE|TSX|AMEX)[^)]*\)/
+  );
+  if (listed) return listed[1].replace(/,$/, '').trim();
+
+  const titled = text.match(
+    /^(.+?)\s+(?:Q[1-4]\b|(?:first|second|third|fourth|fiscal)\b|reports\b|announces\b|earnings\b)/i
+  );
+  if (titled) {
+    const name = titled[1].replace(/[\s,:–-]+$/, '').trim();
+    return name.length > 0 && name.length <= 80 ? name : null;
+  }
+
+  return null;
+}
+
+/**
+ * Call date written in the text ("October 30, 2025")
+ */
+export function findDateInText(text: string): string | null {
+  const match = text.match(DATE_IN_TEXT_PATTERN);
+  return match ? match[0] : null;
+}
+
+/**
+ * Participants from a segmented transcript, or "Name - Title" patterns in the text
+ */
+export function findParticipants(
+  content: string,
+  segmented: SegmentedTranscript
+): { participants: string[]; fromPatterns: boolean } {
+  if (segmented.participants.length > 0) {
+    return {
+      participants: segmented.participants.map(formatParticipant),
+      fromPatterns: false,
+    };
+  }
+
+  const participants: string[] = [];
+  const pattern =
+    /([A-Z][a-z]+\s+[A-Z][a-z]+)\s*[-–]\s*(CEO|CFO|President|Chief|VP|Vice President|Director|Analyst)/gi;
+  let match;
+  while ((match = pattern.exec(content)) !== null) {
+    const participant = `${match[1]} - ${match[2]}`;
+    if (!participants.includes(participant)) {
+      participants.push(participant);
+    }
+  }
+  return { participants, fromPatterns: true };
+}
+
+/**
+ * Paragraphs of plain text (blank-line separated, or one per line when the
+ * text has no blank lines)
+ */
+export function splitParagraphs(text: string): string[] {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const parts = /\n\s*\n/.test(normalized)
+    ? normalized.split(/\n\s*\n/)
+    : normalized.split('\n');
+  return parts.map((p) => p.replace(/\s+/g, ' ').trim()).filter((p) => p.length > 0);
+}
+
+/**
+ * Everything a source parser extracted, before the shared checks
+ */
+export interface ParsedFields {
+  title: string | null;
+  companyName: string | null;
+  ticker: string | null;
+  quarter: string | null;
+  fiscalYear: number | null;
+  callDate: string | null;
+  content: string | null;
+  blocks: string[]; // Ordered text blocks for speaker segmentation
+}
+
+/**
+ * Segment, count and check what a source parser extracted, and build the
+ * ParseResult every source returns
+ */
+export function finishParse(
+  fields: ParsedFields,
+  raw: string,
+  sourceUrl: string,
+  log: { errors: string[]; warnings: string[]; found: string[]; missing: string[] }
+): ParseResult {
+  const { errors, warnings } = log;
+  const content = fields.content && fields.content.length > 0 ? fields.content : null;
+  const segmented = content
+    ? segmentTranscript(fields.blocks)
+    : { participants: [], segments: [] };
+
+  let participants: string[] = [];
+  if (content) {
+    const found = findParticipants(content, segmented);
+    participants = found.participants;
+    if (participants.length === 0) {
+      warnings.push('Could not extract call participants');
+    } else if (found.fromPatterns) {
+      warnings.push(
+        'Participants extracted from content patterns, not dedicated section'
+      );
+    }
+    if (segmented.segments.length === 0) {
+      warnings.push('Could not split transcript into speaker turns');
+    }
+  }
+
+  const wordCount = content ? calculateWordCount(content) : 0;
+
+  if (!content) {
+    errors.push('No transcript content could be extracted');
+  } else if (wordCount < 100) {
+    errors.push(
+      `Content too short: ${wordCount} words. May be a preview or paywall page.`
+    );
+  }
+
+  if (!fields.companyName && !fields.ticker) {
+    errors.push('Neither company name nor ticker could be extracted');
+  }
+
+  const data: ExtractedTranscriptData = {
+    companyName: fields.companyName,
+    ticker: fields.ticker,
+    quarter: fields.quarter,
+    fiscalYear: fields.fiscalYear,
+    callDate: fields.callDate,
+    callTime: null,
+    content,
+    participants,
+    title: fields.title,
+    wordCount,
+    segmented,
+    sourceUrl,
+    sourceTitle: fields.title,
+    rawHtml: raw,
+    extractedAt: new Date().toISOString(),
+  };
+
+  return {
+    success: errors.length === 0,
+    data,
+    errors,
+    warnings,
+    selectors: { found: log.found, missing: log.missing },
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Transcript Sources
+ *
+ * Registry of transcript source adapters. Sources are tried in order and the
+ * first whose matchesUrl() accepts the URL is used, so specific sources come
+ * before the investor-relations catch-all.
+ */
+
+import { type TranscriptSource, type TranscriptSourceId } from './types';
+import { seekingAlphaSource } from './seekingAlpha';
+import { pressReleaseSource } from './pressRelease';
+import { investorRelationsSource } from './investorRelations';
+
+export const TRANSCRIPT_SOURCES: TranscriptSource[] = [
+  seekingAlphaSource,
+  pressReleaseSource,
+  investorRelationsSource,
+];
+
+/**
+ * Adapter for a URL, or null when no source handles it
+ */
+export function getTranscriptSource(url: string): TranscriptSource | null {
+  return TRANSCRIPT_SOURCES.find((source) => source.matchesUrl(url)) ?? null;
+}
+
+/**
+ * Adapter by id (for forcing a source from the CLI)
+ */
+export function getTranscriptSourceById(id: string): TranscriptSource | null {
+  return TRANSCRIPT_SOURCES.find((source) => source.id === id) ?? null;
+}
+
+export { seekingAlphaSource, buildSeekingAlphaUrl } from './seekingAlpha';
+export { pressReleaseSource, isPdf } from './pressRelease';
+export { investorRelationsSource } from './investorRelations';
+export { extractPdfText, textFromContentStream } from './pdfText';
+export {
+  findQuarter,
+  findExchangeTicker,
+  findCompanyName,
+  findDateInText,
+  splitParagraphs,
+} from './common';
+export {
+  type TranscriptSource,
+  type TranscriptSourceId,
+  type TranscriptPageCheck,
+} from './types';
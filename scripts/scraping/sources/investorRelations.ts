@@ -0,0 +1,217 @@
+/**
+ * Investor Relations Transcript Source
+ *
+ * Transcripts published as HTML on company investor-relations sites. Each
+ * site has its own layout, so the content container is found from a ranked
+ * list of common article containers and metadata comes from patterns in the
+ * title and opening text rather than fixed selectors.
+ */
+
+import * as cheerio from 'cheerio';
+import { type TranscriptSource, type TranscriptPageCheck } from './types';
+import {
+  findQuarter,
+  findExchangeTicker,
+  findCompanyName,
+  findDateInText,
+  finishParse,
+} from './common';
+
+// Most specific first; the first with enough text is used
+const CONTENT_CONTAINERS = [
+  '[itemprop="articleBody"]',
+  '#transcript',
+  '.transcript',
+  '[class*="transcript"]',
+  'article',
+  'main',
+  '[role="main"]',
+  '#content',
+  '.content',
+];
+
+const MIN_CONTAINER_WORDS = 200;
+
+// Text blocks used to split the transcript into speaker turns
+const BLOCK_SELECTOR = 'p, h2, h3, h4, li';
+
+const NOISE_SELECTOR = 'script, style, noscript, nav, header, footer, aside, form';
+
+// Site names like "Apple Inc. - Investor Relations"
+const SITE_SUFFIX = /\s*[-–|:]?\s*(?:investor relations|investors|ir)\s*$/i;
+
+function isHttpUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export const investorRelationsSource: TranscriptSource = {
+  id: 'investor-relations',
+  name: 'Investor relations page',
+  fetchMode: 'browser',
+
+  // Catch-all for web pages; more specific sources are tried first
+  matchesUrl: isHttpUrl,
+
+  buildUrl() {
+    // Every company hosts transcripts at its own URLs
+    return null;
+  },
+
+  isTranscriptPage(html: string): TranscriptPageCheck {
+    if (!html || html.length < 1000) {
+      return { isTranscript: false, confidence: 0, reasons: ['HTML too short'] };
+    }
+
+    const $ = cheerio.load(html);
+    // Read the title first; IR sites often put the page heading in <header>
+    const title = `${$('title').text()} ${$('h1').first().text()}`.toLowerCase();
+    $(NOISE_SELECTOR).remove();
+    const text = $('body').text();
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (title.includes('transcript') || title.includes('earnings call')) {
+      score += 30;
+      reasons.push('Earnings call title detected');
+    }
+    if (findQuarter(`${title} ${text.slice(0, 3000)}`).quarter) {
+      score += 20;
+      reasons.push('Quarter pattern found');
+    }
+    if (/\boperator\b/i.test(text)) {
+      score += 15;
+      reasons.push('Operator mentions found');
+    }
+    if (/question[- ]and[- ]answer|\bq&a\b/i.test(text)) {
+      score += 15;
+      reasons.push('Q&A section found');
+    }
+    if (/investor relations/i.test(html)) {
+      score += 10;
+      reasons.push('Investor relations site detected');
+    }
+    if (text.length > 10000) {
+      score += 10;
+      reasons.push('Sufficient content length');
+    }
+
+    return { isTranscript: score >= 50, confidence: Math.min(100, score), reasons };
+  },
+
+  detectPaywall(html: string): boolean {
+    const $ = cheerio.load(html);
+    const text = $('body').text().toLowerCase();
+    return (
+      text.includes('access denied') ||
+      text.includes('register to view') ||
+      text.includes('please log in to') ||
+      html.includes('g-recaptcha') ||
+      html.includes('cf-challenge')
+    );
+  },
+
+  parse(html: string, sourceUrl: string) {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const found: string[] = [];
+    const missing: string[] = [];
+
+    if (!html || html.trim().length === 0) {
+      return {
+        success: false,
+        data: null,
+        errors: ['Empty HTML provided'],
+        warnings: [],
+        selectors: { found: [], missing: [] },
+      };
+    }
+
+    const $ = cheerio.load(html);
+
+    // ===== TITLE =====
+    let title: string | null = $('h1').first().text().replace(/\s+/g, ' ').trim() || null;
+    if (title) {
+      found.push('articleTitle');
+    } else {
+      title = $('title').text().split('|')[0].trim() || null;
+      if (title) {
+        warnings.push('Used fallback title extraction from <title> tag');
+      } else {
+        missing.push('articleTitle');
+      }
+    }
+
+    // ===== CONTENT =====
+    $(NOISE_SELECTOR).remove();
+    let container = null;
+    for (const selector of CONTENT_CONTAINERS) {
+      const candidate = $(selector).first();
+      const words = candidate.text().split(/\s+/).filter(Boolean).length;
+      if (candidate.length > 0 && words >= MIN_CONTAINER_WORDS) {
+        container = candidate;
+        found.push(`transcriptBody:${selector}`);
+        break;
+      }
+    }
+    if (!container) {
+      container = $('body');
+      warnings.push('No article container found; using the whole page body');
+      missing.push('transcriptBody');
+    }
+
+    const blocks = container
+      .find(BLOCK_SELECTOR)
+      .filter((_, el) => $(el).find(BLOCK_SELECTOR).length === 0)
+      .map((_, el) => $(el).text())
+      .get();
+    const content = container.text().replace(/\s+/g, ' ').trim() || null;
+
+    // ===== METADATA =====
+    const opening = (content || '').slice(0, 3000);
+    const siteName = ($('meta[property="og:site_name"]').attr('content') || '')
+      .replace(SITE_SUFFIX, '')
+      .trim();
+
+    let { quarter, fiscalYear } = findQuarter(title || '');
+    if (!quarter) {
+      ({ quarter, fiscalYear } = findQuarter(opening));
+      if (quarter) warnings.push('Quarter extracted from body text, not title');
+    }
+
+    const ticker = findExchangeTicker(`${title || ''} ${$('body').text()}`);
+    if (!ticker) missing.push('ticker');
+
+    const companyName =
+      findCompanyName(title || '') || siteName || findCompanyName(opening) || null;
+    if (companyName && !findCompanyName(title || '')) {
+      warnings.push('Company name not found in title');
+    }
+
+    let callDate =
+      $('time[datetime]').first().attr('datetime') ||
+      $('meta[property="article:published_time"]').attr('content') ||
+      null;
+    if (callDate) {
+      found.push('publishDate');
+    } else {
+      callDate = findDateInText(opening);
+      if (callDate) {
+        warnings.push('Date extracted from body text, not metadata');
+      } else {
+        missing.push('publishDate');
+      }
+    }
+
+    return finishParse(
+      { title, companyName, ticker, quarter, fiscalYear, callDate, content, blocks },
+      html,
+      sourceUrl,
+      { errors, warnings, found, missing }
+    );
+  },
+};
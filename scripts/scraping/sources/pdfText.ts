@@ -0,0 +1,248 @@
+/**
+ * PDF Text Extraction
+ *
+ * Pulls the text out of simple PDFs such as press-release transcripts: each
+ * page content stream is inflated and its text-showing operators (Tj, TJ, '
+ * and ") are replayed, with a line break per text object or line move.
+ *
+ * Fonts with custom encodings (CID fonts without a ToUnicode map) come out as
+ * noise; the validation layers reject those transcripts as unreadable.
+ */
+
+import zlib from 'zlib';
+
+// TJ adjustments more negative than this (thousandths of an em) are word gaps
+const WORD_GAP = -250;
+
+// Stream dictionaries we never take text from
+const SKIPPED_STREAMS = /\/Subtype\s*\/Image|\/Type\s*\/XRef|\/Type\s*\/ObjStm|\/Length1/;
+
+type Operand = string | number | Array<string | number>;
+
+/**
+ * Read a literal string starting at the "(" at `start`
+ */
+function readLiteral(data: string, start: number): [string, number] {
+  let depth = 0;
+  let out = '';
+  let i = start;
+
+  while (i < data.length) {
+    const c = data[i];
+    if (c === '\\') {
+      const next = data[i + 1];
+      const escapes: Record<string, string> = {
+        n: '\n',
+        r: '\r',
+        t: '\t',
+        b: '\b',
+        f: '\f',
+        '(': '(',
+        ')': ')',
+        '\\': '\\',
+      };
+      if (next in escapes) {
+        out += escapes[next];
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = data.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        out += String.fromCharCode(parseInt(octal, 8));
+        i += 1 + octal.length;
+      } else {
+        // Line continuation or an unknown escape
+        i += next === '\r' && data[i + 2] === '\n' ? 3 : 2;
+      }
+      continue;
+    }
+    if (c === '(') {
+      depth++;
+      if (depth > 1) out += c;
+    } else if (c === ')') {
+      depth--;
+      if (depth === 0) return [out, i + 1];
+      out += c;
+    } else {
+      out += c;
+    }
+    i++;
+  }
+
+  return [out, i];
+}
+
+/**
+ * Decode a hex string; two-byte strings with zero high bytes are UTF-16
+ */
+function decodeHex(hex: string): string {
+  const clean = hex.replace(/[^0-9a-f]/gi, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < clean.length; i += 2) {
+    bytes.push(parseInt(clean.slice(i, i + 2).padEnd(2, '0'), 16));
+  }
+
+  const utf16 =
+    bytes.length % 2 === 0 &&
+    bytes.length > 0 &&
+    bytes.every((b, i) => i % 2 === 1 || b === 0);
+  if (utf16) {
+    return bytes
+      .filter((_, i) => i % 2 === 1)
+      .map((b) => String.fromCharCode(b))
+      .join('');
+  }
+  return bytes.map((b) => String.fromCharCode(b)).join('');
+}
+
+/**
+ * Text drawn by one page content stream
+ */
+export function textFromContentStream(data: string): string {
+  let out = '';
+  let operands: Operand[] = [];
+  let array: Array<string | number> | null = null;
+  let i = 0;
+
+  const push = (operand: string | number) =>
+    array ? array.push(operand) : operands.push(operand);
+  const newline = () => {
+    if (out.length > 0 && !out.endsWith('\n')) out += '\n';
+  };
+
+  while (i < data.length) {
+    const c = data[i];
+
+    if (c === '%') {
+      while (i < data.length && data[i] !== '\n' && data[i] !== '\r') i++;
+      continue;
+    }
+    if (c === '(') {
+      const [text, next] = readLiteral(data, i);
+      push(text);
+      i = next;
+      continue;
+    }
+    if (c === '<' && data[i + 1] === '<') {
+      i += 2;
+      continue;
+    }
+    if (c === '>' && data[i + 1] === '>') {
+      i += 2;
+      continue;
+    }
+    if (c === '<') {
+      const end = data.indexOf('>', i);
+      push(decodeHex(data.slice(i + 1, end === -1 ? data.length : end)));
+      i = end === -1 ? data.length : end + 1;
+      continue;
+    }
+    if (c === '[') {
+      array = [];
+      i++;
+      continue;
+    }
+    if (c === ']') {
+      if (array) operands.push(array);
+      array = null;
+      i++;
+      continue;
+    }
+
+    const token = data
+      .slice(i)
+      .match(/^(?:[+-]?(?:\d+\.?\d*|\.\d+)|\/[^\s/[\]()<>{}%]*|[A-Za-z'"*]+\d?|\S)/);
+    if (!token) {
+      i++;
+      continue;
+    }
+    const word = token[0];
+    i += word.length;
+
+    if (/^[+-]?(?:\d|\.\d)/.test(word)) {
+      push(parseFloat(word));
+      continue;
+    }
+    if (word.startsWith('/')) continue;
+
+    // Operator
+    const strings = operands.filter((o): o is string => typeof o === 'string');
+    switch (word) {
+      case 'Tj':
+        out += strings.join('');
+        break;
+      case "'":
+      case '"':
+        newline();
+        out += strings.join('');
+        break;
+      case 'TJ': {
+        const items = operands[operands.length - 1];
+        for (const item of Array.isArray(items) ? items : []) {
+          if (typeof item === 'string') out += item;
+          else if (item < WORD_GAP) out += ' ';
+        }
+        break;
+      }
+      case 'T*':
+      case 'ET':
+        newline();
+        break;
+      case 'Td':
+      case 'TD': {
+        const y = operands[1];
+        if (typeof y === 'number' && y !== 0) newline();
+        else if (out.length > 0 && !out.endsWith('\n')) out += ' ';
+        break;
+      }
+    }
+    operands = [];
+  }
+
+  return out;
+}
+
+/**
+ * Plain text of a PDF, one line per text line
+ */
+export function extractPdfText(pdf: Buffer): string {
+  const raw = pdf.toString('latin1');
+  const chunks: string[] = [];
+  const streamStart = /stream\r?\n/g;
+  let match;
+
+  while ((match = streamStart.exec(raw)) !== null) {
+    const begin = match.index + match[0].length;
+    const end = raw.indexOf('endstream', begin);
+    if (end === -1) break;
+    streamStart.lastIndex = end + 'endstream'.length;
+
+    // The stream dictionary ends just before the keyword
+    const dictionary = raw.slice(raw.lastIndexOf('obj', match.index), match.index);
+    if (SKIPPED_STREAMS.test(dictionary)) continue;
+
+    const bytes = pdf.subarray(begin, end);
+    let content: string;
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        content = zlib.inflateSync(bytes).toString('latin1');
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue; // Other filters (images, fonts) never hold page text
+    } else {
+      content = bytes.toString('latin1');
+    }
+
+    if (/\bT[Jj]\b|'|"/.test(content) && /\bBT\b/.test(content)) {
+      chunks.push(textFromContentStream(content));
+    }
+  }
+
+  return chunks
+    .join('\n')
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,126 @@
+/**
+ * Press Release Transcript Source
+ *
+ * Transcripts distributed as plain-text or PDF documents (newswire releases,
+ * IR document libraries). The document is downloaded as-is, PDFs are turned
+ * into text, and metadata comes from the opening lines.
+ */
+
+import { type TranscriptSource, type TranscriptPageCheck } from './types';
+import { looksLikeTranscript } from '../validators/semantic';
+import {
+  findQuarter,
+  findExchangeTicker,
+  findCompanyName,
+  findDateInText,
+  splitParagraphs,
+  finishParse,
+} from './common';
+import { extractPdfText } from './pdfText';
+
+const DOCUMENT_EXTENSIONS = /\.(?:pdf|txt)$/i;
+
+// Text looked at for the title, company, quarter and date
+const HEADER_LENGTH = 3000;
+
+export function isPdf(body: Buffer, contentType: string | null): boolean {
+  return (
+    (contentType || '').includes('application/pdf') ||
+    body.subarray(0, 5).toString('latin1') === '%PDF-'
+  );
+}
+
+export const pressReleaseSource: TranscriptSource = {
+  id: 'press-release',
+  name: 'Press release document',
+  fetchMode: 'http',
+
+  matchesUrl(url) {
+    try {
+      return DOCUMENT_EXTENSIONS.test(new URL(url).pathname);
+    } catch {
+      return false;
+    }
+  },
+
+  buildUrl() {
+    // Release URLs are assigned by the newswire or IR site
+    return null;
+  },
+
+  decode(body, contentType) {
+    return isPdf(body, contentType) ? extractPdfText(body) : body.toString('utf8');
+  },
+
+  isTranscriptPage(text: string): TranscriptPageCheck {
+    return looksLikeTranscript(text);
+  },
+
+  detectPaywall(text: string): boolean {
+    // A short document asking to sign in is a login page, not a release
+    return text.length < 2000 && /access denied|sign in|log in|subscribe/i.test(text);
+  },
+
+  parse(text: string, sourceUrl: string) {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const found: string[] = [];
+    const missing: string[] = [];
+
+    if (!text || text.trim().length === 0) {
+      return {
+        success: false,
+        data: null,
+        errors: ['Empty document provided'],
+        warnings: [],
+        selectors: { found: [], missing: [] },
+      };
+    }
+
+    const paragraphs = splitParagraphs(text);
+    const header = paragraphs.join('\n').slice(0, HEADER_LENGTH);
+
+    // The first line is the release headline
+    const title = paragraphs[0] ? paragraphs[0].slice(0, 200) : null;
+    if (title) found.push('title');
+
+    let { quarter, fiscalYear } = findQuarter(title || '');
+    if (!quarter) {
+      ({ quarter, fiscalYear } = findQuarter(header));
+    }
+    if (!quarter) missing.push('quarter');
+
+    const ticker = findExchangeTicker(header);
+    if (ticker) {
+      found.push('ticker');
+    } else {
+      missing.push('ticker');
+    }
+
+    const companyName = findCompanyName(header) || findCompanyName(title || '');
+    if (!companyName) missing.push('companyName');
+
+    const callDate = findDateInText(header);
+    if (callDate) {
+      found.push('publishDate');
+    } else {
+      missing.push('publishDate');
+    }
+
+    return finishParse(
+      {
+        title,
+        companyName,
+        ticker,
+        quarter,
+        fiscalYear,
+        callDate,
+        content: paragraphs.join('\n\n'),
+        blocks: text.split(/\r?\n/),
+      },
+      text,
+      sourceUrl,
+      { errors, warnings, found, missing }
+    );
+  },
+};
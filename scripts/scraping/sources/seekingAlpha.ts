@@ -0,0 +1,47 @@
+/**
+ * Seeking Alpha Transcript Source
+ *
+ * Premium transcript articles, rendered in an authenticated browser session.
+ * Parsing lives in ../parser.ts.
+ */
+
+import {
+  parseTranscriptHtml,
+  isTranscriptPage,
+  detectPaywall,
+  extractTranscriptLinks,
+} from '../parser';
+import { type TranscriptSource } from './types';
+
+const SEEKING_ALPHA_HOSTS = ['seekingalpha.com', 'www.seekingalpha.com'];
+
+/**
+ * Transcript article URL, or the ticker's transcript listing without a slug
+ */
+export function buildSeekingAlphaUrl(ticker: string, slug?: string): string {
+  if (slug) {
+    return `https://seekingalpha.com/article/${slug}`;
+  }
+  return `https://seekingalpha.com/symbol/${ticker.toUpperCase()}/earnings/transcripts`;
+}
+
+export const seekingAlphaSource: TranscriptSource = {
+  id: 'seeking-alpha',
+  name: 'Seeking Alpha',
+  fetchMode: 'browser',
+
+  matchesUrl(url) {
+    try {
+      return SEEKING_ALPHA_HOSTS.includes(new URL(url).hostname);
+    } catch {
+      return false;
+    }
+  },
+
+  buildUrl: buildSeekingAlphaUrl,
+
+  isTranscriptPage,
+  detectPaywall,
+  parse: parseTranscriptHtml,
+  extractTranscriptLinks,
+};
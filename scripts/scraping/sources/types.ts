@@ -0,0 +1,54 @@
+/**
+ * Transcript Source Types
+ *
+ * A transcript source adapter knows how to find, recognise and parse one kind
+ * of transcript page. The scraper picks an adapter per URL; whatever it
+ * extracts goes through the same three validation layers.
+ */
+
+import { type ParseResult } from '../parser';
+
+export type TranscriptSourceId = 'seeking-alpha' | 'investor-relations' | 'press-release';
+
+/**
+ * How likely a fetched page is a transcript (score 0-100)
+ */
+export interface TranscriptPageCheck {
+  isTranscript: boolean;
+  confidence: number;
+  reasons: string[];
+}
+
+export interface TranscriptSource {
+  id: TranscriptSourceId;
+  name: string;
+
+  // 'browser' pages are rendered with Puppeteer; 'http' documents (text, PDF)
+  // are downloaded as-is and turned into text with decode()
+  fetchMode: 'browser' | 'http';
+
+  /**
+   * Whether this adapter handles the URL
+   */
+  matchesUrl(url: string): boolean;
+
+  /**
+   * Transcript (or transcript listing) URL for a ticker, or null when the
+   * source has no predictable URLs
+   */
+  buildUrl(ticker: string, slug?: string): string | null;
+
+  /**
+   * Turn a downloaded document into the text parse() expects
+   */
+  decode?(body: Buffer, contentType: string | null): string;
+
+  isTranscriptPage(body: string): TranscriptPageCheck;
+  detectPaywall(body: string): boolean;
+  parse(body: string, sourceUrl: string): ParseResult;
+
+  /**
+   * Transcript links on a listing page, for sources that have them
+   */
+  extractTranscriptLinks?(body: string): string[];
+}
@@ -184,7 +184,9 @@ export function validateCrossReference(
       const url = new URL(extracted.sourceUrl);
       const allowedDomains = ['seekingalpha.com', 'www.seekingalpha.com'];
 
-      if (!allowedDomains.includes(url.hostname)) {
+      // Other transcript sources live on company and newswire domains
+      const fromSeekingAlpha = !extracted.source || extracted.source === 'seeking-alpha';
+      if (fromSeekingAlpha && !allowedDomains.includes(url.hostname)) {
         warnings.push({
           field: 'sourceUrl',
           message: `Source domain "${url.hostname}" is not Seeking Alpha`,
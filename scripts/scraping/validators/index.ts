@@ -13,6 +13,9 @@ export {
   type CombinedValidationResult,
   type ExtractedTranscriptData,
   type ExpectedTranscriptData,
+  type ExtractionStrategy,
+  type ExtractionField,
+  type FieldSources,
   CONFIDENCE_CONFIG,
   calculateConfidence,
   determineAutoDecision,
@@ -4,6 +4,9 @@
  * Shared types for all validation layers.
  */
 
+import type { SegmentedTranscript } from '../../../src/lib/utils/transcriptSegments';
+import type { TranscriptSourceId } from '../sources/types';
+
 export type ValidationSeverity = 'critical' | 'major' | 'minor';
 
 export interface ValidationError {
@@ -112,6 +115,41 @@ export function determineAutoDecision(
   return 'reject';
 }
 
+/**
+ * How the parser produced a field, most reliable first:
+ * selector: the page's own markup for that field
+ * json-ld: schema.org metadata embedded in the page
+ * opengraph: og:/article: meta tags
+ * title-tag: the document <title>
+ * url: the page URL
+ * body-text: a pattern found in the page text
+ * paragraphs: all article paragraphs
+ * text-density: the page block with the most paragraph text
+ * speaker-turns: names from the segmented transcript
+ */
+export type ExtractionStrategy =
+  | 'selector'
+  | 'json-ld'
+  | 'opengraph'
+  | 'title-tag'
+  | 'url'
+  | 'body-text'
+  | 'paragraphs'
+  | 'text-density'
+  | 'speaker-turns';
+
+export type ExtractionField =
+  | 'title'
+  | 'companyName'
+  | 'ticker'
+  | 'quarter'
+  | 'fiscalYear'
+  | 'callDate'
+  | 'content'
+  | 'participants';
+
+export type FieldSources = Partial<Record<ExtractionField, ExtractionStrategy>>;
+
 /**
  * Extracted transcript data from parser
  */
@@ -129,8 +167,11 @@ export interface ExtractedTranscriptData {
   participants: string[];
   title: string | null;
   wordCount: number;
+  segmented?: SegmentedTranscript; // Participants and ordered speaker turns
+  fieldSources?: FieldSources; // Strategy that produced each extracted field
 
   // Source metadata
+  source?: TranscriptSourceId; // Adapter that parsed it
   sourceUrl: string;
   sourceTitle: string | null;
   rawHtml: string;
@@ -125,6 +125,7 @@ interface KalshiMarket {
   no_bid: number;
   no_ask: number;
   last_price: number;
+  result?: string; // 'yes' | 'no' once determined, '' before
   volume: number;
   volume_24h: number;
   open_interest: number;
@@ -575,6 +576,7 @@ async function syncKalshiEvents() {
             lastPrice: m.last_price || 0,
             volume: m.volume || 0,
             status: mapMarketStatus(m.status),
+            ...(m.result === 'yes' || m.result === 'no' ? { result: m.result } : {}),
           }))
         : dbEvent.markets;
 
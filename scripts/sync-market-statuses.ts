@@ -4,6 +4,7 @@
  *
  * Checks each market ticker against Kalshi and updates the status.
  * Markets not found on Kalshi are marked as 'finalized' (settled/removed).
+ * Determined markets also get their YES/NO settlement result recorded.
  *
  * Usage: bun run scripts/sync-market-statuses.ts
  */
@@ -114,6 +115,15 @@ async function getMarketStatus(ticker: string): Promise<string> {
   return result.market.status;
 }
 
+/**
+ * Get a determined market's settlement result from Kalshi
+ */
+async function getMarketResult(ticker: string): Promise<'yes' | 'no' | null> {
+  const result = await kalshiRequest<{ market: KalshiMarket }>(`/markets/${ticker}`);
+  const outcome = result?.market?.result;
+  return outcome === 'yes' || outcome === 'no' ? outcome : null;
+}
+
 /**
  * Main sync function
  */
@@ -133,6 +143,7 @@ async function syncMarketStatuses() {
   let eventsUpdated = 0;
   let marketsChecked = 0;
   let marketsUpdated = 0;
+  let resultsRecorded = 0;
 
   for (const event of events) {
     if (!event.markets || event.markets.length === 0) {
@@ -154,9 +165,21 @@ async function syncMarketStatuses() {
     if (kalshiStatus === 'finalized' || kalshiStatus === 'closed' || kalshiStatus === 'determined') {
       // Update all markets to finalized
       for (const market of event.markets) {
+        // Record settlement outcomes (used by the calibration report)
+        let result = market.result;
+        if (!result && kalshiStatus !== 'closed') {
+          result = (await getMarketResult(market.ticker)) || undefined;
+          if (result) {
+            resultsRecorded++;
+            eventNeedsUpdate = true;
+          }
+          await new Promise(resolve => setTimeout(resolve, 100));
+        }
+
         updatedMarkets.push({
           ...market,
           status: kalshiStatus,
+          ...(result ? { result } : {}),
         });
         if (market.status !== kalshiStatus) {
           marketsUpdated++;
@@ -210,6 +233,7 @@ async function syncMarketStatuses() {
   console.log(`Markets checked: ${marketsChecked}`);
   console.log(`Events updated: ${eventsUpdated}`);
   console.log(`Markets updated: ${marketsUpdated}`);
+  console.log(`Results recorded: ${resultsRecorded}`);
 }
 
 syncMarketStatuses()
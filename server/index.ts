@@ -17,22 +17,67 @@ import {
   updateEarningsEventDate,
   getPendingTranscripts,
   deleteTranscript,
+  saveTranscriptSegments,
+  getTranscriptSegments,
+  getTranscriptSegmentsForEvent,
   saveNote,
   getNotesForEvent,
   deleteNote,
   saveBet,
   getBet,
+  updateBet,
   updateBetStatus,
   getAllBets,
+  getRiskSettings,
+  saveRiskSettings,
+  getAllTriggerOrders,
   saveEarningsEvent,
   getEarningsEvent,
   getEarningsEventsForCompany,
   getAllEarningsEvents,
   updateEarningsEventMarkets,
   deleteEarningsEvent,
+  type BetRecord,
 } from './lib/dynamodb';
 import { fetchNewsForWord, fetchNewsForWords, getTrendingWords } from './lib/news';
 import { getKalshiWebSocketClient, KalshiWebSocketClient } from './lib/kalshi-websocket';
+import { OrderBookStore } from './lib/orderbook';
+import {
+  OrderReconciler,
+  betIdForClientOrder,
+  type KalshiOrderState,
+} from './lib/orderReconciler';
+import {
+  checkOrderRisk,
+  checkAmendRisk,
+  getRiskLimits,
+  normalizeRiskLimits,
+  KALSHI_STRIKE_POSITION_LIMIT,
+  type KalshiRestingOrder,
+} from './lib/riskGate';
+import {
+  TriggerEngine,
+  normalizeTrigger,
+  type SubmitTriggerOrder,
+} from './lib/triggerOrders';
+import { AlertEngine, normalizeAlertRule, type AlertHit } from './lib/alerts';
+import { getMentionProbabilities } from './lib/baseRate';
+import { getCalibrationReport } from './lib/calibration';
+import { getBacktest, normalizeStrategy } from './lib/backtest';
+import { getPerformanceReport } from './lib/performance';
+import {
+  getMarketHistory,
+  getPriceHistoryRecorder,
+  isHistoryInterval,
+  HISTORY_INTERVALS,
+  PRICE_HISTORY_CONFIG,
+} from './lib/priceHistory';
+import {
+  evaluateStrike,
+  parseMentionStrike,
+  type MentionStrike,
+} from '../src/lib/utils/mentionStrike';
+import { segmentTranscript } from '../src/lib/utils/transcriptSegments';
 
 const app = express();
 const server = createServer(app);
@@ -208,8 +253,32 @@ app.get('/api/kalshi/series/:seriesTicker', async (req, res) => {
   res.status(result.status).json(result.data);
 });
 
-// Place order
+// Place order (after the pre-trade risk gate)
 app.post('/api/kalshi/portfolio/orders', async (req, res) => {
+  try {
+    const check = await checkOrderRisk(req.body, kalshiRequest);
+    if (!check.allowed) {
+      return res
+        .status(422)
+        .json({ error: 'Order rejected by risk checks', violations: check.violations });
+    }
+  } catch (error) {
+    // Fail closed: without positions the gate cannot vouch for the order
+    console.error('Error running risk checks:', error);
+    return res.status(503).json({
+      error: 'Risk checks unavailable; order not sent',
+      violations: [
+        {
+          rule: 'risk_data_unavailable',
+          message: 'Could not load positions and orders to check risk limits',
+          limit: 0,
+          current: 0,
+          attempted: 0,
+        },
+      ],
+    });
+  }
+
   const result = await kalshiRequest('POST', '/portfolio/orders', req.body);
   res.status(result.status).json(result.data);
 });
@@ -222,6 +291,92 @@ app.get('/api/kalshi/portfolio/orders', async (req, res) => {
   res.status(result.status).json(result.data);
 });
 
+// Queue positions of resting orders
+app.get('/api/kalshi/portfolio/orders/queue_positions', async (req, res) => {
+  const queryString = new URLSearchParams(req.query as Record<string, string>).toString();
+  const endpoint = queryString
+    ? `/portfolio/orders/queue_positions?${queryString}`
+    : '/portfolio/orders/queue_positions';
+  const result = await kalshiRequest('GET', endpoint);
+  res.status(result.status).json(result.data);
+});
+
+// Cancel order
+app.delete('/api/kalshi/portfolio/orders/:orderId', async (req, res) => {
+  const result = await kalshiRequest(
+    'DELETE',
+    `/portfolio/orders/${encodeURIComponent(req.params.orderId)}`
+  );
+  if (result.status === 200) orderReconciler.requestSweep();
+  res.status(result.status).json(result.data);
+});
+
+// Amend order price and/or size (after the pre-trade risk gate)
+app.post('/api/kalshi/portfolio/orders/:orderId/amend', async (req, res) => {
+  const { orderId } = req.params;
+  try {
+    const check = await checkAmendRisk(orderId, req.body, kalshiRequest);
+    if (!check.allowed) {
+      return res
+        .status(422)
+        .json({ error: 'Amend rejected by risk checks', violations: check.violations });
+    }
+  } catch (error) {
+    console.error('Error running risk checks on amend:', error);
+    return res.status(503).json({
+      error: 'Risk checks unavailable; amend not sent',
+      violations: [
+        {
+          rule: 'risk_data_unavailable',
+          message: 'Could not load the order, positions and orders to check risk limits',
+          limit: 0,
+          current: 0,
+          attempted: 0,
+        },
+      ],
+    });
+  }
+
+  const result = await kalshiRequest(
+    'POST',
+    `/portfolio/orders/${encodeURIComponent(orderId)}/amend`,
+    req.body
+  );
+
+  // The amended order has a new order id and client_order_id, so pin the bet to it
+  if (result.status === 200) {
+    try {
+      const amended = (result.data as { order?: KalshiOrderState & KalshiRestingOrder })
+        .order;
+      const bet = amended?.client_order_id
+        ? await getBet(betIdForClientOrder(amended.client_order_id))
+        : null;
+      if (amended && bet) {
+        const price = amended.side === 'no' ? amended.no_price : amended.yes_price;
+        await updateBet(bet.betId, {
+          orderId: amended.order_id,
+          ...(price ? { price } : {}),
+        });
+      }
+    } catch (error) {
+      console.error('Error linking amended order to bet:', error);
+    }
+    orderReconciler.requestSweep();
+  }
+  res.status(result.status).json(result.data);
+});
+
+// Decrease order size
+app.post('/api/kalshi/portfolio/orders/:orderId/decrease', async (req, res) => {
+  const result = await kalshiRequest(
+    'POST',
+    `/portfolio/orders/${encodeURIComponent(req.params.orderId)}/decrease`,
+    req.body
+  );
+  if (result.status === 200) orderReconciler.requestSweep();
+  res.status(result.status).json(result.data);
+});
+
 // ===========================================
 // Transcript Endpoints
 // ===========================================
@@ -270,6 +425,12 @@ app.post('/api/transcripts', async (req, res) => {
       ...(parsedEarningsDate && { parsedEarningsDate }),
     });
 
+    // Speaker turns (only when the pasted text keeps its speaker lines)
+    const { participants, segments } = segmentTranscript(content);
+    if (segments.length > 0) {
+      await saveTranscriptSegments({ eventTicker, date, participants, segments });
+    }
+
     res.status(201).json(transcript);
   } catch (error) {
     console.error('Error saving transcript:', error);
@@ -277,6 +438,33 @@ app.post('/api/transcripts', async (req, res) => {
   }
 });
 
+// Get speaker turns for every transcript of an event (company)
+// Transcripts without saved segments are segmented from their content
+app.get('/api/transcripts/:eventTicker/segments', async (req, res) => {
+  try {
+    const { eventTicker } = req.params;
+    const [transcripts, stored] = await Promise.all([
+      getTranscriptsForEvent(eventTicker),
+      getTranscriptSegmentsForEvent(eventTicker),
+    ]);
+
+    const storedByDate = new Map(stored.map((record) => [record.date, record]));
+    const results = transcripts.map((t) => {
+      const record = storedByDate.get(t.date);
+      if (record) {
+        return { ...record, stored: true };
+      }
+      const { participants, segments } = segmentTranscript(t.content);
+      return { eventTicker, date: t.date, participants, segments, stored: false };
+    });
+
+    res.json(results);
+  } catch (error) {
+    console.error('Error getting transcript segments:', error);
+    res.status(500).json({ error: 'Failed to get transcript segments' });
+  }
+});
+
 // Get a specific transcript
 app.get('/api/transcripts/:eventTicker/:date', async (req, res) => {
   try {
@@ -291,6 +479,30 @@ app.get('/api/transcripts/:eventTicker/:date', async (req, res) => {
   }
 });
 
+// Get speaker turns for a transcript
+// Falls back to segmenting the stored content when no segments were saved
+app.get('/api/transcripts/:eventTicker/:date/segments', async (req, res) => {
+  try {
+    const { eventTicker, date } = req.params;
+
+    const stored = await getTranscriptSegments(eventTicker, date);
+    if (stored) {
+      return res.json({ ...stored, stored: true });
+    }
+
+    const transcript = await getTranscript(eventTicker, date);
+    if (!transcript) {
+      return res.status(404).json({ error: 'Transcript not found' });
+    }
+
+    const { participants, segments } = segmentTranscript(transcript.content);
+    res.json({ eventTicker, date, participants, segments, stored: false });
+  } catch (error) {
+    console.error('Error getting transcript segments:', error);
+    res.status(500).json({ error: 'Failed to get transcript segments' });
+  }
+});
+
 // Get all transcripts for an event (company)
 app.get('/api/transcripts/:eventTicker', async (req, res) => {
   try {
@@ -302,6 +514,38 @@ app.get('/api/transcripts/:eventTicker', async (req, res) => {
   }
 });
 
+// Evaluate MENTION strikes (alternatives + minimum count) across all transcripts
+// for an event (company)
+app.post('/api/transcripts/:eventTicker/word-counts', async (req, res) => {
+  try {
+    const { words } = req.body;
+
+    if (!words || !Array.isArray(words)) {
+      return res.status(400).json({ error: 'Words array is required' });
+    }
+
+    const transcripts = await getTranscriptsForEvent(req.params.eventTicker);
+
+    const counts = Object.fromEntries(
+      words.map((word: string) => {
+        const strike = parseMentionStrike(word);
+        const byTranscript = transcripts.map((t) => {
+          const { count, resolvesYes } = evaluateStrike(t.content, strike);
+          return { date: t.date, quarter: t.quarter, year: t.year, count, resolvesYes };
+        });
+        const total = byTranscript.reduce((sum, t) => sum + t.count, 0);
+        const hits = byTranscript.filter((t) => t.resolvesYes).length;
+        return [word, { total, hits, minCount: strike.minCount, byTranscript }];
+      })
+    );
+
+    res.json(counts);
+  } catch (error) {
+    console.error('Error counting transcript words:', error);
+    res.status(500).json({ error: 'Failed to count transcript words' });
+  }
+});
+
 // Get all transcripts
 app.get('/api/transcripts', async (req, res) => {
   try {
@@ -432,11 +676,15 @@ app.delete('/api/notes/:eventTicker/:timestamp', async (req, res) => {
 // Bet History Endpoints
 // ===========================================
 
+// Keeps bet status, fills and settlement in step with Kalshi
+const orderReconciler = new OrderReconciler(kalshiRequest, (bet) => broadcastBetUpdate(bet));
+
 // Save a bet record
 app.post('/api/bets', async (req, res) => {
   try {
     const {
       betId,
+      basketId,
       eventTicker,
       marketTicker,
       company,
@@ -445,6 +693,7 @@ app.post('/api/bets', async (req, res) => {
       action,
       count,
       price,
+      modelProbability,
     } = req.body;
 
     if (
@@ -463,6 +712,7 @@ app.post('/api/bets', async (req, res) => {
 
     const bet = await saveBet({
       betId,
+      ...(basketId ? { basketId } : {}),
       eventTicker,
       marketTicker,
       company,
@@ -471,6 +721,7 @@ app.post('/api/bets', async (req, res) => {
       action,
       count: parseInt(count),
       price: parseFloat(price),
+      ...(typeof modelProbability === 'number' ? { modelProbability } : {}),
       status: 'pending',
     });
 
@@ -481,6 +732,17 @@ app.post('/api/bets', async (req, res) => {
   }
 });
 
+// Reconcile open and unsettled bets against Kalshi orders, fills and results now
+app.post('/api/bets/reconcile', async (req, res) => {
+  try {
+    const summary = await orderReconciler.reconcile();
+    res.json(summary);
+  } catch (error) {
+    console.error('Error reconciling bets:', error);
+    res.status(500).json({ error: 'Failed to reconcile bets' });
+  }
+});
+
 // Get a specific bet
 app.get('/api/bets/:betId', async (req, res) => {
   try {
@@ -694,6 +956,316 @@ app.delete('/api/earnings/:company/:eventTicker', async (req, res) => {
   }
 });
 
+// ===========================================
+// Market Price History Endpoints
+// ===========================================
+
+// Recorded quotes for a market, resampled to an interval
+// Query: from/to (ISO, default the last 7 days), interval (5m, 15m, 1h, 4h, 1d)
+app.get('/api/markets/:ticker/history', async (req, res) => {
+  try {
+    const { from, to, interval = '1h' } = req.query;
+
+    if (!isHistoryInterval(interval)) {
+      return res.status(400).json({
+        error: `Interval must be one of ${Object.keys(HISTORY_INTERVALS).join(', ')}`,
+      });
+    }
+
+    const toDate = to ? new Date(to as string) : new Date();
+    const fromDate = from
+      ? new Date(from as string)
+      : new Date(toDate.getTime() - PRICE_HISTORY_CONFIG.defaultRangeDays * 86_400_000);
+    if (isNaN(toDate.getTime()) || isNaN(fromDate.getTime()) || fromDate > toDate) {
+      return res.status(400).json({ error: 'Invalid from/to range' });
+    }
+
+    const points = await getMarketHistory(req.params.ticker, {
+      from: fromDate.toISOString(),
+      to: toDate.toISOString(),
+      interval,
+    });
+    res.json({
+      ticker: req.params.ticker,
+      interval,
+      from: fromDate.toISOString(),
+      to: toDate.toISOString(),
+      points,
+    });
+  } catch (error) {
+    console.error('Error fetching price history:', error);
+    res.status(500).json({ error: 'Failed to fetch price history' });
+  }
+});
+
+// ===========================================
+// Model Endpoints
+// ===========================================
+
+// Estimate P(YES) for an event's MENTION markets from verified transcripts
+// Body: { markets: [{ ticker, strike }] } or { markets: [{ ticker, word }] }
+app.post('/api/model/:eventTicker/probabilities', async (req, res) => {
+  try {
+    const { markets } = req.body;
+
+    if (!markets || !Array.isArray(markets)) {
+      return res.status(400).json({ error: 'Markets array is required' });
+    }
+
+    const parsed = markets
+      .filter((m: { ticker?: string }) => typeof m?.ticker === 'string')
+      .map((m: { ticker: string; strike?: MentionStrike; word?: string }) => ({
+        ticker: m.ticker,
+        strike: m.strike?.alternatives?.length
+          ? m.strike
+          : parseMentionStrike(m.word || m.ticker.split('-').pop() || ''),
+      }));
+
+    const probabilities = await getMentionProbabilities(req.params.eventTicker, parsed);
+    res.json(probabilities);
+  } catch (error) {
+    console.error('Error estimating mention probabilities:', error);
+    res.status(500).json({ error: 'Failed to estimate mention probabilities' });
+  }
+});
+
+// ===========================================
+// Analytics Endpoints
+// ===========================================
+
+// Calibration of the base-rate model and Kalshi last prices against settled markets
+app.get('/api/analytics/calibration', async (req, res) => {
+  try {
+    const report = await getCalibrationReport();
+    res.json(report);
+  } catch (error) {
+    console.error('Error building calibration report:', error);
+    res.status(500).json({ error: 'Failed to build calibration report' });
+  }
+});
+
+// Replay a word-betting strategy over settled markets
+app.post('/api/analytics/backtest', async (req, res) => {
+  try {
+    const { strategy = {} } = req.body;
+
+    if (strategy.side && !['yes', 'no', 'either'].includes(strategy.side)) {
+      return res.status(400).json({ error: 'Side must be yes, no or either' });
+    }
+
+    const result = await getBacktest(normalizeStrategy(strategy));
+    res.json(result);
+  } catch (error) {
+    console.error('Error running backtest:', error);
+    res.status(500).json({ error: 'Failed to run backtest' });
+  }
+});
+
+// Win rate, ROI and edge at entry across every settled bet
+app.get('/api/analytics/performance', async (req, res) => {
+  try {
+    const report = await getPerformanceReport();
+    res.json(report);
+  } catch (error) {
+    console.error('Error building performance report:', error);
+    res.status(500).json({ error: 'Failed to build performance report' });
+  }
+});
+
+// ===========================================
+// Risk Endpoints
+// ===========================================
+
+// Pre-trade risk limits (saved limits or the defaults)
+app.get('/api/risk/limits', async (req, res) => {
+  try {
+    const [limits, settings] = await Promise.all([getRiskLimits(), getRiskSettings()]);
+    res.json({
+      limits,
+      strikePositionLimit: KALSHI_STRIKE_POSITION_LIMIT,
+      updatedAt: settings?.updatedAt || null,
+    });
+  } catch (error) {
+    console.error('Error getting risk limits:', error);
+    res.status(500).json({ error: 'Failed to get risk limits' });
+  }
+});
+
+// Update risk limits (any subset; amounts in cents)
+app.put('/api/risk/limits', async (req, res) => {
+  try {
+    const { limits, invalid } = normalizeRiskLimits(req.body || {}, await getRiskLimits());
+    if (invalid.length > 0) {
+      return res
+        .status(400)
+        .json({ error: `Limits must be positive numbers: ${invalid.join(', ')}` });
+    }
+
+    const settings = await saveRiskSettings(limits);
+    res.json({
+      limits,
+      strikePositionLimit: KALSHI_STRIKE_POSITION_LIMIT,
+      updatedAt: settings.updatedAt,
+    });
+  } catch (error) {
+    console.error('Error saving risk limits:', error);
+    res.status(500).json({ error: 'Failed to save risk limits' });
+  }
+});
+
+// ===========================================
+// Trigger Order Endpoints
+// ===========================================
+
+// Send a triggered order through the same risk gate as the order proxy and
+// record it as a bet (the trigger ID doubles as client_order_id and betId)
+const submitTriggerOrder: SubmitTriggerOrder = async (trigger) => {
+  const { action, side, count, price } = trigger.order;
+  const order = {
+    ticker: trigger.marketTicker,
+    client_order_id: trigger.triggerId,
+    type: 'limit',
+    action,
+    side,
+    count,
+    ...(side === 'yes' ? { yes_price: price } : { no_price: price }),
+  };
+
+  const check = await checkOrderRisk(order, kalshiRequest);
+  if (!check.allowed) {
+    throw new Error(
+      `Rejected by risk checks: ${check.violations.map((v) => v.message).join('; ')}`
+    );
+  }
+
+  const { status, data } = await kalshiRequest('POST', '/portfolio/orders', order);
+  if (status !== 200 && status !== 201) {
+    throw new Error(`Kalshi returned ${status}: ${JSON.stringify(data)}`);
+  }
+  const orderId = (data as { order?: { order_id?: string } }).order?.order_id;
+
+  // The order is live from here on, so a failed bet save must not fail the trigger
+  try {
+    await saveBet({
+      betId: trigger.triggerId,
+      eventTicker: trigger.eventTicker,
+      marketTicker: trigger.marketTicker,
+      company: trigger.company,
+      word: trigger.word,
+      side,
+      action,
+      count,
+      price,
+      status: 'pending',
+      ...(orderId ? { orderId } : {}),
+    });
+  } catch (error) {
+    console.error(
+      `Trigger ${trigger.triggerId} placed order ${orderId ?? '(no id)'} but the bet was not saved:`,
+      error
+    );
+    return { orderId, warning: 'bet not recorded' };
+  }
+  orderReconciler.requestSweep();
+
+  return { orderId };
+};
+
+const triggerEngine = new TriggerEngine(submitTriggerOrder, (tickers) =>
+  kalshiWsClient?.subscribeTicker(tickers)
+);
+
+// List triggers, newest first (optionally for one event)
+app.get('/api/triggers', async (req, res) => {
+  try {
+    const { eventTicker } = req.query;
+    const triggers = (await getAllTriggerOrders())
+      .filter((t) => !eventTicker || t.eventTicker === eventTicker)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    res.json({ triggers });
+  } catch (error) {
+    console.error('Error getting triggers:', error);
+    res.status(500).json({ error: 'Failed to get triggers' });
+  }
+});
+
+// Create a trigger
+// Body: { eventTicker, marketTicker, company, word, condition, order }
+app.post('/api/triggers', async (req, res) => {
+  try {
+    const result = normalizeTrigger(req.body || {});
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const trigger = await triggerEngine.create(result.trigger);
+    res.status(201).json(trigger);
+  } catch (error) {
+    console.error('Error creating trigger:', error);
+    res.status(500).json({ error: 'Failed to create trigger' });
+  }
+});
+
+// Cancel an active trigger
+app.delete('/api/triggers/:triggerId', async (req, res) => {
+  try {
+    const cancelled = await triggerEngine.cancel(req.params.triggerId);
+    if (!cancelled) {
+      return res.status(409).json({ error: 'Trigger is not active' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling trigger:', error);
+    res.status(500).json({ error: 'Failed to cancel trigger' });
+  }
+});
+
+// ===========================================
+// Alert Endpoints
+// ===========================================
+
+// Hits are pushed to every client over /ws as { type: 'alert', data }
+const alertEngine = new AlertEngine(broadcastAlert, (tickers) =>
+  kalshiWsClient?.subscribeTicker(tickers)
+);
+
+// List alert rules, newest first
+app.get('/api/alerts', (req, res) => {
+  const rules = alertEngine.list().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  res.json({ rules });
+});
+
+// Create an alert rule
+// Body: { marketTicker?, word?, company?, condition, cooldownMinutes? }
+app.post('/api/alerts', async (req, res) => {
+  try {
+    const result = normalizeAlertRule(req.body || {});
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const rule = await alertEngine.create(result.rule);
+    res.status(201).json(rule);
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    res.status(500).json({ error: 'Failed to create alert rule' });
+  }
+});
+
+// Delete an alert rule
+app.delete('/api/alerts/:ruleId', async (req, res) => {
+  try {
+    const removed = await alertEngine.remove(req.params.ruleId);
+    if (!removed) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    res.status(500).json({ error: 'Failed to delete alert rule' });
+  }
+});
+
 // ===========================================
 // WebSocket Server for Real-time Updates
 // ===========================================
@@ -705,6 +1277,7 @@ const wss = new WebSocketServer({ server, path: '/ws' });
 interface ClientSubscription {
   ws: WebSocket;
   marketTickers: Set<string>;
+  orderbookTickers: Set<string>;
 }
 const clients = new Map<WebSocket, ClientSubscription>();
 
@@ -712,6 +1285,33 @@ const clients = new Map<WebSocket, ClientSubscription>();
 let kalshiWsClient: KalshiWebSocketClient | null = null;
 let kalshiWsConnected = false;
 
+// Depth books for markets any client has asked to watch (kept while connected)
+const orderBooks = new OrderBookStore();
+const orderbookTickers = new Set<string>();
+
+// Price history: every ticker message is folded into time-bucketed snapshots
+const priceRecorder = getPriceHistoryRecorder();
+const recordedTickers = new Set<string>();
+
+// Subscribe to every open MENTION market so history is recorded even when no
+// client is watching; re-run periodically to pick up newly listed markets
+async function subscribeRecordedMarkets() {
+  try {
+    const events = await getAllEarningsEvents();
+    const tickers = events
+      .flatMap((event) => event.markets || [])
+      .filter((market) => market.status === 'active' && !recordedTickers.has(market.ticker))
+      .map((market) => market.ticker);
+
+    if (tickers.length > 0) {
+      tickers.forEach((ticker) => recordedTickers.add(ticker));
+      kalshiWsClient?.subscribeTicker(tickers);
+    }
+  } catch (error) {
+    console.error('Failed to subscribe markets for price history:', error);
+  }
+}
+
 // Initialize Kalshi WebSocket connection
 async function initKalshiWebSocket() {
   kalshiWsClient = getKalshiWebSocketClient();
@@ -739,9 +1339,15 @@ async function initKalshiWebSocket() {
   kalshiWsClient.on('disconnected', () => {
     console.log('Disconnected from Kalshi WebSocket');
     kalshiWsConnected = false;
+    // Books are rebuilt from fresh snapshots when the subscription is restored
+    orderBooks.clear();
   });
 
   kalshiWsClient.on('ticker', (data) => {
+    priceRecorder.record(data);
+    triggerEngine.onTicker(data);
+    alertEngine.onTicker(data);
+
     // Broadcast to all clients subscribed to this market
     const message = JSON.stringify({
       type: 'ticker',
@@ -755,7 +1361,26 @@ async function initKalshiWebSocket() {
     });
   });
 
+  kalshiWsClient.on('orderbook', (update) => {
+    const book = orderBooks.apply(update);
+    if (!book) return;
+
+    // Broadcast to all clients watching this market's depth
+    const message = JSON.stringify({
+      type: 'orderbook',
+      data: book,
+    });
+
+    clients.forEach((sub, ws) => {
+      if (sub.orderbookTickers.has(book.market_ticker) && ws.readyState === WebSocket.OPEN) {
+        ws.send(message);
+      }
+    });
+  });
+
   kalshiWsClient.on('fill', (data) => {
+    orderReconciler.requestSweep();
+
     // Broadcast fill updates to all connected clients
     const message = JSON.stringify({
       type: 'fill',
@@ -773,12 +1398,48 @@ async function initKalshiWebSocket() {
     console.error('Kalshi WebSocket error:', error);
   });
 
+  // Our own fills drive bet reconciliation (queued until connected)
+  kalshiWsClient.subscribeFills();
+
   // Connect to Kalshi
   try {
     await kalshiWsClient.connect();
   } catch (error) {
     console.error('Failed to connect to Kalshi WebSocket:', error);
   }
+
+  // Record price history for all open markets
+  priceRecorder.start();
+  await subscribeRecordedMarkets();
+  setInterval(subscribeRecordedMarkets, 60 * 60 * 1000);
+}
+
+// Push reconciled bet records to every client
+function broadcastBetUpdate(bet: BetRecord) {
+  const message = JSON.stringify({
+    type: 'bet_update',
+    data: bet,
+  });
+
+  clients.forEach((sub, ws) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(message);
+    }
+  });
+}
+
+// Push alert hits to every client
+function broadcastAlert(alert: AlertHit) {
+  const message = JSON.stringify({
+    type: 'alert',
+    data: alert,
+  });
+
+  clients.forEach((sub, ws) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(message);
+    }
+  });
 }
 
 // Handle frontend WebSocket connections
@@ -786,7 +1447,7 @@ wss.on('connection', (ws) => {
   console.log('Frontend client connected to WebSocket');
 
   // Initialize client subscription
-  clients.set(ws, { ws, marketTickers: new Set() });
+  clients.set(ws, { ws, marketTickers: new Set(), orderbookTickers: new Set() });
 
   // Send connection status
   ws.send(
@@ -834,6 +1495,40 @@ wss.on('connection', (ws) => {
           break;
         }
 
+        case 'subscribe_orderbook': {
+          // Subscribe to order book depth for markets
+          const tickers = message.market_tickers as string[];
+          const sub = clients.get(ws);
+          if (sub && tickers) {
+            tickers.forEach((ticker) => sub.orderbookTickers.add(ticker));
+
+            // One Kalshi subscription per market, shared by all clients
+            const newTickers = tickers.filter((ticker) => !orderbookTickers.has(ticker));
+            if (kalshiWsClient && newTickers.length > 0) {
+              newTickers.forEach((ticker) => orderbookTickers.add(ticker));
+              kalshiWsClient.subscribeOrderbook(newTickers);
+            }
+
+            // Send books we already hold; the rest arrive with their snapshots
+            tickers.forEach((ticker) => {
+              const book = orderBooks.get(ticker);
+              if (book) {
+                ws.send(JSON.stringify({ type: 'orderbook', data: book }));
+              }
+            });
+          }
+          break;
+        }
+
+        case 'unsubscribe_orderbook': {
+          const tickers = message.market_tickers as string[];
+          const sub = clients.get(ws);
+          if (sub && tickers) {
+            tickers.forEach((ticker) => sub.orderbookTickers.delete(ticker));
+          }
+          break;
+        }
+
         case 'ping':
           ws.send(JSON.stringify({ type: 'pong' }));
           break;
@@ -857,6 +1552,23 @@ wss.on('connection', (ws) => {
 // Initialize Kalshi WebSocket on startup
 initKalshiWebSocket();
 
+// Evaluate alert rules against the ticker stream, news and event close times
+alertEngine
+  .load()
+  .then((count) => console.log(`Loaded ${count} alert rules`))
+  .catch((error) => console.error('Failed to load alert rules:', error));
+alertEngine.start();
+
+// Reconcile bets with Kalshi orders and run trigger orders (needs portfolio access)
+if (KALSHI_API_KEY_ID) {
+  orderReconciler.start();
+  triggerEngine
+    .load()
+    .then((count) => console.log(`Loaded ${count} active trigger orders`))
+    .catch((error) => console.error('Failed to load trigger orders:', error));
+  triggerEngine.start();
+}
+
 // WebSocket status endpoint
 app.get('/api/ws/status', (req, res) => {
   res.json({
@@ -0,0 +1,556 @@
+// Price and News Alerts
+// Evaluates alert rules server-side: price, volume and spread rules on every
+// ticker message, news and closing-soon rules on a timer. Hits are handed to a
+// broadcaster (the /ws bridge) and each rule then cools down before firing again
+
+import {
+  deleteAlertRule,
+  getAllAlertRules,
+  getAllEarningsEvents,
+  markAlertRuleFired,
+  saveAlertRule,
+  type AlertCondition,
+  type AlertRule,
+} from './dynamodb';
+import { fetchNewsForWord } from './news';
+import type { KalshiTickerUpdate } from './kalshi-websocket';
+
+export const ALERT_CONFIG = {
+  checkIntervalMs: 60_000, // Closing-soon rules and the market list
+  newsIntervalMs: 10 * 60_000, // News lookups are served from the 6 hour cache
+  defaultCooldownMinutes: 30,
+  maxVolumeWindowMinutes: 240,
+};
+
+export type AlertQuote = KalshiTickerUpdate['msg'];
+
+// Alert pushed to clients as { type: 'alert', data }
+export interface AlertHit {
+  alertId: string;
+  ruleId: string;
+  type: AlertCondition['type'];
+  marketTicker?: string;
+  word?: string;
+  eventTicker?: string;
+  title: string;
+  message: string;
+  firedAt: string;
+}
+
+export type NewAlertRule = Pick<
+  AlertRule,
+  'marketTicker' | 'word' | 'company' | 'condition' | 'cooldownMinutes'
+>;
+
+// Open market the engine resolves words and close times from
+export interface AlertMarket {
+  ticker: string;
+  word: string;
+  eventTicker: string;
+  company: string;
+  closeTime?: string;
+}
+
+export interface AlertSources {
+  loadMarkets: () => Promise<AlertMarket[]>;
+  newsForWord: (
+    word: string,
+    company?: string
+  ) => Promise<{ trending: boolean; recency: { today: number; thisWeek: number } }>;
+}
+
+const PRICE_FIELDS = ['yes_bid', 'yes_ask', 'no_bid', 'no_ask', 'last_price'] as const;
+
+const PRICE_FIELD_LABELS: Record<(typeof PRICE_FIELDS)[number], string> = {
+  yes_bid: 'YES bid',
+  yes_ask: 'YES ask',
+  no_bid: 'NO bid',
+  no_ask: 'NO ask',
+  last_price: 'Last price',
+};
+
+const MARKET_CONDITIONS: Array<AlertCondition['type']> = [
+  'price_cross',
+  'volume_spike',
+  'spread_tight',
+];
+
+/**
+ * Active markets of every earnings event, with their words and close times
+ */
+export async function loadAlertMarkets(): Promise<AlertMarket[]> {
+  const events = await getAllEarningsEvents();
+  return events.flatMap((event) =>
+    (event.markets || [])
+      .filter((market) => market.status === 'active')
+      .map((market) => ({
+        ticker: market.ticker,
+        word: market.word,
+        eventTicker: event.eventTicker,
+        company: event.company,
+        ...(event.closeTime ? { closeTime: event.closeTime } : {}),
+      }))
+  );
+}
+
+/**
+ * Human-readable condition for logs and the UI
+ */
+export function describeAlertCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case 'price_cross':
+      return `${PRICE_FIELD_LABELS[condition.field]} crosses ${condition.direction} ${condition.value}¢`;
+    case 'volume_spike':
+      return `${condition.contracts}+ contracts traded in ${condition.windowMinutes}m`;
+    case 'spread_tight':
+      return `spread tightens to ${condition.maxSpread}¢ or less`;
+    case 'news_trending':
+      return 'word starts trending in the news';
+    case 'closing_soon':
+      return `${condition.minutes}m before the event closes`;
+  }
+}
+
+function isPrice(value: unknown): value is number {
+  return typeof value === 'number' && value > 0 && value < 100;
+}
+
+/**
+ * Whether a price moved through the threshold between two quotes. Quotes of 0
+ * or 100 mean an empty side of the book and never count
+ */
+export function priceCrossed(
+  condition: Extract<AlertCondition, { type: 'price_cross' }>,
+  previous: AlertQuote | undefined,
+  quote: AlertQuote
+): boolean {
+  if (!previous) return false;
+  const before = previous[condition.field];
+  const after = quote[condition.field];
+  if (!isPrice(before) || !isPrice(after)) return false;
+
+  return condition.direction === 'above'
+    ? before < condition.value && after >= condition.value
+    : before > condition.value && after <= condition.value;
+}
+
+/**
+ * YES bid/ask spread in cents, or null while either side is empty
+ */
+export function quoteSpread(quote: AlertQuote | undefined): number | null {
+  if (!quote || !isPrice(quote.yes_bid) || !isPrice(quote.yes_ask)) return null;
+  return quote.yes_ask - quote.yes_bid;
+}
+
+/**
+ * Contracts traded since the oldest volume sample inside the window
+ */
+export function volumeIncrease(
+  samples: Array<{ at: number; volume: number }>,
+  windowMinutes: number,
+  now: Date
+): number {
+  const since = now.getTime() - windowMinutes * 60_000;
+  const inWindow = samples.filter((sample) => sample.at >= since);
+  if (inWindow.length < 2) return 0;
+  return inWindow[inWindow.length - 1].volume - inWindow[0].volume;
+}
+
+function isWholeNumber(value: unknown, min: number, max = Infinity): value is number {
+  return (
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+  );
+}
+
+/**
+ * Validate an alert rule request body; returns the rule or the reason it is invalid
+ */
+export function normalizeAlertRule(
+  body: Record<string, unknown>
+): { rule: NewAlertRule } | { error: string } {
+  const { marketTicker, word, company, cooldownMinutes } = body;
+  const condition = body.condition as Record<string, unknown> | undefined;
+
+  const hasTicker = typeof marketTicker === 'string' && marketTicker.length > 0;
+  const hasWord = typeof word === 'string' && word.trim().length > 0;
+  if (!hasTicker && !hasWord) {
+    return { error: 'marketTicker or word is required' };
+  }
+  if (company !== undefined && typeof company !== 'string') {
+    return { error: 'company must be a string' };
+  }
+  if (cooldownMinutes !== undefined && !isWholeNumber(cooldownMinutes, 0)) {
+    return { error: 'cooldownMinutes must be a whole number of minutes' };
+  }
+
+  let normalized: AlertCondition;
+  switch (condition?.type) {
+    case 'price_cross':
+      if (
+        !PRICE_FIELDS.includes(condition.field as (typeof PRICE_FIELDS)[number]) ||
+        (condition.direction !== 'above' && condition.direction !== 'below') ||
+        !isWholeNumber(condition.value, 1, 99)
+      ) {
+        return { error: 'price_cross needs a field, above/below and a price of 1-99¢' };
+      }
+      normalized = {
+        type: 'price_cross',
+        field: condition.field as (typeof PRICE_FIELDS)[number],
+        direction: condition.direction,
+        value: condition.value,
+      };
+      break;
+    case 'volume_spike':
+      if (
+        !isWholeNumber(condition.contracts, 1) ||
+        !isWholeNumber(condition.windowMinutes, 1, ALERT_CONFIG.maxVolumeWindowMinutes)
+      ) {
+        return {
+          error: `volume_spike needs contracts and a window of 1-${ALERT_CONFIG.maxVolumeWindowMinutes} minutes`,
+        };
+      }
+      normalized = {
+        type: 'volume_spike',
+        contracts: condition.contracts,
+        windowMinutes: condition.windowMinutes,
+      };
+      break;
+    case 'spread_tight':
+      if (!isWholeNumber(condition.maxSpread, 1, 98)) {
+        return { error: 'spread_tight needs a maxSpread of 1-98¢' };
+      }
+      normalized = { type: 'spread_tight', maxSpread: condition.maxSpread };
+      break;
+    case 'news_trending':
+      normalized = { type: 'news_trending' };
+      break;
+    case 'closing_soon':
+      if (!isWholeNumber(condition.minutes, 1)) {
+        return { error: 'closing_soon needs a whole number of minutes' };
+      }
+      normalized = { type: 'closing_soon', minutes: condition.minutes };
+      break;
+    default:
+      return {
+        error:
+          'condition type must be price_cross, volume_spike, spread_tight, news_trending or closing_soon',
+      };
+  }
+
+  return {
+    rule: {
+      ...(hasTicker ? { marketTicker: marketTicker as string } : {}),
+      ...(hasWord ? { word: (word as string).trim() } : {}),
+      ...(company ? { company: company as string } : {}),
+      condition: normalized,
+      cooldownMinutes:
+        (cooldownMinutes as number | undefined) ?? ALERT_CONFIG.defaultCooldownMinutes,
+    },
+  };
+}
+
+export class AlertEngine {
+  private rules = new Map<string, AlertRule>();
+  private markets = new Map<string, AlertMarket>();
+  private quotes = new Map<string, AlertQuote>();
+  private volumes = new Map<string, Array<{ at: number; volume: number }>>();
+  private trending = new Map<string, boolean>();
+  private closesFired = new Set<string>();
+  private watched = new Set<string>();
+  private lastNewsCheck = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private broadcast: (alert: AlertHit) => void,
+    private subscribe: (marketTickers: string[]) => void = () => {},
+    private sources: AlertSources = {
+      loadMarkets: loadAlertMarkets,
+      newsForWord: fetchNewsForWord,
+    },
+    private store = {
+      getAllAlertRules,
+      saveAlertRule,
+      deleteAlertRule,
+      markAlertRuleFired,
+    }
+  ) {}
+
+  /**
+   * Load saved rules and open markets, and watch the markets the rules cover
+   */
+  async load(): Promise<number> {
+    const rules = await this.store.getAllAlertRules();
+    rules.forEach((rule) => {
+      this.rules.set(rule.ruleId, rule);
+      rule.closesFired?.forEach((eventTicker) =>
+        this.closesFired.add(`${rule.ruleId}:${eventTicker}`)
+      );
+    });
+    await this.refreshMarkets();
+    return this.rules.size;
+  }
+
+  list(): AlertRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  async create(input: NewAlertRule, now = new Date()): Promise<AlertRule> {
+    const rule = await this.store.saveAlertRule({
+      ...input,
+      ruleId: `alert-${now.getTime()}-${Math.random().toString(36).substring(2, 8)}`,
+    });
+    console.log(
+      `Alert ${rule.ruleId} created: ${describeAlertCondition(rule.condition)}`
+    );
+
+    this.rules.set(rule.ruleId, rule);
+    this.watch();
+    return rule;
+  }
+
+  /**
+   * Delete a rule; returns false if it is unknown
+   */
+  async remove(ruleId: string): Promise<boolean> {
+    if (!this.rules.delete(ruleId)) return false;
+    await this.store.deleteAlertRule(ruleId);
+    return true;
+  }
+
+  /**
+   * Check price, volume and spread rules for the market in a ticker message
+   */
+  onTicker(quote: AlertQuote, now = new Date()): void {
+    const ticker = quote.market_ticker;
+    const previous = this.quotes.get(ticker);
+    this.quotes.set(ticker, quote);
+
+    const since = now.getTime() - ALERT_CONFIG.maxVolumeWindowMinutes * 60_000;
+    const samples = (this.volumes.get(ticker) || []).filter((s) => s.at >= since);
+    samples.push({ at: now.getTime(), volume: quote.volume });
+    this.volumes.set(ticker, samples);
+
+    for (const rule of this.rulesFor(ticker)) {
+      const message = this.evaluateQuote(rule.condition, previous, quote, samples, now);
+      if (message) this.fire(rule, this.markets.get(ticker), ticker, message, now);
+    }
+  }
+
+  /**
+   * Timer work: refresh open markets, fire closing-soon rules and, less often,
+   * check the news for trending rules
+   */
+  async check(now = new Date()): Promise<void> {
+    await this.refreshMarkets();
+    this.checkCloses(now);
+    if (now.getTime() - this.lastNewsCheck >= ALERT_CONFIG.newsIntervalMs) {
+      this.lastNewsCheck = now.getTime();
+      await this.checkNews(now);
+    }
+  }
+
+  /**
+   * Fire closing-soon rules once per event when its close is within the lead time
+   */
+  checkCloses(now = new Date()): void {
+    for (const rule of Array.from(this.rules.values())) {
+      const { condition } = rule;
+      if (condition.type !== 'closing_soon') continue;
+
+      const events = new Map<string, AlertMarket>();
+      this.marketsFor(rule).forEach((market) => events.set(market.eventTicker, market));
+
+      events.forEach((market, eventTicker) => {
+        if (!market.closeTime) return;
+        const close = new Date(market.closeTime).getTime();
+        const windowStart = close - condition.minutes * 60_000;
+        const key = `${rule.ruleId}:${eventTicker}`;
+        if (now.getTime() < windowStart || now.getTime() >= close) return;
+        // Already fired for this close, here or before a restart
+        if (this.closesFired.has(key)) return;
+
+        this.closesFired.add(key);
+        rule.closesFired = [...(rule.closesFired ?? []), eventTicker];
+        const minutes = Math.max(1, Math.round((close - now.getTime()) / 60_000));
+        this.fire(
+          rule,
+          market,
+          rule.marketTicker,
+          `${eventTicker} closes in ${minutes}m`,
+          now,
+          true
+        );
+      });
+    }
+  }
+
+  /**
+   * Fire news rules whose word has become trending since the last check
+   */
+  async checkNews(now = new Date()): Promise<void> {
+    for (const rule of Array.from(this.rules.values())) {
+      if (rule.condition.type !== 'news_trending') continue;
+
+      const market = rule.marketTicker ? this.markets.get(rule.marketTicker) : undefined;
+      const word = rule.word ?? market?.word;
+      if (!word) continue;
+
+      try {
+        const news = await this.sources.newsForWord(
+          word,
+          rule.company ?? market?.company
+        );
+        const wasTrending = this.trending.get(rule.ruleId) ?? false;
+        this.trending.set(rule.ruleId, news.trending);
+        if (news.trending && !wasTrending) {
+          this.fire(
+            rule,
+            market,
+            rule.marketTicker,
+            `"${word}" is trending: ${news.recency.today} articles today, ${news.recency.thisWeek} this week`,
+            now
+          );
+        }
+      } catch (error) {
+        console.error(`Alert ${rule.ruleId} news check failed:`, error);
+      }
+    }
+  }
+
+  private evaluateQuote(
+    condition: AlertCondition,
+    previous: AlertQuote | undefined,
+    quote: AlertQuote,
+    samples: Array<{ at: number; volume: number }>,
+    now: Date
+  ): string | null {
+    switch (condition.type) {
+      case 'price_cross':
+        return priceCrossed(condition, previous, quote)
+          ? `${describeAlertCondition(condition)} (now ${quote[condition.field]}¢)`
+          : null;
+      case 'volume_spike': {
+        const traded = volumeIncrease(samples, condition.windowMinutes, now);
+        return traded >= condition.contracts
+          ? `${traded} contracts traded in the last ${condition.windowMinutes}m`
+          : null;
+      }
+      case 'spread_tight': {
+        // Only on the move into the range, not on every quote while inside it
+        const before = quoteSpread(previous);
+        const after = quoteSpread(quote);
+        return after !== null &&
+          after <= condition.maxSpread &&
+          (before === null || before > condition.maxSpread)
+          ? `Spread tightened to ${after}¢ (${quote.yes_bid}¢ / ${quote.yes_ask}¢)`
+          : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private fire(
+    rule: AlertRule,
+    market: AlertMarket | undefined,
+    marketTicker: string | undefined,
+    message: string,
+    now: Date,
+    ignoreCooldown = false
+  ): boolean {
+    const lastFired = rule.lastFiredAt ? new Date(rule.lastFiredAt).getTime() : 0;
+    if (!ignoreCooldown && now.getTime() - lastFired < rule.cooldownMinutes * 60_000) {
+      return false;
+    }
+
+    // Set before broadcasting so a burst of ticker messages fires once
+    const firedAt = now.toISOString();
+    rule.lastFiredAt = firedAt;
+
+    const word = rule.word ?? market?.word;
+    const alert: AlertHit = {
+      alertId: `${rule.ruleId}-${now.getTime()}`,
+      ruleId: rule.ruleId,
+      type: rule.condition.type,
+      ...(marketTicker ? { marketTicker } : {}),
+      ...(word ? { word } : {}),
+      ...(market ? { eventTicker: market.eventTicker } : {}),
+      title: `${word ?? marketTicker}: ${describeAlertCondition(rule.condition)}`,
+      message,
+      firedAt,
+    };
+    console.log(`Alert ${rule.ruleId} fired: ${message}`);
+    this.broadcast(alert);
+
+    // A closing-soon hit is kept per event so it never repeats after a restart
+    const closedEvent =
+      rule.condition.type === 'closing_soon' ? market?.eventTicker : undefined;
+    this.store
+      .markAlertRuleFired(rule.ruleId, firedAt, closedEvent)
+      .catch((error) => console.error(`Failed to save alert ${rule.ruleId}:`, error));
+    return true;
+  }
+
+  private async refreshMarkets(): Promise<void> {
+    try {
+      const markets = await this.sources.loadMarkets();
+      this.markets = new Map(markets.map((market) => [market.ticker, market]));
+    } catch (error) {
+      console.error('Failed to load markets for alerts:', error);
+    }
+    this.watch();
+  }
+
+  // Market rules that apply to a ticker: its own, plus those for its word
+  private rulesFor(ticker: string): AlertRule[] {
+    const word = this.markets.get(ticker)?.word.toLowerCase();
+    return Array.from(this.rules.values()).filter(
+      (rule) =>
+        MARKET_CONDITIONS.includes(rule.condition.type) &&
+        (rule.marketTicker
+          ? rule.marketTicker === ticker
+          : word !== undefined && rule.word?.toLowerCase() === word)
+    );
+  }
+
+  private marketsFor(rule: AlertRule): AlertMarket[] {
+    if (rule.marketTicker) {
+      const market = this.markets.get(rule.marketTicker);
+      return market ? [market] : [];
+    }
+    const word = rule.word?.toLowerCase();
+    return Array.from(this.markets.values()).filter(
+      (market) => market.word.toLowerCase() === word
+    );
+  }
+
+  // Subscribe the ticker feed to markets that market rules cover
+  private watch(): void {
+    const tickers = new Set<string>();
+    this.rules.forEach((rule) => {
+      if (!MARKET_CONDITIONS.includes(rule.condition.type)) return;
+      if (rule.marketTicker) tickers.add(rule.marketTicker);
+      else this.marketsFor(rule).forEach((market) => tickers.add(market.ticker));
+    });
+
+    const added = Array.from(tickers).filter((ticker) => !this.watched.has(ticker));
+    if (added.length > 0) {
+      added.forEach((ticker) => this.watched.add(ticker));
+      this.subscribe(added);
+    }
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.check().catch((error) => console.error('Alert check failed:', error));
+    }, ALERT_CONFIG.checkIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,293 @@
+// Strategy Backtester
+// Replays a word-betting rule over settled markets: the base-rate model as it
+// stood before each call decides the trade, fills are taken at the recorded
+// bid/ask with Kalshi taker fees, and positions are held to settlement
+
+import { getAllTranscripts, getAllEarningsEvents, type PriceSnapshot } from './dynamodb';
+import {
+  replaySettledMarkets,
+  loadPreCallSnapshots,
+  type SettledMarketReplay,
+} from './calibration';
+import { takerFee } from '../../src/lib/utils/fees';
+
+export type BacktestSide = 'yes' | 'no' | 'either';
+
+export interface BacktestStrategy {
+  name: string;
+  side: BacktestSide; // 'either' takes whichever side has the larger edge
+  minEdge: number; // Model probability minus the fill price, in points
+  contracts: number;
+  minPrice: number; // Only fill between these prices (cents)
+  maxPrice: number;
+  minTranscripts: number; // Company transcripts the model must have seen
+}
+
+export const DEFAULT_STRATEGY: BacktestStrategy = {
+  name: 'Base rate beats the ask',
+  side: 'yes',
+  minEdge: 15,
+  contracts: 10,
+  minPrice: 1,
+  maxPrice: 99,
+  minTranscripts: 0,
+};
+
+// Quote in cents from the last recorded snapshot before the call. The event's
+// stored quote is never used: it is synced after settlement and already knows
+// the outcome
+export interface MarketQuote {
+  yesBid: number | null;
+  yesAsk: number | null;
+  lastPrice: number | null;
+}
+
+export interface BacktestTrade {
+  eventTicker: string;
+  company: string;
+  marketTicker: string;
+  word: string;
+  eventDate: string;
+  side: 'yes' | 'no';
+  contracts: number;
+  price: number; // Fill price in cents for the side bought
+  fee: number; // Cents
+  model: number; // Model probability of the side bought, 0-100
+  edge: number; // model - price, in points
+  won: boolean;
+  pnl: number; // Cents, net of fees
+}
+
+export interface BacktestEventResult {
+  eventTicker: string;
+  company: string;
+  eventDate: string;
+  trades: number;
+  wins: number;
+  cost: number; // Cents, including fees
+  fees: number;
+  pnl: number;
+  cumulativePnl: number;
+  drawdown: number; // Below the running peak after this event
+}
+
+export interface BacktestSummary {
+  markets: number; // Settled markets replayed
+  trades: number;
+  wins: number;
+  hitRate: number | null; // null without trades
+  contracts: number;
+  cost: number; // Cents, including fees
+  fees: number;
+  pnl: number;
+  roi: number | null; // pnl / cost
+  maxDrawdown: number; // Cents, peak to trough of cumulative P&L
+  skipped: { noDate: number; noOutcome: number; noQuote: number; noSignal: number };
+}
+
+export interface BacktestResult {
+  strategy: BacktestStrategy;
+  trades: BacktestTrade[];
+  events: BacktestEventResult[];
+  summary: BacktestSummary;
+  generatedAt: string;
+}
+
+function validPrice(price: number | null | undefined): number | null {
+  return price !== null && price !== undefined && price > 0 && price < 100 ? price : null;
+}
+
+/**
+ * Quote from a recorded price snapshot
+ */
+export function quoteFromSnapshot(snapshot: PriceSnapshot): MarketQuote {
+  return {
+    yesBid: validPrice(snapshot.yesBid),
+    yesAsk: validPrice(snapshot.yesAsk),
+    lastPrice: validPrice(snapshot.lastPrice),
+  };
+}
+
+/**
+ * Side and fill price the strategy would take, or null if there is no signal
+ * YES fills at the YES ask; NO fills at the NO ask (100 − YES bid)
+ */
+export function decideTrade(
+  strategy: BacktestStrategy,
+  modelYes: number, // 0-100
+  quote: MarketQuote
+): { side: 'yes' | 'no'; price: number; model: number; edge: number } | null {
+  const candidates: Array<{ side: 'yes' | 'no'; price: number; model: number }> = [];
+  if (strategy.side !== 'no' && quote.yesAsk !== null) {
+    candidates.push({ side: 'yes', price: quote.yesAsk, model: modelYes });
+  }
+  if (strategy.side !== 'yes' && quote.yesBid !== null) {
+    candidates.push({ side: 'no', price: 100 - quote.yesBid, model: 100 - modelYes });
+  }
+
+  const best = candidates
+    .filter((c) => c.price >= strategy.minPrice && c.price <= strategy.maxPrice)
+    .map((c) => ({ ...c, edge: c.model - c.price }))
+    .filter((c) => c.edge >= strategy.minEdge)
+    .sort((a, b) => b.edge - a.edge)[0];
+
+  return best || null;
+}
+
+/**
+ * Run a strategy over replayed settled markets
+ *
+ * @param getQuote - Quote from before the call, or null to skip the market as noQuote
+ */
+export function runBacktest(
+  strategy: BacktestStrategy,
+  replays: SettledMarketReplay[],
+  getQuote: (replay: SettledMarketReplay) => MarketQuote | null,
+  skipped: { noDate: number; noOutcome: number } = { noDate: 0, noOutcome: 0 }
+): BacktestResult {
+  const trades: BacktestTrade[] = [];
+  let noQuote = 0;
+  let noSignal = 0;
+
+  for (const replay of replays) {
+    const quote = getQuote(replay);
+    if (!quote || (quote.yesAsk === null && quote.yesBid === null)) {
+      noQuote++;
+      continue;
+    }
+
+    const decision =
+      replay.estimate.transcripts >= strategy.minTranscripts
+        ? decideTrade(strategy, replay.estimate.probability * 100, quote)
+        : null;
+    if (!decision) {
+      noSignal++;
+      continue;
+    }
+
+    const { contracts } = strategy;
+    const fee = takerFee(contracts, decision.price);
+    const won = (decision.side === 'yes') === (replay.outcome === 1);
+    const gross = won ? (100 - decision.price) * contracts : -decision.price * contracts;
+
+    trades.push({
+      eventTicker: replay.event.eventTicker,
+      company: replay.event.company,
+      marketTicker: replay.market.ticker,
+      word: replay.market.word,
+      eventDate: replay.callDate,
+      side: decision.side,
+      contracts,
+      price: decision.price,
+      fee,
+      model: decision.model,
+      edge: decision.edge,
+      won,
+      pnl: gross - fee,
+    });
+  }
+
+  // Per-event P&L in call order, with the running equity curve
+  const byEvent = new Map<string, BacktestEventResult>();
+  for (const trade of trades) {
+    const result = byEvent.get(trade.eventTicker) || {
+      eventTicker: trade.eventTicker,
+      company: trade.company,
+      eventDate: trade.eventDate,
+      trades: 0,
+      wins: 0,
+      cost: 0,
+      fees: 0,
+      pnl: 0,
+      cumulativePnl: 0,
+      drawdown: 0,
+    };
+    result.trades++;
+    if (trade.won) result.wins++;
+    result.cost += trade.price * trade.contracts + trade.fee;
+    result.fees += trade.fee;
+    result.pnl += trade.pnl;
+    byEvent.set(trade.eventTicker, result);
+  }
+
+  const events = Array.from(byEvent.values()).sort((a, b) =>
+    a.eventDate.localeCompare(b.eventDate)
+  );
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const result of events) {
+    equity += result.pnl;
+    peak = Math.max(peak, equity);
+    result.cumulativePnl = equity;
+    result.drawdown = peak - equity;
+    maxDrawdown = Math.max(maxDrawdown, result.drawdown);
+  }
+
+  const wins = trades.filter((t) => t.won).length;
+  const cost = events.reduce((total, e) => total + e.cost, 0);
+
+  return {
+    strategy,
+    trades,
+    events,
+    summary: {
+      markets: replays.length,
+      trades: trades.length,
+      wins,
+      hitRate: trades.length > 0 ? wins / trades.length : null,
+      contracts: trades.reduce((total, t) => total + t.contracts, 0),
+      cost,
+      fees: events.reduce((total, e) => total + e.fees, 0),
+      pnl: equity,
+      roi: cost > 0 ? equity / cost : null,
+      maxDrawdown,
+      skipped: { ...skipped, noQuote, noSignal },
+    },
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Fill in a partial strategy from the defaults, clamping to sane ranges
+ */
+export function normalizeStrategy(input: Partial<BacktestStrategy>): BacktestStrategy {
+  const number = (value: unknown, fallback: number, min: number, max: number) => {
+    const n = Number(value);
+    return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+  };
+
+  return {
+    name:
+      typeof input.name === 'string' && input.name ? input.name : DEFAULT_STRATEGY.name,
+    side: input.side === 'no' || input.side === 'either' ? input.side : 'yes',
+    minEdge: number(input.minEdge, DEFAULT_STRATEGY.minEdge, -100, 100),
+    contracts: Math.round(number(input.contracts, DEFAULT_STRATEGY.contracts, 1, 100000)),
+    minPrice: number(input.minPrice, DEFAULT_STRATEGY.minPrice, 1, 99),
+    maxPrice: number(input.maxPrice, DEFAULT_STRATEGY.maxPrice, 1, 99),
+    minTranscripts: number(input.minTranscripts, DEFAULT_STRATEGY.minTranscripts, 0, 100),
+  };
+}
+
+/**
+ * Backtest a strategy over every settled market stored in DynamoDB
+ */
+export async function getBacktest(strategy: BacktestStrategy): Promise<BacktestResult> {
+  const [events, transcripts] = await Promise.all([
+    getAllEarningsEvents(),
+    getAllTranscripts(),
+  ]);
+  const { replays, skipped } = replaySettledMarkets(events, transcripts);
+
+  const snapshots = await loadPreCallSnapshots(replays);
+
+  return runBacktest(
+    strategy,
+    replays,
+    (replay) => {
+      const snapshot = snapshots.get(replay.market.ticker);
+      return snapshot ? quoteFromSnapshot(snapshot) : null;
+    },
+    skipped
+  );
+}
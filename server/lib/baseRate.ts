@@ -0,0 +1,151 @@
+// Historical Base-Rate Model
+// Estimates P(strike resolves YES on the next call) from the company's past
+// verified transcripts, weighted toward recent quarters and shrunk toward a
+// prior drawn from peer companies
+
+import {
+  getTranscriptsForEvent,
+  getAllTranscripts,
+  getAllEarningsEvents,
+  type Transcript,
+  type EarningsEvent,
+} from './dynamodb';
+import { evaluateStrike, type MentionStrike } from '../../src/lib/utils/mentionStrike';
+
+export const BASE_RATE_CONFIG = {
+  halfLifeQuarters: 4, // A call 4 quarters back counts half as much as the latest
+  priorStrength: 2, // Peer prior is worth this many (fully weighted) calls
+  neutralRate: 0.5, // Prior when there are no peers
+  neutralWeight: 1, // Pseudo-companies at the neutral rate mixed into the peer prior
+};
+
+export interface MentionProbability {
+  probability: number; // 0-1
+  companyRate: number | null; // Recency-weighted YES rate, null without history
+  peerRate: number; // Smoothed peer prior
+  transcripts: number; // Company transcripts used
+  effectiveSamples: number; // Sum of recency weights
+  peerCompanies: number; // Peer companies with transcripts
+}
+
+type TranscriptText = Pick<Transcript, 'date' | 'content'>;
+
+/**
+ * Recency-weighted YES rate: weight 0.5^(rank / halfLife), latest call rank 0
+ */
+export function weightedHitRate(
+  transcripts: TranscriptText[],
+  strike: MentionStrike,
+  halfLifeQuarters = BASE_RATE_CONFIG.halfLifeQuarters
+): { rate: number | null; weight: number } {
+  const sorted = [...transcripts].sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+
+  let weight = 0;
+  let hits = 0;
+  sorted.forEach((t, rank) => {
+    const w = Math.pow(0.5, rank / halfLifeQuarters);
+    weight += w;
+    if (evaluateStrike(t.content, strike).resolvesYes) hits += w;
+  });
+
+  return { rate: weight > 0 ? hits / weight : null, weight };
+}
+
+/**
+ * Peer prior: mean of peer companies' YES rates, smoothed toward the neutral rate
+ */
+export function peerPrior(
+  peers: TranscriptText[][],
+  strike: MentionStrike
+): { rate: number; companies: number } {
+  const { neutralRate, neutralWeight } = BASE_RATE_CONFIG;
+  const rates = peers
+    .map((transcripts) => weightedHitRate(transcripts, strike).rate)
+    .filter((rate): rate is number => rate !== null);
+
+  const sum = rates.reduce((total, rate) => total + rate, 0);
+  return {
+    rate: (sum + neutralRate * neutralWeight) / (rates.length + neutralWeight),
+    companies: rates.length,
+  };
+}
+
+/**
+ * Posterior mean of a Beta prior (peer rate, priorStrength) updated with
+ * recency-weighted company outcomes
+ */
+export function estimateMentionProbability(
+  strike: MentionStrike,
+  companyTranscripts: TranscriptText[],
+  peers: TranscriptText[][]
+): MentionProbability {
+  const { priorStrength } = BASE_RATE_CONFIG;
+  const company = weightedHitRate(companyTranscripts, strike);
+  const prior = peerPrior(peers, strike);
+
+  const hits = (company.rate ?? 0) * company.weight;
+  const probability =
+    (hits + prior.rate * priorStrength) / (company.weight + priorStrength);
+
+  return {
+    probability,
+    companyRate: company.rate,
+    peerRate: prior.rate,
+    transcripts: companyTranscripts.length,
+    effectiveSamples: company.weight,
+    peerCompanies: prior.companies,
+  };
+}
+
+/**
+ * Verified transcripts of other companies, grouped by event
+ * Peers are companies in the same category; all other companies if none match
+ */
+export function selectPeers(
+  transcripts: Transcript[],
+  events: EarningsEvent[],
+  eventTicker: string
+): Transcript[][] {
+  const byCompany = new Map<string, Transcript[]>();
+  for (const t of transcripts) {
+    if (t.eventTicker === eventTicker || t.verificationStatus !== 'verified') continue;
+    const list = byCompany.get(t.eventTicker) || [];
+    list.push(t);
+    byCompany.set(t.eventTicker, list);
+  }
+
+  const category = events.find((e) => e.eventTicker === eventTicker)?.category;
+  const sameCategory = new Set(
+    events.filter((e) => category && e.category === category).map((e) => e.eventTicker)
+  );
+  const categoryPeers = Array.from(byCompany.entries())
+    .filter(([ticker]) => sameCategory.has(ticker))
+    .map(([, list]) => list);
+  return categoryPeers.length > 0 ? categoryPeers : Array.from(byCompany.values());
+}
+
+/**
+ * Estimate probabilities for an event's markets from DynamoDB transcripts
+ */
+export async function getMentionProbabilities(
+  eventTicker: string,
+  markets: Array<{ ticker: string; strike: MentionStrike }>
+): Promise<Record<string, MentionProbability>> {
+  const [companyTranscripts, allTranscripts, events] = await Promise.all([
+    getTranscriptsForEvent(eventTicker),
+    getAllTranscripts(),
+    getAllEarningsEvents(),
+  ]);
+
+  const verified = companyTranscripts.filter((t) => t.verificationStatus === 'verified');
+  const peers = selectPeers(allTranscripts, events, eventTicker);
+
+  return Object.fromEntries(
+    markets.map(({ ticker, strike }) => [
+      ticker,
+      estimateMentionProbability(strike, verified, peers),
+    ])
+  );
+}
@@ -0,0 +1,308 @@
+// Model Calibration
+// Replays the base-rate model against MENTION markets Kalshi has settled and
+// scores it, alongside Kalshi's last traded price before the call, with Brier
+// score, log loss and reliability bins
+
+import {
+  getAllTranscripts,
+  getAllEarningsEvents,
+  getLatestPriceSnapshot,
+  type Transcript,
+  type EarningsEvent,
+  type PriceSnapshot,
+} from './dynamodb';
+import {
+  estimateMentionProbability,
+  selectPeers,
+  type MentionProbability,
+} from './baseRate';
+import { parseMentionStrike } from '../../src/lib/utils/mentionStrike';
+
+export const CALIBRATION_CONFIG = {
+  bins: 10, // Reliability bins across [0, 1]
+  epsilon: 0.01, // Probabilities are clipped to [eps, 1 - eps] for log loss (1¢ tick)
+  callWindowDays: 3, // A verified transcript this close to the event date is the call itself
+};
+
+const SETTLED_MARKET_STATUSES = ['finalized', 'determined', 'settled'];
+
+export interface Prediction {
+  probability: number; // 0-1
+  outcome: 0 | 1;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number | null; // null for empty bins
+  observedRate: number | null;
+}
+
+export interface CalibrationMetrics {
+  count: number;
+  brier: number | null; // null without predictions
+  logLoss: number | null;
+  bins: ReliabilityBin[];
+}
+
+export interface CalibrationSample {
+  eventTicker: string;
+  company: string;
+  marketTicker: string;
+  word: string;
+  eventDate: string;
+  outcome: 0 | 1; // Kalshi's settlement result
+  model: number; // Model probability from transcripts before the call
+  modelTranscripts: number; // Company transcripts the model saw
+  market: number | null; // Last traded price before the call / 100, null without one
+}
+
+export interface CalibrationReport {
+  samples: CalibrationSample[];
+  model: CalibrationMetrics;
+  market: CalibrationMetrics;
+  // Both sources scored on the markets that have a traded price
+  paired: { count: number; modelBrier: number | null; marketBrier: number | null };
+  skipped: { noDate: number; noOutcome: number }; // noOutcome: no Kalshi result recorded
+  generatedAt: string;
+}
+
+function clip(p: number): number {
+  const { epsilon } = CALIBRATION_CONFIG;
+  return Math.min(1 - epsilon, Math.max(epsilon, p));
+}
+
+/**
+ * Mean squared error between probability and outcome (0 = perfect, 0.25 = coin flip)
+ */
+export function brierScore(predictions: Prediction[]): number | null {
+  if (predictions.length === 0) return null;
+  const sum = predictions.reduce(
+    (total, p) => total + (p.probability - p.outcome) ** 2,
+    0
+  );
+  return sum / predictions.length;
+}
+
+/**
+ * Mean negative log-likelihood of the outcomes (ln 2 ≈ 0.693 = coin flip)
+ */
+export function logLoss(predictions: Prediction[]): number | null {
+  if (predictions.length === 0) return null;
+  const sum = predictions.reduce((total, p) => {
+    const q = clip(p.probability);
+    return total - (p.outcome === 1 ? Math.log(q) : Math.log(1 - q));
+  }, 0);
+  return sum / predictions.length;
+}
+
+/**
+ * Equal-width bins of predicted probability with the observed YES rate in each
+ */
+export function reliabilityBins(
+  predictions: Prediction[],
+  binCount = CALIBRATION_CONFIG.bins
+): ReliabilityBin[] {
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    count: 0,
+    predicted: 0,
+    yes: 0,
+  }));
+
+  for (const p of predictions) {
+    const index = Math.min(binCount - 1, Math.floor(p.probability * binCount));
+    bins[index].count++;
+    bins[index].predicted += p.probability;
+    bins[index].yes += p.outcome;
+  }
+
+  return bins.map(({ lower, upper, count, predicted, yes }) => ({
+    lower,
+    upper,
+    count,
+    meanPredicted: count > 0 ? predicted / count : null,
+    observedRate: count > 0 ? yes / count : null,
+  }));
+}
+
+export function calibrationMetrics(predictions: Prediction[]): CalibrationMetrics {
+  return {
+    count: predictions.length,
+    brier: brierScore(predictions),
+    logLoss: logLoss(predictions),
+    bins: reliabilityBins(predictions),
+  };
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86_400_000;
+}
+
+export interface SettledMarketReplay {
+  event: EarningsEvent;
+  market: EarningsEvent['markets'][number];
+  callDate: string;
+  outcome: 0 | 1;
+  estimate: MentionProbability; // Model as it would have stood before the call
+}
+
+/**
+ * Replay every settled market with Kalshi's result and a model estimate that
+ * only uses transcripts available before the call; markets without a recorded
+ * result are skipped as noOutcome rather than resolved by our own matcher
+ */
+export function replaySettledMarkets(
+  events: EarningsEvent[],
+  transcripts: Transcript[]
+): { replays: SettledMarketReplay[]; skipped: CalibrationReport['skipped'] } {
+  const replays: SettledMarketReplay[] = [];
+  const skipped = { noDate: 0, noOutcome: 0 };
+  const verified = transcripts.filter((t) => t.verificationStatus === 'verified');
+
+  for (const event of events) {
+    const settled = (event.markets || []).filter(
+      (m) =>
+        m.result ||
+        event.status === 'settled' ||
+        SETTLED_MARKET_STATUSES.includes(m.status)
+    );
+    if (settled.length === 0) continue;
+
+    const callDate = event.eventDate || event.closeTime?.split('T')[0];
+    if (!callDate) {
+      skipped.noDate += settled.length;
+      continue;
+    }
+
+    const company = event.company.toUpperCase();
+    const isCompany = (t: Transcript) =>
+      t.eventTicker === event.eventTicker || t.company.toUpperCase() === company;
+    const companyTranscripts = verified.filter(isCompany);
+
+    // The call's own transcript, if we have it
+    const ownCall = companyTranscripts
+      .filter((t) => daysBetween(t.date, callDate) <= CALIBRATION_CONFIG.callWindowDays)
+      .sort((a, b) => daysBetween(a.date, callDate) - daysBetween(b.date, callDate))[0];
+    const cutoff = ownCall && ownCall.date < callDate ? ownCall.date : callDate;
+
+    const history = companyTranscripts.filter((t) => t.date < cutoff);
+    const peers = selectPeers(
+      verified.filter((t) => t.date < cutoff && !isCompany(t)),
+      events,
+      event.eventTicker
+    );
+
+    for (const market of settled) {
+      const strike = parseMentionStrike(market.word);
+
+      if (!market.result) {
+        skipped.noOutcome++;
+        continue;
+      }
+
+      replays.push({
+        event,
+        market,
+        callDate,
+        outcome: market.result === 'yes' ? 1 : 0,
+        estimate: estimateMentionProbability(strike, history, peers),
+      });
+    }
+  }
+
+  return { replays, skipped };
+}
+
+/**
+ * Last recorded price snapshot before the call day for each replayed market
+ */
+export async function loadPreCallSnapshots(
+  replays: SettledMarketReplay[]
+): Promise<Map<string, PriceSnapshot | null>> {
+  const snapshots = new Map<string, PriceSnapshot | null>();
+  await Promise.all(
+    replays.map(async ({ market, callDate }) => {
+      const before = new Date(`${callDate}T00:00:00.000Z`).toISOString();
+      snapshots.set(market.ticker, await getLatestPriceSnapshot(market.ticker, before));
+    })
+  );
+  return snapshots;
+}
+
+/**
+ * One calibration sample per settled market
+ *
+ * @param replayed - Output of replaySettledMarkets, so the model runs once
+ * @param preCallPrice - Last traded price in cents before the call, or null.
+ *   The market's stored lastPrice is synced after settlement and is never used.
+ */
+export function buildCalibrationSamples(
+  { replays, skipped }: ReturnType<typeof replaySettledMarkets>,
+  preCallPrice: (replay: SettledMarketReplay) => number | null = () => null
+): { samples: CalibrationSample[]; skipped: CalibrationReport['skipped'] } {
+  const samples = replays.map((replay) => {
+    const { event, market, callDate, outcome, estimate } = replay;
+    const price = preCallPrice(replay);
+    const traded = price !== null && price > 0 && price < 100;
+    return {
+      eventTicker: event.eventTicker,
+      company: event.company,
+      marketTicker: market.ticker,
+      word: market.word,
+      eventDate: callDate,
+      outcome,
+      model: estimate.probability,
+      modelTranscripts: estimate.transcripts,
+      market: traded ? price / 100 : null,
+    };
+  });
+
+  return { samples, skipped };
+}
+
+export function summarizeCalibration(
+  samples: CalibrationSample[],
+  skipped: CalibrationReport['skipped']
+): CalibrationReport {
+  const priced = samples.filter((s) => s.market !== null);
+  const model = samples.map((s) => ({ probability: s.model, outcome: s.outcome }));
+  const market = samples.flatMap((s) =>
+    s.market === null ? [] : [{ probability: s.market, outcome: s.outcome }]
+  );
+
+  return {
+    samples,
+    model: calibrationMetrics(model),
+    market: calibrationMetrics(market),
+    paired: {
+      count: priced.length,
+      modelBrier: brierScore(
+        priced.map((s) => ({ probability: s.model, outcome: s.outcome }))
+      ),
+      marketBrier: brierScore(market),
+    },
+    skipped,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Calibration report over every settled market stored in DynamoDB
+ */
+export async function getCalibrationReport(): Promise<CalibrationReport> {
+  const [events, transcripts] = await Promise.all([
+    getAllEarningsEvents(),
+    getAllTranscripts(),
+  ]);
+  const replayed = replaySettledMarkets(events, transcripts);
+  const snapshots = await loadPreCallSnapshots(replayed.replays);
+
+  const { samples, skipped } = buildCalibrationSamples(
+    replayed,
+    (replay) => snapshots.get(replay.market.ticker)?.lastPrice ?? null
+  );
+  return summarizeCalibration(samples, skipped);
+}
@@ -12,6 +12,10 @@ import {
   DeleteCommand,
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
+import type {
+  TranscriptParticipant,
+  TranscriptSegment,
+} from '../../src/lib/utils/transcriptSegments';
 
 const client = new DynamoDBClient({
   region: process.env.AWS_REGION || 'us-east-1',
@@ -62,6 +66,18 @@ export interface Transcript {
   parsedCompany?: string; // Company name extracted from source
   parsedQuarter?: string; // Quarter extracted from source (e.g., "Q4 2025")
   parsedEarningsDate?: string; // Actual earnings call date from source
+  fieldSources?: Record<string, string>; // Parser strategy that produced each field
+}
+
+// Speaker turns for a transcript, stored next to it under the same PK
+export interface TranscriptSegments {
+  PK: string; // TRANSCRIPT#{eventTicker}
+  SK: string; // SEGMENTS#{date}
+  eventTicker: string;
+  date: string;
+  participants: TranscriptParticipant[];
+  segments: TranscriptSegment[];
+  createdAt: string;
 }
 
 export interface ResearchNote {
@@ -79,6 +95,7 @@ export interface BetRecord {
   PK: string; // BET#{betId}
   SK: string; // METADATA
   betId: string;
+  basketId?: string; // Shared by every leg of a basket order
   eventTicker: string;
   marketTicker: string;
   company: string;
@@ -87,14 +104,35 @@ export interface BetRecord {
   action: 'buy' | 'sell';
   count: number;
   price: number;
-  status: 'pending' | 'filled' | 'cancelled';
+  modelProbability?: number; // Base-rate model P(YES) in % when the bet was placed
+  status: 'pending' | 'partial' | 'filled' | 'cancelled';
   orderId?: string;
+  filledCount?: number; // Contracts filled so far (set by the order reconciler)
+  averagePrice?: number; // Average fill price in cents for the side bought
+  fees?: number; // Trading fees paid on the fills, in cents
+  reconciledAt?: string;
   createdAt: string;
   settledAt?: string;
   result?: 'win' | 'loss' | 'void';
-  pnl?: number;
+  pnl?: number; // Cents, net of fees
 }
 
+export type BetUpdate = Partial<
+  Pick<
+    BetRecord,
+    | 'status'
+    | 'price'
+    | 'orderId'
+    | 'filledCount'
+    | 'averagePrice'
+    | 'fees'
+    | 'reconciledAt'
+    | 'settledAt'
+    | 'result'
+    | 'pnl'
+  >
+>;
+
 export interface NewsCache {
   PK: string; // NEWSCACHE#{word}
   SK: string; // DATE#{date}
@@ -135,6 +173,7 @@ export interface EarningsEvent {
     lastPrice: number;
     volume: number;
     status: string;
+    result?: 'yes' | 'no'; // Settlement outcome once determined
   }>;
   totalVolume: number;
   marketCount: number;
@@ -142,6 +181,106 @@ export interface EarningsEvent {
   updatedAt: string;
 }
 
+// Pre-trade risk limits (single record), amounts in cents
+export interface RiskSettings {
+  PK: string; // SETTINGS#risk
+  SK: string; // METADATA
+  maxMarketExposure: number; // Cost at risk in one market, resting buys included
+  maxEventExposure: number; // Cost at risk across one event's markets
+  dailyLossLimit: number; // Realized loss on bets settled today (UTC) that halts new buys
+  maxContractsPerOrder: number;
+  updatedAt: string;
+}
+
+// Order held by the server until its condition is met, then sent to Kalshi
+export type TriggerCondition =
+  | {
+      type: 'price';
+      field: 'yes_bid' | 'yes_ask' | 'no_bid' | 'no_ask' | 'last_price';
+      operator: 'lte' | 'gte';
+      value: number; // Cents
+    }
+  | { type: 'time'; at: string }; // ISO time to submit
+
+export interface TriggerLogEntry {
+  at: string;
+  event: 'created' | 'triggered' | 'submitted' | 'failed' | 'cancelled';
+  message: string;
+}
+
+export interface TriggerOrder {
+  PK: string; // TRIGGER#{triggerId}
+  SK: string; // METADATA
+  triggerId: string; // Also the client_order_id and betId once submitted
+  eventTicker: string;
+  marketTicker: string;
+  company: string;
+  word: string;
+  condition: TriggerCondition;
+  order: {
+    action: 'buy' | 'sell';
+    side: 'yes' | 'no';
+    count: number;
+    price: number; // Limit price in cents for the side
+  };
+  status: 'active' | 'triggered' | 'submitted' | 'failed' | 'cancelled';
+  orderId?: string;
+  error?: string;
+  triggeredAt?: string;
+  log: TriggerLogEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TriggerUpdate = Partial<
+  Pick<TriggerOrder, 'status' | 'orderId' | 'error' | 'triggeredAt'>
+>;
+
+// Alert rule evaluated by the server; hits are pushed to clients over /ws
+export type AlertCondition =
+  | {
+      type: 'price_cross';
+      field: 'yes_bid' | 'yes_ask' | 'no_bid' | 'no_ask' | 'last_price';
+      direction: 'above' | 'below';
+      value: number; // Cents
+    }
+  | { type: 'volume_spike'; contracts: number; windowMinutes: number }
+  | { type: 'spread_tight'; maxSpread: number } // YES ask - YES bid, cents
+  | { type: 'news_trending' }
+  | { type: 'closing_soon'; minutes: number };
+
+export interface AlertRule {
+  PK: string; // ALERT#{ruleId}
+  SK: string; // METADATA
+  ruleId: string;
+  // Scope: one market, or every market (and the news) for a word
+  marketTicker?: string;
+  word?: string;
+  company?: string; // Narrows news searches for the word
+  condition: AlertCondition;
+  cooldownMinutes: number; // Minimum time between hits
+  lastFiredAt?: string;
+  closesFired?: string[]; // Event tickers a closing_soon rule has already fired for
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Market quote from the Kalshi ticker feed, one item per market per time bucket
+export interface PriceSnapshot {
+  PK: string; // PRICE#{marketTicker}
+  SK: string; // TS#{bucket}
+  marketTicker: string;
+  bucket: string; // ISO start of the time bucket
+  yesBid: number; // Cents, latest in the bucket
+  yesAsk: number;
+  lastPrice: number;
+  volume: number;
+  openInterest: number;
+  updates: number; // Ticker messages folded into this bucket
+  updatedAt: string;
+  expiresAt: number; // TTL
+}
+
 // Transcript Functions
 export async function saveTranscript(
   transcript: Omit<Transcript, 'PK' | 'SK' | 'createdAt'>
@@ -184,9 +323,10 @@ export async function getTranscriptsForEvent(eventTicker: string): Promise<Trans
   const result = await docClient.send(
     new QueryCommand({
       TableName: TABLE_NAME,
-      KeyConditionExpression: 'PK = :pk',
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
       ExpressionAttributeValues: {
         ':pk': `TRANSCRIPT#${eventTicker}`,
+        ':sk': 'DATE#',
       },
     })
   );
@@ -199,9 +339,10 @@ export async function getAllTranscripts(): Promise<Transcript[]> {
   const result = await docClient.send(
     new ScanCommand({
       TableName: TABLE_NAME,
-      FilterExpression: 'begins_with(PK, :prefix)',
+      FilterExpression: 'begins_with(PK, :prefix) AND begins_with(SK, :sk)',
       ExpressionAttributeValues: {
         ':prefix': 'TRANSCRIPT#',
+        ':sk': 'DATE#',
       },
     })
   );
@@ -267,6 +408,78 @@ export async function deleteTranscript(eventTicker: string, date: string): Promi
       },
     })
   );
+
+  await deleteTranscriptSegments(eventTicker, date);
+}
+
+// Transcript Segment Functions
+export async function saveTranscriptSegments(
+  record: Omit<TranscriptSegments, 'PK' | 'SK' | 'createdAt'>
+) {
+  const item: TranscriptSegments = {
+    PK: `TRANSCRIPT#${record.eventTicker}`,
+    SK: `SEGMENTS#${record.date}`,
+    ...record,
+    createdAt: new Date().toISOString(),
+  };
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: item,
+    })
+  );
+
+  return item;
+}
+
+export async function getTranscriptSegments(
+  eventTicker: string,
+  date: string
+): Promise<TranscriptSegments | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `TRANSCRIPT#${eventTicker}`,
+        SK: `SEGMENTS#${date}`,
+      },
+    })
+  );
+
+  return (result.Item as TranscriptSegments) || null;
+}
+
+export async function getTranscriptSegmentsForEvent(
+  eventTicker: string
+): Promise<TranscriptSegments[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `TRANSCRIPT#${eventTicker}`,
+        ':sk': 'SEGMENTS#',
+      },
+    })
+  );
+
+  return (result.Items as TranscriptSegments[]) || [];
+}
+
+export async function deleteTranscriptSegments(
+  eventTicker: string,
+  date: string
+): Promise<void> {
+  await docClient.send(
+    new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `TRANSCRIPT#${eventTicker}`,
+        SK: `SEGMENTS#${date}`,
+      },
+    })
+  );
 }
 
 // Research Note Functions
@@ -376,6 +589,27 @@ export async function updateBetStatus(
   );
 }
 
+export async function updateBet(betId: string, updates: BetUpdate): Promise<void> {
+  const entries = Object.entries(updates).filter(([, value]) => value !== undefined);
+  if (entries.length === 0) return;
+
+  // Alias every attribute: status and result are DynamoDB reserved words
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `BET#${betId}`,
+        SK: 'METADATA',
+      },
+      UpdateExpression: `SET ${entries.map((_, i) => `#f${i} = :v${i}`).join(', ')}`,
+      ExpressionAttributeNames: Object.fromEntries(entries.map(([key], i) => [`#f${i}`, key])),
+      ExpressionAttributeValues: Object.fromEntries(
+        entries.map(([, value], i) => [`:v${i}`, value])
+      ),
+    })
+  );
+}
+
 export async function getAllBets(status?: BetRecord['status']): Promise<BetRecord[]> {
   // Scan with filter - no GSI (cost optimized)
   const params: any = {
@@ -593,3 +827,255 @@ export async function deleteEarningsEvent(
     })
   );
 }
+
+// Risk Settings Functions
+export async function getRiskSettings(): Promise<RiskSettings | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: 'SETTINGS#risk',
+        SK: 'METADATA',
+      },
+    })
+  );
+
+  return (result.Item as RiskSettings) || null;
+}
+
+export async function saveRiskSettings(
+  settings: Omit<RiskSettings, 'PK' | 'SK' | 'updatedAt'>
+): Promise<RiskSettings> {
+  const item: RiskSettings = {
+    PK: 'SETTINGS#risk',
+    SK: 'METADATA',
+    ...settings,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: item,
+    })
+  );
+
+  return item;
+}
+
+// Trigger Order Functions
+export async function saveTriggerOrder(
+  trigger: Omit<TriggerOrder, 'PK' | 'SK' | 'createdAt' | 'updatedAt'>
+): Promise<TriggerOrder> {
+  const now = new Date().toISOString();
+  const item: TriggerOrder = {
+    PK: `TRIGGER#${trigger.triggerId}`,
+    SK: 'METADATA',
+    ...trigger,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: item,
+    })
+  );
+
+  return item;
+}
+
+export async function getAllTriggerOrders(): Promise<TriggerOrder[]> {
+  // Scan with filter - no GSI (cost optimized)
+  const result = await docClient.send(
+    new ScanCommand({
+      TableName: TABLE_NAME,
+      FilterExpression: 'begins_with(PK, :prefix)',
+      ExpressionAttributeValues: {
+        ':prefix': 'TRIGGER#',
+      },
+    })
+  );
+
+  return (result.Items as TriggerOrder[]) || [];
+}
+
+/**
+ * Update a trigger's fields and append an entry to its log
+ */
+export async function updateTriggerOrder(
+  triggerId: string,
+  updates: TriggerUpdate,
+  entry: TriggerLogEntry
+): Promise<void> {
+  const entries = [
+    ...Object.entries(updates).filter(([, value]) => value !== undefined),
+    ['updatedAt', entry.at],
+  ];
+
+  // Alias every attribute: status is a DynamoDB reserved word
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `TRIGGER#${triggerId}`,
+        SK: 'METADATA',
+      },
+      UpdateExpression: `SET ${entries
+        .map((_, i) => `#f${i} = :v${i}`)
+        .join(', ')}, #log = list_append(#log, :entry)`,
+      ExpressionAttributeNames: {
+        ...Object.fromEntries(entries.map(([key], i) => [`#f${i}`, key])),
+        '#log': 'log',
+      },
+      ExpressionAttributeValues: {
+        ...Object.fromEntries(entries.map(([, value], i) => [`:v${i}`, value])),
+        ':entry': [entry],
+      },
+    })
+  );
+}
+
+// Alert Rule Functions
+export async function saveAlertRule(
+  rule: Omit<AlertRule, 'PK' | 'SK' | 'createdAt' | 'updatedAt'>
+): Promise<AlertRule> {
+  const now = new Date().toISOString();
+  const item: AlertRule = {
+    PK: `ALERT#${rule.ruleId}`,
+    SK: 'METADATA',
+    ...rule,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: item,
+    })
+  );
+
+  return item;
+}
+
+export async function getAllAlertRules(): Promise<AlertRule[]> {
+  // Scan with filter - no GSI (cost optimized)
+  const result = await docClient.send(
+    new ScanCommand({
+      TableName: TABLE_NAME,
+      FilterExpression: 'begins_with(PK, :prefix)',
+      ExpressionAttributeValues: {
+        ':prefix': 'ALERT#',
+      },
+    })
+  );
+
+  return (result.Items as AlertRule[]) || [];
+}
+
+export async function markAlertRuleFired(
+  ruleId: string,
+  firedAt: string,
+  closedEventTicker?: string
+): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `ALERT#${ruleId}`,
+        SK: 'METADATA',
+      },
+      UpdateExpression: closedEventTicker
+        ? 'SET lastFiredAt = :firedAt, updatedAt = :firedAt, ' +
+          'closesFired = list_append(if_not_exists(closesFired, :none), :event)'
+        : 'SET lastFiredAt = :firedAt, updatedAt = :firedAt',
+      ExpressionAttributeValues: {
+        ':firedAt': firedAt,
+        ...(closedEventTicker ? { ':none': [], ':event': [closedEventTicker] } : {}),
+      },
+    })
+  );
+}
+
+export async function deleteAlertRule(ruleId: string): Promise<void> {
+  await docClient.send(
+    new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `ALERT#${ruleId}`,
+        SK: 'METADATA',
+      },
+    })
+  );
+}
+
+// Price History Functions
+export async function savePriceSnapshot(
+  snapshot: Omit<PriceSnapshot, 'PK' | 'SK'>
+): Promise<PriceSnapshot> {
+  const item: PriceSnapshot = {
+    PK: `PRICE#${snapshot.marketTicker}`,
+    SK: `TS#${snapshot.bucket}`,
+    ...snapshot,
+  };
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: item,
+    })
+  );
+
+  return item;
+}
+
+export async function getPriceHistory(
+  marketTicker: string,
+  from: string,
+  to: string
+): Promise<PriceSnapshot[]> {
+  const items: PriceSnapshot[] = [];
+  let lastKey: Record<string, unknown> | undefined;
+
+  // Long ranges can exceed the 1 MB query page
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND SK BETWEEN :from AND :to',
+        ExpressionAttributeValues: {
+          ':pk': `PRICE#${marketTicker}`,
+          ':from': `TS#${from}`,
+          ':to': `TS#${to}`,
+        },
+        ExclusiveStartKey: lastKey,
+      })
+    );
+    items.push(...((result.Items as PriceSnapshot[]) || []));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return items;
+}
+
+export async function getLatestPriceSnapshot(
+  marketTicker: string,
+  before: string
+): Promise<PriceSnapshot | null> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'PK = :pk AND SK <= :before',
+      ExpressionAttributeValues: {
+        ':pk': `PRICE#${marketTicker}`,
+        ':before': `TS#${before}`,
+      },
+      ScanIndexForward: false, // Newest first
+      Limit: 1,
+    })
+  );
+
+  return (result.Items?.[0] as PriceSnapshot) || null;
+}
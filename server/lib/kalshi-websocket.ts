@@ -23,19 +23,34 @@ export interface KalshiTickerUpdate {
   };
 }
 
-export interface KalshiOrderbookUpdate {
-  type: 'orderbook_snapshot' | 'orderbook_delta';
+// Full book for a market; both sides are resting bids (a YES ask at P is a NO bid at 100 - P)
+export interface KalshiOrderbookSnapshot {
+  type: 'orderbook_snapshot';
   msg: {
     market_ticker: string;
-    yes: Array<[number, number]>; // [price, quantity]
-    no: Array<[number, number]>;
+    yes?: Array<[number, number]>; // [price, quantity], omitted when the side is empty
+    no?: Array<[number, number]>;
   };
 }
 
+// Change in resting quantity at one price level
+export interface KalshiOrderbookDelta {
+  type: 'orderbook_delta';
+  msg: {
+    market_ticker: string;
+    price: number;
+    delta: number; // Contracts added (positive) or removed (negative)
+    side: 'yes' | 'no';
+  };
+}
+
+export type KalshiOrderbookUpdate = KalshiOrderbookSnapshot | KalshiOrderbookDelta;
+
 export interface KalshiFillUpdate {
   type: 'fill';
   msg: {
     trade_id: string;
+    order_id: string;
     ticker: string;
     side: 'yes' | 'no';
     action: 'buy' | 'sell';
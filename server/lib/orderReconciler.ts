@@ -0,0 +1,376 @@
+// Order Reconciler
+// Moves BetRecords through their lifecycle from Kalshi's view of the order:
+// matches bets to orders by client_order_id, totals fills (partial fills and
+// cancels included) and settles filled bets once their market finalizes
+
+import { getAllBets, updateBet, type BetRecord, type BetUpdate } from './dynamodb';
+import { betFees, takerFee, tradingFee } from '../../src/lib/utils/fees';
+
+export const RECONCILER_CONFIG = {
+  intervalMs: 5 * 60_000, // Periodic sweep; fills on the WebSocket trigger sooner
+  sweepDebounceMs: 2_000, // Batch bursts of fills and order changes into one sweep
+  pageLimit: 200,
+  maxPages: 10,
+};
+
+// Authenticated Kalshi REST call (the server's kalshiRequest)
+export type KalshiRequest = (
+  method: string,
+  endpoint: string,
+  body?: object
+) => Promise<{ status: number; data: unknown }>;
+
+export interface KalshiOrderState {
+  order_id: string;
+  client_order_id: string;
+  ticker: string;
+  status: string; // resting | canceled | executed | pending
+  side: 'yes' | 'no';
+  remaining_count: number;
+  created_time?: string;
+}
+
+export interface KalshiFillRecord {
+  trade_id: string;
+  order_id: string;
+  ticker: string;
+  side: 'yes' | 'no';
+  count: number;
+  yes_price: number;
+  no_price: number;
+  is_taker: boolean;
+}
+
+export interface MarketSettlement {
+  status: string;
+  result?: string;
+}
+
+export interface ReconcileSummary {
+  checked: number;
+  updated: BetRecord[];
+  unmatched: number; // Open bets with no Kalshi order found
+  settled: number;
+}
+
+/**
+ * Bet id behind a client_order_id; amended orders get `{betId}~{timestamp}`
+ */
+export function betIdForClientOrder(clientOrderId: string): string {
+  return clientOrderId.split('~')[0];
+}
+
+/**
+ * The Kalshi order behind a bet: the order id recorded on the bet, else the
+ * newest order carrying its client order id (older ones were cancelled or
+ * replaced by an amend)
+ */
+export function orderForBet(
+  bet: BetRecord,
+  orders: KalshiOrderState[]
+): KalshiOrderState | undefined {
+  const exact = bet.orderId && orders.find((o) => o.order_id === bet.orderId);
+  if (exact) return exact;
+
+  return orders
+    .filter((o) => betIdForClientOrder(o.client_order_id) === bet.betId)
+    .sort((a, b) => (b.created_time ?? '').localeCompare(a.created_time ?? ''))[0];
+}
+
+/**
+ * Fills for a bet across every order it was placed as: an amend replaces the
+ * order, and fills on the earlier orders still belong to the bet
+ */
+export function fillsForBet(
+  bet: BetRecord,
+  order: KalshiOrderState,
+  orders: KalshiOrderState[],
+  fills: KalshiFillRecord[]
+): KalshiFillRecord[] {
+  const orderIds = new Set([
+    order.order_id,
+    ...orders
+      .filter((o) => betIdForClientOrder(o.client_order_id) === bet.betId)
+      .map((o) => o.order_id),
+  ]);
+  return fills.filter((f) => orderIds.has(f.order_id));
+}
+
+function isOpen(bet: BetRecord): boolean {
+  return bet.status === 'pending' || bet.status === 'partial';
+}
+
+// Resting remainders are cancelled when a market closes, so only filled bets settle
+function needsSettlement(bet: BetRecord): boolean {
+  return !bet.result && bet.status === 'filled';
+}
+
+/**
+ * Fill state, fees and status for a bet from its current Kalshi order and the
+ * fills of every order it was placed as; returns only the fields that changed
+ */
+export function reconcileBet(
+  bet: BetRecord,
+  order: KalshiOrderState,
+  fills: KalshiFillRecord[]
+): BetUpdate {
+  const fromFills = fills.reduce((total, f) => total + f.count, 0);
+  // Fills can age out of the fills listing; an executed order filled in full
+  const filledCount =
+    fromFills === 0 && order.status === 'executed'
+      ? bet.count
+      : Math.min(fromFills, bet.count);
+
+  const averagePrice =
+    fromFills > 0
+      ? Math.round(
+          (fills.reduce(
+            (total, f) =>
+              total + f.count * (bet.side === 'yes' ? f.yes_price : f.no_price),
+            0
+          ) /
+            fromFills) *
+            100
+        ) / 100
+      : filledCount > 0
+        ? bet.price
+        : undefined;
+
+  // Each fill pays the taker or maker fee; without listed fills assume taker
+  const fees =
+    fromFills > 0
+      ? fills.reduce(
+          (total, f) =>
+            total +
+            tradingFee(
+              f.count,
+              bet.side === 'yes' ? f.yes_price : f.no_price,
+              f.is_taker ? 'taker' : 'maker'
+            ),
+          0
+        )
+      : filledCount > 0
+        ? takerFee(filledCount, bet.price)
+        : undefined;
+
+  let status: BetRecord['status'];
+  if (order.status === 'executed') {
+    status = 'filled';
+  } else if (order.status === 'canceled') {
+    // A partially filled order that was cancelled keeps its filled contracts
+    status = filledCount > 0 ? 'filled' : 'cancelled';
+  } else {
+    status = filledCount > 0 ? 'partial' : 'pending';
+  }
+
+  const next: BetUpdate = {
+    status,
+    orderId: order.order_id,
+    filledCount,
+    ...(averagePrice !== undefined ? { averagePrice } : {}),
+    ...(fees !== undefined ? { fees } : {}),
+  };
+
+  return Object.fromEntries(
+    Object.entries(next).filter(([key, value]) => bet[key as keyof BetRecord] !== value)
+  ) as BetUpdate;
+}
+
+/**
+ * Result and P&L (cents, net of fees) for a filled bet once its market has
+ * finalized, or null while the market is still open
+ */
+export function settleBet(
+  bet: BetRecord,
+  market: MarketSettlement,
+  now = new Date()
+): BetUpdate | null {
+  if (market.status !== 'finalized' && market.status !== 'settled') return null;
+
+  const settledAt = now.toISOString();
+  if (market.result === 'void') {
+    return { result: 'void', pnl: 0, settledAt };
+  }
+  if (market.result !== 'yes' && market.result !== 'no') return null;
+
+  const contracts = bet.filledCount ?? bet.count;
+  const price = bet.averagePrice ?? bet.price;
+  // Selling a side is a position on the other outcome
+  const won = (bet.side === market.result) === (bet.action === 'buy');
+  const buyPnl = bet.side === market.result ? 100 - price : -price;
+  const fees = betFees(bet);
+  const pnl = Math.round((bet.action === 'buy' ? buyPnl : -buyPnl) * contracts) - fees;
+
+  return { result: won ? 'win' : 'loss', pnl, fees, settledAt };
+}
+
+/**
+ * Fetch every page of a Kalshi list endpoint
+ */
+export async function fetchAllPages<T>(
+  request: KalshiRequest,
+  endpoint: string,
+  key: string
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor = '';
+
+  for (let page = 0; page < RECONCILER_CONFIG.maxPages; page++) {
+    const separator = endpoint.includes('?') ? '&' : '?';
+    const url = `${endpoint}${separator}limit=${RECONCILER_CONFIG.pageLimit}${
+      cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''
+    }`;
+    const { status, data } = await request('GET', url);
+    if (status !== 200) {
+      throw new Error(`Kalshi ${endpoint} returned ${status}`);
+    }
+
+    const body = data as Record<string, unknown>;
+    items.push(...((body[key] as T[]) || []));
+    cursor = (body.cursor as string) || '';
+    if (!cursor) break;
+  }
+
+  return items;
+}
+
+export class OrderReconciler {
+  private timer: NodeJS.Timeout | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private running: Promise<ReconcileSummary> | null = null;
+
+  constructor(
+    private request: KalshiRequest,
+    private onUpdate: (bet: BetRecord) => void = () => {},
+    private store = { getAllBets, updateBet }
+  ) {}
+
+  /**
+   * Reconcile every open or unsettled bet; concurrent calls share one sweep
+   */
+  reconcile(): Promise<ReconcileSummary> {
+    if (!this.running) {
+      this.running = this.sweep().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async sweep(): Promise<ReconcileSummary> {
+    const bets = await this.store.getAllBets();
+    const active = bets.filter((bet) => isOpen(bet) || needsSettlement(bet));
+    const summary: ReconcileSummary = {
+      checked: active.length,
+      updated: [],
+      unmatched: 0,
+      settled: 0,
+    };
+
+    const apply = async (bet: BetRecord, update: BetUpdate) => {
+      if (Object.keys(update).length === 0) return bet;
+      const reconciledAt = new Date().toISOString();
+      await this.store.updateBet(bet.betId, { ...update, reconciledAt });
+      const updated = { ...bet, ...update, reconciledAt };
+      summary.updated.push(updated);
+      this.onUpdate(updated);
+      return updated;
+    };
+
+    const byTicker = new Map<string, BetRecord[]>();
+    for (const bet of active) {
+      byTicker.set(bet.marketTicker, [...(byTicker.get(bet.marketTicker) || []), bet]);
+    }
+
+    for (const [ticker, tickerBets] of Array.from(byTicker.entries())) {
+      try {
+        let current = tickerBets;
+
+        // Order state and fills for bets still working on the book
+        if (current.some(isOpen)) {
+          const query = `ticker=${encodeURIComponent(ticker)}`;
+          const [orders, fills] = await Promise.all([
+            fetchAllPages<KalshiOrderState>(
+              this.request,
+              `/portfolio/orders?${query}`,
+              'orders'
+            ),
+            fetchAllPages<KalshiFillRecord>(
+              this.request,
+              `/portfolio/fills?${query}`,
+              'fills'
+            ),
+          ]);
+
+          current = await Promise.all(
+            current.map(async (bet) => {
+              if (!isOpen(bet)) return bet;
+              const order = orderForBet(bet, orders);
+              if (!order) {
+                summary.unmatched++;
+                return bet;
+              }
+              const betFills = fillsForBet(bet, order, orders, fills);
+              return apply(bet, reconcileBet(bet, order, betFills));
+            })
+          );
+        }
+
+        // Settlement once the market has a result
+        const unsettled = current.filter(needsSettlement);
+        if (unsettled.length > 0) {
+          const { status, data } = await this.request(
+            'GET',
+            `/markets/${encodeURIComponent(ticker)}`
+          );
+          if (status !== 200) {
+            throw new Error(`Kalshi /markets/${ticker} returned ${status}`);
+          }
+          const market = (data as { market: MarketSettlement }).market;
+
+          for (const bet of unsettled) {
+            const settlement = settleBet(bet, market);
+            if (settlement) {
+              await apply(bet, settlement);
+              summary.settled++;
+            }
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to reconcile bets for ${ticker}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Schedule a sweep shortly, e.g. after a fill message or an order change
+   */
+  requestSweep(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setTimeout(() => {
+      this.sweepTimer = null;
+      this.reconcile().catch((error) => console.error('Bet reconcile failed:', error));
+    }, RECONCILER_CONFIG.sweepDebounceMs);
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.reconcile().catch((error) => console.error('Bet reconcile failed:', error));
+    this.timer = setInterval(() => {
+      this.reconcile().catch((error) => console.error('Bet reconcile failed:', error));
+    }, RECONCILER_CONFIG.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.sweepTimer) {
+      clearTimeout(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
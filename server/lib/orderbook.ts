@@ -0,0 +1,81 @@
+// Order Book Store
+// Maintains a depth book per market from Kalshi orderbook snapshots and deltas
+
+import type { KalshiOrderbookUpdate } from './kalshi-websocket';
+
+// Resting bids for both sides, best price first
+export interface OrderBook {
+  market_ticker: string;
+  yes: Array<[number, number]>; // [price, quantity]
+  no: Array<[number, number]>;
+  updated_at: string;
+}
+
+interface BookState {
+  yes: Map<number, number>;
+  no: Map<number, number>;
+  updatedAt: string;
+}
+
+function levels(side: Map<number, number>): Array<[number, number]> {
+  return Array.from(side.entries())
+    .filter(([, quantity]) => quantity > 0)
+    .sort((a, b) => b[0] - a[0]);
+}
+
+export class OrderBookStore {
+  private books = new Map<string, BookState>();
+
+  /**
+   * Apply a snapshot or delta; returns the updated book, or null for a delta
+   * that arrives before the market's snapshot
+   */
+  apply(update: KalshiOrderbookUpdate, now = Date.now()): OrderBook | null {
+    const ticker = update.msg.market_ticker;
+    const updatedAt = new Date(now).toISOString();
+
+    if (update.type === 'orderbook_snapshot') {
+      this.books.set(ticker, {
+        yes: new Map(update.msg.yes || []),
+        no: new Map(update.msg.no || []),
+        updatedAt,
+      });
+      return this.get(ticker);
+    }
+
+    const book = this.books.get(ticker);
+    if (!book) return null;
+
+    const { price, delta, side } = update.msg;
+    const quantity = (book[side].get(price) || 0) + delta;
+    if (quantity > 0) {
+      book[side].set(price, quantity);
+    } else {
+      book[side].delete(price);
+    }
+    book.updatedAt = updatedAt;
+    return this.get(ticker);
+  }
+
+  get(ticker: string): OrderBook | null {
+    const book = this.books.get(ticker);
+    if (!book) return null;
+    return {
+      market_ticker: ticker,
+      yes: levels(book.yes),
+      no: levels(book.no),
+      updated_at: book.updatedAt,
+    };
+  }
+
+  /**
+   * Forget a market's book (e.g. after unsubscribing or a reconnect)
+   */
+  clear(ticker?: string): void {
+    if (ticker) {
+      this.books.delete(ticker);
+    } else {
+      this.books.clear();
+    }
+  }
+}
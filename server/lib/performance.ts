@@ -0,0 +1,266 @@
+// Performance Analytics
+// Results of every settled bet, attributed to the earnings event it was placed
+// on: win rate, ROI and edge at entry by company, word, side and price, plus
+// the equity curve in call order. Amounts are in cents, net of fees
+
+import {
+  getAllBets,
+  getAllTranscripts,
+  getAllEarningsEvents,
+  type BetRecord,
+  type EarningsEvent,
+} from './dynamodb';
+import { replaySettledMarkets, type SettledMarketReplay } from './calibration';
+import { betFees, netPnl } from '../../src/lib/utils/fees';
+import { eventCallDate } from '../../src/lib/utils/eventCalls';
+
+export { eventCallDate };
+
+// Entry price buckets in cents for the side bought
+export const PRICE_BUCKETS: Array<{ label: string; min: number; max: number }> = [
+  { label: '1-20¢', min: 1, max: 20 },
+  { label: '21-40¢', min: 21, max: 40 },
+  { label: '41-60¢', min: 41, max: 60 },
+  { label: '61-80¢', min: 61, max: 80 },
+  { label: '81-99¢', min: 81, max: 99 },
+];
+
+export interface PerformanceBet {
+  betId: string;
+  eventTicker: string;
+  company: string;
+  word: string;
+  side: 'yes' | 'no';
+  eventDate: string; // Call date of the bet's event
+  contracts: number;
+  price: number; // Average entry price in cents for the side bought
+  cost: number; // Including fees
+  fees: number;
+  pnl: number;
+  won: boolean;
+  edge: number | null; // Model probability of the side bought minus price, in points
+  edgeSource: 'entry' | 'replay' | null; // Recorded with the bet, or the replayed model
+}
+
+export interface PerformanceStats {
+  bets: number;
+  wins: number;
+  winRate: number | null; // null without bets
+  contracts: number;
+  cost: number;
+  fees: number;
+  pnl: number;
+  roi: number | null; // pnl / cost
+  avgEdge: number | null; // Over bets with a known edge
+  edgeBets: number;
+}
+
+export interface PerformanceGroup extends PerformanceStats {
+  key: string;
+}
+
+export interface PerformanceEventResult {
+  eventTicker: string;
+  company: string;
+  eventDate: string;
+  bets: number;
+  wins: number;
+  pnl: number;
+  cumulativePnl: number;
+  drawdown: number; // Below the running peak after this event
+}
+
+export interface PerformanceReport {
+  summary: PerformanceStats & {
+    maxDrawdown: number; // Peak to trough of cumulative P&L
+    open: number; // Bets not yet settled
+    voided: number;
+  };
+  byCompany: PerformanceGroup[];
+  byWord: PerformanceGroup[];
+  bySide: PerformanceGroup[];
+  byPriceBucket: PerformanceGroup[];
+  events: PerformanceEventResult[];
+  bets: PerformanceBet[];
+  generatedAt: string;
+}
+
+/**
+ * Label of the price bucket an entry price falls in
+ */
+export function priceBucket(price: number): string {
+  const bucket =
+    PRICE_BUCKETS.find((b) => price <= b.max) ?? PRICE_BUCKETS[PRICE_BUCKETS.length - 1];
+  return bucket.label;
+}
+
+/**
+ * Edge at entry for the side bought: the model probability recorded with the
+ * bet, or the replayed base-rate estimate for its market
+ */
+export function entryEdge(
+  bet: Pick<BetRecord, 'side' | 'modelProbability'>,
+  price: number,
+  replay: SettledMarketReplay | undefined
+): Pick<PerformanceBet, 'edge' | 'edgeSource'> {
+  const modelYes =
+    bet.modelProbability ?? (replay ? replay.estimate.probability * 100 : undefined);
+  if (modelYes === undefined) return { edge: null, edgeSource: null };
+
+  const model = bet.side === 'yes' ? modelYes : 100 - modelYes;
+  return {
+    edge: Math.round((model - price) * 10) / 10,
+    edgeSource: bet.modelProbability !== undefined ? 'entry' : 'replay',
+  };
+}
+
+function summarize(bets: PerformanceBet[]): PerformanceStats {
+  const wins = bets.filter((b) => b.won).length;
+  const cost = bets.reduce((total, b) => total + b.cost, 0);
+  const pnl = bets.reduce((total, b) => total + b.pnl, 0);
+  const withEdge = bets.filter((b) => b.edge !== null);
+
+  return {
+    bets: bets.length,
+    wins,
+    winRate: bets.length > 0 ? wins / bets.length : null,
+    contracts: bets.reduce((total, b) => total + b.contracts, 0),
+    cost,
+    fees: bets.reduce((total, b) => total + b.fees, 0),
+    pnl,
+    roi: cost > 0 ? pnl / cost : null,
+    avgEdge:
+      withEdge.length > 0
+        ? withEdge.reduce((total, b) => total + (b.edge as number), 0) / withEdge.length
+        : null,
+    edgeBets: withEdge.length,
+  };
+}
+
+function groupBy(
+  bets: PerformanceBet[],
+  key: (bet: PerformanceBet) => string
+): PerformanceGroup[] {
+  const groups = new Map<string, PerformanceBet[]>();
+  for (const bet of bets) {
+    const k = key(bet);
+    groups.set(k, [...(groups.get(k) || []), bet]);
+  }
+  return Array.from(groups.entries()).map(([k, grouped]) => ({
+    key: k,
+    ...summarize(grouped),
+  }));
+}
+
+/**
+ * Build the performance report from bet records. Each bet is attributed to its
+ * event's call date, falling back to when it settled or was placed for events
+ * we no longer have
+ */
+export function buildPerformanceReport(
+  records: BetRecord[],
+  events: EarningsEvent[],
+  replays: SettledMarketReplay[] = []
+): PerformanceReport {
+  const eventsByTicker = new Map(events.map((e) => [e.eventTicker, e]));
+  const replaysByMarket = new Map(replays.map((r) => [r.market.ticker, r]));
+
+  const bets: PerformanceBet[] = [];
+  for (const record of records) {
+    if (record.result !== 'win' && record.result !== 'loss') continue;
+
+    const contracts = record.filledCount ?? record.count;
+    if (contracts <= 0) continue;
+
+    const event = eventsByTicker.get(record.eventTicker);
+    const price = record.averagePrice ?? record.price;
+    const fees = betFees(record);
+
+    bets.push({
+      betId: record.betId,
+      eventTicker: record.eventTicker,
+      company: event?.company ?? record.company,
+      word: record.word,
+      side: record.side,
+      eventDate:
+        eventCallDate(event) ?? (record.settledAt ?? record.createdAt).split('T')[0],
+      contracts,
+      price,
+      cost: price * contracts + fees,
+      fees,
+      pnl: netPnl(record),
+      won: record.result === 'win',
+      ...entryEdge(record, price, replaysByMarket.get(record.marketTicker)),
+    });
+  }
+
+  // Per-event P&L in call order, with the running equity curve
+  const byEvent = new Map<string, PerformanceEventResult>();
+  for (const bet of bets) {
+    const result = byEvent.get(bet.eventTicker) || {
+      eventTicker: bet.eventTicker,
+      company: bet.company,
+      eventDate: bet.eventDate,
+      bets: 0,
+      wins: 0,
+      pnl: 0,
+      cumulativePnl: 0,
+      drawdown: 0,
+    };
+    result.bets++;
+    if (bet.won) result.wins++;
+    result.pnl += bet.pnl;
+    byEvent.set(bet.eventTicker, result);
+  }
+
+  const eventResults = Array.from(byEvent.values()).sort(
+    (a, b) =>
+      a.eventDate.localeCompare(b.eventDate) || a.eventTicker.localeCompare(b.eventTicker)
+  );
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const result of eventResults) {
+    equity += result.pnl;
+    peak = Math.max(peak, equity);
+    result.cumulativePnl = equity;
+    result.drawdown = peak - equity;
+    maxDrawdown = Math.max(maxDrawdown, result.drawdown);
+  }
+
+  const byPnl = (a: PerformanceGroup, b: PerformanceGroup) => b.pnl - a.pnl;
+
+  return {
+    summary: {
+      ...summarize(bets),
+      maxDrawdown,
+      open: records.filter((r) => !r.result && r.status !== 'cancelled').length,
+      voided: records.filter((r) => r.result === 'void').length,
+    },
+    byCompany: groupBy(bets, (b) => b.company).sort(byPnl),
+    byWord: groupBy(bets, (b) => b.word).sort(byPnl),
+    bySide: groupBy(bets, (b) => b.side).sort((a, b) => b.key.localeCompare(a.key)),
+    byPriceBucket: groupBy(bets, (b) => priceBucket(b.price)).sort(
+      (a, b) =>
+        PRICE_BUCKETS.findIndex((p) => p.label === a.key) -
+        PRICE_BUCKETS.findIndex((p) => p.label === b.key)
+    ),
+    events: eventResults,
+    bets,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Performance report over every bet stored in DynamoDB
+ */
+export async function getPerformanceReport(): Promise<PerformanceReport> {
+  const [bets, events, transcripts] = await Promise.all([
+    getAllBets(),
+    getAllEarningsEvents(),
+    getAllTranscripts(),
+  ]);
+  const { replays } = replaySettledMarkets(events, transcripts);
+
+  return buildPerformanceReport(bets, events, replays);
+}
@@ -0,0 +1,202 @@
+// Market Price History
+// Folds Kalshi ticker messages into time-bucketed snapshots, persists them to
+// DynamoDB and serves resampled history for charts and backtests
+
+import { savePriceSnapshot, getPriceHistory, type PriceSnapshot } from './dynamodb';
+import type { KalshiTickerUpdate } from './kalshi-websocket';
+
+export const PRICE_HISTORY_CONFIG = {
+  bucketMinutes: 5, // Finest stored resolution
+  flushIntervalMs: 60_000, // Write changed buckets at most once a minute
+  ttlDays: 365,
+  defaultRangeDays: 7,
+};
+
+// Chart intervals in minutes (multiples of the stored bucket)
+export const HISTORY_INTERVALS = {
+  '5m': 5,
+  '15m': 15,
+  '1h': 60,
+  '4h': 240,
+  '1d': 1440,
+} as const;
+
+export type HistoryInterval = keyof typeof HISTORY_INTERVALS;
+
+export interface PriceHistoryPoint {
+  timestamp: string; // ISO start of the interval
+  yesBid: number; // Cents, last quote in the interval
+  yesAsk: number;
+  lastPrice: number;
+  volume: number;
+  openInterest: number;
+}
+
+type Snapshot = Omit<PriceSnapshot, 'PK' | 'SK'>;
+
+export function isHistoryInterval(value: unknown): value is HistoryInterval {
+  return typeof value === 'string' && value in HISTORY_INTERVALS;
+}
+
+/**
+ * ISO start of the bucket containing `time`
+ */
+export function bucketStart(time: number, minutes: number): string {
+  const size = minutes * 60_000;
+  return new Date(Math.floor(time / size) * size).toISOString();
+}
+
+/**
+ * Resample snapshots to a coarser interval, keeping the last quote of each
+ * interval (snapshots may arrive in any order)
+ */
+export function resampleHistory(
+  snapshots: Array<
+    Pick<
+      Snapshot,
+      'bucket' | 'yesBid' | 'yesAsk' | 'lastPrice' | 'volume' | 'openInterest'
+    >
+  >,
+  interval: HistoryInterval
+): PriceHistoryPoint[] {
+  const minutes = HISTORY_INTERVALS[interval];
+  const sorted = [...snapshots].sort((a, b) => a.bucket.localeCompare(b.bucket));
+
+  const byInterval = new Map<string, PriceHistoryPoint>();
+  for (const s of sorted) {
+    const timestamp = bucketStart(new Date(s.bucket).getTime(), minutes);
+    byInterval.set(timestamp, {
+      timestamp,
+      yesBid: s.yesBid,
+      yesAsk: s.yesAsk,
+      lastPrice: s.lastPrice,
+      volume: s.volume,
+      openInterest: s.openInterest,
+    });
+  }
+
+  return Array.from(byInterval.values());
+}
+
+/**
+ * Buffers the latest quote per market and bucket, writing changed buckets on flush
+ */
+export class PriceHistoryRecorder {
+  private pending = new Map<string, { snapshot: Snapshot; dirty: boolean }>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing = false;
+
+  constructor(
+    private save: (snapshot: Snapshot) => Promise<unknown> = savePriceSnapshot
+  ) {}
+
+  /**
+   * Fold a ticker message into the current bucket for its market
+   */
+  record(update: KalshiTickerUpdate['msg'], now = Date.now()): void {
+    const bucket = bucketStart(now, PRICE_HISTORY_CONFIG.bucketMinutes);
+    const key = `${update.market_ticker}|${bucket}`;
+    const existing = this.pending.get(key);
+
+    this.pending.set(key, {
+      snapshot: {
+        marketTicker: update.market_ticker,
+        bucket,
+        yesBid: update.yes_bid,
+        yesAsk: update.yes_ask,
+        lastPrice: update.last_price,
+        volume: update.volume,
+        openInterest: update.open_interest,
+        updates: (existing?.snapshot.updates || 0) + 1,
+        updatedAt: new Date(now).toISOString(),
+        expiresAt: Math.floor(now / 1000) + PRICE_HISTORY_CONFIG.ttlDays * 24 * 60 * 60,
+      },
+      dirty: true,
+    });
+  }
+
+  /**
+   * Buffered snapshots for a market that may not be persisted yet
+   */
+  pendingFor(marketTicker: string): Snapshot[] {
+    return Array.from(this.pending.values())
+      .map((entry) => entry.snapshot)
+      .filter((snapshot) => snapshot.marketTicker === marketTicker);
+  }
+
+  /**
+   * Persist changed buckets and drop closed ones; returns the number written
+   */
+  async flush(now = Date.now()): Promise<number> {
+    if (this.flushing) return 0;
+    this.flushing = true;
+
+    const currentBucket = bucketStart(now, PRICE_HISTORY_CONFIG.bucketMinutes);
+    let written = 0;
+
+    try {
+      for (const [key, entry] of Array.from(this.pending.entries())) {
+        if (entry.dirty) {
+          try {
+            await this.save(entry.snapshot);
+            entry.dirty = false;
+            written++;
+          } catch (error) {
+            console.error(`Failed to save price snapshot for ${key}:`, error);
+            continue;
+          }
+        }
+        if (entry.snapshot.bucket < currentBucket) {
+          this.pending.delete(key);
+        }
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    return written;
+  }
+
+  start(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setInterval(() => {
+      this.flush().catch((error) => console.error('Price history flush failed:', error));
+    }, PRICE_HISTORY_CONFIG.flushIntervalMs);
+  }
+
+  stop(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+}
+
+let recorder: PriceHistoryRecorder | null = null;
+
+export function getPriceHistoryRecorder(): PriceHistoryRecorder {
+  if (!recorder) {
+    recorder = new PriceHistoryRecorder();
+  }
+  return recorder;
+}
+
+/**
+ * Stored history for a market merged with buffered buckets, resampled to `interval`
+ */
+export async function getMarketHistory(
+  marketTicker: string,
+  options: { from: string; to: string; interval: HistoryInterval }
+): Promise<PriceHistoryPoint[]> {
+  const stored = await getPriceHistory(marketTicker, options.from, options.to);
+
+  // Buffered buckets replace their stored (possibly stale) versions
+  const byBucket = new Map<string, Snapshot>(stored.map((s) => [s.bucket, s]));
+  for (const snapshot of getPriceHistoryRecorder().pendingFor(marketTicker)) {
+    if (snapshot.bucket >= options.from && snapshot.bucket <= options.to) {
+      byBucket.set(snapshot.bucket, snapshot);
+    }
+  }
+
+  return resampleHistory(Array.from(byBucket.values()), options.interval);
+}
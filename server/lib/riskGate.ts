@@ -0,0 +1,357 @@
+// Pre-trade Risk Gate
+// Checks every order against exposure caps, the daily loss limit, order size
+// and the exchange's per-strike position limit before it is sent to Kalshi
+
+import {
+  getAllBets,
+  getRiskSettings,
+  type BetRecord,
+  type RiskSettings,
+} from './dynamodb';
+import { fetchAllPages, type KalshiRequest } from './orderReconciler';
+import { netPnl } from '../../src/lib/utils/fees';
+
+export type RiskLimits = Omit<RiskSettings, 'PK' | 'SK' | 'updatedAt'>;
+
+// $25,000 per strike, per member (docs/KALSHI_RULES.md), in cents
+export const KALSHI_STRIKE_POSITION_LIMIT = 2_500_000;
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxMarketExposure: 100_000, // $1,000
+  maxEventExposure: 500_000, // $5,000
+  dailyLossLimit: 50_000, // $500
+  maxContractsPerOrder: 1_000,
+};
+
+export type RiskRule =
+  | 'invalid_order'
+  | 'max_contracts'
+  | 'market_exposure'
+  | 'event_exposure'
+  | 'strike_position'
+  | 'daily_loss'
+  | 'risk_data_unavailable';
+
+export interface RiskViolation {
+  rule: RiskRule;
+  message: string;
+  limit: number; // Cents, or contracts for max_contracts
+  current: number; // Before this order
+  attempted: number; // After this order
+}
+
+export interface RiskCheck {
+  allowed: boolean;
+  violations: RiskViolation[];
+}
+
+// The parts of a Kalshi order request the gate reads
+export interface OrderIntent {
+  ticker: string;
+  action: 'buy' | 'sell';
+  side: 'yes' | 'no';
+  count: number;
+  yes_price?: number;
+  no_price?: number;
+}
+
+export interface RiskContext {
+  marketExposure: Record<string, number>; // Cents per market: positions plus resting buys
+  realizedToday: number; // Cents of P&L on bets settled today (negative is a loss)
+}
+
+interface KalshiMarketPosition {
+  ticker: string;
+  market_exposure: number;
+}
+
+export interface KalshiRestingOrder {
+  status?: string; // resting | canceled | executed | pending
+  ticker: string;
+  action: 'buy' | 'sell';
+  side: 'yes' | 'no';
+  yes_price: number;
+  no_price: number;
+  remaining_count: number;
+}
+
+function dollars(cents: number): string {
+  return `$${(cents / 100).toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Event ticker for a market ticker (markets are `{eventTicker}-{suffix}`)
+ */
+export function eventTickerFor(marketTicker: string): string {
+  const index = marketTicker.lastIndexOf('-');
+  return index > 0 ? marketTicker.slice(0, index) : marketTicker;
+}
+
+/**
+ * Most the order can lose in cents; market orders without a price assume 99¢
+ */
+export function orderCost(order: OrderIntent): number {
+  const price = order.side === 'yes' ? order.yes_price : order.no_price;
+  return order.count * (price ?? 99);
+}
+
+/**
+ * Check an order against the limits; sells only reduce exposure, so they are
+ * held to the order size limit alone
+ */
+export function evaluateOrder(
+  order: OrderIntent,
+  context: RiskContext,
+  limits: RiskLimits
+): RiskCheck {
+  const violations: RiskViolation[] = [];
+  const price = order.side === 'yes' ? order.yes_price : order.no_price;
+
+  if (
+    !order.ticker ||
+    !Number.isInteger(order.count) ||
+    order.count < 1 ||
+    (price !== undefined && (price < 1 || price > 99))
+  ) {
+    violations.push({
+      rule: 'invalid_order',
+      message: 'Order needs a ticker, a whole number of contracts and a price of 1-99¢',
+      limit: 0,
+      current: 0,
+      attempted: order.count,
+    });
+    return { allowed: false, violations };
+  }
+
+  if (order.count > limits.maxContractsPerOrder) {
+    violations.push({
+      rule: 'max_contracts',
+      message: `${order.count} contracts exceeds the ${limits.maxContractsPerOrder} per-order limit`,
+      limit: limits.maxContractsPerOrder,
+      current: 0,
+      attempted: order.count,
+    });
+  }
+
+  if (order.action === 'sell') {
+    return { allowed: violations.length === 0, violations };
+  }
+
+  const cost = orderCost(order);
+  const market = context.marketExposure[order.ticker] || 0;
+  const eventTicker = eventTickerFor(order.ticker);
+  const event = Object.entries(context.marketExposure)
+    .filter(([ticker]) => eventTickerFor(ticker) === eventTicker)
+    .reduce((total, [, exposure]) => total + exposure, 0);
+
+  if (market + cost > limits.maxMarketExposure) {
+    violations.push({
+      rule: 'market_exposure',
+      message: `${dollars(market + cost)} in ${order.ticker} exceeds the ${dollars(limits.maxMarketExposure)} market cap`,
+      limit: limits.maxMarketExposure,
+      current: market,
+      attempted: market + cost,
+    });
+  }
+
+  if (market + cost > KALSHI_STRIKE_POSITION_LIMIT) {
+    violations.push({
+      rule: 'strike_position',
+      message: `${dollars(market + cost)} exceeds Kalshi's ${dollars(KALSHI_STRIKE_POSITION_LIMIT)} per-strike position limit`,
+      limit: KALSHI_STRIKE_POSITION_LIMIT,
+      current: market,
+      attempted: market + cost,
+    });
+  }
+
+  if (event + cost > limits.maxEventExposure) {
+    violations.push({
+      rule: 'event_exposure',
+      message: `${dollars(event + cost)} across ${eventTicker} exceeds the ${dollars(limits.maxEventExposure)} event cap`,
+      limit: limits.maxEventExposure,
+      current: event,
+      attempted: event + cost,
+    });
+  }
+
+  const lossToday = Math.max(0, -context.realizedToday);
+  if (lossToday >= limits.dailyLossLimit) {
+    violations.push({
+      rule: 'daily_loss',
+      message: `Today's realized loss of ${dollars(lossToday)} has reached the ${dollars(limits.dailyLossLimit)} daily limit`,
+      limit: limits.dailyLossLimit,
+      current: lossToday,
+      attempted: lossToday,
+    });
+  }
+
+  return { allowed: violations.length === 0, violations };
+}
+
+/**
+ * The order as it stands after an amend: the amend's count and price where
+ * given, the original order's otherwise
+ */
+export function amendedOrder(
+  original: KalshiRestingOrder,
+  amend: Partial<OrderIntent>
+): OrderIntent {
+  const side = amend.side ?? original.side;
+  const originalPrice = side === 'yes' ? original.yes_price : original.no_price;
+  const price = (side === 'yes' ? amend.yes_price : amend.no_price) ?? originalPrice;
+  return {
+    ticker: original.ticker,
+    action: original.action,
+    side,
+    count: amend.count ?? original.remaining_count,
+    ...(side === 'yes' ? { yes_price: price } : { no_price: price }),
+  };
+}
+
+/**
+ * Check an amend as if the amended order were new, after taking the original
+ * order's resting exposure out of the context so it is not counted twice
+ */
+export function evaluateAmend(
+  original: KalshiRestingOrder,
+  amend: Partial<OrderIntent>,
+  context: RiskContext,
+  limits: RiskLimits
+): RiskCheck {
+  const resting = original.status === undefined || original.status === 'resting';
+  const held =
+    resting && original.action === 'buy'
+      ? original.remaining_count *
+        (original.side === 'yes' ? original.yes_price : original.no_price)
+      : 0;
+  const marketExposure = {
+    ...context.marketExposure,
+    [original.ticker]: Math.max(0, (context.marketExposure[original.ticker] || 0) - held),
+  };
+  return evaluateOrder(
+    amendedOrder(original, amend),
+    { ...context, marketExposure },
+    limits
+  );
+}
+
+/**
+ * Realized P&L in cents, net of fees, of bets settled on the given UTC day
+ */
+export function realizedPnlOn(bets: BetRecord[], day: string): number {
+  return bets
+    .filter((bet) => bet.settledAt?.startsWith(day))
+    .reduce((total, bet) => total + netPnl(bet), 0);
+}
+
+/**
+ * Current exposure from Kalshi positions and resting buy orders, plus today's
+ * realized P&L from settled bets
+ */
+export async function loadRiskContext(
+  request: KalshiRequest,
+  now = new Date()
+): Promise<RiskContext> {
+  const [positions, orders, bets] = await Promise.all([
+    fetchAllPages<KalshiMarketPosition>(
+      request,
+      '/portfolio/positions',
+      'market_positions'
+    ),
+    fetchAllPages<KalshiRestingOrder>(
+      request,
+      '/portfolio/orders?status=resting',
+      'orders'
+    ),
+    getAllBets(),
+  ]);
+
+  const marketExposure: Record<string, number> = {};
+  for (const position of positions) {
+    marketExposure[position.ticker] =
+      (marketExposure[position.ticker] || 0) + Math.abs(position.market_exposure);
+  }
+  for (const order of orders) {
+    if (order.action !== 'buy') continue;
+    const price = order.side === 'yes' ? order.yes_price : order.no_price;
+    marketExposure[order.ticker] =
+      (marketExposure[order.ticker] || 0) + order.remaining_count * price;
+  }
+
+  return {
+    marketExposure,
+    realizedToday: realizedPnlOn(bets, now.toISOString().split('T')[0]),
+  };
+}
+
+/**
+ * Saved limits, or the defaults when none have been saved
+ */
+export async function getRiskLimits(): Promise<RiskLimits> {
+  const settings = await getRiskSettings();
+  if (!settings) return DEFAULT_RISK_LIMITS;
+  return {
+    maxMarketExposure: settings.maxMarketExposure,
+    maxEventExposure: settings.maxEventExposure,
+    dailyLossLimit: settings.dailyLossLimit,
+    maxContractsPerOrder: settings.maxContractsPerOrder,
+  };
+}
+
+/**
+ * Validate a limits update; returns the merged limits or the fields that are invalid
+ */
+export function normalizeRiskLimits(
+  input: Partial<Record<keyof RiskLimits, unknown>>,
+  current: RiskLimits = DEFAULT_RISK_LIMITS
+): { limits: RiskLimits; invalid: string[] } {
+  const limits = { ...current };
+  const invalid: string[] = [];
+
+  for (const key of Object.keys(DEFAULT_RISK_LIMITS) as Array<keyof RiskLimits>) {
+    if (input[key] === undefined) continue;
+    const value = Number(input[key]);
+    if (!Number.isFinite(value) || value <= 0) {
+      invalid.push(key);
+    } else {
+      limits[key] = Math.round(value);
+    }
+  }
+
+  return { limits, invalid };
+}
+
+/**
+ * Run the gate for an order using live exposure and the saved limits
+ */
+export async function checkOrderRisk(
+  order: OrderIntent,
+  request: KalshiRequest
+): Promise<RiskCheck> {
+  const [context, limits] = await Promise.all([
+    loadRiskContext(request),
+    getRiskLimits(),
+  ]);
+  return evaluateOrder(order, context, limits);
+}
+
+/**
+ * Run the gate for an amend of a live order, using the full post-amend size
+ * and price
+ */
+export async function checkAmendRisk(
+  orderId: string,
+  amend: Partial<OrderIntent>,
+  request: KalshiRequest
+): Promise<RiskCheck> {
+  const [original, context, limits] = await Promise.all([
+    request('GET', `/portfolio/orders/${encodeURIComponent(orderId)}`),
+    loadRiskContext(request),
+    getRiskLimits(),
+  ]);
+  if (original.status !== 200) {
+    throw new Error(`Could not load order ${orderId} (${original.status})`);
+  }
+  const order = (original.data as { order: KalshiRestingOrder }).order;
+  return evaluateAmend(order, amend, context, limits);
+}
@@ -0,0 +1,323 @@
+// Trigger Orders
+// Holds conditional and scheduled orders server-side: price conditions are
+// checked on every ticker message, time conditions on a short timer, and a
+// met condition submits the order once. Every step is appended to the trigger's log
+
+import {
+  getAllTriggerOrders,
+  saveTriggerOrder,
+  updateTriggerOrder,
+  type TriggerCondition,
+  type TriggerLogEntry,
+  type TriggerOrder,
+  type TriggerUpdate,
+} from './dynamodb';
+import type { KalshiTickerUpdate } from './kalshi-websocket';
+
+export const TRIGGER_CONFIG = {
+  checkIntervalMs: 15_000, // Time conditions fire within this of their time
+  maxLateMs: 5 * 60_000, // Time triggers missed by more than this (e.g. server down) fail instead
+};
+
+export type TriggerQuote = KalshiTickerUpdate['msg'];
+
+export type NewTrigger = Pick<
+  TriggerOrder,
+  'eventTicker' | 'marketTicker' | 'company' | 'word' | 'condition' | 'order'
+>;
+
+// Sends the order (risk checks included) and records the bet; throws on rejection.
+// `warning` reports a problem after the order was placed (e.g. the bet not saving)
+export type SubmitTriggerOrder = (
+  trigger: TriggerOrder
+) => Promise<{ orderId?: string; warning?: string }>;
+
+const PRICE_FIELDS = ['yes_bid', 'yes_ask', 'no_bid', 'no_ask', 'last_price'] as const;
+
+/**
+ * Human-readable condition for logs and the UI
+ */
+export function describeCondition(condition: TriggerCondition): string {
+  if (condition.type === 'time') return `at ${condition.at}`;
+  return `${condition.field} ${condition.operator === 'lte' ? '<=' : '>='} ${condition.value}¢`;
+}
+
+/**
+ * Whether a condition holds for the latest quote (price) or the current time.
+ * Quotes of 0 or 100 mean an empty side of the book and never match
+ */
+export function conditionMet(
+  condition: TriggerCondition,
+  quote: TriggerQuote | undefined,
+  now: Date
+): boolean {
+  if (condition.type === 'time') {
+    return now.getTime() >= new Date(condition.at).getTime();
+  }
+  if (!quote) return false;
+
+  const price = quote[condition.field];
+  if (!(price > 0 && price < 100)) return false;
+  return condition.operator === 'lte'
+    ? price <= condition.value
+    : price >= condition.value;
+}
+
+function isPrice(value: unknown): value is number {
+  return (
+    typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 99
+  );
+}
+
+/**
+ * Validate a trigger request body; returns the trigger or the reason it is invalid
+ */
+export function normalizeTrigger(
+  body: Record<string, unknown>,
+  now = new Date()
+): { trigger: NewTrigger } | { error: string } {
+  const { eventTicker, marketTicker, company, word } = body;
+  const condition = body.condition as Record<string, unknown> | undefined;
+  const order = body.order as Record<string, unknown> | undefined;
+
+  if (
+    typeof eventTicker !== 'string' ||
+    typeof marketTicker !== 'string' ||
+    typeof company !== 'string' ||
+    typeof word !== 'string' ||
+    !eventTicker ||
+    !marketTicker
+  ) {
+    return { error: 'eventTicker, marketTicker, company and word are required' };
+  }
+
+  if (
+    !order ||
+    (order.action !== 'buy' && order.action !== 'sell') ||
+    (order.side !== 'yes' && order.side !== 'no') ||
+    !Number.isInteger(order.count) ||
+    (order.count as number) < 1 ||
+    !isPrice(order.price)
+  ) {
+    return { error: 'order needs action, side, a whole count and a price of 1-99¢' };
+  }
+
+  let normalized: TriggerCondition;
+  if (condition?.type === 'price') {
+    if (
+      !PRICE_FIELDS.includes(condition.field as (typeof PRICE_FIELDS)[number]) ||
+      (condition.operator !== 'lte' && condition.operator !== 'gte') ||
+      !isPrice(condition.value)
+    ) {
+      return { error: 'price condition needs a field, lte/gte and a price of 1-99¢' };
+    }
+    normalized = {
+      type: 'price',
+      field: condition.field as (typeof PRICE_FIELDS)[number],
+      operator: condition.operator,
+      value: condition.value,
+    };
+  } else if (condition?.type === 'time') {
+    const at = new Date(condition.at as string);
+    if (isNaN(at.getTime()) || at.getTime() <= now.getTime()) {
+      return { error: 'time condition needs a future ISO time' };
+    }
+    normalized = { type: 'time', at: at.toISOString() };
+  } else {
+    return { error: 'condition type must be price or time' };
+  }
+
+  return {
+    trigger: {
+      eventTicker,
+      marketTicker,
+      company,
+      word,
+      condition: normalized,
+      order: {
+        action: order.action,
+        side: order.side,
+        count: order.count as number,
+        price: order.price as number,
+      },
+    },
+  };
+}
+
+export class TriggerEngine {
+  private active = new Map<string, TriggerOrder>();
+  private quotes = new Map<string, TriggerQuote>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private submit: SubmitTriggerOrder,
+    private subscribe: (marketTickers: string[]) => void = () => {},
+    private store = { getAllTriggerOrders, saveTriggerOrder, updateTriggerOrder }
+  ) {}
+
+  /**
+   * Load active triggers from DynamoDB and watch their markets
+   */
+  async load(now = new Date()): Promise<number> {
+    const triggers = await this.store.getAllTriggerOrders();
+    for (const trigger of triggers) {
+      if (trigger.status === 'active') this.active.set(trigger.triggerId, trigger);
+    }
+    this.watch(Array.from(this.active.values()));
+    await this.checkTimes(now);
+    return this.active.size;
+  }
+
+  async create(input: NewTrigger, now = new Date()): Promise<TriggerOrder> {
+    const triggerId = `trigger-${now.getTime()}-${Math.random().toString(36).substring(2, 8)}`;
+    const trigger = await this.store.saveTriggerOrder({
+      ...input,
+      triggerId,
+      status: 'active',
+      log: [this.entry('created', this.describe(input), now)],
+    });
+    console.log(`Trigger ${triggerId} created: ${this.describe(input)}`);
+
+    this.active.set(triggerId, trigger);
+    this.watch([trigger]);
+    return trigger;
+  }
+
+  /**
+   * Cancel an active trigger; returns false if it already fired or is unknown
+   */
+  async cancel(triggerId: string, now = new Date()): Promise<boolean> {
+    const trigger = this.active.get(triggerId);
+    if (!trigger) return false;
+
+    this.active.delete(triggerId);
+    await this.record(
+      trigger,
+      { status: 'cancelled' },
+      this.entry('cancelled', 'Cancelled', now)
+    );
+    return true;
+  }
+
+  /**
+   * Check price triggers for the market in a ticker message
+   */
+  onTicker(quote: TriggerQuote, now = new Date()): void {
+    this.quotes.set(quote.market_ticker, quote);
+    for (const trigger of Array.from(this.active.values())) {
+      if (
+        trigger.marketTicker === quote.market_ticker &&
+        conditionMet(trigger.condition, quote, now)
+      ) {
+        this.fire(trigger, now).catch((error) =>
+          console.error(`Trigger ${trigger.triggerId} failed:`, error)
+        );
+      }
+    }
+  }
+
+  /**
+   * Fire time triggers that are due; ones missed by too long fail instead
+   */
+  async checkTimes(now = new Date()): Promise<void> {
+    for (const trigger of Array.from(this.active.values())) {
+      const { condition } = trigger;
+      if (condition.type !== 'time' || !conditionMet(condition, undefined, now)) continue;
+
+      if (now.getTime() - new Date(condition.at).getTime() > TRIGGER_CONFIG.maxLateMs) {
+        this.active.delete(trigger.triggerId);
+        const message = `Missed: not running at ${condition.at}`;
+        await this.record(
+          trigger,
+          { status: 'failed', error: message },
+          this.entry('failed', message, now)
+        );
+        continue;
+      }
+      await this.fire(trigger, now);
+    }
+  }
+
+  private async fire(trigger: TriggerOrder, now: Date): Promise<void> {
+    // Removed before any await so a burst of ticker messages fires it once
+    if (!this.active.delete(trigger.triggerId)) return;
+
+    const quote = this.quotes.get(trigger.marketTicker);
+    const reason =
+      trigger.condition.type === 'price' && quote
+        ? `${describeCondition(trigger.condition)} met (${trigger.condition.field} ${quote[trigger.condition.field]}¢)`
+        : `${describeCondition(trigger.condition)} reached`;
+    const triggeredAt = now.toISOString();
+    await this.record(
+      trigger,
+      { status: 'triggered', triggeredAt },
+      this.entry('triggered', reason, now)
+    );
+
+    try {
+      const { orderId, warning } = await this.submit(trigger);
+      const message = `Order sent${orderId ? ` (${orderId})` : ''}`;
+      await this.record(
+        trigger,
+        { status: 'submitted', ...(orderId ? { orderId } : {}) },
+        this.entry('submitted', warning ? `${message}; ${warning}` : message, new Date())
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Order submission failed';
+      await this.record(
+        trigger,
+        { status: 'failed', error: message },
+        this.entry('failed', message, new Date())
+      );
+    }
+  }
+
+  private async record(
+    trigger: TriggerOrder,
+    updates: TriggerUpdate,
+    entry: TriggerLogEntry
+  ): Promise<void> {
+    console.log(`Trigger ${trigger.triggerId} ${entry.event}: ${entry.message}`);
+    try {
+      await this.store.updateTriggerOrder(trigger.triggerId, updates, entry);
+    } catch (error) {
+      console.error(`Failed to save trigger ${trigger.triggerId}:`, error);
+    }
+  }
+
+  private watch(triggers: TriggerOrder[]): void {
+    const tickers = Array.from(
+      new Set(
+        triggers.filter((t) => t.condition.type === 'price').map((t) => t.marketTicker)
+      )
+    );
+    if (tickers.length > 0) this.subscribe(tickers);
+  }
+
+  private describe(trigger: NewTrigger): string {
+    const { action, side, count, price } = trigger.order;
+    return `${action} ${count} ${side.toUpperCase()} @ ${price}¢ on ${trigger.word} ${describeCondition(trigger.condition)}`;
+  }
+
+  private entry(
+    event: TriggerLogEntry['event'],
+    message: string,
+    at: Date
+  ): TriggerLogEntry {
+    return { at: at.toISOString(), event, message };
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkTimes().catch((error) => console.error('Trigger check failed:', error));
+    }, TRIGGER_CONFIG.checkIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import { Routes, Route } from 'react-router-dom';
 import Dashboard from './pages/Dashboard';
 import EarningsCallDetail from './pages/EarningsCallDetail';
+import Analytics from './pages/Analytics';
+import Portfolio from './pages/Portfolio';
 
 function App() {
   return (
@@ -8,6 +10,8 @@ function App() {
       <Routes>
         <Route path="/" element={<Dashboard />} />
         <Route path="/earnings/:company/:eventTicker" element={<EarningsCallDetail />} />
+        <Route path="/analytics" element={<Analytics />} />
+        <Route path="/portfolio" element={<Portfolio />} />
       </Routes>
     </div>
   );
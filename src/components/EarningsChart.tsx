@@ -174,10 +174,12 @@ export function EarningsChart({ data, height = 200 }: EarningsChartProps) {
 }
 
 // Price history chart for Kalshi market prices
-interface PriceDataPoint {
+export interface PriceDataPoint {
   timestamp: Date;
   yesPrice: number;
   volume: number;
+  yesBid?: number; // Optional bid/ask band, same 0-1 scale as yesPrice
+  yesAsk?: number;
 }
 
 interface PriceChartProps {
@@ -237,6 +239,18 @@ export function PriceChart({ data, height = 150 }: PriceChartProps) {
 
     g.append('path').datum(data).attr('fill', 'url(#price-gradient)').attr('d', area);
 
+    // Bid/ask spread band
+    const quoted = data.filter((d) => d.yesBid !== undefined && d.yesAsk !== undefined);
+    if (quoted.length > 0) {
+      const spread = d3
+        .area<PriceDataPoint>()
+        .x((d) => x(d.timestamp))
+        .y0((d) => y((d.yesBid || 0) * 100))
+        .y1((d) => y((d.yesAsk || 0) * 100));
+
+      g.append('path').datum(quoted).attr('fill', '#3b82f6').attr('fill-opacity', 0.15).attr('d', spread);
+    }
+
     // Line
     const line = d3
       .line<PriceDataPoint>()
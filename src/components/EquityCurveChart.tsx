@@ -0,0 +1,147 @@
+import { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+
+export interface EquityPoint {
+  label: string; // Shown in the tooltip, e.g. "AAPL 2025-10-30"
+  date: string; // YYYY-MM-DD
+  pnl: number; // Cents for this step
+  cumulativePnl: number; // Cents
+}
+
+interface EquityCurveChartProps {
+  data: EquityPoint[]; // Oldest first
+  height?: number;
+  title?: string;
+}
+
+export function EquityCurveChart({
+  data,
+  height = 240,
+  title = 'Cumulative P&L',
+}: EquityCurveChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current || !containerRef.current || data.length === 0) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const containerWidth = containerRef.current.clientWidth;
+    const margin = { top: 20, right: 20, bottom: 30, left: 60 };
+    const width = containerWidth - margin.left - margin.right;
+    const chartHeight = height - margin.top - margin.bottom;
+
+    const g = svg
+      .attr('width', containerWidth)
+      .attr('height', height)
+      .append('g')
+      .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    // Start the curve at zero before the first step
+    const points = [{ index: 0, value: 0, point: null as EquityPoint | null }].concat(
+      data.map((point, i) => ({ index: i + 1, value: point.cumulativePnl, point }))
+    );
+
+    // Scales
+    const x = d3.scaleLinear().domain([0, data.length]).range([0, width]);
+    const values = points.map((p) => p.value);
+    const y = d3
+      .scaleLinear()
+      .domain([Math.min(0, ...values), Math.max(0, ...values)])
+      .nice()
+      .range([chartHeight, 0]);
+
+    // Grid lines
+    g.append('g')
+      .call(
+        d3
+          .axisLeft(y)
+          .tickSize(-width)
+          .tickFormat(() => '')
+      )
+      .selectAll('line')
+      .attr('stroke', '#334155')
+      .attr('stroke-opacity', 0.5);
+
+    // Break-even line
+    g.append('line')
+      .attr('x1', 0)
+      .attr('x2', width)
+      .attr('y1', y(0))
+      .attr('y2', y(0))
+      .attr('stroke', '#64748b')
+      .attr('stroke-dasharray', '4,4');
+
+    const final = points[points.length - 1].value;
+    const color = final >= 0 ? '#22c55e' : '#ef4444';
+
+    const line = d3
+      .line<(typeof points)[number]>()
+      .x((d) => x(d.index))
+      .y((d) => y(d.value));
+
+    g.append('path')
+      .datum(points)
+      .attr('fill', 'none')
+      .attr('stroke', color)
+      .attr('stroke-width', 2)
+      .attr('d', line);
+
+    g.selectAll('.equity-dot')
+      .data(points.slice(1))
+      .enter()
+      .append('circle')
+      .attr('class', 'equity-dot')
+      .attr('cx', (d) => x(d.index))
+      .attr('cy', (d) => y(d.value))
+      .attr('r', 3)
+      .attr('fill', (d) => ((d.point?.pnl || 0) >= 0 ? '#22c55e' : '#ef4444'))
+      .append('title')
+      .text((d) =>
+        d.point
+          ? `${d.point.label}: ${d.point.pnl >= 0 ? '+' : ''}$${(d.point.pnl / 100).toFixed(2)} ` +
+            `(total $${(d.value / 100).toFixed(2)})`
+          : ''
+      );
+
+    // X axis (step number)
+    g.append('g')
+      .attr('transform', `translate(0,${chartHeight})`)
+      .call(d3.axisBottom(x).ticks(Math.min(10, data.length)).tickFormat(d3.format('d')))
+      .selectAll('text')
+      .attr('fill', '#94a3b8')
+      .attr('font-size', '10px');
+
+    g.selectAll('.domain').attr('stroke', '#475569');
+    g.selectAll('.tick line').attr('stroke', '#475569');
+
+    // Y axis (dollars)
+    g.append('g')
+      .call(
+        d3
+          .axisLeft(y)
+          .ticks(5)
+          .tickFormat((d) => `$${(Number(d) / 100).toFixed(0)}`)
+      )
+      .selectAll('text')
+      .attr('fill', '#94a3b8')
+      .attr('font-size', '10px');
+  }, [data, height]);
+
+  return (
+    <div ref={containerRef} className="w-full relative">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-slate-300">{title}</h3>
+        <div className="flex items-center gap-4 text-xs">
+          <div className="flex items-center gap-1">
+            <div className="w-3 border-t border-dashed border-slate-500" />
+            <span className="text-slate-400">Break-even</span>
+          </div>
+        </div>
+      </div>
+      <svg ref={svgRef} />
+    </div>
+  );
+}
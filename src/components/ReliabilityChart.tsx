@@ -0,0 +1,163 @@
+import { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { type ReliabilityBin } from '@/lib/api/data';
+
+export interface ReliabilitySeries {
+  label: string;
+  color: string;
+  bins: ReliabilityBin[];
+}
+
+interface ReliabilityChartProps {
+  series: ReliabilitySeries[];
+  height?: number;
+  title?: string;
+}
+
+export function ReliabilityChart({
+  series,
+  height = 320,
+  title = 'Reliability',
+}: ReliabilityChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current || !containerRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const containerWidth = containerRef.current.clientWidth;
+    const margin = { top: 20, right: 20, bottom: 40, left: 50 };
+    const width = containerWidth - margin.left - margin.right;
+    const chartHeight = height - margin.top - margin.bottom;
+
+    const g = svg
+      .attr('width', containerWidth)
+      .attr('height', height)
+      .append('g')
+      .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    // Scales (both axes are probabilities)
+    const x = d3.scaleLinear().domain([0, 1]).range([0, width]);
+    const y = d3.scaleLinear().domain([0, 1]).range([chartHeight, 0]);
+    const maxCount = Math.max(1, ...series.flatMap((s) => s.bins.map((b) => b.count)));
+    const radius = d3.scaleSqrt().domain([0, maxCount]).range([3, 10]);
+
+    // Grid lines
+    g.append('g')
+      .call(
+        d3
+          .axisLeft(y)
+          .tickSize(-width)
+          .tickFormat(() => '')
+      )
+      .selectAll('line')
+      .attr('stroke', '#334155')
+      .attr('stroke-opacity', 0.5);
+
+    // Perfect calibration diagonal
+    g.append('line')
+      .attr('x1', x(0))
+      .attr('y1', y(0))
+      .attr('x2', x(1))
+      .attr('y2', y(1))
+      .attr('stroke', '#64748b')
+      .attr('stroke-dasharray', '4,4');
+
+    for (const s of series) {
+      const points = s.bins.filter(
+        (b): b is ReliabilityBin & { meanPredicted: number; observedRate: number } =>
+          b.meanPredicted !== null && b.observedRate !== null
+      );
+
+      const line = d3
+        .line<(typeof points)[number]>()
+        .x((d) => x(d.meanPredicted))
+        .y((d) => y(d.observedRate));
+
+      g.append('path')
+        .datum(points)
+        .attr('fill', 'none')
+        .attr('stroke', s.color)
+        .attr('stroke-width', 2)
+        .attr('d', line);
+
+      g.append('g')
+        .selectAll('circle')
+        .data(points)
+        .enter()
+        .append('circle')
+        .attr('cx', (d) => x(d.meanPredicted))
+        .attr('cy', (d) => y(d.observedRate))
+        .attr('r', (d) => radius(d.count))
+        .attr('fill', s.color)
+        .attr('fill-opacity', 0.8)
+        .append('title')
+        .text(
+          (d) =>
+            `${s.label}: predicted ${(d.meanPredicted * 100).toFixed(0)}%, ` +
+            `observed ${(d.observedRate * 100).toFixed(0)}% (${d.count} markets)`
+        );
+    }
+
+    const percent = (d: d3.NumberValue) => `${Math.round(Number(d) * 100)}%`;
+
+    // X axis
+    g.append('g')
+      .attr('transform', `translate(0,${chartHeight})`)
+      .call(d3.axisBottom(x).ticks(5).tickFormat(percent))
+      .selectAll('text')
+      .attr('fill', '#94a3b8')
+      .attr('font-size', '10px');
+
+    g.append('text')
+      .attr('x', width / 2)
+      .attr('y', chartHeight + 32)
+      .attr('text-anchor', 'middle')
+      .attr('fill', '#64748b')
+      .attr('font-size', '10px')
+      .text('Predicted probability');
+
+    g.selectAll('.domain').attr('stroke', '#475569');
+    g.selectAll('.tick line').attr('stroke', '#475569');
+
+    // Y axis
+    g.append('g')
+      .call(d3.axisLeft(y).ticks(5).tickFormat(percent))
+      .selectAll('text')
+      .attr('fill', '#94a3b8')
+      .attr('font-size', '10px');
+
+    g.append('text')
+      .attr('transform', 'rotate(-90)')
+      .attr('x', -chartHeight / 2)
+      .attr('y', -38)
+      .attr('text-anchor', 'middle')
+      .attr('fill', '#64748b')
+      .attr('font-size', '10px')
+      .text('Resolved YES');
+  }, [series, height]);
+
+  return (
+    <div ref={containerRef} className="w-full relative">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-slate-300">{title}</h3>
+        <div className="flex items-center gap-4 text-xs">
+          {series.map((s) => (
+            <div key={s.label} className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded" style={{ backgroundColor: s.color }} />
+              <span className="text-slate-400">{s.label}</span>
+            </div>
+          ))}
+          <div className="flex items-center gap-1">
+            <div className="w-3 border-t border-dashed border-slate-500" />
+            <span className="text-slate-400">Perfect</span>
+          </div>
+        </div>
+      </div>
+      <svg ref={svgRef} />
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+
+export interface QuarterSectionMentions {
+  label: string; // "Q4 2025"
+  prepared: number;
+  qa: number;
+}
+
+interface SectionMentionsChartProps {
+  data: QuarterSectionMentions[]; // Oldest quarter first
+  stacked?: boolean; // Stack prepared remarks and Q&A, or show one total bar
+  height?: number;
+  title?: string;
+}
+
+const SECTION_COLORS = {
+  prepared: '#3b82f6',
+  qa: '#a855f7',
+  total: '#64748b',
+};
+
+export function SectionMentionsChart({
+  data,
+  stacked = true,
+  height = 220,
+  title = 'Mentions by Section',
+}: SectionMentionsChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current || !containerRef.current || data.length === 0) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const containerWidth = containerRef.current.clientWidth;
+    const margin = { top: 20, right: 20, bottom: 30, left: 40 };
+    const width = containerWidth - margin.left - margin.right;
+    const chartHeight = height - margin.top - margin.bottom;
+
+    const g = svg
+      .attr('width', containerWidth)
+      .attr('height', height)
+      .append('g')
+      .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    // Scales
+    const x = d3
+      .scaleBand()
+      .domain(data.map((d) => d.label))
+      .range([0, width])
+      .padding(0.3);
+
+    const maxTotal = Math.max(1, ...data.map((d) => d.prepared + d.qa));
+    const y = d3.scaleLinear().domain([0, maxTotal]).nice().range([chartHeight, 0]);
+
+    // Grid lines
+    g.append('g')
+      .call(
+        d3
+          .axisLeft(y)
+          .tickSize(-width)
+          .tickFormat(() => '')
+      )
+      .selectAll('line')
+      .attr('stroke', '#334155')
+      .attr('stroke-opacity', 0.5);
+
+    // Bars: prepared remarks at the bottom, Q&A stacked on top
+    const layers: Array<{
+      key: keyof typeof SECTION_COLORS;
+      y0: (d: QuarterSectionMentions) => number;
+      y1: (d: QuarterSectionMentions) => number;
+    }> = stacked
+      ? [
+          { key: 'prepared', y0: () => 0, y1: (d) => d.prepared },
+          { key: 'qa', y0: (d) => d.prepared, y1: (d) => d.prepared + d.qa },
+        ]
+      : [{ key: 'total', y0: () => 0, y1: (d) => d.prepared + d.qa }];
+
+    for (const layer of layers) {
+      g.selectAll(`.bar-${layer.key}`)
+        .data(data)
+        .enter()
+        .append('rect')
+        .attr('class', `bar-${layer.key}`)
+        .attr('x', (d) => x(d.label) || 0)
+        .attr('y', (d) => y(layer.y1(d)))
+        .attr('width', x.bandwidth())
+        .attr('height', (d) => y(layer.y0(d)) - y(layer.y1(d)))
+        .attr('fill', SECTION_COLORS[layer.key])
+        .append('title')
+        .text((d) => `${d.label}: ${d.prepared} prepared, ${d.qa} Q&A`);
+    }
+
+    // Total labels
+    g.selectAll('.total-label')
+      .data(data)
+      .enter()
+      .append('text')
+      .attr('class', 'total-label')
+      .attr('x', (d) => (x(d.label) || 0) + x.bandwidth() / 2)
+      .attr('y', (d) => y(d.prepared + d.qa) - 5)
+      .attr('text-anchor', 'middle')
+      .attr('fill', '#94a3b8')
+      .attr('font-size', '10px')
+      .text((d) => d.prepared + d.qa);
+
+    // X axis
+    g.append('g')
+      .attr('transform', `translate(0,${chartHeight})`)
+      .call(d3.axisBottom(x))
+      .selectAll('text')
+      .attr('fill', '#94a3b8')
+      .attr('font-size', '10px');
+
+    g.selectAll('.domain').attr('stroke', '#475569');
+    g.selectAll('.tick line').attr('stroke', '#475569');
+
+    // Y axis
+    g.append('g')
+      .call(d3.axisLeft(y).ticks(5))
+      .selectAll('text')
+      .attr('fill', '#94a3b8')
+      .attr('font-size', '10px');
+  }, [data, stacked, height]);
+
+  return (
+    <div ref={containerRef} className="w-full relative">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-slate-300">{title}</h3>
+        <div className="flex items-center gap-4 text-xs">
+          {stacked ? (
+            <>
+              <div className="flex items-center gap-1">
+                <div className="w-3 h-3 rounded bg-blue-500" />
+                <span className="text-slate-400">Prepared Remarks</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <div className="w-3 h-3 rounded bg-purple-500" />
+                <span className="text-slate-400">Q&A</span>
+              </div>
+            </>
+          ) : (
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded bg-slate-500" />
+              <span className="text-slate-400">Total</span>
+            </div>
+          )}
+        </div>
+      </div>
+      <svg ref={svgRef} />
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useRef } from 'react';
 import * as d3 from 'd3';
+import { countMentions } from '@/lib/utils/mentionMatcher';
 
 interface WordCount {
   word: string;
@@ -193,7 +194,7 @@ export function analyzeTranscript(
   const results: WordCount[] = [];
 
   for (const word of targetWords) {
-    const count = countWordOccurrences(text, word);
+    const count = countMentions(text, word);
     results.push({
       word,
       count,
@@ -205,24 +206,6 @@ export function analyzeTranscript(
   return results.sort((a, b) => b.count - a.count);
 }
 
-// Count occurrences following Kalshi MENTION rules
-function countWordOccurrences(text: string, word: string): number {
-  const escapedWord = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
-  // Pattern includes:
-  // - Base word
-  // - Plurals (s)
-  // - Possessives ('s, s')
-  // - Hyphenated compounds (pro-word)
-  const pattern = new RegExp(
-    `(?:^|[\\s.,!?;:"'([{])(${escapedWord}|${escapedWord}s|${escapedWord}'s|${escapedWord}s'|\\w+-${escapedWord})(?=[\\s.,!?;:"')\\]}]|$)`,
-    'gi'
-  );
-
-  const matches = text.match(pattern);
-  return matches ? matches.length : 0;
-}
-
 // Extract most frequent words from transcript (for discovery)
 export function extractTopWords(
   text: string,
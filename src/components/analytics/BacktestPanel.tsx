@@ -0,0 +1,381 @@
+// Backtest Panel Component
+// Define a word-betting rule and replay it over settled markets
+
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  runBacktest,
+  type BacktestResult,
+  type BacktestStrategy,
+  type BacktestSide,
+} from '@/lib/api/data';
+import { EquityCurveChart, type EquityPoint } from '@/components/EquityCurveChart';
+
+const DEFAULT_STRATEGY: BacktestStrategy = {
+  name: 'Base rate beats the ask',
+  side: 'yes',
+  minEdge: 15,
+  contracts: 10,
+  minPrice: 1,
+  maxPrice: 99,
+  minTranscripts: 0,
+};
+
+const SIDE_LABELS: Record<BacktestSide, string> = {
+  yes: 'Buy YES',
+  no: 'Buy NO',
+  either: 'Either side',
+};
+
+function formatDollars(cents: number): string {
+  const sign = cents < 0 ? '-' : '';
+  return `${sign}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+function formatSignedDollars(cents: number): string {
+  return `${cents >= 0 ? '+' : ''}${formatDollars(cents)}`;
+}
+
+function describeStrategy(strategy: BacktestStrategy): string {
+  const side = strategy.side === 'either' ? 'YES or NO' : strategy.side.toUpperCase();
+  return (
+    `Buy ${side} when the base rate exceeds the ask by ${strategy.minEdge} points, ` +
+    `size ${strategy.contracts} contracts`
+  );
+}
+
+export function BacktestPanel() {
+  const [strategy, setStrategy] = useState<BacktestStrategy>(DEFAULT_STRATEGY);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showTrades, setShowTrades] = useState(false);
+
+  const update = <K extends keyof BacktestStrategy>(key: K, value: BacktestStrategy[K]) =>
+    setStrategy({ ...strategy, [key]: value });
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+
+    try {
+      setResult(await runBacktest(strategy));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run backtest');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const equity: EquityPoint[] = useMemo(
+    () =>
+      (result?.events || []).map((e) => ({
+        label: `${e.company} ${e.eventDate}`,
+        date: e.eventDate,
+        pnl: e.pnl,
+        cumulativePnl: e.cumulativePnl,
+      })),
+    [result]
+  );
+
+  const summary = result?.summary;
+
+  return (
+    <div className="space-y-6">
+      {/* Strategy Form */}
+      <div className="card">
+        <h3 className="text-sm font-semibold text-slate-300 mb-1">Strategy</h3>
+        <p className="text-xs text-slate-500 mb-4">{describeStrategy(strategy)}</p>
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+          <div className="col-span-2">
+            <label className="text-sm text-slate-400 block mb-2">Name</label>
+            <input
+              type="text"
+              value={strategy.name}
+              onChange={(e) => update('name', e.target.value)}
+              className="input w-full"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-slate-400 block mb-2">Side</label>
+            <select
+              value={strategy.side}
+              onChange={(e) => update('side', e.target.value as BacktestSide)}
+              className="input w-full"
+            >
+              {(Object.keys(SIDE_LABELS) as BacktestSide[]).map((side) => (
+                <option key={side} value={side}>
+                  {SIDE_LABELS[side]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm text-slate-400 block mb-2">Min Edge (pts)</label>
+            <input
+              type="number"
+              value={strategy.minEdge}
+              onChange={(e) => update('minEdge', Number(e.target.value))}
+              className="input w-full"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-slate-400 block mb-2">Contracts</label>
+            <input
+              type="number"
+              min={1}
+              value={strategy.contracts}
+              onChange={(e) => update('contracts', Number(e.target.value))}
+              className="input w-full"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-slate-400 block mb-2">Min History</label>
+            <input
+              type="number"
+              min={0}
+              value={strategy.minTranscripts}
+              onChange={(e) => update('minTranscripts', Number(e.target.value))}
+              className="input w-full"
+              title="Company transcripts the model must have seen before the call"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-slate-400 block mb-2">Min Price (¢)</label>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={strategy.minPrice}
+              onChange={(e) => update('minPrice', Number(e.target.value))}
+              className="input w-full"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-slate-400 block mb-2">Max Price (¢)</label>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={strategy.maxPrice}
+              onChange={(e) => update('maxPrice', Number(e.target.value))}
+              className="input w-full"
+            />
+          </div>
+          <div className="col-span-2 md:col-span-4 flex items-end">
+            <button
+              onClick={handleRun}
+              disabled={running}
+              className="btn-primary disabled:opacity-50"
+            >
+              {running ? 'Running...' : 'Run Backtest'}
+            </button>
+          </div>
+        </div>
+
+        <p className="text-xs text-slate-500 mt-4">
+          Fills at the ask for the side bought from the last recorded quote before the
+          call (markets with no recorded history are skipped), pays Kalshi taker fees and
+          holds to settlement. The model only sees transcripts from before each call.
+        </p>
+      </div>
+
+      {/* Error Banner */}
+      {error && (
+        <div className="p-4 bg-loss-500/10 border border-loss-500/30 rounded-lg">
+          <p className="text-loss-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {result && summary && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="card">
+              <p className="text-slate-400 text-sm mb-1">Net P&L</p>
+              <p
+                className={`text-2xl font-bold ${
+                  summary.pnl >= 0 ? 'text-profit-500' : 'text-loss-500'
+                }`}
+              >
+                {formatSignedDollars(summary.pnl)}
+              </p>
+              <p className="text-xs text-slate-500 mt-1">
+                {formatDollars(summary.fees)} fees on {formatDollars(summary.cost)} staked
+                {summary.roi !== null && ` • ROI ${(summary.roi * 100).toFixed(1)}%`}
+              </p>
+            </div>
+            <div className="card">
+              <p className="text-slate-400 text-sm mb-1">Hit Rate</p>
+              <p className="text-2xl font-bold text-white">
+                {summary.hitRate === null ? '—' : `${Math.round(summary.hitRate * 100)}%`}
+              </p>
+              <p className="text-xs text-slate-500 mt-1">
+                {summary.wins} of {summary.trades} trades won
+              </p>
+            </div>
+            <div className="card">
+              <p className="text-slate-400 text-sm mb-1">Max Drawdown</p>
+              <p className="text-2xl font-bold text-loss-500">
+                {summary.maxDrawdown > 0
+                  ? `-${formatDollars(summary.maxDrawdown)}`
+                  : '$0.00'}
+              </p>
+              <p className="text-xs text-slate-500 mt-1">Peak to trough across events</p>
+            </div>
+            <div className="card">
+              <p className="text-slate-400 text-sm mb-1">Markets Replayed</p>
+              <p className="text-2xl font-bold text-white">{summary.markets}</p>
+              <p className="text-xs text-slate-500 mt-1">
+                {summary.skipped.noSignal} no signal • {summary.skipped.noQuote} no quote
+                {summary.skipped.noOutcome > 0 &&
+                  ` • ${summary.skipped.noOutcome} unresolved`}
+              </p>
+            </div>
+          </div>
+
+          {result.events.length === 0 ? (
+            <div className="card text-center py-12">
+              <p className="text-slate-400 mb-2">No trades for this strategy</p>
+              <p className="text-slate-500 text-sm">
+                Try a lower minimum edge or a different side
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Equity Curve */}
+              <div className="card">
+                <EquityCurveChart data={equity} title="Cumulative P&L by Event" />
+              </div>
+
+              {/* Per-event P&L */}
+              <div className="card overflow-x-auto">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-semibold text-slate-300">
+                    {showTrades ? 'Trades' : 'P&L by Event'}
+                  </h3>
+                  <button
+                    onClick={() => setShowTrades(!showTrades)}
+                    className="text-xs text-slate-400 hover:text-white"
+                  >
+                    {showTrades ? 'Show events' : `Show ${result.trades.length} trades`}
+                  </button>
+                </div>
+
+                {showTrades ? (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-slate-500 uppercase">
+                        <th className="py-2">Date</th>
+                        <th className="py-2">Company</th>
+                        <th className="py-2">Word</th>
+                        <th className="py-2">Side</th>
+                        <th className="py-2 text-right">Fill</th>
+                        <th className="py-2 text-right">Model</th>
+                        <th className="py-2 text-right">Edge</th>
+                        <th className="py-2 text-right">Fee</th>
+                        <th className="py-2 text-right">P&L</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.trades.map((trade) => (
+                        <tr
+                          key={trade.marketTicker}
+                          className="border-t border-slate-800 text-slate-300"
+                        >
+                          <td className="py-2 font-mono text-xs">{trade.eventDate}</td>
+                          <td className="py-2">{trade.company}</td>
+                          <td className="py-2">{trade.word}</td>
+                          <td
+                            className={`py-2 uppercase ${
+                              trade.side === 'yes' ? 'text-profit-500' : 'text-loss-500'
+                            }`}
+                          >
+                            {trade.side}
+                          </td>
+                          <td
+                            className="py-2 text-right"
+                            title="Last recorded quote before the call"
+                          >
+                            {trade.contracts} @ {trade.price}¢
+                          </td>
+                          <td className="py-2 text-right">{Math.round(trade.model)}%</td>
+                          <td className="py-2 text-right">
+                            {trade.edge >= 0 ? '+' : ''}
+                            {Math.round(trade.edge)}
+                          </td>
+                          <td className="py-2 text-right">{formatDollars(trade.fee)}</td>
+                          <td
+                            className={`py-2 text-right font-medium ${
+                              trade.pnl >= 0 ? 'text-profit-500' : 'text-loss-500'
+                            }`}
+                          >
+                            {formatSignedDollars(trade.pnl)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-slate-500 uppercase">
+                        <th className="py-2">Date</th>
+                        <th className="py-2">Company</th>
+                        <th className="py-2 text-right">Trades</th>
+                        <th className="py-2 text-right">Won</th>
+                        <th className="py-2 text-right">Staked</th>
+                        <th className="py-2 text-right">Fees</th>
+                        <th className="py-2 text-right">P&L</th>
+                        <th className="py-2 text-right">Cumulative</th>
+                        <th className="py-2 text-right">Drawdown</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.events.map((event) => (
+                        <tr
+                          key={event.eventTicker}
+                          className="border-t border-slate-800 text-slate-300"
+                        >
+                          <td className="py-2 font-mono text-xs">{event.eventDate}</td>
+                          <td className="py-2">
+                            <Link
+                              to={`/earnings/${encodeURIComponent(event.company)}/${encodeURIComponent(event.eventTicker)}`}
+                              className="hover:text-white"
+                            >
+                              {event.company}
+                            </Link>
+                          </td>
+                          <td className="py-2 text-right">{event.trades}</td>
+                          <td className="py-2 text-right">{event.wins}</td>
+                          <td className="py-2 text-right">{formatDollars(event.cost)}</td>
+                          <td className="py-2 text-right">{formatDollars(event.fees)}</td>
+                          <td
+                            className={`py-2 text-right font-medium ${
+                              event.pnl >= 0 ? 'text-profit-500' : 'text-loss-500'
+                            }`}
+                          >
+                            {formatSignedDollars(event.pnl)}
+                          </td>
+                          <td className="py-2 text-right">
+                            {formatSignedDollars(event.cumulativePnl)}
+                          </td>
+                          <td className="py-2 text-right text-slate-500">
+                            {event.drawdown > 0
+                              ? `-${formatDollars(event.drawdown)}`
+                              : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+// Calibration Panel Component
+// Model and Kalshi pre-call price calibration against settled markets
+
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  getCalibrationReport,
+  type CalibrationReport,
+  type CalibrationMetrics,
+} from '@/lib/api/data';
+import { ReliabilityChart, type ReliabilitySeries } from '@/components/ReliabilityChart';
+
+const MODEL_COLOR = '#3b82f6';
+const MARKET_COLOR = '#f59e0b';
+
+function formatScore(value: number | null): string {
+  return value === null ? '—' : value.toFixed(3);
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+export function CalibrationPanel() {
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showAllSamples, setShowAllSamples] = useState(false);
+
+  useEffect(() => {
+    async function fetchData() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        setReport(await getCalibrationReport());
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : 'Failed to load calibration report'
+        );
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchData();
+  }, []);
+
+  const series: ReliabilitySeries[] = useMemo(
+    () =>
+      report
+        ? [
+            { label: 'Model', color: MODEL_COLOR, bins: report.model.bins },
+            {
+              label: 'Kalshi pre-call price',
+              color: MARKET_COLOR,
+              bins: report.market.bins,
+            },
+          ]
+        : [],
+    [report]
+  );
+
+  // Brier skill of the model relative to the market on the same markets (> 0 = model better)
+  const skill =
+    report && report.paired.modelBrier !== null && report.paired.marketBrier
+      ? 1 - report.paired.modelBrier / report.paired.marketBrier
+      : null;
+
+  const samples = report
+    ? [...report.samples].sort((a, b) => b.eventDate.localeCompare(a.eventDate))
+    : [];
+  const visibleSamples = showAllSamples ? samples : samples.slice(0, 25);
+
+  return (
+    <div>
+      {/* Error Banner */}
+      {error && (
+        <div className="mb-6 p-4 bg-loss-500/10 border border-loss-500/30 rounded-lg">
+          <p className="text-loss-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Stats Row */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+        <div className="card">
+          <p className="text-slate-400 text-sm mb-1">Settled Markets</p>
+          {loading ? (
+            <div className="h-8 w-16 bg-slate-800 rounded animate-pulse" />
+          ) : (
+            <>
+              <p className="text-2xl font-bold text-white">{samples.length}</p>
+              <p className="text-xs text-slate-500 mt-1">
+                {report?.skipped.noOutcome || 0} without a Kalshi result
+              </p>
+            </>
+          )}
+        </div>
+        <MetricCard label="Model" metrics={report?.model} loading={loading} />
+        <MetricCard
+          label="Kalshi Pre-call Price"
+          metrics={report?.market}
+          loading={loading}
+        />
+        <div className="card">
+          <p className="text-slate-400 text-sm mb-1">Skill vs Market</p>
+          {loading ? (
+            <div className="h-8 w-20 bg-slate-800 rounded animate-pulse" />
+          ) : (
+            <>
+              <p
+                className={`text-2xl font-bold ${
+                  skill === null
+                    ? 'text-slate-500'
+                    : skill >= 0
+                      ? 'text-profit-500'
+                      : 'text-loss-500'
+                }`}
+              >
+                {skill === null
+                  ? '—'
+                  : `${skill >= 0 ? '+' : ''}${(skill * 100).toFixed(1)}%`}
+              </p>
+              <p className="text-xs text-slate-500 mt-1">
+                Brier improvement on {report?.paired.count || 0} traded markets
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+
+      {!loading && report && samples.length === 0 ? (
+        <div className="card text-center py-12">
+          <p className="text-slate-400 mb-2">
+            No settled markets with known outcomes yet
+          </p>
+          <p className="text-slate-500 text-sm">
+            Run{' '}
+            <code className="bg-slate-800 px-1 rounded">
+              bun run scripts/sync-market-statuses.ts
+            </code>{' '}
+            to record Kalshi results
+          </p>
+        </div>
+      ) : (
+        !loading &&
+        report && (
+          <div className="space-y-6">
+            {/* Reliability Chart */}
+            <div className="card">
+              <ReliabilityChart series={series} title="Reliability (10 bins)" />
+            </div>
+
+            {/* Bins Table */}
+            <div className="card overflow-x-auto">
+              <h3 className="text-sm font-semibold text-slate-300 mb-3">
+                Reliability Bins
+              </h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 uppercase">
+                    <th className="py-2">Predicted</th>
+                    <th className="py-2 text-right">Model n</th>
+                    <th className="py-2 text-right">Model mean</th>
+                    <th className="py-2 text-right">Observed</th>
+                    <th className="py-2 text-right">Market n</th>
+                    <th className="py-2 text-right">Market mean</th>
+                    <th className="py-2 text-right">Observed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.model.bins.map((bin, i) => {
+                    const marketBin = report.market.bins[i];
+                    return (
+                      <tr
+                        key={bin.lower}
+                        className="border-t border-slate-800 text-slate-300"
+                      >
+                        <td className="py-2 font-mono">
+                          {formatPercent(bin.lower)}–{formatPercent(bin.upper)}
+                        </td>
+                        <td className="py-2 text-right">{bin.count}</td>
+                        <td className="py-2 text-right">
+                          {formatPercent(bin.meanPredicted)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {formatPercent(bin.observedRate)}
+                        </td>
+                        <td className="py-2 text-right">{marketBin.count}</td>
+                        <td className="py-2 text-right">
+                          {formatPercent(marketBin.meanPredicted)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {formatPercent(marketBin.observedRate)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Samples */}
+            <div className="card overflow-x-auto">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-slate-300">Settled Markets</h3>
+                {samples.length > 25 && (
+                  <button
+                    onClick={() => setShowAllSamples(!showAllSamples)}
+                    className="text-xs text-slate-400 hover:text-white"
+                  >
+                    {showAllSamples ? 'Show recent' : `Show all ${samples.length}`}
+                  </button>
+                )}
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 uppercase">
+                    <th className="py-2">Date</th>
+                    <th className="py-2">Company</th>
+                    <th className="py-2">Word</th>
+                    <th className="py-2">Outcome</th>
+                    <th className="py-2 text-right">Model</th>
+                    <th className="py-2 text-right">Market</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleSamples.map((sample) => (
+                    <tr
+                      key={sample.marketTicker}
+                      className="border-t border-slate-800 text-slate-300"
+                    >
+                      <td className="py-2 font-mono text-xs">{sample.eventDate}</td>
+                      <td className="py-2">
+                        <Link
+                          to={`/earnings/${encodeURIComponent(sample.company)}/${encodeURIComponent(sample.eventTicker)}`}
+                          className="hover:text-white"
+                        >
+                          {sample.company}
+                        </Link>
+                      </td>
+                      <td className="py-2">{sample.word}</td>
+                      <td className="py-2">
+                        <span
+                          className={sample.outcome ? 'text-profit-500' : 'text-loss-500'}
+                        >
+                          {sample.outcome ? 'YES' : 'NO'}
+                        </span>
+                      </td>
+                      <td
+                        className="py-2 text-right"
+                        title={`${sample.modelTranscripts} prior company transcripts`}
+                      >
+                        {formatPercent(sample.model)}
+                      </td>
+                      <td className="py-2 text-right">{formatPercent(sample.market)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {(report.skipped.noOutcome > 0 || report.skipped.noDate > 0) && (
+                <p className="text-xs text-slate-500 mt-3">
+                  Skipped {report.skipped.noOutcome} markets without a result or call
+                  transcript and {report.skipped.noDate} without an event date
+                </p>
+              )}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+function MetricCard({
+  label,
+  metrics,
+  loading,
+}: {
+  label: string;
+  metrics?: CalibrationMetrics;
+  loading: boolean;
+}) {
+  return (
+    <div className="card">
+      <p className="text-slate-400 text-sm mb-1">{label} Brier</p>
+      {loading ? (
+        <div className="h-8 w-20 bg-slate-800 rounded animate-pulse" />
+      ) : (
+        <>
+          <p className="text-2xl font-bold text-white">
+            {formatScore(metrics?.brier ?? null)}
+          </p>
+          <p className="text-xs text-slate-500 mt-1">
+            Log loss {formatScore(metrics?.logLoss ?? null)} • {metrics?.count || 0}{' '}
+            markets
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+// Performance Panel Component
+// Results of our settled bets, attributed to their earnings events
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  getPerformanceReport,
+  type PerformanceReport,
+  type PerformanceGroup,
+} from '@/lib/api/data';
+import { EquityCurveChart, type EquityPoint } from '@/components/EquityCurveChart';
+
+type GroupId = 'byCompany' | 'byWord' | 'bySide' | 'byPriceBucket';
+
+const GROUPS: { id: GroupId; label: string }[] = [
+  { id: 'byCompany', label: 'Company' },
+  { id: 'byWord', label: 'Word' },
+  { id: 'bySide', label: 'Side' },
+  { id: 'byPriceBucket', label: 'Entry Price' },
+];
+
+function formatDollars(cents: number): string {
+  const sign = cents < 0 ? '-' : '';
+  return `${sign}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+function formatSignedDollars(cents: number): string {
+  return `${cents >= 0 ? '+' : ''}${formatDollars(cents)}`;
+}
+
+function formatPercent(value: number | null, digits = 0): string {
+  return value === null ? '—' : `${(value * 100).toFixed(digits)}%`;
+}
+
+function formatEdge(edge: number | null): string {
+  return edge === null ? '—' : `${edge >= 0 ? '+' : ''}${edge.toFixed(1)}`;
+}
+
+function groupLabel(group: GroupId, key: string): string {
+  return group === 'bySide' ? key.toUpperCase() : key;
+}
+
+export function PerformancePanel() {
+  const [report, setReport] = useState<PerformanceReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [group, setGroup] = useState<GroupId>('byCompany');
+
+  useEffect(() => {
+    async function fetchData() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        setReport(await getPerformanceReport());
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : 'Failed to load performance report'
+        );
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchData();
+  }, []);
+
+  const equity: EquityPoint[] = useMemo(
+    () =>
+      (report?.events || []).map((e) => ({
+        label: `${e.company} ${e.eventDate}`,
+        date: e.eventDate,
+        pnl: e.pnl,
+        cumulativePnl: e.cumulativePnl,
+      })),
+    [report]
+  );
+
+  const summary = report?.summary;
+  const rows: PerformanceGroup[] = report ? report[group] : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Error Banner */}
+      {error && (
+        <div className="p-4 bg-loss-500/10 border border-loss-500/30 rounded-lg">
+          <p className="text-loss-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="card">
+          <p className="text-slate-400 text-sm mb-1">Net P&L</p>
+          {loading || !summary ? (
+            <div className="h-8 w-20 bg-slate-800 rounded animate-pulse" />
+          ) : (
+            <>
+              <p
+                className={`text-2xl font-bold ${
+                  summary.pnl >= 0 ? 'text-profit-500' : 'text-loss-500'
+                }`}
+              >
+                {formatSignedDollars(summary.pnl)}
+              </p>
+              <p className="text-xs text-slate-500 mt-1">
+                {formatDollars(summary.fees)} fees on {formatDollars(summary.cost)} staked
+                {summary.roi !== null && ` • ROI ${formatPercent(summary.roi, 1)}`}
+              </p>
+            </>
+          )}
+        </div>
+        <div className="card">
+          <p className="text-slate-400 text-sm mb-1">Win Rate</p>
+          {loading || !summary ? (
+            <div className="h-8 w-16 bg-slate-800 rounded animate-pulse" />
+          ) : (
+            <>
+              <p className="text-2xl font-bold text-white">
+                {formatPercent(summary.winRate)}
+              </p>
+              <p className="text-xs text-slate-500 mt-1">
+                {summary.wins} of {summary.bets} settled bets won
+                {summary.open > 0 && ` • ${summary.open} open`}
+              </p>
+            </>
+          )}
+        </div>
+        <div className="card">
+          <p className="text-slate-400 text-sm mb-1">Avg Edge at Entry</p>
+          {loading || !summary ? (
+            <div className="h-8 w-16 bg-slate-800 rounded animate-pulse" />
+          ) : (
+            <>
+              <p className="text-2xl font-bold text-white">
+                {formatEdge(summary.avgEdge)}
+              </p>
+              <p className="text-xs text-slate-500 mt-1">
+                Model minus price, in points, on {summary.edgeBets} bets
+              </p>
+            </>
+          )}
+        </div>
+        <div className="card">
+          <p className="text-slate-400 text-sm mb-1">Max Drawdown</p>
+          {loading || !summary ? (
+            <div className="h-8 w-20 bg-slate-800 rounded animate-pulse" />
+          ) : (
+            <>
+              <p className="text-2xl font-bold text-loss-500">
+                {summary.maxDrawdown > 0
+                  ? `-${formatDollars(summary.maxDrawdown)}`
+                  : '$0.00'}
+              </p>
+              <p className="text-xs text-slate-500 mt-1">Peak to trough across events</p>
+            </>
+          )}
+        </div>
+      </div>
+
+      {!loading && report && report.bets.length === 0 ? (
+        <div className="card text-center py-12">
+          <p className="text-slate-400 mb-2">No settled bets yet</p>
+          <p className="text-slate-500 text-sm">
+            Results appear here once the markets you bet on settle
+          </p>
+        </div>
+      ) : (
+        report && (
+          <>
+            {/* Equity Curve */}
+            <div className="card">
+              <EquityCurveChart data={equity} title="Cumulative P&L by Event" />
+            </div>
+
+            {/* Breakdown */}
+            <div className="card overflow-x-auto">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-slate-300">P&L by</h3>
+                <div className="flex gap-1">
+                  {GROUPS.map((g) => (
+                    <button
+                      key={g.id}
+                      onClick={() => setGroup(g.id)}
+                      className={`px-3 py-1 text-xs rounded transition-colors ${
+                        group === g.id
+                          ? 'bg-slate-700 text-white'
+                          : 'text-slate-400 hover:text-white'
+                      }`}
+                    >
+                      {g.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 uppercase">
+                    <th className="py-2">{GROUPS.find((g) => g.id === group)?.label}</th>
+                    <th className="py-2 text-right">Bets</th>
+                    <th className="py-2 text-right">Win Rate</th>
+                    <th className="py-2 text-right">Avg Edge</th>
+                    <th className="py-2 text-right">Staked</th>
+                    <th className="py-2 text-right">Fees</th>
+                    <th className="py-2 text-right">P&L</th>
+                    <th className="py-2 text-right">ROI</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr
+                      key={row.key}
+                      className="border-t border-slate-800 text-slate-300"
+                    >
+                      <td className="py-2 text-white">{groupLabel(group, row.key)}</td>
+                      <td className="py-2 text-right">{row.bets}</td>
+                      <td className="py-2 text-right">{formatPercent(row.winRate)}</td>
+                      <td className="py-2 text-right">{formatEdge(row.avgEdge)}</td>
+                      <td className="py-2 text-right">{formatDollars(row.cost)}</td>
+                      <td className="py-2 text-right">{formatDollars(row.fees)}</td>
+                      <td
+                        className={`py-2 text-right font-medium ${
+                          row.pnl >= 0 ? 'text-profit-500' : 'text-loss-500'
+                        }`}
+                      >
+                        {formatSignedDollars(row.pnl)}
+                      </td>
+                      <td className="py-2 text-right">{formatPercent(row.roi, 1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <p className="text-xs text-slate-500 mt-4">
+                Bets are attributed to the call date of their earnings event. Edge uses
+                the model probability recorded with the bet, or the base rate replayed
+                from transcripts before the call for older bets.
+              </p>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+// Analytics Components
+// Export all panels for the Analytics page
+
+export { CalibrationPanel } from './CalibrationPanel';
+export { BacktestPanel } from './BacktestPanel';
+export { PerformancePanel } from './PerformancePanel';
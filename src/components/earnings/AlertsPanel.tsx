@@ -0,0 +1,372 @@
+// Alerts Panel Component
+// Inbox of alerts pushed by the server, plus creating and deleting the price,
+// volume, spread, news and closing-soon rules that produce them
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getAlertRules,
+  createAlertRule,
+  deleteAlertRule,
+  type AlertCondition,
+  type AlertRule,
+} from '@/lib/api/data';
+import { type WordBet } from '@/hooks/useEarningsData';
+import { type InboxAlert } from '@/hooks/useKalshiWebSocket';
+
+type ConditionType = AlertCondition['type'];
+type PriceField = Extract<AlertCondition, { type: 'price_cross' }>['field'];
+
+const CONDITION_TYPES: Array<{ id: ConditionType; label: string }> = [
+  { id: 'price_cross', label: 'Price crosses' },
+  { id: 'volume_spike', label: 'Volume spike' },
+  { id: 'spread_tight', label: 'Spread tightens' },
+  { id: 'news_trending', label: 'Trending in news' },
+  { id: 'closing_soon', label: 'Event closing soon' },
+];
+
+const PRICE_FIELDS: Array<{ id: PriceField; label: string }> = [
+  { id: 'yes_ask', label: 'YES ask' },
+  { id: 'yes_bid', label: 'YES bid' },
+  { id: 'no_ask', label: 'NO ask' },
+  { id: 'no_bid', label: 'NO bid' },
+  { id: 'last_price', label: 'Last' },
+];
+
+interface AlertsPanelProps {
+  companyName: string;
+  selectedBet: WordBet | null;
+  alerts: InboxAlert[];
+  unreadAlertCount: number;
+  notificationPermission: NotificationPermission | 'unsupported';
+  onMarkRead: () => void;
+  onDismiss: (alertId: string) => void;
+  onClear: () => void;
+  onEnableNotifications: () => void;
+}
+
+function formatCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case 'price_cross': {
+      const field = PRICE_FIELDS.find((f) => f.id === condition.field)?.label;
+      return `${field} ${condition.direction} ${condition.value}¢`;
+    }
+    case 'volume_spike':
+      return `${condition.contracts}+ contracts in ${condition.windowMinutes}m`;
+    case 'spread_tight':
+      return `spread ≤ ${condition.maxSpread}¢`;
+    case 'news_trending':
+      return 'trending in news';
+    case 'closing_soon':
+      return `${condition.minutes}m before close`;
+  }
+}
+
+export function AlertsPanel({
+  companyName,
+  selectedBet,
+  alerts,
+  unreadAlertCount,
+  notificationPermission,
+  onMarkRead,
+  onDismiss,
+  onClear,
+  onEnableNotifications,
+}: AlertsPanelProps) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // New rule form
+  const [scope, setScope] = useState<'market' | 'word'>('market');
+  const [conditionType, setConditionType] = useState<ConditionType>('price_cross');
+  const [field, setField] = useState<PriceField>('yes_ask');
+  const [direction, setDirection] = useState<'above' | 'below'>('above');
+  const [value, setValue] = useState(50);
+  const [contracts, setContracts] = useState(500);
+  const [windowMinutes, setWindowMinutes] = useState(15);
+  const [maxSpread, setMaxSpread] = useState(3);
+  const [minutes, setMinutes] = useState(30);
+  const [cooldownMinutes, setCooldownMinutes] = useState(30);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setRules(await getAlertRules());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alert rules');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const buildCondition = (): AlertCondition => {
+    switch (conditionType) {
+      case 'price_cross':
+        return { type: 'price_cross', field, direction, value };
+      case 'volume_spike':
+        return { type: 'volume_spike', contracts, windowMinutes };
+      case 'spread_tight':
+        return { type: 'spread_tight', maxSpread };
+      case 'news_trending':
+        return { type: 'news_trending' };
+      case 'closing_soon':
+        return { type: 'closing_soon', minutes };
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!selectedBet) return;
+
+    setSaving(true);
+    try {
+      await createAlertRule({
+        ...(scope === 'market' ? { marketTicker: selectedBet.ticker } : {}),
+        word: selectedBet.word,
+        company: companyName,
+        condition: buildCondition(),
+        cooldownMinutes,
+      });
+      await fetchRules();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create alert rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    try {
+      await deleteAlertRule(ruleId);
+      await fetchRules();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete alert rule');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white">
+          Alerts
+          {unreadAlertCount > 0 && (
+            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-loss-600 text-white align-middle">
+              {unreadAlertCount}
+            </span>
+          )}
+        </h2>
+        <div className="flex gap-3 text-xs">
+          {unreadAlertCount > 0 && (
+            <button
+              onClick={onMarkRead}
+              className="text-slate-400 hover:text-white transition-colors"
+            >
+              Mark read
+            </button>
+          )}
+          {alerts.length > 0 && (
+            <button
+              onClick={onClear}
+              className="text-slate-400 hover:text-white transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {notificationPermission === 'default' && (
+        <button
+          onClick={onEnableNotifications}
+          className="w-full mb-4 py-1.5 text-xs rounded bg-slate-800 text-slate-300 hover:text-white"
+        >
+          Enable browser notifications
+        </button>
+      )}
+
+      {/* Inbox */}
+      {alerts.length === 0 ? (
+        <p className="text-slate-500 text-sm mb-4">No alerts yet.</p>
+      ) : (
+        <ul className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+          {alerts.map((a) => (
+            <li
+              key={a.alertId}
+              className={`rounded-lg p-2 text-xs ${
+                a.read ? 'bg-slate-800' : 'bg-slate-800 border-l-2 border-yellow-400'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <span className="text-white font-medium">{a.title}</span>
+                <button
+                  onClick={() => onDismiss(a.alertId)}
+                  className="text-slate-500 hover:text-white"
+                  title="Dismiss"
+                >
+                  ×
+                </button>
+              </div>
+              <p className="text-slate-400 mt-0.5">{a.message}</p>
+              <p className="text-slate-600 mt-0.5">
+                {new Date(a.firedAt).toLocaleTimeString()}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* New rule for the selected word */}
+      {selectedBet ? (
+        <div className="bg-slate-800 rounded-lg p-3 space-y-2 text-sm mb-4">
+          <p className="text-white font-medium">New alert: {selectedBet.word}</p>
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as 'market' | 'word')}
+            className="input py-1 w-full"
+          >
+            <option value="market">This market</option>
+            <option value="word">Every market for this word</option>
+          </select>
+          <select
+            value={conditionType}
+            onChange={(e) => setConditionType(e.target.value as ConditionType)}
+            className="input py-1 w-full"
+          >
+            {CONDITION_TYPES.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+          {conditionType === 'price_cross' && (
+            <div className="flex gap-2">
+              <select
+                value={field}
+                onChange={(e) => setField(e.target.value as PriceField)}
+                className="input py-1 flex-1"
+              >
+                {PRICE_FIELDS.map((f) => (
+                  <option key={f.id} value={f.id}>
+                    {f.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={direction}
+                onChange={(e) => setDirection(e.target.value as 'above' | 'below')}
+                className="input py-1 w-20"
+              >
+                <option value="above">above</option>
+                <option value="below">below</option>
+              </select>
+              <input
+                type="number"
+                value={value}
+                onChange={(e) => setValue(parseInt(e.target.value) || 1)}
+                className="input py-1 w-16 text-right"
+                min="1"
+                max="99"
+              />
+            </div>
+          )}
+          {conditionType === 'volume_spike' && (
+            <div className="flex gap-2 items-center text-xs text-slate-400">
+              <input
+                type="number"
+                value={contracts}
+                onChange={(e) => setContracts(parseInt(e.target.value) || 1)}
+                className="input py-1 w-20 text-right"
+                min="1"
+              />
+              contracts in
+              <input
+                type="number"
+                value={windowMinutes}
+                onChange={(e) => setWindowMinutes(parseInt(e.target.value) || 1)}
+                className="input py-1 w-16 text-right"
+                min="1"
+                max="240"
+              />
+              min
+            </div>
+          )}
+          {conditionType === 'spread_tight' && (
+            <div className="flex gap-2 items-center text-xs text-slate-400">
+              Spread ≤
+              <input
+                type="number"
+                value={maxSpread}
+                onChange={(e) => setMaxSpread(parseInt(e.target.value) || 1)}
+                className="input py-1 w-16 text-right"
+                min="1"
+                max="98"
+              />
+              ¢
+            </div>
+          )}
+          {conditionType === 'closing_soon' && (
+            <div className="flex gap-2 items-center text-xs text-slate-400">
+              <input
+                type="number"
+                value={minutes}
+                onChange={(e) => setMinutes(parseInt(e.target.value) || 1)}
+                className="input py-1 w-16 text-right"
+                min="1"
+              />
+              min before close
+            </div>
+          )}
+          <div className="flex gap-2 items-center text-xs text-slate-400">
+            Repeat at most every
+            <input
+              type="number"
+              value={cooldownMinutes}
+              onChange={(e) => setCooldownMinutes(parseInt(e.target.value) || 0)}
+              className="input py-1 w-16 text-right"
+              min="0"
+            />
+            min
+          </div>
+          <button
+            onClick={handleCreate}
+            disabled={saving}
+            className="btn-primary w-full disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Create Alert'}
+          </button>
+        </div>
+      ) : (
+        <p className="text-slate-500 text-xs mb-4">Select a word to add an alert.</p>
+      )}
+
+      {/* Rules */}
+      {error ? (
+        <p className="text-loss-400 text-sm">{error}</p>
+      ) : (
+        rules.length > 0 && (
+          <div className="space-y-1">
+            {rules.map((rule) => (
+              <div
+                key={rule.ruleId}
+                className="flex items-center justify-between bg-slate-800 rounded px-3 py-1.5 text-xs"
+              >
+                <span className="text-slate-300">
+                  <span className="text-white">{rule.word ?? rule.marketTicker}</span>
+                  {!rule.marketTicker && ' (all markets)'}:{' '}
+                  {formatCondition(rule.condition)}
+                </span>
+                <button
+                  onClick={() => handleDelete(rule.ruleId)}
+                  className="px-2 py-0.5 rounded bg-loss-600/20 text-loss-400 hover:bg-loss-600/40"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
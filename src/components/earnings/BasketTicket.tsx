@@ -0,0 +1,255 @@
+// Basket Ticket Component
+// Buy one side of several words in an event at once, with a combined preview
+// and a per-leg report of what was placed
+
+import { useState } from 'react';
+import { placeOrder, OrderRejectedError } from '@/lib/api/kalshi';
+import { saveBet } from '@/lib/api/data';
+import { type WordBet } from '@/hooks/useEarningsData';
+import { formatStrike } from '@/lib/utils/mentionStrike';
+import {
+  previewBasket,
+  placeBasket,
+  type BasketLeg,
+  type BasketLegResult,
+} from '@/lib/utils/basket';
+
+interface BasketTicketProps {
+  bets: WordBet[];
+  eventTicker: string;
+  companyName: string;
+  onRemove: (bet: WordBet) => void;
+  onClear: () => void;
+  onPlaced: () => void;
+}
+
+function formatDollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+export function BasketTicket({
+  bets,
+  eventTicker,
+  companyName,
+  onRemove,
+  onClear,
+  onPlaced,
+}: BasketTicketProps) {
+  const [side, setSide] = useState<'yes' | 'no'>('no');
+  const [contracts, setContracts] = useState(10);
+  const [prices, setPrices] = useState<Record<string, number>>({});
+  const [placing, setPlacing] = useState(false);
+  const [results, setResults] = useState<BasketLegResult[] | null>(null);
+
+  // Each leg defaults to the current price for the side unless edited
+  const legs: BasketLeg[] = bets.map((bet) => ({
+    ticker: bet.ticker,
+    word: bet.word,
+    side,
+    count: contracts,
+    price:
+      prices[`${bet.ticker}:${side}`] ?? (side === 'yes' ? bet.yesPrice : bet.noPrice),
+  }));
+  const preview = previewBasket(legs);
+
+  const handleSubmit = async () => {
+    setPlacing(true);
+    setResults(null);
+
+    const basketId = `basket-${Date.now()}`;
+    const placed = await placeBasket(legs, async (leg, index) => {
+      const clientOrderId = `${basketId}-${index}`;
+      const { modelProbability } = bets[index];
+      try {
+        await placeOrder({
+          ticker: leg.ticker,
+          client_order_id: clientOrderId,
+          type: 'limit',
+          action: 'buy',
+          side: leg.side,
+          count: leg.count,
+          yes_price: leg.side === 'yes' ? leg.price : undefined,
+          no_price: leg.side === 'no' ? leg.price : undefined,
+        });
+      } catch (err) {
+        if (err instanceof OrderRejectedError) {
+          throw new Error(err.violations.map((v) => v.message).join('; '));
+        }
+        throw err;
+      }
+
+      // The order is live from here on; a failed save must not read as a failed
+      // leg, or the user would place it again
+      try {
+        await saveBet({
+          betId: clientOrderId,
+          basketId,
+          eventTicker,
+          marketTicker: leg.ticker,
+          company: companyName,
+          word: leg.word,
+          side: leg.side,
+          action: 'buy',
+          count: leg.count,
+          price: leg.price,
+          ...(modelProbability !== null ? { modelProbability } : {}),
+        });
+      } catch (err) {
+        console.error(`Order ${clientOrderId} placed but the bet was not saved:`, err);
+        return { betId: clientOrderId, warning: 'order placed, bet not recorded' };
+      }
+      return { betId: clientOrderId };
+    });
+
+    setResults(placed);
+    setPlacing(false);
+    if (placed.some((r) => r.ok)) onPlaced();
+  };
+
+  const placedCount = results?.filter((r) => r.ok).length ?? 0;
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white">Basket ({bets.length})</h2>
+        <button
+          onClick={() => {
+            setResults(null);
+            onClear();
+          }}
+          className="text-xs text-slate-400 hover:text-white transition-colors"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {/* Side and size for every leg */}
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => setSide('yes')}
+            className={`py-2 rounded font-medium transition-colors ${
+              side === 'yes'
+                ? 'bg-profit-600 text-white'
+                : 'bg-slate-800 text-slate-400 hover:text-white'
+            }`}
+          >
+            YES
+          </button>
+          <button
+            onClick={() => setSide('no')}
+            className={`py-2 rounded font-medium transition-colors ${
+              side === 'no'
+                ? 'bg-loss-600 text-white'
+                : 'bg-slate-800 text-slate-400 hover:text-white'
+            }`}
+          >
+            NO
+          </button>
+        </div>
+        <div>
+          <label className="text-sm text-slate-400 block mb-2">Contracts per leg</label>
+          <input
+            type="number"
+            value={contracts}
+            onChange={(e) => setContracts(parseInt(e.target.value) || 1)}
+            className="input w-full"
+            min="1"
+          />
+        </div>
+
+        {/* Legs */}
+        <div className="space-y-1">
+          {legs.map((leg, index) => {
+            const result = results?.find((r) => r.leg.ticker === leg.ticker);
+            return (
+              <div key={leg.ticker} className="bg-slate-800 rounded-lg px-3 py-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-white truncate">
+                    {formatStrike(bets[index].strike)}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      value={leg.price}
+                      onChange={(e) =>
+                        setPrices({
+                          ...prices,
+                          [`${leg.ticker}:${side}`]: parseInt(e.target.value) || 1,
+                        })
+                      }
+                      className="input w-16 py-0.5 text-right"
+                      min="1"
+                      max="99"
+                      title="Limit price (¢)"
+                    />
+                    <button
+                      onClick={() => onRemove(bets[index])}
+                      className="text-slate-500 hover:text-white"
+                      title="Remove from basket"
+                    >
+                      ×
+                    </button>
+                  </div>
+                </div>
+                {result && (
+                  <p
+                    className={`text-xs mt-1 ${
+                      !result.ok
+                        ? 'text-loss-400'
+                        : result.warning
+                          ? 'text-yellow-400'
+                          : 'text-profit-400'
+                    }`}
+                  >
+                    {!result.ok
+                      ? `Failed: ${result.error}`
+                      : result.warning
+                        ? `Placed (${result.warning})`
+                        : 'Placed'}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Preview */}
+        <div className="bg-slate-800 rounded-lg p-4 space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Total Cost (incl. fees)</span>
+            <span className="text-white">{formatDollars(preview.cost)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Taker Fees</span>
+            <span className="text-white">{formatDollars(preview.fees)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Max Loss</span>
+            <span className="text-loss-500">-{formatDollars(preview.maxLoss)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Max Profit</span>
+            <span className="text-profit-500">+{formatDollars(preview.maxProfit)}</span>
+          </div>
+        </div>
+
+        {results && (
+          <p className="text-xs text-slate-400">
+            {placedCount} of {results.length} legs placed.
+          </p>
+        )}
+
+        <button
+          onClick={handleSubmit}
+          disabled={placing || legs.length === 0}
+          className="btn-primary w-full disabled:opacity-50"
+        >
+          {placing
+            ? 'Placing Basket...'
+            : `Place ${legs.length} ${side.toUpperCase()} Orders`}
+        </button>
+      </div>
+    </div>
+  );
+}
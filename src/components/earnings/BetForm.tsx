@@ -1,17 +1,38 @@
 // Bet Form Component
 // Sidebar form for placing bets on word mentions
 
-import { useState } from 'react';
-import { placeOrder, type KalshiOrderRequest } from '@/lib/api/kalshi';
+import { useState, useEffect } from 'react';
+import {
+  placeOrder,
+  getBalance,
+  OrderRejectedError,
+  type KalshiOrderRequest,
+  type RiskViolation,
+} from '@/lib/api/kalshi';
 import { saveBet } from '@/lib/api/data';
 import { type WordBet } from '@/hooks/useEarningsData';
+import { type OrderBookUpdate } from '@/hooks/useKalshiWebSocket';
 import { calculateBet } from '@/lib/utils/wordAnalysis';
+import { buildLadder, estimateFill } from '@/lib/utils/orderBook';
+import {
+  sizePosition,
+  evaluatePosition,
+  type SizingMethod,
+} from '@/lib/utils/positionSizing';
+import { OrderBookLadder } from './OrderBookLadder';
+
+const SIZING_METHODS: Array<{ id: SizingMethod; label: string }> = [
+  { id: 'kelly', label: 'Kelly' },
+  { id: 'fixed_fraction', label: '% Balance' },
+  { id: 'fixed_risk', label: '$ Risk' },
+];
 
 interface BetFormProps {
   selectedBet: WordBet | null;
   eventTicker: string;
   companyName: string;
   initialSide?: 'yes' | 'no';
+  orderbook?: OrderBookUpdate;
   onOrderPlaced: () => void;
 }
 
@@ -20,6 +41,7 @@ export function BetForm({
   eventTicker,
   companyName,
   initialSide = 'yes',
+  orderbook,
   onOrderPlaced,
 }: BetFormProps) {
   const [betSide, setBetSide] = useState<'yes' | 'no'>(initialSide);
@@ -28,6 +50,27 @@ export function BetForm({
     selectedBet ? (initialSide === 'yes' ? selectedBet.yesPrice : selectedBet.noPrice) : 50
   );
   const [placingOrder, setPlacingOrder] = useState(false);
+  const [rejection, setRejection] = useState<{
+    message: string;
+    violations: RiskViolation[];
+  } | null>(null);
+
+  // Position sizing inputs
+  const [balance, setBalance] = useState<number | null>(null);
+  const [probabilityEdit, setProbabilityEdit] = useState<{
+    ticker: string;
+    value: number;
+  } | null>(null);
+  const [sizingMethod, setSizingMethod] = useState<SizingMethod>('kelly');
+  const [kellyMultiplier, setKellyMultiplier] = useState(0.5);
+  const [fractionPct, setFractionPct] = useState(2);
+  const [riskDollars, setRiskDollars] = useState(25);
+
+  useEffect(() => {
+    getBalance()
+      .then(({ balance }) => setBalance(balance))
+      .catch(() => setBalance(null));
+  }, []);
 
   // Update price when side or selected bet changes
   const handleSideChange = (side: 'yes' | 'no') => {
@@ -37,14 +80,49 @@ export function BetForm({
     }
   };
 
-  // Calculate bet cost and payout
-  const { cost: betCost, payout: betPayout } = calculateBet(betContracts, betPrice);
+  // How much of the order the resting asks would fill immediately
+  const fill = orderbook
+    ? estimateFill(buildLadder(orderbook, betSide).asks, betContracts, betPrice)
+    : null;
+
+  // An order that rests without crossing the book pays the maker fee
+  const feeRole = fill && fill.filled === 0 ? 'maker' : 'taker';
+
+  // Calculate bet cost (with fees) and payout
+  const {
+    cost: betCost,
+    fee: betFee,
+    payout: betPayout,
+  } = calculateBet(betContracts, betPrice, feeRole);
+
+  // Our P(YES) defaults to the model, then the market, until edited for this word
+  const probabilityYes =
+    selectedBet && probabilityEdit?.ticker === selectedBet.ticker
+      ? probabilityEdit.value
+      : (selectedBet?.modelProbability ?? selectedBet?.chance ?? 50);
+
+  // Our probability that the chosen side wins, and the suggested size for it
+  const probability = (betSide === 'yes' ? probabilityYes : 100 - probabilityYes) / 100;
+  const position = evaluatePosition(betContracts, betPrice, probability, feeRole);
+  const sizing =
+    balance !== null
+      ? sizePosition({
+          method: sizingMethod,
+          probability,
+          price: betPrice,
+          balance,
+          kellyMultiplier,
+          fraction: fractionPct / 100,
+          riskAmount: Math.round(riskDollars * 100),
+        })
+      : null;
 
   // Handle placing order
   const handlePlaceOrder = async () => {
     if (!selectedBet) return;
 
     setPlacingOrder(true);
+    setRejection(null);
     try {
       const clientOrderId = `order-${Date.now()}`;
       const order: KalshiOrderRequest = {
@@ -71,12 +149,19 @@ export function BetForm({
         action: 'buy',
         count: betContracts,
         price: betPrice,
+        ...(selectedBet.modelProbability !== null
+          ? { modelProbability: selectedBet.modelProbability }
+          : {}),
       });
 
       alert(`Order placed: ${betContracts} ${betSide.toUpperCase()} @ ${betPrice}¢`);
       onOrderPlaced();
     } catch (err) {
-      alert(err instanceof Error ? err.message : 'Failed to place order');
+      if (err instanceof OrderRejectedError) {
+        setRejection({ message: err.message, violations: err.violations });
+      } else {
+        alert(err instanceof Error ? err.message : 'Failed to place order');
+      }
     } finally {
       setPlacingOrder(false);
     }
@@ -106,6 +191,8 @@ export function BetForm({
             {selectedBet.transcriptCount > 0 && (
               <p className="text-profit-400 mb-1">
                 Found {selectedBet.transcriptCount}x in past transcripts
+                {selectedBet.strike.minCount > 1 &&
+                  ` (${selectedBet.transcriptHits}/${selectedBet.transcriptsChecked} reached ${selectedBet.strike.minCount}+)`}
               </p>
             )}
             {selectedBet.trending && (
@@ -170,18 +257,173 @@ export function BetForm({
           />
         </div>
 
+        {/* Position Sizing */}
+        <div className="bg-slate-800 rounded-lg p-3 space-y-3 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-slate-400">Your P(YES) %</span>
+            <input
+              type="number"
+              value={probabilityYes}
+              onChange={(e) =>
+                setProbabilityEdit({
+                  ticker: selectedBet.ticker,
+                  value: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)),
+                })
+              }
+              className="input w-20 py-1 text-right"
+              min="0"
+              max="100"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-1 text-xs">
+            {SIZING_METHODS.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setSizingMethod(id)}
+                className={`py-1 rounded transition-colors ${
+                  sizingMethod === id
+                    ? 'bg-slate-700 text-white'
+                    : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            {sizingMethod === 'kelly' && (
+              <>
+                <span className="text-slate-400">Kelly multiplier</span>
+                <select
+                  value={kellyMultiplier}
+                  onChange={(e) => setKellyMultiplier(parseFloat(e.target.value))}
+                  className="input w-24 py-1"
+                >
+                  <option value={1}>Full</option>
+                  <option value={0.5}>Half</option>
+                  <option value={0.25}>Quarter</option>
+                </select>
+              </>
+            )}
+            {sizingMethod === 'fixed_fraction' && (
+              <>
+                <span className="text-slate-400">% of balance</span>
+                <input
+                  type="number"
+                  value={fractionPct}
+                  onChange={(e) => setFractionPct(Math.max(0, parseFloat(e.target.value) || 0))}
+                  className="input w-20 py-1 text-right"
+                  min="0"
+                  max="100"
+                />
+              </>
+            )}
+            {sizingMethod === 'fixed_risk' && (
+              <>
+                <span className="text-slate-400">Risk ($)</span>
+                <input
+                  type="number"
+                  value={riskDollars}
+                  onChange={(e) => setRiskDollars(Math.max(0, parseFloat(e.target.value) || 0))}
+                  className="input w-20 py-1 text-right"
+                  min="0"
+                />
+              </>
+            )}
+          </div>
+          {sizing ? (
+            <div className="flex items-center justify-between">
+              <span className="text-slate-400">
+                Suggested{' '}
+                <span className="text-slate-500 text-xs">
+                  (balance ${((balance ?? 0) / 100).toFixed(2)}
+                  {sizingMethod === 'kelly' &&
+                    `, Kelly ${(sizing.kellyFraction * 100).toFixed(1)}%`}
+                  )
+                </span>
+              </span>
+              <button
+                onClick={() => setBetContracts(Math.max(1, sizing.contracts))}
+                disabled={sizing.contracts === 0}
+                className="text-white font-mono hover:text-profit-400 disabled:text-slate-500"
+                title="Use this size"
+              >
+                {sizing.contracts} contracts
+              </button>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">Balance unavailable; sizing is off.</p>
+          )}
+        </div>
+
+        {/* Order Book */}
+        <div>
+          <label className="text-sm text-slate-400 block mb-2">
+            Order Book ({betSide.toUpperCase()})
+          </label>
+          <OrderBookLadder
+            book={orderbook}
+            side={betSide}
+            limitPrice={betPrice}
+            onSelectPrice={setBetPrice}
+          />
+        </div>
+
         {/* Summary */}
         <div className="bg-slate-800 rounded-lg p-4">
           <div className="flex justify-between text-sm mb-2">
-            <span className="text-slate-400">Cost</span>
+            <span className="text-slate-400">Cost (incl. fee)</span>
             <span className="text-white">${betCost.toFixed(2)}</span>
           </div>
           <div className="flex justify-between text-sm">
             <span className="text-slate-400">Potential Payout</span>
             <span className="text-profit-500">${betPayout.toFixed(2)}</span>
           </div>
+          <div className="flex justify-between text-sm mt-2">
+            <span className="text-slate-400">
+              {feeRole === 'maker' ? 'Maker' : 'Taker'} Fee
+            </span>
+            <span className="text-white">${betFee.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between text-sm mt-2">
+            <span className="text-slate-400">Expected Value</span>
+            <span
+              className={position.expectedValue >= 0 ? 'text-profit-500' : 'text-loss-500'}
+            >
+              {position.expectedValue >= 0 ? '+' : '-'}$
+              {(Math.abs(position.expectedValue) / 100).toFixed(2)}
+            </span>
+          </div>
+          <div className="flex justify-between text-sm mt-2">
+            <span className="text-slate-400">Worst-case Loss</span>
+            <span className="text-loss-500">-${(position.worstCaseLoss / 100).toFixed(2)}</span>
+          </div>
+          {fill && (
+            <div className="flex justify-between text-sm mt-2">
+              <span className="text-slate-400">Fills Now</span>
+              <span className="text-white">
+                {fill.filled}/{betContracts}
+                {fill.averagePrice !== null && ` @ ${fill.averagePrice.toFixed(1)}¢ avg`}
+                {fill.resting > 0 && (
+                  <span className="text-slate-500"> ({fill.resting} rest)</span>
+                )}
+              </span>
+            </div>
+          )}
         </div>
 
+        {/* Risk Gate Rejection */}
+        {rejection && (
+          <div className="bg-loss-500/10 border border-loss-500/30 rounded-lg p-3 text-xs">
+            <p className="text-loss-400 font-medium mb-1">{rejection.message}</p>
+            <ul className="space-y-1 text-slate-300">
+              {rejection.violations.map((v) => (
+                <li key={v.rule}>• {v.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Place Order Button */}
         <button
           onClick={handlePlaceOrder}
@@ -1,7 +1,14 @@
 // History Tab Component
 // Display quarterly performance and bet history
 
+import { useState } from 'react';
 import { type BetRecord, type QuarterlyAnalysis } from '@/lib/api/data';
+import { type SectionCounts } from '@/lib/utils/transcriptSegments';
+import { betFees, netPnl } from '@/lib/utils/fees';
+import {
+  SectionMentionsChart,
+  type QuarterSectionMentions,
+} from '@/components/SectionMentionsChart';
 
 interface HistoryTabProps {
   companyName: string;
@@ -14,8 +21,56 @@ export function HistoryTab({
   quarterlyAnalysis,
   betHistory,
 }: HistoryTabProps) {
+  // Section chart: one tracked word or all of them, stacked or total
+  const [chartWord, setChartWord] = useState('');
+  const [stacked, setStacked] = useState(true);
+
+  const trackedWords = Array.from(
+    new Set(quarterlyAnalysis.flatMap((q) => Object.keys(q.wordSections)))
+  );
+  const segmentedQuarters = quarterlyAnalysis.filter((q) => q.segmented);
+  const chartData: QuarterSectionMentions[] = [...segmentedQuarters]
+    .reverse()
+    .map((q) => ({
+      label: `${q.quarter} ${q.year}`,
+      ...sectionTotals(q, chartWord),
+    }));
+
   return (
     <div className="space-y-6">
+      {/* Prepared Remarks vs Q&A */}
+      {trackedWords.length > 0 && segmentedQuarters.length > 0 && (
+        <div className="card">
+          <div className="flex items-center justify-end gap-3 mb-3 text-xs">
+            <select
+              value={chartWord}
+              onChange={(e) => setChartWord(e.target.value)}
+              className="input text-xs py-1"
+            >
+              <option value="">All tracked words</option>
+              {trackedWords.map((word) => (
+                <option key={word} value={word}>
+                  {word}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-slate-400">
+              <input
+                type="checkbox"
+                checked={stacked}
+                onChange={(e) => setStacked(e.target.checked)}
+              />
+              Stack by section
+            </label>
+          </div>
+          <SectionMentionsChart
+            data={chartData}
+            stacked={stacked}
+            title={`Mentions by Section: ${chartWord || 'All tracked words'}`}
+          />
+        </div>
+      )}
+
       {/* Quarterly Analysis */}
       <div className="card">
         <h2 className="text-lg font-semibold text-white mb-4">
@@ -32,6 +87,7 @@ export function HistoryTab({
                 <tr className="text-slate-400 border-b border-slate-800">
                   <th className="text-left py-2 px-3">Quarter</th>
                   <th className="text-right py-2 px-3">Word Count</th>
+                  <th className="text-right py-2 px-3">Prepared / Q&A</th>
                   <th className="text-right py-2 px-3">Bets</th>
                   <th className="text-right py-2 px-3">W/L</th>
                   <th className="text-right py-2 px-3">P&L</th>
@@ -49,6 +105,12 @@ export function HistoryTab({
                     <td className="py-2 px-3 text-right text-slate-300">
                       {q.wordCount.toLocaleString()}
                     </td>
+                    <td
+                      className="py-2 px-3 text-right font-mono text-slate-300"
+                      title="Tracked-word mentions in prepared remarks / Q&A"
+                    >
+                      {formatSectionTotals(q)}
+                    </td>
                     <td className="py-2 px-3 text-right text-slate-300">
                       {q.betsPlaced}
                     </td>
@@ -61,6 +123,7 @@ export function HistoryTab({
                       className={`py-2 px-3 text-right font-mono ${
                         q.totalPnl >= 0 ? 'text-profit-500' : 'text-loss-500'
                       }`}
+                      title={`Net of $${(q.totalFees / 100).toFixed(2)} in fees`}
                     >
                       {q.totalPnl >= 0 ? '+' : ''}${(q.totalPnl / 100).toFixed(2)}
                     </td>
@@ -93,6 +156,24 @@ export function HistoryTab({
   );
 }
 
+// Sum section counts for one tracked word, or all of them when word is ''
+function sectionTotals(q: QuarterlyAnalysis, word: string): SectionCounts {
+  const counts = word ? [q.wordSections[word]] : Object.values(q.wordSections);
+  return counts.reduce<SectionCounts>(
+    (total, c) => ({
+      prepared: total.prepared + (c?.prepared || 0),
+      qa: total.qa + (c?.qa || 0),
+    }),
+    { prepared: 0, qa: 0 }
+  );
+}
+
+function formatSectionTotals(q: QuarterlyAnalysis): string {
+  if (!q.segmented) return '—';
+  const { prepared, qa } = sectionTotals(q, '');
+  return `${prepared} / ${qa}`;
+}
+
 // Bet history card component
 interface BetHistoryCardProps {
   bet: BetRecord;
@@ -102,9 +183,25 @@ function BetHistoryCard({ bet }: BetHistoryCardProps) {
   return (
     <div className="bg-slate-800 rounded-lg p-3 flex items-center justify-between">
       <div>
-        <p className="text-white font-medium">"{bet.word}"</p>
+        <p className="text-white font-medium">
+          "{bet.word}"
+          {bet.basketId && (
+            <span
+              className="ml-2 px-1.5 py-0.5 text-[10px] bg-blue-500/20 text-blue-400 rounded"
+              title={bet.basketId}
+            >
+              BASKET
+            </span>
+          )}
+        </p>
         <p className="text-xs text-slate-500">
           {bet.side.toUpperCase()} × {bet.count} @ {bet.price}¢
+          {bet.filledCount !== undefined && bet.filledCount !== bet.count && (
+            <span> ({bet.filledCount} filled)</span>
+          )}
+          {bet.averagePrice !== undefined && bet.averagePrice !== bet.price && (
+            <span> avg {bet.averagePrice}¢</span>
+          )}
         </p>
       </div>
       <div className="text-right">
@@ -112,7 +209,7 @@ function BetHistoryCard({ bet }: BetHistoryCardProps) {
           className={`px-2 py-0.5 text-xs rounded ${
             bet.status === 'filled'
               ? 'bg-profit-500/20 text-profit-400'
-              : bet.status === 'pending'
+              : bet.status === 'pending' || bet.status === 'partial'
                 ? 'bg-yellow-500/20 text-yellow-400'
                 : 'bg-slate-700 text-slate-400'
           }`}
@@ -126,7 +223,8 @@ function BetHistoryCard({ bet }: BetHistoryCardProps) {
             }`}
           >
             {bet.result === 'win' ? '+' : ''}
-            {((bet.pnl || 0) / 100).toFixed(2)}
+            {(netPnl(bet) / 100).toFixed(2)}
+            <span className="text-slate-500"> (fee {(betFees(bet) / 100).toFixed(2)})</span>
           </p>
         )}
       </div>
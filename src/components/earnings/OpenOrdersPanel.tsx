@@ -0,0 +1,169 @@
+// Open Orders Panel Component
+// Resting orders for the event with queue position, time resting, cancel and reprice
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getOrders,
+  getQueuePositions,
+  cancelOrder,
+  amendOrder,
+  type KalshiOrder,
+} from '@/lib/api/kalshi';
+import { type WordBet } from '@/hooks/useEarningsData';
+
+const REFRESH_INTERVAL_MS = 15_000;
+
+interface OpenOrdersPanelProps {
+  eventTicker: string;
+  wordBets: WordBet[];
+  refreshKey?: number; // Bump to refetch (e.g. after placing an order)
+}
+
+function formatResting(createdTime: string, now: number): string {
+  const minutes = Math.max(
+    0,
+    Math.floor((now - new Date(createdTime).getTime()) / 60_000)
+  );
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+export function OpenOrdersPanel({
+  eventTicker,
+  wordBets,
+  refreshKey,
+}: OpenOrdersPanelProps) {
+  const [orders, setOrders] = useState<KalshiOrder[]>([]);
+  const [queuePositions, setQueuePositions] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyOrderId, setBusyOrderId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const [{ orders: resting }, positions] = await Promise.all([
+        getOrders({ event_ticker: eventTicker, status: 'resting' }),
+        getQueuePositions({ event_ticker: eventTicker }).catch(() => ({})),
+      ]);
+      setOrders(resting || []);
+      setQueuePositions(positions);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load orders');
+    } finally {
+      setLoading(false);
+      setNow(Date.now());
+    }
+  }, [eventTicker]);
+
+  useEffect(() => {
+    fetchOrders();
+    const interval = setInterval(fetchOrders, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchOrders, refreshKey]);
+
+  // Run an order action, then refresh the list
+  const runAction = async (order: KalshiOrder, action: () => Promise<unknown>) => {
+    setBusyOrderId(order.order_id);
+    try {
+      await action();
+      await fetchOrders();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Order update failed');
+    } finally {
+      setBusyOrderId(null);
+    }
+  };
+
+  const handleReprice = (order: KalshiOrder, change: number) => {
+    const price = (order.side === 'yes' ? order.yes_price : order.no_price) + change;
+    if (price < 1 || price > 99) return;
+    runAction(order, () => amendOrder(order, { price }));
+  };
+
+  const wordFor = (ticker: string) =>
+    wordBets.find((b) => b.ticker === ticker)?.word || ticker.split('-').pop();
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white">Open Orders</h2>
+        <button
+          onClick={fetchOrders}
+          className="text-xs text-slate-400 hover:text-white transition-colors"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="h-12 bg-slate-800/50 rounded animate-pulse" />
+      ) : error ? (
+        <p className="text-loss-400 text-sm">{error}</p>
+      ) : orders.length === 0 ? (
+        <p className="text-slate-500 text-sm">No resting orders for this event.</p>
+      ) : (
+        <div className="space-y-2">
+          {orders.map((order) => {
+            const price = order.side === 'yes' ? order.yes_price : order.no_price;
+            const queue = queuePositions[order.order_id] ?? order.queue_position;
+            const busy = busyOrderId === order.order_id;
+
+            return (
+              <div
+                key={order.order_id}
+                className={`bg-slate-800 rounded-lg p-3 text-sm ${busy ? 'opacity-50' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-white font-medium">{wordFor(order.ticker)}</span>
+                  <span
+                    className={`text-xs font-medium ${
+                      order.side === 'yes' ? 'text-profit-400' : 'text-loss-400'
+                    }`}
+                  >
+                    {order.action.toUpperCase()} {order.side.toUpperCase()}{' '}
+                    {order.remaining_count} @ {price}¢
+                  </span>
+                </div>
+                <div className="flex items-center justify-between mt-2 text-xs">
+                  <span className="text-slate-500">
+                    Queue {queue > 0 ? `#${queue.toLocaleString()}` : '—'} • resting{' '}
+                    {formatResting(order.created_time, now)}
+                  </span>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => handleReprice(order, -1)}
+                      disabled={busy || price <= 1}
+                      title="Lower the limit by 1¢"
+                      className="px-2 py-0.5 rounded bg-slate-700 text-slate-300 hover:text-white disabled:opacity-50"
+                    >
+                      −1¢
+                    </button>
+                    <button
+                      onClick={() => handleReprice(order, 1)}
+                      disabled={busy || price >= 99}
+                      title="Raise the limit by 1¢"
+                      className="px-2 py-0.5 rounded bg-slate-700 text-slate-300 hover:text-white disabled:opacity-50"
+                    >
+                      +1¢
+                    </button>
+                    <button
+                      onClick={() => runAction(order, () => cancelOrder(order.order_id))}
+                      disabled={busy}
+                      className="px-2 py-0.5 rounded bg-loss-600/20 text-loss-400 hover:bg-loss-600/40 disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+// Order Book Ladder Component
+// Resting liquidity at each price for the side being bought
+
+import { type OrderBookUpdate } from '@/hooks/useKalshiWebSocket';
+import { buildLadder, type BookLevel } from '@/lib/utils/orderBook';
+
+interface OrderBookLadderProps {
+  book: OrderBookUpdate | undefined;
+  side: 'yes' | 'no';
+  limitPrice: number;
+  onSelectPrice: (price: number) => void;
+  depth?: number;
+}
+
+export function OrderBookLadder({
+  book,
+  side,
+  limitPrice,
+  onSelectPrice,
+  depth = 6,
+}: OrderBookLadderProps) {
+  if (!book) {
+    return (
+      <div className="bg-slate-800 rounded-lg p-3 text-xs text-slate-500">
+        Waiting for order book...
+      </div>
+    );
+  }
+
+  const ladder = buildLadder(book, side, depth);
+  const maxQuantity = Math.max(
+    1,
+    ...ladder.bids.map((l) => l.quantity),
+    ...ladder.asks.map((l) => l.quantity)
+  );
+
+  const renderLevel = (level: BookLevel, kind: 'bid' | 'ask') => (
+    <button
+      key={`${kind}-${level.price}`}
+      onClick={() => onSelectPrice(level.price)}
+      title={
+        kind === 'ask'
+          ? `Buy up to ${level.cumulative} contracts at ${level.price}¢ or better`
+          : `Join the bid at ${level.price}¢`
+      }
+      className={`relative w-full grid grid-cols-3 px-2 py-0.5 font-mono text-left hover:bg-slate-700 ${
+        level.price === limitPrice ? 'ring-1 ring-slate-400' : ''
+      }`}
+    >
+      <div
+        className={`absolute inset-y-0 right-0 ${
+          kind === 'ask' ? 'bg-loss-500/20' : 'bg-profit-500/20'
+        }`}
+        style={{ width: `${(level.quantity / maxQuantity) * 100}%` }}
+      />
+      <span
+        className={`relative ${kind === 'ask' ? 'text-loss-400' : 'text-profit-400'}`}
+      >
+        {level.price}¢
+      </span>
+      <span className="relative text-right text-white">
+        {level.quantity.toLocaleString()}
+      </span>
+      <span className="relative text-right text-slate-500">
+        {level.cumulative.toLocaleString()}
+      </span>
+    </button>
+  );
+
+  return (
+    <div className="bg-slate-800 rounded-lg py-2 text-xs">
+      <div className="grid grid-cols-3 px-2 pb-1 text-slate-500">
+        <span>Price</span>
+        <span className="text-right">Qty</span>
+        <span className="text-right">Total</span>
+      </div>
+
+      {/* Asks: best price next to the spread */}
+      {ladder.asks.length === 0 ? (
+        <p className="px-2 py-1 text-slate-500">No asks</p>
+      ) : (
+        [...ladder.asks].reverse().map((level) => renderLevel(level, 'ask'))
+      )}
+
+      <div className="px-2 py-1 my-1 border-y border-slate-700 text-slate-400">
+        {ladder.spread !== null ? `Spread ${ladder.spread}¢` : 'No spread'}
+      </div>
+
+      {ladder.bids.length === 0 ? (
+        <p className="px-2 py-1 text-slate-500">No bids</p>
+      ) : (
+        ladder.bids.map((level) => renderLevel(level, 'bid'))
+      )}
+    </div>
+  );
+}
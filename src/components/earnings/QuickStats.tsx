@@ -3,6 +3,7 @@
 
 import { type WordBet } from '@/hooks/useEarningsData';
 import { type Transcript, type BetRecord } from '@/lib/api/data';
+import { betFees, netPnl } from '@/lib/utils/fees';
 
 interface QuickStatsProps {
   wordBets: WordBet[];
@@ -14,6 +15,11 @@ export function QuickStats({ wordBets, transcripts, betHistory }: QuickStatsProp
   const wordsInTranscript = wordBets.filter((b) => b.transcriptCount > 0).length;
   const wordsTrending = wordBets.filter((b) => b.trending).length;
 
+  // Realized P&L on settled bets, net of Kalshi fees
+  const settled = betHistory.filter((b) => b.result === 'win' || b.result === 'loss');
+  const pnl = settled.reduce((total, b) => total + netPnl(b), 0);
+  const fees = settled.reduce((total, b) => total + betFees(b), 0);
+
   return (
     <div className="card">
       <h2 className="text-lg font-semibold text-white mb-4">Quick Stats</h2>
@@ -38,6 +44,20 @@ export function QuickStats({ wordBets, transcripts, betHistory }: QuickStatsProp
           value={betHistory.length}
           className="text-white"
         />
+        {settled.length > 0 && (
+          <>
+            <StatRow
+              label="Net P&L"
+              value={`${pnl >= 0 ? '+' : '-'}$${(Math.abs(pnl) / 100).toFixed(2)}`}
+              className={pnl >= 0 ? 'text-profit-500' : 'text-loss-500'}
+            />
+            <StatRow
+              label="Fees paid"
+              value={`$${(fees / 100).toFixed(2)}`}
+              className="text-slate-300"
+            />
+          </>
+        )}
       </div>
     </div>
   );
@@ -45,7 +65,7 @@ export function QuickStats({ wordBets, transcripts, betHistory }: QuickStatsProp
 
 interface StatRowProps {
   label: string;
-  value: number;
+  value: number | string;
   className?: string;
 }
 
@@ -0,0 +1,144 @@
+// Risk Limits Panel Component
+// View and edit the pre-trade limits the server enforces on every order
+
+import { useState, useEffect } from 'react';
+import {
+  getRiskLimits,
+  saveRiskLimits,
+  type RiskLimits,
+  type RiskLimitsResponse,
+} from '@/lib/api/data';
+
+const FIELDS: Array<{ key: keyof RiskLimits; label: string; dollars: boolean }> = [
+  { key: 'maxMarketExposure', label: 'Max per market', dollars: true },
+  { key: 'maxEventExposure', label: 'Max per event', dollars: true },
+  { key: 'dailyLossLimit', label: 'Daily loss limit', dollars: true },
+  { key: 'maxContractsPerOrder', label: 'Max contracts / order', dollars: false },
+];
+
+function formatLimit(value: number, dollars: boolean): string {
+  return dollars ? `$${(value / 100).toLocaleString()}` : value.toLocaleString();
+}
+
+export function RiskLimitsPanel() {
+  const [data, setData] = useState<RiskLimitsResponse | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<Record<keyof RiskLimits, string>>({
+    maxMarketExposure: '',
+    maxEventExposure: '',
+    dailyLossLimit: '',
+    maxContractsPerOrder: '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getRiskLimits()
+      .then(setData)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : 'Failed to load risk limits')
+      );
+  }, []);
+
+  const startEditing = () => {
+    if (!data) return;
+    setDraft(
+      Object.fromEntries(
+        FIELDS.map(({ key, dollars }) => [
+          key,
+          String(dollars ? data.limits[key] / 100 : data.limits[key]),
+        ])
+      ) as Record<keyof RiskLimits, string>
+    );
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const limits = Object.fromEntries(
+        FIELDS.map(({ key, dollars }) => [
+          key,
+          dollars ? Math.round(parseFloat(draft[key]) * 100) : parseInt(draft[key]),
+        ])
+      ) as unknown as RiskLimits;
+      setData(await saveRiskLimits(limits));
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save risk limits');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white">Risk Limits</h2>
+        {data && !editing && (
+          <button
+            onClick={startEditing}
+            className="text-xs text-slate-400 hover:text-white transition-colors"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-loss-400 text-sm mb-2">{error}</p>}
+
+      {!data ? (
+        !error && <div className="h-24 bg-slate-800/50 rounded animate-pulse" />
+      ) : (
+        <div className="space-y-2 text-sm">
+          {FIELDS.map(({ key, label, dollars }) => (
+            <div key={key} className="flex items-center justify-between">
+              <span className="text-slate-400">{label}</span>
+              {editing ? (
+                <input
+                  type="number"
+                  value={draft[key]}
+                  onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                  className="input w-28 py-1 text-right"
+                  min="1"
+                />
+              ) : (
+                <span className="font-mono text-white">
+                  {formatLimit(data.limits[key], dollars)}
+                </span>
+              )}
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <span className="text-slate-400">Kalshi per-strike limit</span>
+            <span className="font-mono text-slate-500">
+              {formatLimit(data.strikePositionLimit, true)}
+            </span>
+          </div>
+
+          {editing && (
+            <div className="flex gap-2 pt-2">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="btn-primary flex-1 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+              <button
+                onClick={() => setEditing(false)}
+                className="flex-1 py-2 rounded bg-slate-800 text-slate-400 hover:text-white"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+          {!editing && !data.updatedAt && (
+            <p className="text-xs text-slate-500 pt-1">Using default limits.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+// Transcript Speaker View Component
+// Speaker turns of a transcript, filterable by section, role and speaker
+
+import { useState, type ReactNode } from 'react';
+import { type TranscriptSegments } from '@/lib/api/data';
+import { highlightWord } from '@/lib/utils/wordAnalysis';
+import { countMentionsInAll } from '@/lib/utils/mentionMatcher';
+import {
+  filterSegments,
+  summarizeSpeakers,
+  SPEAKER_ROLE_LABELS,
+  SECTION_LABELS,
+  type SpeakerRole,
+  type TranscriptSection,
+} from '@/lib/utils/transcriptSegments';
+
+const ROLE_STYLES: Record<SpeakerRole, string> = {
+  executive: 'bg-blue-500/20 text-blue-400',
+  analyst: 'bg-purple-500/20 text-purple-400',
+  operator: 'bg-slate-700 text-slate-400',
+};
+
+interface TranscriptSpeakerViewProps {
+  data: TranscriptSegments | null; // null while loading or when unavailable
+  loading: boolean;
+  searchWord: string;
+}
+
+export function TranscriptSpeakerView({
+  data,
+  loading,
+  searchWord,
+}: TranscriptSpeakerViewProps) {
+  // Filters ('' = all)
+  const [section, setSection] = useState<TranscriptSection | ''>('');
+  const [role, setRole] = useState<SpeakerRole | ''>('');
+  const [speaker, setSpeaker] = useState('');
+
+  if (loading) {
+    return (
+      <p className="mt-3 text-xs text-slate-500 animate-pulse">Loading speakers...</p>
+    );
+  }
+
+  if (!data || data.segments.length === 0) {
+    return (
+      <p className="mt-3 text-xs text-slate-500">
+        No speaker turns found. Turns are detected from the Company Participants and
+        Conference Call Participants lists at the top of the transcript.
+      </p>
+    );
+  }
+
+  // Speaker options follow the section/role filters
+  const speakers = summarizeSpeakers(
+    filterSegments(data.segments, {
+      section: section || undefined,
+      role: role || undefined,
+    })
+  );
+  const visible = filterSegments(data.segments, {
+    section: section || undefined,
+    role: role || undefined,
+    speaker: speaker || undefined,
+  });
+  const countInView = searchWord
+    ? countMentionsInAll(
+        visible.map((s) => s.text),
+        searchWord
+      )
+    : 0;
+
+  const handleRoleChange = (next: SpeakerRole | '') => {
+    setRole(next);
+    setSpeaker('');
+  };
+
+  return (
+    <div className="mt-3 space-y-3">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <FilterButton active={section === ''} onClick={() => setSection('')}>
+          All sections
+        </FilterButton>
+        {(Object.keys(SECTION_LABELS) as TranscriptSection[]).map((key) => (
+          <FilterButton
+            key={key}
+            active={section === key}
+            onClick={() => setSection(key)}
+          >
+            {SECTION_LABELS[key]}
+          </FilterButton>
+        ))}
+        <span className="w-px h-4 bg-slate-700" />
+        <FilterButton active={role === ''} onClick={() => handleRoleChange('')}>
+          All roles
+        </FilterButton>
+        {(Object.keys(SPEAKER_ROLE_LABELS) as SpeakerRole[]).map((key) => (
+          <FilterButton
+            key={key}
+            active={role === key}
+            onClick={() => handleRoleChange(key)}
+          >
+            {SPEAKER_ROLE_LABELS[key]}
+          </FilterButton>
+        ))}
+        <select
+          value={speaker}
+          onChange={(e) => setSpeaker(e.target.value)}
+          className="input text-xs py-1"
+        >
+          <option value="">All speakers</option>
+          {speakers.map((s) => (
+            <option key={s.speaker} value={s.speaker}>
+              {s.speaker} ({s.turns})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {visible.length} of {data.segments.length} turns
+        {searchWord && (
+          <>
+            {' '}
+            • <span className="text-yellow-300">{countInView} counted</span> in this view
+          </>
+        )}
+        {!data.stored && ' • segmented from saved text'}
+      </p>
+
+      {/* Turns */}
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        {visible.map((segment, index) => (
+          <div key={index} className="p-3 bg-slate-900 rounded">
+            <div className="flex items-center gap-2 mb-1 text-xs">
+              <span className="font-semibold text-white">{segment.speaker}</span>
+              <span className={`px-1.5 py-0.5 rounded ${ROLE_STYLES[segment.role]}`}>
+                {SPEAKER_ROLE_LABELS[segment.role]}
+              </span>
+              <span className="text-slate-500">{SECTION_LABELS[segment.section]}</span>
+            </div>
+            <div
+              className="text-sm font-mono whitespace-pre-wrap text-slate-300"
+              dangerouslySetInnerHTML={{
+                __html: searchWord
+                  ? highlightWord(segment.text, searchWord)
+                  : segment.text,
+              }}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function FilterButton({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-2 py-1 rounded transition-colors ${
+        active ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
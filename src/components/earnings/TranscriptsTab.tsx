@@ -1,21 +1,36 @@
 // Transcripts Tab Component
 // Upload and manage earnings call transcripts for word analysis
 
-import { useState } from 'react';
-import { saveTranscript, deleteTranscript, type Transcript } from '@/lib/api/data';
+import { useEffect, useState } from 'react';
 import {
-  countOccurrences,
-  highlightWord,
-  getQuarterOptions,
-  getYearOptions,
-} from '@/lib/utils/wordAnalysis';
+  saveTranscript,
+  deleteTranscript,
+  getTranscriptSegmentsForCompany,
+  type Transcript,
+  type TranscriptSegments,
+} from '@/lib/api/data';
+import { highlightWord, getQuarterOptions, getYearOptions } from '@/lib/utils/wordAnalysis';
+import {
+  countMentionsInAll,
+  explainMentions,
+  MENTION_RULE_LABELS,
+  type MentionMatch,
+} from '@/lib/utils/mentionMatcher';
+import { type MentionStrike } from '@/lib/utils/mentionStrike';
+import {
+  countMentionsBySection,
+  SECTION_LABELS,
+  type TranscriptSegment,
+} from '@/lib/utils/transcriptSegments';
 import { TranscriptVerification, VerificationBadge } from './TranscriptVerification';
+import { TranscriptSpeakerView } from './TranscriptSpeakerView';
 
 interface TranscriptsTabProps {
   eventTicker: string;
   companyName: string;
   stockTicker?: string;
   transcripts: Transcript[];
+  trackedStrikes?: MentionStrike[]; // Market words for the per-section breakdown
   onTranscriptSaved: (transcript: Transcript) => void;
   onTranscriptUpdated?: (transcript: Transcript) => void;
   onTranscriptDeleted?: (transcript: Transcript) => void;
@@ -26,6 +41,7 @@ export function TranscriptsTab({
   companyName,
   stockTicker,
   transcripts,
+  trackedStrikes = [],
   onTranscriptSaved,
   onTranscriptUpdated,
   onTranscriptDeleted,
@@ -43,6 +59,34 @@ export function TranscriptsTab({
   // Verification state
   const [verifyingTranscript, setVerifyingTranscript] = useState<Transcript | null>(null);
 
+  // Speaker turns keyed by transcript date
+  const [segmentsByDate, setSegmentsByDate] = useState<Record<string, TranscriptSegments>>(
+    {}
+  );
+  const [loadingSegments, setLoadingSegments] = useState(false);
+
+  useEffect(() => {
+    if (!eventTicker || transcripts.length === 0) return;
+
+    let cancelled = false;
+    setLoadingSegments(true);
+    getTranscriptSegmentsForCompany(eventTicker)
+      .then((records) => {
+        if (!cancelled) {
+          setSegmentsByDate(Object.fromEntries(records.map((r) => [r.date, r])));
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setSegmentsByDate({});
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingSegments(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [eventTicker, transcripts.length]);
+
   // Options
   const quarterOptions = getQuarterOptions();
   const yearOptions = getYearOptions();
@@ -74,7 +118,7 @@ export function TranscriptsTab({
 
   // Calculate total occurrences across all transcripts
   const totalOccurrences = searchWord
-    ? transcripts.reduce((sum, t) => sum + countOccurrences(t.content, searchWord), 0)
+    ? countMentionsInAll(transcripts.map((t) => t.content), searchWord)
     : 0;
 
   // Handle verification complete
@@ -237,6 +281,9 @@ export function TranscriptsTab({
               <TranscriptCard
                 key={t.SK}
                 transcript={t}
+                segments={segmentsByDate[t.date] || null}
+                loadingSegments={loadingSegments}
+                trackedStrikes={trackedStrikes}
                 searchWord={searchWord}
                 isExpanded={expandedTranscript === t.SK}
                 onToggle={() =>
@@ -256,6 +303,9 @@ export function TranscriptsTab({
 // Transcript card component
 interface TranscriptCardProps {
   transcript: Transcript;
+  segments: TranscriptSegments | null;
+  loadingSegments: boolean;
+  trackedStrikes: MentionStrike[];
   searchWord: string;
   isExpanded: boolean;
   onToggle: () => void;
@@ -265,12 +315,28 @@ interface TranscriptCardProps {
 
 function TranscriptCard({
   transcript,
+  segments,
+  loadingSegments,
+  trackedStrikes,
   searchWord,
   isExpanded,
   onToggle,
   onVerify,
   onDelete,
 }: TranscriptCardProps) {
+  // Counted matches and excluded near-misses for the search word
+  const explanations = searchWord ? explainMentions(transcript.content, searchWord) : [];
+  const counted = explanations.filter((m) => m.included);
+  const nearMisses = explanations.filter((m) => !m.included);
+
+  // Full text or speaker-filtered turns when expanded
+  const [view, setView] = useState<'full' | 'speakers'>('full');
+
+  // Prepared remarks vs Q&A split (needs speaker turns)
+  const turns = segments?.segments || [];
+  const searchSections =
+    searchWord && turns.length > 0 ? countMentionsBySection(turns, searchWord) : null;
+
   return (
     <div className="bg-slate-800 rounded-lg p-4">
       <div className="flex items-center justify-between mb-2">
@@ -282,6 +348,30 @@ function TranscriptCard({
           <span className="text-slate-500 text-sm">
             {transcript.wordCount.toLocaleString()} words
           </span>
+          {searchWord && (
+            <>
+              <span
+                className="text-xs px-2 py-0.5 bg-yellow-500/20 text-yellow-300 rounded"
+                title={summarizeRules(counted)}
+              >
+                {counted.length} counted
+              </span>
+              {nearMisses.length > 0 && (
+                <span
+                  className="text-xs px-2 py-0.5 bg-loss-500/20 text-loss-400 rounded"
+                  title={summarizeRules(nearMisses)}
+                >
+                  {nearMisses.length} near-miss{nearMisses.length > 1 ? 'es' : ''}
+                </span>
+              )}
+              {searchSections && (
+                <span className="text-xs text-slate-400">
+                  {SECTION_LABELS.prepared} {searchSections.prepared} •{' '}
+                  {SECTION_LABELS.qa} {searchSections.qa}
+                </span>
+              )}
+            </>
+          )}
         </div>
         <div className="flex items-center gap-2">
           {transcript.verificationStatus === 'pending' && (
@@ -327,7 +417,49 @@ function TranscriptCard({
         </div>
       )}
 
+      {isExpanded && turns.length > 0 && trackedStrikes.length > 0 && (
+        <SectionBreakdown segments={turns} trackedStrikes={trackedStrikes} />
+      )}
+
+      {isExpanded && searchWord && explanations.length > 0 && (
+        <div className="mt-3 flex items-center gap-4 text-xs text-slate-400">
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded bg-yellow-500/30" />
+            Counts toward settlement
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded bg-loss-500/20" />
+            Excluded near-miss
+          </span>
+          <span className="text-slate-500">Hover a match to see the rule</span>
+        </div>
+      )}
+
       {isExpanded && (
+        <div className="mt-3 flex gap-1 text-xs">
+          {(['full', 'speakers'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-2 py-1 rounded transition-colors ${
+                view === option ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+              }`}
+            >
+              {option === 'full' ? 'Full text' : 'By speaker'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isExpanded && view === 'speakers' && (
+        <TranscriptSpeakerView
+          data={segments}
+          loading={loadingSegments}
+          searchWord={searchWord}
+        />
+      )}
+
+      {isExpanded && view === 'full' && (
         <div
           className="mt-3 p-3 bg-slate-900 rounded text-sm font-mono whitespace-pre-wrap max-h-96 overflow-y-auto"
           dangerouslySetInnerHTML={{
@@ -340,3 +472,64 @@ function TranscriptCard({
     </div>
   );
 }
+
+// Tracked-word counts for prepared remarks vs Q&A
+// Words that only come up in Q&A depend on analysts asking about them
+function SectionBreakdown({
+  segments,
+  trackedStrikes,
+}: {
+  segments: TranscriptSegment[];
+  trackedStrikes: MentionStrike[];
+}) {
+  const rows = trackedStrikes
+    .map((strike) => ({
+      strike,
+      ...countMentionsBySection(segments, strike.alternatives),
+    }))
+    .filter((row) => row.prepared + row.qa > 0);
+
+  if (rows.length === 0) {
+    return <p className="mt-3 text-xs text-slate-500">No tracked words mentioned.</p>;
+  }
+
+  return (
+    <table className="mt-3 w-full text-xs">
+      <thead>
+        <tr className="text-slate-400 border-b border-slate-700">
+          <th className="text-left py-1">Word</th>
+          <th className="text-right py-1">{SECTION_LABELS.prepared}</th>
+          <th className="text-right py-1">{SECTION_LABELS.qa}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ strike, prepared, qa }) => (
+          <tr key={strike.raw} className="border-b border-slate-700/50">
+            <td className="py-1 text-white">{strike.label}</td>
+            <td className="py-1 text-right font-mono text-slate-300">{prepared}</td>
+            <td
+              className={`py-1 text-right font-mono ${
+                prepared === 0 && qa > 0 ? 'text-yellow-400' : 'text-slate-300'
+              }`}
+              title={prepared === 0 && qa > 0 ? 'Only mentioned in Q&A' : undefined}
+            >
+              {qa}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Summarize which MENTION rules produced a set of matches (for tooltips)
+function summarizeRules(matches: MentionMatch[]): string {
+  const counts = new Map<string, number>();
+  for (const match of matches) {
+    const label = MENTION_RULE_LABELS[match.rule];
+    counts.set(label, (counts.get(label) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .map(([label, count]) => `${label}: ${count}`)
+    .join('\n');
+}
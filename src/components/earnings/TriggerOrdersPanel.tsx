@@ -0,0 +1,299 @@
+// Trigger Orders Panel Component
+// Create, list and cancel orders the server submits when a price or time
+// condition is met, with each trigger's log
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getTriggers,
+  createTrigger,
+  cancelTrigger,
+  type TriggerCondition,
+  type TriggerOrder,
+} from '@/lib/api/data';
+import { type WordBet } from '@/hooks/useEarningsData';
+
+const REFRESH_INTERVAL_MS = 15_000;
+
+type PriceField = Extract<TriggerCondition, { type: 'price' }>['field'];
+
+const PRICE_FIELDS: Array<{ id: PriceField; label: string }> = [
+  { id: 'yes_ask', label: 'YES ask' },
+  { id: 'yes_bid', label: 'YES bid' },
+  { id: 'no_ask', label: 'NO ask' },
+  { id: 'no_bid', label: 'NO bid' },
+  { id: 'last_price', label: 'Last' },
+];
+
+const STATUS_STYLES: Record<TriggerOrder['status'], string> = {
+  active: 'bg-yellow-500/20 text-yellow-400',
+  triggered: 'bg-blue-500/20 text-blue-400',
+  submitted: 'bg-profit-500/20 text-profit-400',
+  failed: 'bg-loss-500/20 text-loss-400',
+  cancelled: 'bg-slate-700 text-slate-400',
+};
+
+interface TriggerOrdersPanelProps {
+  eventTicker: string;
+  companyName: string;
+  selectedBet: WordBet | null;
+  closeTime?: string;
+}
+
+function formatCondition(condition: TriggerCondition): string {
+  if (condition.type === 'time') {
+    return `at ${new Date(condition.at).toLocaleString()}`;
+  }
+  const field = PRICE_FIELDS.find((f) => f.id === condition.field)?.label;
+  return `if ${field} ${condition.operator === 'lte' ? '≤' : '≥'} ${condition.value}¢`;
+}
+
+export function TriggerOrdersPanel({
+  eventTicker,
+  companyName,
+  selectedBet,
+  closeTime,
+}: TriggerOrdersPanelProps) {
+  const [triggers, setTriggers] = useState<TriggerOrder[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  // New trigger form
+  const [side, setSide] = useState<'yes' | 'no'>('yes');
+  const [count, setCount] = useState(10);
+  const [price, setPrice] = useState(40);
+  const [conditionType, setConditionType] = useState<'price' | 'close' | 'at'>('price');
+  const [field, setField] = useState<PriceField>('yes_ask');
+  const [operator, setOperator] = useState<'lte' | 'gte'>('lte');
+  const [value, setValue] = useState(40);
+  const [minutesBeforeClose, setMinutesBeforeClose] = useState(15);
+  const [at, setAt] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchTriggers = useCallback(async () => {
+    try {
+      setTriggers(await getTriggers(eventTicker));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load triggers');
+    }
+  }, [eventTicker]);
+
+  useEffect(() => {
+    fetchTriggers();
+    const interval = setInterval(fetchTriggers, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchTriggers]);
+
+  const buildCondition = (): TriggerCondition | null => {
+    if (conditionType === 'price') {
+      return { type: 'price', field, operator, value };
+    }
+    if (conditionType === 'close') {
+      if (!closeTime) return null;
+      const time = new Date(closeTime).getTime() - minutesBeforeClose * 60_000;
+      return { type: 'time', at: new Date(time).toISOString() };
+    }
+    return at ? { type: 'time', at: new Date(at).toISOString() } : null;
+  };
+
+  const handleCreate = async () => {
+    const condition = buildCondition();
+    if (!selectedBet || !condition) return;
+
+    setSaving(true);
+    try {
+      await createTrigger({
+        eventTicker,
+        marketTicker: selectedBet.ticker,
+        company: companyName,
+        word: selectedBet.word,
+        condition,
+        order: { action: 'buy', side, count, price },
+      });
+      await fetchTriggers();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create trigger');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (triggerId: string) => {
+    try {
+      await cancelTrigger(triggerId);
+      await fetchTriggers();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to cancel trigger');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white">Trigger Orders</h2>
+        <button
+          onClick={fetchTriggers}
+          className="text-xs text-slate-400 hover:text-white transition-colors"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {/* New trigger for the selected word */}
+      {selectedBet ? (
+        <div className="bg-slate-800 rounded-lg p-3 space-y-2 text-sm mb-4">
+          <p className="text-white font-medium">New trigger: {selectedBet.word}</p>
+          <div className="flex gap-2">
+            <select
+              value={side}
+              onChange={(e) => setSide(e.target.value as 'yes' | 'no')}
+              className="input py-1 flex-1"
+            >
+              <option value="yes">Buy YES</option>
+              <option value="no">Buy NO</option>
+            </select>
+            <input
+              type="number"
+              value={count}
+              onChange={(e) => setCount(parseInt(e.target.value) || 1)}
+              className="input py-1 w-16 text-right"
+              min="1"
+              title="Contracts"
+            />
+            <input
+              type="number"
+              value={price}
+              onChange={(e) => setPrice(parseInt(e.target.value) || 1)}
+              className="input py-1 w-16 text-right"
+              min="1"
+              max="99"
+              title="Limit price (¢)"
+            />
+          </div>
+          <select
+            value={conditionType}
+            onChange={(e) => setConditionType(e.target.value as 'price' | 'close' | 'at')}
+            className="input py-1 w-full"
+          >
+            <option value="price">When price crosses</option>
+            <option value="close" disabled={!closeTime}>
+              Minutes before close
+            </option>
+            <option value="at">At a time</option>
+          </select>
+          {conditionType === 'price' && (
+            <div className="flex gap-2">
+              <select
+                value={field}
+                onChange={(e) => setField(e.target.value as PriceField)}
+                className="input py-1 flex-1"
+              >
+                {PRICE_FIELDS.map((f) => (
+                  <option key={f.id} value={f.id}>
+                    {f.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={operator}
+                onChange={(e) => setOperator(e.target.value as 'lte' | 'gte')}
+                className="input py-1 w-14"
+              >
+                <option value="lte">≤</option>
+                <option value="gte">≥</option>
+              </select>
+              <input
+                type="number"
+                value={value}
+                onChange={(e) => setValue(parseInt(e.target.value) || 1)}
+                className="input py-1 w-16 text-right"
+                min="1"
+                max="99"
+              />
+            </div>
+          )}
+          {conditionType === 'close' && (
+            <input
+              type="number"
+              value={minutesBeforeClose}
+              onChange={(e) => setMinutesBeforeClose(parseInt(e.target.value) || 0)}
+              className="input py-1 w-full"
+              min="0"
+            />
+          )}
+          {conditionType === 'at' && (
+            <input
+              type="datetime-local"
+              value={at}
+              onChange={(e) => setAt(e.target.value)}
+              className="input py-1 w-full"
+            />
+          )}
+          <button
+            onClick={handleCreate}
+            disabled={saving || !buildCondition()}
+            className="btn-primary w-full disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Create Trigger'}
+          </button>
+        </div>
+      ) : (
+        <p className="text-slate-500 text-xs mb-4">Select a word to add a trigger.</p>
+      )}
+
+      {error ? (
+        <p className="text-loss-400 text-sm">{error}</p>
+      ) : triggers.length === 0 ? (
+        <p className="text-slate-500 text-sm">No triggers for this event.</p>
+      ) : (
+        <div className="space-y-2">
+          {triggers.map((trigger) => (
+            <div key={trigger.triggerId} className="bg-slate-800 rounded-lg p-3 text-sm">
+              <div
+                className="flex items-center justify-between cursor-pointer"
+                onClick={() =>
+                  setExpanded(expanded === trigger.triggerId ? null : trigger.triggerId)
+                }
+              >
+                <span className="text-white font-medium">{trigger.word}</span>
+                <span
+                  className={`px-2 py-0.5 text-xs rounded ${STATUS_STYLES[trigger.status]}`}
+                >
+                  {trigger.status}
+                </span>
+              </div>
+              <div className="flex items-center justify-between mt-1 text-xs">
+                <span className="text-slate-400">
+                  {trigger.order.action.toUpperCase()} {trigger.order.side.toUpperCase()}{' '}
+                  {trigger.order.count} @ {trigger.order.price}¢{' '}
+                  {formatCondition(trigger.condition)}
+                </span>
+                {trigger.status === 'active' && (
+                  <button
+                    onClick={() => handleCancel(trigger.triggerId)}
+                    className="px-2 py-0.5 rounded bg-loss-600/20 text-loss-400 hover:bg-loss-600/40"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+              {trigger.error && (
+                <p className="text-xs text-loss-400 mt-1">{trigger.error}</p>
+              )}
+              {expanded === trigger.triggerId && (
+                <ul className="mt-2 space-y-1 text-[11px] text-slate-500 font-mono">
+                  {trigger.log.map((entry, i) => (
+                    <li key={i}>
+                      {new Date(entry.at).toLocaleTimeString()} {entry.event}:{' '}
+                      {entry.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
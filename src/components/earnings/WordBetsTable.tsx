@@ -3,6 +3,8 @@
 
 import { useState } from 'react';
 import { type WordBet, type NewsRecency } from '@/hooks/useEarningsData';
+import { formatStrike } from '@/lib/utils/mentionStrike';
+import { breakEvenProbability } from '@/lib/utils/fees';
 
 // Sortable column header
 function SortableHeader({
@@ -81,7 +83,7 @@ function NewsRecencyDisplay({ recency }: { recency: NewsRecency }) {
   );
 }
 
-type SortKey = 'chance' | 'transcript' | 'news' | 'volume';
+type SortKey = 'chance' | 'model' | 'edge' | 'transcript' | 'news' | 'volume';
 
 interface WordBetsTableProps {
   wordBets: WordBet[];
@@ -90,6 +92,8 @@ interface WordBetsTableProps {
   selectedWord: string | null;
   onSelectWord: (word: string | null, bet: WordBet | null) => void;
   onBetClick: (bet: WordBet, side: 'yes' | 'no') => void;
+  basketTickers?: Set<string>; // Words picked for a basket order
+  onToggleBasket?: (bet: WordBet) => void;
 }
 
 export function WordBetsTable({
@@ -99,6 +103,8 @@ export function WordBetsTable({
   selectedWord,
   onSelectWord,
   onBetClick,
+  basketTickers,
+  onToggleBasket,
 }: WordBetsTableProps) {
   const [sortBy, setSortBy] = useState<SortKey>('chance');
 
@@ -107,8 +113,14 @@ export function WordBetsTable({
     switch (sortBy) {
       case 'chance':
         return b.chance - a.chance;
+      case 'model':
+        return (b.modelProbability ?? -1) - (a.modelProbability ?? -1);
+      case 'edge':
+        // Largest absolute edge first (either side may be mispriced)
+        return Math.abs(b.edge ?? 0) - Math.abs(a.edge ?? 0);
       case 'transcript':
-        return b.transcriptCount - a.transcriptCount;
+        // Transcripts that would have resolved YES first, then raw mentions
+        return b.transcriptHits - a.transcriptHits || b.transcriptCount - a.transcriptCount;
       case 'news':
         // Sort by recency: today first, then thisWeek, then total
         const aScore = a.newsRecency.today * 1000 + a.newsRecency.thisWeek * 10 + a.newsRecency.total;
@@ -136,11 +148,25 @@ export function WordBetsTable({
         <div className="grid grid-cols-12 gap-2 px-4 py-3 text-xs bg-slate-800/50 border-b border-slate-800">
           <div className="col-span-3 text-slate-500">Word</div>
           <SortableHeader
-            label="Chance"
+            label="Implied"
             sortKey="chance"
             currentSort={sortBy}
             onSort={setSortBy}
-            className="col-span-2 text-center"
+            className="col-span-1 text-center"
+          />
+          <SortableHeader
+            label="Model"
+            sortKey="model"
+            currentSort={sortBy}
+            onSort={setSortBy}
+            className="col-span-1 text-center"
+          />
+          <SortableHeader
+            label="Edge"
+            sortKey="edge"
+            currentSort={sortBy}
+            onSort={setSortBy}
+            className="col-span-1 text-center"
           />
           <SortableHeader
             label="Transcript"
@@ -161,7 +187,7 @@ export function WordBetsTable({
             sortKey="volume"
             currentSort={sortBy}
             onSort={setSortBy}
-            className="col-span-2 text-center"
+            className="col-span-1 text-center"
           />
           <div className="col-span-2 text-center text-slate-500">Trade</div>
         </div>
@@ -189,6 +215,8 @@ export function WordBetsTable({
                   onSelectWord(selectedWord === bet.word ? null : bet.word, bet)
                 }
                 onBetClick={onBetClick}
+                inBasket={basketTickers?.has(bet.ticker) ?? false}
+                onToggleBasket={onToggleBasket}
               />
             ))}
           </div>
@@ -204,9 +232,18 @@ interface WordBetRowProps {
   isSelected: boolean;
   onSelect: () => void;
   onBetClick: (bet: WordBet, side: 'yes' | 'no') => void;
+  inBasket: boolean;
+  onToggleBasket?: (bet: WordBet) => void;
 }
 
-function WordBetRow({ bet, isSelected, onSelect, onBetClick }: WordBetRowProps) {
+function WordBetRow({
+  bet,
+  isSelected,
+  onSelect,
+  onBetClick,
+  inBasket,
+  onToggleBasket,
+}: WordBetRowProps) {
   return (
     <div
       className={`grid grid-cols-12 gap-2 px-4 py-3 items-center hover:bg-slate-800/50 cursor-pointer transition-colors ${
@@ -216,13 +253,30 @@ function WordBetRow({ bet, isSelected, onSelect, onBetClick }: WordBetRowProps)
     >
       {/* Word */}
       <div className="col-span-3">
-        <span className="text-white font-medium">{bet.word}</span>
+        {onToggleBasket && (
+          <input
+            type="checkbox"
+            checked={inBasket}
+            onChange={() => onToggleBasket(bet)}
+            onClick={(e) => e.stopPropagation()}
+            className="mr-2 align-middle"
+            title="Add to basket"
+          />
+        )}
+        <span className="text-white font-medium" title={bet.strike.alternatives.join(' / ')}>
+          {formatStrike(bet.strike)}
+        </span>
         <div className="flex gap-1 mt-1">
           {bet.transcriptCount > 0 && (
             <span className="px-1.5 py-0.5 text-[10px] bg-profit-500/20 text-profit-400 rounded">
               {bet.transcriptCount}x
             </span>
           )}
+          {bet.strike.alternatives.length > 1 && (
+            <span className="px-1.5 py-0.5 text-[10px] bg-blue-500/20 text-blue-400 rounded">
+              {bet.strike.alternatives.length} ALTS
+            </span>
+          )}
           {bet.trending && (
             <span className="px-1.5 py-0.5 text-[10px] bg-yellow-500/20 text-yellow-400 rounded">
               TRENDING
@@ -231,8 +285,8 @@ function WordBetRow({ bet, isSelected, onSelect, onBetClick }: WordBetRowProps)
         </div>
       </div>
 
-      {/* Chance */}
-      <div className="col-span-2 text-center">
+      {/* Implied probability (last traded price) */}
+      <div className="col-span-1 text-center">
         <span className="text-white font-bold">{bet.chance}%</span>
         {bet.priceChange !== 0 && (
           <span
@@ -244,16 +298,60 @@ function WordBetRow({ bet, isSelected, onSelect, onBetClick }: WordBetRowProps)
             {Math.abs(bet.priceChange)}
           </span>
         )}
+        <div
+          className="font-mono text-[10px] text-slate-500"
+          title={`YES at ${bet.yesPrice}¢ breaks even at this probability after the taker fee`}
+        >
+          BE {breakEvenProbability(bet.yesPrice).toFixed(1)}%
+        </div>
+      </div>
+
+      {/* Model probability (historical base rate) */}
+      <div className="col-span-1 text-center">
+        {bet.model ? (
+          <span
+            className="font-mono text-sm text-slate-300"
+            title={formatModelDetail(bet)}
+          >
+            {bet.modelProbability}%
+          </span>
+        ) : (
+          <span className="font-mono text-sm text-slate-600">—</span>
+        )}
+      </div>
+
+      {/* Edge: model minus implied, in points */}
+      <div className="col-span-1 text-center">
+        {bet.edge !== null ? (
+          <span
+            className={`font-mono text-sm ${
+              bet.edge > 0
+                ? 'text-profit-400'
+                : bet.edge < 0
+                  ? 'text-loss-400'
+                  : 'text-slate-500'
+            }`}
+            title={bet.edge > 0 ? 'Model favors YES' : bet.edge < 0 ? 'Model favors NO' : ''}
+          >
+            {bet.edge > 0 ? '+' : ''}
+            {bet.edge}
+          </span>
+        ) : (
+          <span className="font-mono text-sm text-slate-600">—</span>
+        )}
       </div>
 
-      {/* Transcript Count */}
+      {/* Transcript Hits: transcripts where the strike would have resolved YES */}
       <div className="col-span-1 text-center">
         <span
           className={`font-mono text-sm ${
-            bet.transcriptCount > 0 ? 'text-profit-400' : 'text-slate-600'
+            bet.transcriptHits > 0 ? 'text-profit-400' : 'text-slate-600'
           }`}
+          title={`${bet.transcriptCount} mentions; YES in ${bet.transcriptHits} of ${bet.transcriptsChecked} transcripts (needs ${bet.strike.minCount}+)`}
         >
-          {bet.transcriptCount}
+          {bet.transcriptsChecked > 0
+            ? `${bet.transcriptHits}/${bet.transcriptsChecked}`
+            : '—'}
         </span>
       </div>
 
@@ -263,7 +361,7 @@ function WordBetRow({ bet, isSelected, onSelect, onBetClick }: WordBetRowProps)
       </div>
 
       {/* Volume */}
-      <div className="col-span-2 text-center">
+      <div className="col-span-1 text-center">
         <span
           className={`font-mono text-sm ${
             bet.volume > 0 ? 'text-slate-300' : 'text-slate-600'
@@ -299,3 +397,14 @@ function WordBetRow({ bet, isSelected, onSelect, onBetClick }: WordBetRowProps)
     </div>
   );
 }
+
+// Tooltip explaining how the model probability was built
+function formatModelDetail(bet: WordBet): string {
+  if (!bet.model) return '';
+  const { companyRate, peerRate, transcripts, peerCompanies } = bet.model;
+  const company =
+    companyRate !== null
+      ? `Company: ${Math.round(companyRate * 100)}% YES over ${transcripts} verified calls (recency-weighted)`
+      : 'Company: no verified transcripts';
+  return `${company}\nPeer prior: ${Math.round(peerRate * 100)}% from ${peerCompanies} companies`;
+}
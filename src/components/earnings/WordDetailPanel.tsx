@@ -0,0 +1,160 @@
+// Word Detail Panel Component
+// Recorded price history for the selected word's market
+
+import { useState, useEffect } from 'react';
+import { type WordBet } from '@/hooks/useEarningsData';
+import {
+  getPriceHistory,
+  type HistoryInterval,
+  type PriceHistoryPoint,
+} from '@/lib/api/data';
+import { formatStrike } from '@/lib/utils/mentionStrike';
+import { PriceChart, type PriceDataPoint } from '@/components/EarningsChart';
+
+type RangeId = '1D' | '1W' | '1M' | '1Y';
+
+// Each range is charted at an interval that keeps the point count readable
+const RANGES: Record<RangeId, { days: number; interval: HistoryInterval }> = {
+  '1D': { days: 1, interval: '5m' },
+  '1W': { days: 7, interval: '1h' },
+  '1M': { days: 30, interval: '4h' },
+  '1Y': { days: 365, interval: '1d' },
+};
+
+interface WordDetailPanelProps {
+  bet: WordBet;
+}
+
+export function WordDetailPanel({ bet }: WordDetailPanelProps) {
+  const [range, setRange] = useState<RangeId>('1W');
+  const [points, setPoints] = useState<PriceHistoryPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const { days, interval } = RANGES[range];
+
+    async function fetchHistory() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const history = await getPriceHistory(bet.ticker, {
+          from: new Date(Date.now() - days * 86_400_000).toISOString(),
+          interval,
+        });
+        if (!cancelled) setPoints(history.points);
+      } catch (err) {
+        if (!cancelled) {
+          setPoints([]);
+          setError(err instanceof Error ? err.message : 'Failed to load price history');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [bet.ticker, range]);
+
+  const chartData: PriceDataPoint[] = points.map((p) => ({
+    timestamp: new Date(p.timestamp),
+    yesPrice: p.lastPrice / 100,
+    volume: p.volume,
+    yesBid: p.yesBid / 100,
+    yesAsk: p.yesAsk / 100,
+  }));
+
+  const latest = points[points.length - 1];
+  const first = points[0];
+  const change = latest && first ? latest.lastPrice - first.lastPrice : 0;
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-white">{formatStrike(bet.strike)}</h3>
+          <p className="text-xs text-slate-500 font-mono">{bet.ticker}</p>
+        </div>
+        <div className="flex gap-1 text-xs">
+          {(Object.keys(RANGES) as RangeId[]).map((id) => (
+            <button
+              key={id}
+              onClick={() => setRange(id)}
+              className={`px-2 py-1 rounded transition-colors ${
+                range === id
+                  ? 'bg-slate-700 text-white'
+                  : 'text-slate-400 hover:text-white'
+              }`}
+            >
+              {id}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Latest recorded quote */}
+      <div className="grid grid-cols-5 gap-2 mb-3 text-xs">
+        <div>
+          <p className="text-slate-500">Last</p>
+          <p className="text-white font-mono">
+            {latest ? latest.lastPrice : bet.lastPrice}¢
+            {change !== 0 && (
+              <span
+                className={`ml-1 ${change > 0 ? 'text-profit-500' : 'text-loss-500'}`}
+              >
+                {change > 0 ? '+' : ''}
+                {change}
+              </span>
+            )}
+          </p>
+        </div>
+        <div>
+          <p className="text-slate-500">Bid</p>
+          <p className="text-profit-400 font-mono">
+            {latest ? `${latest.yesBid}¢` : '—'}
+          </p>
+        </div>
+        <div>
+          <p className="text-slate-500">Ask</p>
+          <p className="text-loss-400 font-mono">{latest ? `${latest.yesAsk}¢` : '—'}</p>
+        </div>
+        <div>
+          <p className="text-slate-500">Volume</p>
+          <p className="text-slate-300 font-mono">
+            {(latest ? latest.volume : bet.volume).toLocaleString()}
+          </p>
+        </div>
+        <div>
+          <p className="text-slate-500">Open Int.</p>
+          <p className="text-slate-300 font-mono">
+            {latest ? latest.openInterest.toLocaleString() : '—'}
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-[150px] bg-slate-800/50 rounded animate-pulse" />
+      ) : error ? (
+        <p className="text-loss-400 text-sm">{error}</p>
+      ) : chartData.length < 2 ? (
+        <p className="text-xs text-slate-500 py-8 text-center">
+          Not enough recorded history for this range yet. Quotes are recorded while the
+          server is connected to the Kalshi WebSocket.
+        </p>
+      ) : (
+        <>
+          <PriceChart data={chartData} />
+          <p className="text-[10px] text-slate-500 mt-1">
+            Line: last price • Band: bid/ask spread • {points.length} points at{' '}
+            {RANGES[range].interval}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,8 +2,16 @@
 // Export all modular components for the EarningsCallDetail page
 
 export { WordBetsTable } from './WordBetsTable';
+export { WordDetailPanel } from './WordDetailPanel';
 export { BetForm } from './BetForm';
+export { BasketTicket } from './BasketTicket';
+export { OrderBookLadder } from './OrderBookLadder';
+export { OpenOrdersPanel } from './OpenOrdersPanel';
+export { TriggerOrdersPanel } from './TriggerOrdersPanel';
+export { AlertsPanel } from './AlertsPanel';
+export { RiskLimitsPanel } from './RiskLimitsPanel';
 export { TranscriptsTab } from './TranscriptsTab';
+export { TranscriptSpeakerView } from './TranscriptSpeakerView';
 export { NotesTab } from './NotesTab';
 export { HistoryTab } from './HistoryTab';
 export { QuickStats } from './QuickStats';
@@ -1,12 +1,13 @@
 // Custom hook for fetching earnings call data
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { getMarkets, type KalshiMarket } from '@/lib/api/kalshi';
+import { getMarkets, marketToStrike, type KalshiMarket } from '@/lib/api/kalshi';
 import {
   getTranscriptsForCompany,
   getNotesForEvent,
   getAllBets,
   getNewsForWords,
   getHistoricalAnalysis,
+  getMentionProbabilities,
   getEarningsEvent,
   type Transcript,
   type ResearchNote,
@@ -14,9 +15,19 @@ import {
   type NewsResult,
   type QuarterlyAnalysis,
   type EarningsEvent,
+  type MentionProbability,
 } from '@/lib/api/data';
-import { countOccurrences } from '@/lib/utils/wordAnalysis';
-import { useKalshiWebSocket, type TickerUpdate } from './useKalshiWebSocket';
+import {
+  evaluateStrikeHistory,
+  parseMentionStrike,
+  type MentionStrike,
+} from '@/lib/utils/mentionStrike';
+import {
+  useKalshiWebSocket,
+  type TickerUpdate,
+  type OrderBookUpdate,
+  type InboxAlert,
+} from './useKalshiWebSocket';
 
 // News recency breakdown
 export interface NewsRecency {
@@ -29,16 +40,22 @@ export interface NewsRecency {
 export interface WordBet {
   ticker: string;
   word: string;
+  strike: MentionStrike; // Parsed alternatives and minimum count
   chance: number;      // Last traded price (displayed as %)
   yesPrice: number;    // Best bid price (for placing YES orders)
   noPrice: number;     // Best bid price (for placing NO orders)
   lastPrice: number;   // Last traded price (same as chance)
   priceChange: number;
   volume: number;
-  transcriptCount: number;
+  transcriptCount: number;   // Mentions of any alternative across all transcripts
+  transcriptHits: number;    // Transcripts in which the strike would have resolved YES
+  transcriptsChecked: number;
   trending: boolean;
   newsCount: number;
   newsRecency: NewsRecency;
+  model: MentionProbability | null; // Historical base-rate estimate
+  modelProbability: number | null; // Model P(YES) as % (0-100)
+  edge: number | null;       // modelProbability - chance, in points
 }
 
 interface UseEarningsDataResult {
@@ -78,6 +95,28 @@ interface UseEarningsDataResult {
   // Real-time WebSocket data
   isWebSocketConnected: boolean;
   isKalshiLive: boolean;
+  orderbooks: Map<string, OrderBookUpdate>;
+  subscribeOrderbook: (marketTickers: string[]) => void;
+  unsubscribeOrderbook: (marketTickers: string[]) => void;
+
+  // Alerts pushed by the server
+  alerts: InboxAlert[];
+  unreadAlertCount: number;
+  notificationPermission: NotificationPermission | 'unsupported';
+  markAlertsRead: () => void;
+  dismissAlert: (alertId: string) => void;
+  clearAlerts: () => void;
+  requestNotificationPermission: () => Promise<void>;
+}
+
+// Model probability and edge against the Kalshi implied probability (both in %)
+function modelFields(
+  model: MentionProbability | undefined,
+  chance: number
+): Pick<WordBet, 'model' | 'modelProbability' | 'edge'> {
+  if (!model) return { model: null, modelProbability: null, edge: null };
+  const modelProbability = Math.round(model.probability * 100);
+  return { model, modelProbability, edge: modelProbability - chance };
 }
 
 export function useEarningsData(company: string, eventTicker: string): UseEarningsDataResult {
@@ -95,6 +134,9 @@ export function useEarningsData(company: string, eventTicker: string): UseEarnin
   const [betHistory, setBetHistory] = useState<BetRecord[]>([]);
   const [quarterlyAnalysis, setQuarterlyAnalysis] = useState<QuarterlyAnalysis[]>([]);
 
+  // Base-rate model estimates keyed by market ticker
+  const [modelData, setModelData] = useState<Record<string, MentionProbability>>({});
+
   // News data
   const [newsData, setNewsData] = useState<Record<string, NewsResult>>({});
   const [loadingNews, setLoadingNews] = useState(false);
@@ -106,8 +148,19 @@ export function useEarningsData(company: string, eventTicker: string): UseEarnin
   const {
     isConnected: isWebSocketConnected,
     isKalshiConnected: isKalshiLive,
+    orderbooks,
     subscribe,
+    subscribeOrderbook,
+    unsubscribeOrderbook,
+    alerts,
+    unreadAlertCount,
+    notificationPermission,
+    markAlertsRead,
+    dismissAlert,
+    clearAlerts,
+    requestNotificationPermission,
     onTicker,
+    onBetUpdate,
   } = useKalshiWebSocket();
 
   // Handle real-time ticker updates
@@ -137,6 +190,18 @@ export function useEarningsData(company: string, eventTicker: string): UseEarnin
     });
   }, [onTicker]);
 
+  // Apply reconciled bet records (fills, cancels, settlement) for this event
+  useEffect(() => {
+    onBetUpdate((bet: BetRecord) => {
+      if (bet.eventTicker !== eventTicker) return;
+      setBetHistory((prev) =>
+        prev.some((b) => b.betId === bet.betId)
+          ? prev.map((b) => (b.betId === bet.betId ? bet : b))
+          : [bet, ...prev]
+      );
+    });
+  }, [onBetUpdate, eventTicker]);
+
   // Subscribe to WebSocket updates when markets are loaded
   useEffect(() => {
     if (markets.length > 0 && isWebSocketConnected) {
@@ -194,17 +259,15 @@ export function useEarningsData(company: string, eventTicker: string): UseEarnin
       if (!eventTicker) return;
 
       try {
-        const [transcriptsData, notesData, betsData, analysisData] = await Promise.all([
+        const [transcriptsData, notesData, betsData] = await Promise.all([
           getTranscriptsForCompany(eventTicker).catch(() => []),
           getNotesForEvent(eventTicker).catch(() => []),
           getAllBets().catch(() => []),
-          getHistoricalAnalysis(eventTicker).catch(() => []),
         ]);
 
         setTranscripts(transcriptsData);
         setNotes(notesData);
         setBetHistory(betsData.filter((b) => b.eventTicker === eventTicker));
-        setQuarterlyAnalysis(analysisData);
       } catch (err) {
         console.error('Failed to fetch persisted data:', err);
       }
@@ -230,11 +293,9 @@ export function useEarningsData(company: string, eventTicker: string): UseEarnin
     // Get words from Kalshi markets or earnings event markets
     let words: string[] = [];
     if (markets.length > 0) {
-      words = markets.map(
-        (m) => m.yes_sub_title || m.subtitle || m.ticker.split('-').pop() || ''
-      );
+      words = markets.map((m) => marketToStrike(m).label);
     } else if (earningsEvent?.markets?.length) {
-      words = earningsEvent.markets.map((m) => m.word);
+      words = earningsEvent.markets.map((m) => parseMentionStrike(m.word).label);
     }
 
     if (words.length === 0) return;
@@ -266,6 +327,9 @@ export function useEarningsData(company: string, eventTicker: string): UseEarnin
   // Default recency for when no news data available
   const defaultRecency: NewsRecency = { today: 0, thisWeek: 0, total: 0 };
 
+  // Transcript bodies evaluated with the shared MENTION matcher
+  const transcriptTexts = transcripts.map((t) => t.content);
+
   // Convert markets to word bets with analysis
   // Use Kalshi markets if available, otherwise use earnings event markets from DynamoDB
   // Note: Kalshi API returns prices as integers (0-100), not decimals
@@ -274,42 +338,44 @@ export function useEarningsData(company: string, eventTicker: string): UseEarnin
   const wordBets: WordBet[] = markets.length > 0
     ? markets.map((m) => {
         const word = m.yes_sub_title || m.subtitle || m.ticker.split('-').pop() || '';
+        const strike = marketToStrike(m);
         const lastPrice = m.last_price || 0;
         const yesPrice = m.yes_bid || lastPrice;
         const noPrice = m.no_bid || (100 - lastPrice);
         const prevPrice = m.previous_price || lastPrice;
 
-        // Count word in transcripts
-        const transcriptCount = transcripts.reduce((sum, t) => {
-          return sum + countOccurrences(t.content, word);
-        }, 0);
+        // Evaluate the strike (alternatives + minimum count) against transcripts
+        const history = evaluateStrikeHistory(transcriptTexts, strike);
 
         // Get news data
-        const news = newsData[word.toLowerCase()];
+        const news = newsData[strike.label.toLowerCase()];
 
         return {
           ticker: m.ticker,
           word,
+          strike,
           chance: lastPrice,      // Display the last traded price as %
           yesPrice,               // Best bid for YES
           noPrice,                // Best bid for NO
           lastPrice,
           priceChange: lastPrice - prevPrice,
           volume: m.volume || 0,
-          transcriptCount,
+          transcriptCount: history.totalCount,
+          transcriptHits: history.hits,
+          transcriptsChecked: history.evaluated,
           trending: news?.trending || false,
           newsCount: news?.articleCount || 0,
           newsRecency: news?.recency || defaultRecency,
+          ...modelFields(modelData[m.ticker], lastPrice),
         };
       })
     : (earningsEvent?.markets || []).map((m) => {
-        // Count word in transcripts
-        const transcriptCount = transcripts.reduce((sum, t) => {
-          return sum + countOccurrences(t.content, m.word);
-        }, 0);
+        // Evaluate the strike (alternatives + minimum count) against transcripts
+        const strike = parseMentionStrike(m.word);
+        const history = evaluateStrikeHistory(transcriptTexts, strike);
 
         // Get news data
-        const news = newsData[m.word.toLowerCase()];
+        const news = newsData[strike.label.toLowerCase()];
 
         // Use lastPrice for chance (Kalshi %), yesPrice/noPrice for order buttons
         const lastPrice = m.lastPrice || m.yesPrice;
@@ -317,19 +383,51 @@ export function useEarningsData(company: string, eventTicker: string): UseEarnin
         return {
           ticker: m.ticker,
           word: m.word,
+          strike,
           chance: lastPrice,      // Display the last traded price as %
           yesPrice: m.yesPrice,   // Best bid for YES
           noPrice: m.noPrice,     // Best bid for NO
           lastPrice,
           priceChange: 0,         // No price history in stored data
           volume: m.volume,
-          transcriptCount,
+          transcriptCount: history.totalCount,
+          transcriptHits: history.hits,
+          transcriptsChecked: history.evaluated,
           trending: news?.trending || false,
           newsCount: news?.articleCount || 0,
           newsRecency: news?.recency || defaultRecency,
+          ...modelFields(modelData[m.ticker], lastPrice),
         };
       });
 
+  // Quarterly analysis with per-section counts for the tracked strikes
+  // (keyed on the serialized strikes so live price updates don't refetch)
+  const trackedStrikesKey = JSON.stringify(wordBets.map((b) => b.strike));
+  useEffect(() => {
+    if (!eventTicker) return;
+
+    const strikes: MentionStrike[] = JSON.parse(trackedStrikesKey);
+    getHistoricalAnalysis(eventTicker, strikes, earningsEvent)
+      .then(setQuarterlyAnalysis)
+      .catch(() => setQuarterlyAnalysis([]));
+  }, [eventTicker, trackedStrikesKey, transcripts.length, earningsEvent]);
+
+  // Base-rate model for every market (same serialized key as above)
+  const modelMarketsKey = JSON.stringify(
+    wordBets.map((b) => ({ ticker: b.ticker, strike: b.strike }))
+  );
+  useEffect(() => {
+    if (!eventTicker) return;
+
+    const modelMarkets: Array<{ ticker: string; strike: MentionStrike }> =
+      JSON.parse(modelMarketsKey);
+    if (modelMarkets.length === 0) return;
+
+    getMentionProbabilities(eventTicker, modelMarkets)
+      .then(setModelData)
+      .catch((err) => console.error('Failed to fetch model probabilities:', err));
+  }, [eventTicker, modelMarketsKey, transcripts]);
+
   return {
     earningsEvent,
     markets,
@@ -348,5 +446,15 @@ export function useEarningsData(company: string, eventTicker: string): UseEarnin
     refreshNews,
     isWebSocketConnected,
     isKalshiLive,
+    orderbooks,
+    subscribeOrderbook,
+    unsubscribeOrderbook,
+    alerts,
+    unreadAlertCount,
+    notificationPermission,
+    markAlertsRead,
+    dismissAlert,
+    clearAlerts,
+    requestNotificationPermission,
   };
 }
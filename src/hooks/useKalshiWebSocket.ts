@@ -2,6 +2,7 @@
 // Connects to the server's WebSocket proxy for market data
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { type BetRecord } from '@/lib/api/data';
 
 // Ticker update from Kalshi WebSocket
 export interface TickerUpdate {
@@ -19,6 +20,7 @@ export interface TickerUpdate {
 // Fill update (user's own trades)
 export interface FillUpdate {
   trade_id: string;
+  order_id: string;
   ticker: string;
   side: 'yes' | 'no';
   action: 'buy' | 'sell';
@@ -28,6 +30,41 @@ export interface FillUpdate {
   created_time: string;
 }
 
+// Order book depth (resting bids for both sides, best price first)
+export interface OrderBookUpdate {
+  market_ticker: string;
+  yes: Array<[number, number]>; // [price, quantity]
+  no: Array<[number, number]>;
+  updated_at: string;
+}
+
+// Alert rule hit pushed by the server's alert engine
+export interface AlertMessage {
+  alertId: string;
+  ruleId: string;
+  type: 'price_cross' | 'volume_spike' | 'spread_tight' | 'news_trending' | 'closing_soon';
+  marketTicker?: string;
+  word?: string;
+  eventTicker?: string;
+  title: string;
+  message: string;
+  firedAt: string;
+}
+
+// Alert as kept in the in-app inbox
+export interface InboxAlert extends AlertMessage {
+  read: boolean;
+}
+
+// Oldest alerts are dropped past this
+const MAX_INBOX_ALERTS = 50;
+
+type NotificationState = NotificationPermission | 'unsupported';
+
+function currentNotificationPermission(): NotificationState {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
 interface UseKalshiWebSocketOptions {
   // Auto-connect on mount
   autoConnect?: boolean;
@@ -44,16 +81,29 @@ interface UseKalshiWebSocketResult {
 
   // Latest updates (by market ticker)
   tickerUpdates: Map<string, TickerUpdate>;
+  orderbooks: Map<string, OrderBookUpdate>;
+
+  // Alert inbox (newest first) and browser notification permission
+  alerts: InboxAlert[];
+  unreadAlertCount: number;
+  notificationPermission: NotificationState;
 
   // Methods
   connect: () => void;
   disconnect: () => void;
   subscribe: (marketTickers: string[]) => void;
   unsubscribe: (marketTickers: string[]) => void;
+  subscribeOrderbook: (marketTickers: string[]) => void;
+  unsubscribeOrderbook: (marketTickers: string[]) => void;
+  markAlertsRead: () => void;
+  dismissAlert: (alertId: string) => void;
+  clearAlerts: () => void;
+  requestNotificationPermission: () => Promise<void>;
 
   // Callbacks for real-time events
   onTicker: (callback: (update: TickerUpdate) => void) => void;
   onFill: (callback: (update: FillUpdate) => void) => void;
+  onBetUpdate: (callback: (bet: BetRecord) => void) => void;
 }
 
 export function useKalshiWebSocket(
@@ -70,6 +120,11 @@ export function useKalshiWebSocket(
   const [tickerUpdates, setTickerUpdates] = useState<Map<string, TickerUpdate>>(
     new Map()
   );
+  const [orderbooks, setOrderbooks] = useState<Map<string, OrderBookUpdate>>(new Map());
+  const [alerts, setAlerts] = useState<InboxAlert[]>([]);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationState>(
+    currentNotificationPermission
+  );
 
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectAttemptsRef = useRef(0);
@@ -79,6 +134,7 @@ export function useKalshiWebSocket(
   // Callback refs for real-time events
   const onTickerCallbackRef = useRef<((update: TickerUpdate) => void) | null>(null);
   const onFillCallbackRef = useRef<((update: FillUpdate) => void) | null>(null);
+  const onBetUpdateCallbackRef = useRef<((bet: BetRecord) => void) | null>(null);
 
   // WebSocket URL (same host, /ws path)
   const getWsUrl = useCallback(() => {
@@ -138,6 +194,15 @@ export function useKalshiWebSocket(
               }
               break;
 
+            case 'orderbook':
+              // Replace the market's book (the server sends the full book)
+              setOrderbooks((prev) => {
+                const next = new Map(prev);
+                next.set(message.data.market_ticker, message.data);
+                return next;
+              });
+              break;
+
             case 'fill':
               // Call fill callback if registered
               if (onFillCallbackRef.current) {
@@ -145,6 +210,25 @@ export function useKalshiWebSocket(
               }
               break;
 
+            case 'bet_update':
+              // Bet record moved on by the server's order reconciler
+              if (onBetUpdateCallbackRef.current) {
+                onBetUpdateCallbackRef.current(message.data);
+              }
+              break;
+
+            case 'alert': {
+              // Alert rule hit: add to the inbox and notify if allowed
+              const alert: AlertMessage = message.data;
+              setAlerts((prev) =>
+                [{ ...alert, read: false }, ...prev].slice(0, MAX_INBOX_ALERTS)
+              );
+              if (currentNotificationPermission() === 'granted') {
+                new Notification(alert.title, { body: alert.message, tag: alert.alertId });
+              }
+              break;
+            }
+
             case 'subscribed':
               console.log('Subscribed to markets:', message.market_tickers);
               break;
@@ -237,6 +321,51 @@ export function useKalshiWebSocket(
     }
   }, []);
 
+  // Subscribe to order book depth
+  const subscribeOrderbook = useCallback((marketTickers: string[]) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(
+        JSON.stringify({
+          cmd: 'subscribe_orderbook',
+          market_tickers: marketTickers,
+        })
+      );
+    }
+  }, []);
+
+  // Unsubscribe from order book depth
+  const unsubscribeOrderbook = useCallback((marketTickers: string[]) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(
+        JSON.stringify({
+          cmd: 'unsubscribe_orderbook',
+          market_tickers: marketTickers,
+        })
+      );
+    }
+  }, []);
+
+  // Mark every inbox alert as seen
+  const markAlertsRead = useCallback(() => {
+    setAlerts((prev) =>
+      prev.some((a) => !a.read) ? prev.map((a) => ({ ...a, read: true })) : prev
+    );
+  }, []);
+
+  const dismissAlert = useCallback((alertId: string) => {
+    setAlerts((prev) => prev.filter((a) => a.alertId !== alertId));
+  }, []);
+
+  const clearAlerts = useCallback(() => {
+    setAlerts([]);
+  }, []);
+
+  // Ask the browser for permission to show alert notifications
+  const requestNotificationPermission = useCallback(async () => {
+    if (typeof Notification === 'undefined') return;
+    setNotificationPermission(await Notification.requestPermission());
+  }, []);
+
   // Register ticker callback
   const onTicker = useCallback((callback: (update: TickerUpdate) => void) => {
     onTickerCallbackRef.current = callback;
@@ -247,6 +376,11 @@ export function useKalshiWebSocket(
     onFillCallbackRef.current = callback;
   }, []);
 
+  // Register bet update callback
+  const onBetUpdate = useCallback((callback: (bet: BetRecord) => void) => {
+    onBetUpdateCallbackRef.current = callback;
+  }, []);
+
   // Auto-connect on mount
   useEffect(() => {
     if (autoConnect) {
@@ -262,11 +396,22 @@ export function useKalshiWebSocket(
     isConnected,
     isKalshiConnected,
     tickerUpdates,
+    orderbooks,
+    alerts,
+    unreadAlertCount: alerts.filter((a) => !a.read).length,
+    notificationPermission,
     connect,
     disconnect,
     subscribe,
     unsubscribe,
+    subscribeOrderbook,
+    unsubscribeOrderbook,
+    markAlertsRead,
+    dismissAlert,
+    clearAlerts,
+    requestNotificationPermission,
     onTicker,
     onFill,
+    onBetUpdate,
   };
 }
@@ -1,6 +1,16 @@
 // Data API Client - Transcripts, Notes, Bets, News
 // Connects to Express server endpoints for DynamoDB persistence
 
+import {
+  countMentionsBySection,
+  type SectionCounts,
+  type TranscriptParticipant,
+  type TranscriptSegment,
+} from '@/lib/utils/transcriptSegments';
+import type { MentionStrike } from '@/lib/utils/mentionStrike';
+import { betFees, netPnl } from '@/lib/utils/fees';
+import { eventCallDate, transcriptForCall } from '@/lib/utils/eventCalls';
+
 const API_BASE = '/api';
 
 // Types
@@ -34,6 +44,15 @@ export interface Transcript {
   parsedEarningsDate?: string;
 }
 
+export interface TranscriptSegments {
+  eventTicker: string;
+  date: string;
+  participants: TranscriptParticipant[];
+  segments: TranscriptSegment[];
+  stored: boolean; // false when segmented on the fly from transcript content
+  createdAt?: string;
+}
+
 export interface ResearchNote {
   PK: string;
   SK: string;
@@ -49,6 +68,7 @@ export interface BetRecord {
   PK: string;
   SK: string;
   betId: string;
+  basketId?: string; // Shared by every leg of a basket order
   eventTicker: string;
   marketTicker: string;
   company: string;
@@ -57,12 +77,17 @@ export interface BetRecord {
   action: 'buy' | 'sell';
   count: number;
   price: number;
-  status: 'pending' | 'filled' | 'cancelled';
+  modelProbability?: number; // Model P(YES) in % at entry
+  status: 'pending' | 'partial' | 'filled' | 'cancelled';
   orderId?: string;
+  filledCount?: number; // Contracts filled so far (set by the order reconciler)
+  averagePrice?: number; // Average fill price in cents for the side bought
+  fees?: number; // Trading fees paid on the fills, in cents
+  reconciledAt?: string;
   createdAt: string;
   settledAt?: string;
   result?: 'win' | 'loss' | 'void';
-  pnl?: number;
+  pnl?: number; // Cents, net of fees
 }
 
 export interface NewsRecency {
@@ -110,6 +135,7 @@ export interface EarningsEvent {
     lastPrice: number;
     volume: number;
     status: string;
+    result?: 'yes' | 'no'; // Settlement outcome once determined
   }>;
   totalVolume: number;
   marketCount: number;
@@ -177,6 +203,48 @@ export async function getTranscriptsForCompany(
   return fetchApi(`/transcripts/${encodeURIComponent(eventTicker)}`);
 }
 
+export async function getTranscriptSegments(
+  eventTicker: string,
+  date: string
+): Promise<TranscriptSegments | null> {
+  try {
+    return await fetchApi(
+      `/transcripts/${encodeURIComponent(eventTicker)}/${encodeURIComponent(date)}/segments`
+    );
+  } catch {
+    return null;
+  }
+}
+
+export async function getTranscriptSegmentsForCompany(
+  eventTicker: string
+): Promise<TranscriptSegments[]> {
+  return fetchApi(`/transcripts/${encodeURIComponent(eventTicker)}/segments`);
+}
+
+export interface TranscriptWordCount {
+  total: number;
+  hits: number; // Transcripts in which the strike would have resolved YES
+  minCount: number;
+  byTranscript: Array<{
+    date: string;
+    quarter: string;
+    year: number;
+    count: number;
+    resolvesYes: boolean;
+  }>;
+}
+
+export async function getTranscriptWordCounts(
+  eventTicker: string,
+  words: string[]
+): Promise<Record<string, TranscriptWordCount>> {
+  return fetchApi(`/transcripts/${encodeURIComponent(eventTicker)}/word-counts`, {
+    method: 'POST',
+    body: JSON.stringify({ words }),
+  });
+}
+
 export async function getAllTranscripts(): Promise<Transcript[]> {
   return fetchApi('/transcripts');
 }
@@ -247,6 +315,7 @@ export async function deleteNote(eventTicker: string, timestamp: string): Promis
 
 export async function saveBet(data: {
   betId: string;
+  basketId?: string;
   eventTicker: string;
   marketTicker: string;
   company: string;
@@ -255,6 +324,7 @@ export async function saveBet(data: {
   action: 'buy' | 'sell';
   count: number;
   price: number;
+  modelProbability?: number;
 }): Promise<BetRecord> {
   return fetchApi('/bets', {
     method: 'POST',
@@ -286,6 +356,18 @@ export async function getAllBets(status?: string): Promise<BetRecord[]> {
   return fetchApi(`/bets${query}`);
 }
 
+export interface ReconcileSummary {
+  checked: number;
+  updated: BetRecord[];
+  unmatched: number; // Open bets with no Kalshi order found
+  settled: number;
+}
+
+// Sync open and unsettled bets with Kalshi orders, fills and market results
+export async function reconcileBets(): Promise<ReconcileSummary> {
+  return fetchApi('/bets/reconcile', { method: 'POST' });
+}
+
 // ===========================================
 // News Functions (Google News RSS)
 // ===========================================
@@ -377,6 +459,384 @@ export async function updateEarningsMarkets(
   );
 }
 
+// ===========================================
+// Model Functions (historical base rates)
+// ===========================================
+
+export interface MentionProbability {
+  probability: number; // 0-1
+  companyRate: number | null; // Recency-weighted YES rate, null without history
+  peerRate: number; // Smoothed peer prior
+  transcripts: number; // Company transcripts used
+  effectiveSamples: number; // Sum of recency weights
+  peerCompanies: number; // Peer companies with transcripts
+}
+
+export async function getMentionProbabilities(
+  eventTicker: string,
+  markets: Array<{ ticker: string; strike: MentionStrike }>
+): Promise<Record<string, MentionProbability>> {
+  return fetchApi(`/model/${encodeURIComponent(eventTicker)}/probabilities`, {
+    method: 'POST',
+    body: JSON.stringify({ markets }),
+  });
+}
+
+// ===========================================
+// Market Price History Functions
+// ===========================================
+
+export type HistoryInterval = '5m' | '15m' | '1h' | '4h' | '1d';
+
+export interface PriceHistoryPoint {
+  timestamp: string; // ISO start of the interval
+  yesBid: number; // Cents
+  yesAsk: number;
+  lastPrice: number;
+  volume: number;
+  openInterest: number;
+}
+
+export interface PriceHistory {
+  ticker: string;
+  interval: HistoryInterval;
+  from: string;
+  to: string;
+  points: PriceHistoryPoint[];
+}
+
+export async function getPriceHistory(
+  ticker: string,
+  options: { from?: string; to?: string; interval?: HistoryInterval } = {}
+): Promise<PriceHistory> {
+  const params = new URLSearchParams();
+  if (options.from) params.set('from', options.from);
+  if (options.to) params.set('to', options.to);
+  if (options.interval) params.set('interval', options.interval);
+  const query = params.toString() ? `?${params.toString()}` : '';
+
+  return fetchApi(`/markets/${encodeURIComponent(ticker)}/history${query}`);
+}
+
+// ===========================================
+// Analytics Functions
+// ===========================================
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number | null; // null for empty bins
+  observedRate: number | null;
+}
+
+export interface CalibrationMetrics {
+  count: number;
+  brier: number | null;
+  logLoss: number | null;
+  bins: ReliabilityBin[];
+}
+
+export interface CalibrationSample {
+  eventTicker: string;
+  company: string;
+  marketTicker: string;
+  word: string;
+  eventDate: string;
+  outcome: 0 | 1; // Kalshi's settlement result
+  model: number; // 0-1
+  modelTranscripts: number;
+  market: number | null; // Last traded price before the call as 0-1, null without one
+}
+
+export interface CalibrationReport {
+  samples: CalibrationSample[];
+  model: CalibrationMetrics;
+  market: CalibrationMetrics;
+  paired: { count: number; modelBrier: number | null; marketBrier: number | null };
+  skipped: { noDate: number; noOutcome: number };
+  generatedAt: string;
+}
+
+export async function getCalibrationReport(): Promise<CalibrationReport> {
+  return fetchApi('/analytics/calibration');
+}
+
+export type BacktestSide = 'yes' | 'no' | 'either';
+
+export interface BacktestStrategy {
+  name: string;
+  side: BacktestSide;
+  minEdge: number; // Points
+  contracts: number;
+  minPrice: number; // Cents
+  maxPrice: number;
+  minTranscripts: number;
+}
+
+export interface BacktestTrade {
+  eventTicker: string;
+  company: string;
+  marketTicker: string;
+  word: string;
+  eventDate: string;
+  side: 'yes' | 'no';
+  contracts: number;
+  price: number; // Cents
+  fee: number; // Cents
+  model: number; // 0-100, for the side bought
+  edge: number; // Points
+  won: boolean;
+  pnl: number; // Cents, net of fees
+}
+
+export interface BacktestEventResult {
+  eventTicker: string;
+  company: string;
+  eventDate: string;
+  trades: number;
+  wins: number;
+  cost: number; // Cents
+  fees: number;
+  pnl: number;
+  cumulativePnl: number;
+  drawdown: number;
+}
+
+export interface BacktestSummary {
+  markets: number;
+  trades: number;
+  wins: number;
+  hitRate: number | null;
+  contracts: number;
+  cost: number; // Cents
+  fees: number;
+  pnl: number;
+  roi: number | null;
+  maxDrawdown: number; // Cents
+  skipped: { noDate: number; noOutcome: number; noQuote: number; noSignal: number };
+}
+
+export interface BacktestResult {
+  strategy: BacktestStrategy;
+  trades: BacktestTrade[];
+  events: BacktestEventResult[];
+  summary: BacktestSummary;
+  generatedAt: string;
+}
+
+export async function runBacktest(
+  strategy: Partial<BacktestStrategy>
+): Promise<BacktestResult> {
+  return fetchApi('/analytics/backtest', {
+    method: 'POST',
+    body: JSON.stringify({ strategy }),
+  });
+}
+
+export interface PerformanceBet {
+  betId: string;
+  eventTicker: string;
+  company: string;
+  word: string;
+  side: 'yes' | 'no';
+  eventDate: string; // Call date of the bet's event
+  contracts: number;
+  price: number; // Cents
+  cost: number; // Cents, including fees
+  fees: number;
+  pnl: number; // Cents, net of fees
+  won: boolean;
+  edge: number | null; // Points, for the side bought
+  edgeSource: 'entry' | 'replay' | null;
+}
+
+export interface PerformanceStats {
+  bets: number;
+  wins: number;
+  winRate: number | null;
+  contracts: number;
+  cost: number; // Cents
+  fees: number;
+  pnl: number;
+  roi: number | null;
+  avgEdge: number | null; // Points
+  edgeBets: number;
+}
+
+export interface PerformanceGroup extends PerformanceStats {
+  key: string;
+}
+
+export interface PerformanceEventResult {
+  eventTicker: string;
+  company: string;
+  eventDate: string;
+  bets: number;
+  wins: number;
+  pnl: number; // Cents
+  cumulativePnl: number;
+  drawdown: number;
+}
+
+export interface PerformanceReport {
+  summary: PerformanceStats & { maxDrawdown: number; open: number; voided: number };
+  byCompany: PerformanceGroup[];
+  byWord: PerformanceGroup[];
+  bySide: PerformanceGroup[];
+  byPriceBucket: PerformanceGroup[];
+  events: PerformanceEventResult[];
+  bets: PerformanceBet[];
+  generatedAt: string;
+}
+
+export async function getPerformanceReport(): Promise<PerformanceReport> {
+  return fetchApi('/analytics/performance');
+}
+
+// ===========================================
+// Risk Limit Functions
+// ===========================================
+
+// Pre-trade limits enforced on every order, amounts in cents
+export interface RiskLimits {
+  maxMarketExposure: number;
+  maxEventExposure: number;
+  dailyLossLimit: number;
+  maxContractsPerOrder: number;
+}
+
+export interface RiskLimitsResponse {
+  limits: RiskLimits;
+  strikePositionLimit: number; // Kalshi's fixed per-strike limit
+  updatedAt: string | null; // null while the defaults apply
+}
+
+export async function getRiskLimits(): Promise<RiskLimitsResponse> {
+  return fetchApi('/risk/limits');
+}
+
+export async function saveRiskLimits(
+  limits: Partial<RiskLimits>
+): Promise<RiskLimitsResponse> {
+  return fetchApi('/risk/limits', {
+    method: 'PUT',
+    body: JSON.stringify(limits),
+  });
+}
+
+// ===========================================
+// Trigger Order Functions
+// ===========================================
+
+// Order the server submits once a price or time condition is met
+export type TriggerCondition =
+  | {
+      type: 'price';
+      field: 'yes_bid' | 'yes_ask' | 'no_bid' | 'no_ask' | 'last_price';
+      operator: 'lte' | 'gte';
+      value: number; // Cents
+    }
+  | { type: 'time'; at: string };
+
+export interface TriggerOrder {
+  triggerId: string;
+  eventTicker: string;
+  marketTicker: string;
+  company: string;
+  word: string;
+  condition: TriggerCondition;
+  order: {
+    action: 'buy' | 'sell';
+    side: 'yes' | 'no';
+    count: number;
+    price: number;
+  };
+  status: 'active' | 'triggered' | 'submitted' | 'failed' | 'cancelled';
+  orderId?: string;
+  error?: string;
+  triggeredAt?: string;
+  log: Array<{
+    at: string;
+    event: 'created' | 'triggered' | 'submitted' | 'failed' | 'cancelled';
+    message: string;
+  }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export async function getTriggers(eventTicker?: string): Promise<TriggerOrder[]> {
+  const query = eventTicker ? `?eventTicker=${encodeURIComponent(eventTicker)}` : '';
+  const data = await fetchApi<{ triggers: TriggerOrder[] }>(`/triggers${query}`);
+  return data.triggers;
+}
+
+export async function createTrigger(
+  trigger: Pick<
+    TriggerOrder,
+    'eventTicker' | 'marketTicker' | 'company' | 'word' | 'condition' | 'order'
+  >
+): Promise<TriggerOrder> {
+  return fetchApi('/triggers', {
+    method: 'POST',
+    body: JSON.stringify(trigger),
+  });
+}
+
+export async function cancelTrigger(triggerId: string): Promise<void> {
+  await fetchApi(`/triggers/${encodeURIComponent(triggerId)}`, { method: 'DELETE' });
+}
+
+// ===========================================
+// Alert Functions
+// ===========================================
+
+// Rule the server evaluates; hits arrive over the WebSocket as alerts
+export type AlertCondition =
+  | {
+      type: 'price_cross';
+      field: 'yes_bid' | 'yes_ask' | 'no_bid' | 'no_ask' | 'last_price';
+      direction: 'above' | 'below';
+      value: number; // Cents
+    }
+  | { type: 'volume_spike'; contracts: number; windowMinutes: number }
+  | { type: 'spread_tight'; maxSpread: number }
+  | { type: 'news_trending' }
+  | { type: 'closing_soon'; minutes: number };
+
+export interface AlertRule {
+  ruleId: string;
+  marketTicker?: string; // One market, or every market for the word
+  word?: string;
+  company?: string;
+  condition: AlertCondition;
+  cooldownMinutes: number;
+  lastFiredAt?: string;
+  closesFired?: string[]; // Events a closing_soon rule has fired for
+  createdAt: string;
+  updatedAt: string;
+}
+
+export async function getAlertRules(): Promise<AlertRule[]> {
+  const data = await fetchApi<{ rules: AlertRule[] }>('/alerts');
+  return data.rules;
+}
+
+export async function createAlertRule(
+  rule: Pick<AlertRule, 'marketTicker' | 'word' | 'company' | 'condition'> & {
+    cooldownMinutes?: number;
+  }
+): Promise<AlertRule> {
+  return fetchApi('/alerts', {
+    method: 'POST',
+    body: JSON.stringify(rule),
+  });
+}
+
+export async function deleteAlertRule(ruleId: string): Promise<void> {
+  await fetchApi(`/alerts/${encodeURIComponent(ruleId)}`, { method: 'DELETE' });
+}
+
 // ===========================================
 // Historical Analysis Helpers
 // ===========================================
@@ -389,17 +849,29 @@ export interface QuarterlyAnalysis {
   betsPlaced: number;
   betsWon: number;
   betsLost: number;
-  totalPnl: number;
+  totalPnl: number; // Cents, net of fees
+  totalFees: number;
+
+  // Tracked-word mentions split by prepared remarks vs Q&A (keyed by strike label)
+  segmented: boolean; // False when the transcript has no speaker turns
+  wordSections: Record<string, SectionCounts>;
 }
 
 export async function getHistoricalAnalysis(
-  eventTicker: string
+  eventTicker: string,
+  strikes: MentionStrike[] = [],
+  event: EarningsEvent | null = null
 ): Promise<QuarterlyAnalysis[]> {
-  const [transcripts, bets] = await Promise.all([
+  const [transcripts, bets, segmentRecords] = await Promise.all([
     getTranscriptsForCompany(eventTicker),
     getAllBets(),
+    strikes.length > 0
+      ? getTranscriptSegmentsForCompany(eventTicker).catch(() => [])
+      : Promise.resolve([]),
   ]);
 
+  const segmentsByDate = new Map(segmentRecords.map((r) => [r.date, r.segments]));
+
   // Filter bets for this company
   const companyBets = bets.filter((b) => b.eventTicker === eventTicker);
 
@@ -408,6 +880,12 @@ export async function getHistoricalAnalysis(
 
   for (const transcript of transcripts) {
     const key = `${transcript.quarter}-${transcript.year}`;
+    const segments = segmentsByDate.get(transcript.date) || [];
+    const wordSections: Record<string, SectionCounts> = {};
+    for (const strike of strikes) {
+      wordSections[strike.label] = countMentionsBySection(segments, strike.alternatives);
+    }
+
     analysisMap.set(key, {
       quarter: transcript.quarter,
       year: transcript.year,
@@ -417,26 +895,30 @@ export async function getHistoricalAnalysis(
       betsWon: 0,
       betsLost: 0,
       totalPnl: 0,
+      totalFees: 0,
+      segmented: segments.length > 0,
+      wordSections,
     });
   }
 
-  // Add bet stats
-  for (const bet of companyBets) {
-    // Find matching quarter from bet date
-    const betDate = new Date(bet.createdAt);
-    const quarter = `Q${Math.ceil((betDate.getMonth() + 1) / 3)}`;
-    const year = betDate.getFullYear();
-    const key = `${quarter}-${year}`;
-
-    const existing = analysisMap.get(key);
-    if (existing) {
-      existing.betsPlaced++;
+  // Add bet stats. Every bet here was placed on this event, so it belongs to
+  // the event's call, the same attribution the performance report uses
+  const call =
+    event?.eventTicker === eventTicker
+      ? transcriptForCall(transcripts, eventCallDate(event))
+      : undefined;
+  const callAnalysis = call ? analysisMap.get(`${call.quarter}-${call.year}`) : undefined;
+  if (callAnalysis) {
+    for (const bet of companyBets) {
+      callAnalysis.betsPlaced++;
       if (bet.result === 'win') {
-        existing.betsWon++;
-        existing.totalPnl += bet.pnl || 0;
+        callAnalysis.betsWon++;
       } else if (bet.result === 'loss') {
-        existing.betsLost++;
-        existing.totalPnl += bet.pnl || 0;
+        callAnalysis.betsLost++;
+      }
+      if (bet.result === 'win' || bet.result === 'loss') {
+        callAnalysis.totalPnl += netPnl(bet);
+        callAnalysis.totalFees += betFees(bet);
       }
     }
   }
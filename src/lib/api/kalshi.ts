@@ -1,6 +1,8 @@
 // Kalshi API Client
 // Fetches data via the Express proxy server to handle authentication
 
+import { parseMentionStrike, type MentionStrike } from '@/lib/utils/mentionStrike';
+
 const API_BASE = '/api/kalshi';
 
 // Kalshi API Types
@@ -53,6 +55,7 @@ export interface KalshiBalance {
 
 export interface KalshiFill {
   trade_id: string;
+  order_id: string;
   ticker: string;
   side: 'yes' | 'no';
   action: 'buy' | 'sell';
@@ -94,6 +97,32 @@ export interface KalshiOrder {
   remaining_count: number;
 }
 
+// Reason the server's pre-trade risk gate refused an order (amounts in cents)
+export interface RiskViolation {
+  rule:
+    | 'invalid_order'
+    | 'max_contracts'
+    | 'market_exposure'
+    | 'event_exposure'
+    | 'strike_position'
+    | 'daily_loss'
+    | 'risk_data_unavailable';
+  message: string;
+  limit: number;
+  current: number;
+  attempted: number;
+}
+
+export class OrderRejectedError extends Error {
+  constructor(
+    message: string,
+    public violations: RiskViolation[]
+  ) {
+    super(message);
+    this.name = 'OrderRejectedError';
+  }
+}
+
 // API Functions
 async function fetchApi<T>(endpoint: string, options?: RequestInit): Promise<T> {
   const response = await fetch(`${API_BASE}${endpoint}`, {
@@ -106,6 +135,9 @@ async function fetchApi<T>(endpoint: string, options?: RequestInit): Promise<T>
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+    if (Array.isArray(error.violations)) {
+      throw new OrderRejectedError(error.error, error.violations);
+    }
     throw new Error(error.error || `API error: ${response.status}`);
   }
 
@@ -234,10 +266,12 @@ export async function getEarningsCallEvents(): Promise<EarningsCallEvent[]> {
 // Orders
 export async function getOrders(params?: {
   ticker?: string;
+  event_ticker?: string;
   status?: string;
 }): Promise<{ orders: KalshiOrder[] }> {
   const queryParams = new URLSearchParams();
   if (params?.ticker) queryParams.set('ticker', params.ticker);
+  if (params?.event_ticker) queryParams.set('event_ticker', params.event_ticker);
   if (params?.status) queryParams.set('status', params.status);
 
   const query = queryParams.toString();
@@ -251,9 +285,85 @@ export async function placeOrder(order: KalshiOrderRequest): Promise<{ order: Ka
   });
 }
 
+export async function cancelOrder(orderId: string): Promise<{ order: KalshiOrder }> {
+  return fetchApi(`/portfolio/orders/${encodeURIComponent(orderId)}`, {
+    method: 'DELETE',
+  });
+}
+
+// Reprice and/or resize a resting order; count is the order's new total size.
+// The new client_order_id keeps the bet id before '~' so the bet stays matched
+export async function amendOrder(
+  order: KalshiOrder,
+  changes: { price?: number; count?: number }
+): Promise<{ old_order: KalshiOrder; order: KalshiOrder }> {
+  const price = changes.price ?? (order.side === 'yes' ? order.yes_price : order.no_price);
+  return fetchApi(`/portfolio/orders/${encodeURIComponent(order.order_id)}/amend`, {
+    method: 'POST',
+    body: JSON.stringify({
+      ticker: order.ticker,
+      side: order.side,
+      action: order.action,
+      client_order_id: order.client_order_id,
+      updated_client_order_id: `${order.client_order_id.split('~')[0]}~${Date.now()}`,
+      count: changes.count ?? order.place_count - order.decrease_count,
+      ...(order.side === 'yes' ? { yes_price: price } : { no_price: price }),
+    }),
+  });
+}
+
+export async function decreaseOrder(
+  orderId: string,
+  change: { reduce_by: number } | { reduce_to: number }
+): Promise<{ order: KalshiOrder }> {
+  return fetchApi(`/portfolio/orders/${encodeURIComponent(orderId)}/decrease`, {
+    method: 'POST',
+    body: JSON.stringify(change),
+  });
+}
+
+export async function getQueuePositions(params: {
+  market_tickers?: string[];
+  event_ticker?: string;
+}): Promise<Record<string, number>> {
+  const queryParams = new URLSearchParams();
+  if (params.market_tickers) queryParams.set('market_tickers', params.market_tickers.join(','));
+  if (params.event_ticker) queryParams.set('event_ticker', params.event_ticker);
+
+  const data = await fetchApi<{
+    queue_positions: Array<{ order_id: string; queue_position: number }> | null;
+  }>(`/portfolio/orders/queue_positions?${queryParams.toString()}`);
+
+  // Keyed by order id
+  return Object.fromEntries(
+    (data.queue_positions || []).map((p) => [p.order_id, p.queue_position])
+  );
+}
+
+// Parse a MENTION market into a structured strike
+// The subtitle names the word; a minimum count may sit in either the subtitle
+// ("Tariff (3+ times)") or the title ("Will Netflix say Tariff 3+ times?")
+export function marketToStrike(
+  market: Pick<KalshiMarket, 'ticker' | 'title' | 'subtitle' | 'yes_sub_title'>
+): MentionStrike {
+  const strike = parseMentionStrike(
+    market.yes_sub_title || market.subtitle || market.ticker.split('-').pop() || ''
+  );
+
+  if (strike.minCount === 1 && market.title) {
+    const fromTitle = parseMentionStrike(market.title);
+    if (fromTitle.minCount > 1) {
+      return { ...strike, minCount: fromTitle.minCount };
+    }
+  }
+
+  return strike;
+}
+
 // Convert Kalshi market to our MentionWord format
 export function marketToMentionWord(market: KalshiMarket): {
   word: string;
+  strike: MentionStrike;
   chance: number;
   yesPrice: number;
   noPrice: number;
@@ -276,6 +386,7 @@ export function marketToMentionWord(market: KalshiMarket): {
 
   return {
     word,
+    strike: marketToStrike(market),
     chance,
     yesPrice,
     noPrice,
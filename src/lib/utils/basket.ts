@@ -0,0 +1,87 @@
+// Basket Order Utilities
+// Preview and place a group of buy orders across words in one event. Legs are
+// placed one at a time so each passes the risk gate with the legs before it counted
+
+import { tradingFee } from './fees';
+
+export interface BasketLeg {
+  ticker: string;
+  word: string;
+  side: 'yes' | 'no';
+  count: number;
+  price: number; // Limit price in cents for the side bought
+}
+
+export interface BasketPreview {
+  contracts: number;
+  premium: number; // Cents
+  fees: number; // Taker fees, the most the legs can be charged
+  cost: number; // Premium plus fees
+  maxLoss: number; // Every leg settles against us
+  maxProfit: number; // Every leg settles in our favour, net of fees
+}
+
+export interface BasketLegResult {
+  leg: BasketLeg;
+  ok: boolean;
+  betId?: string;
+  error?: string;
+  warning?: string; // Placed, but something after the order went wrong
+}
+
+export interface PlacedLeg {
+  betId: string;
+  warning?: string;
+}
+
+/**
+ * Total cost, fees and outcome range of buying every leg at its limit
+ */
+export function previewBasket(legs: BasketLeg[]): BasketPreview {
+  const preview = legs.reduce(
+    (total, leg) => ({
+      contracts: total.contracts + leg.count,
+      premium: total.premium + leg.count * leg.price,
+      fees: total.fees + tradingFee(leg.count, leg.price),
+      payout: total.payout + leg.count * 100,
+    }),
+    { contracts: 0, premium: 0, fees: 0, payout: 0 }
+  );
+  const cost = preview.premium + preview.fees;
+
+  return {
+    contracts: preview.contracts,
+    premium: preview.premium,
+    fees: preview.fees,
+    cost,
+    maxLoss: cost,
+    maxProfit: preview.payout - cost,
+  };
+}
+
+/**
+ * Place each leg in turn; a failed leg is reported and the rest still go out.
+ * `placeLeg` throws only when the order itself was not placed
+ */
+export async function placeBasket(
+  legs: BasketLeg[],
+  placeLeg: (leg: BasketLeg, index: number) => Promise<PlacedLeg>
+): Promise<BasketLegResult[]> {
+  const results: BasketLegResult[] = [];
+
+  for (let index = 0; index < legs.length; index++) {
+    const leg = legs[index];
+    try {
+      const { betId, warning } = await placeLeg(leg, index);
+      results.push({ leg, ok: true, betId, ...(warning ? { warning } : {}) });
+    } catch (error) {
+      results.push({
+        leg,
+        ok: false,
+        error: error instanceof Error ? error.message : 'Order failed',
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,33 @@
+// Event Call Utilities
+// Which earnings call an event (and every bet placed on it) belongs to.
+// Shared by the performance report on the server and the quarterly analysis
+// in the browser so both attribute bets to the same call
+
+// A transcript this close to the event's call date is the call itself
+export const CALL_WINDOW_DAYS = 3;
+
+/**
+ * Call date for an event: its scheduled date, or the day its markets close
+ */
+export function eventCallDate(
+  event: { eventDate?: string; closeTime?: string } | null | undefined
+): string | null {
+  return event?.eventDate || event?.closeTime?.split('T')[0] || null;
+}
+
+/**
+ * The transcript of the call on the given date: the closest one within
+ * CALL_WINDOW_DAYS, or undefined when we don't have it
+ */
+export function transcriptForCall<T extends { date: string }>(
+  transcripts: T[],
+  callDate: string | null
+): T | undefined {
+  if (!callDate) return undefined;
+  const call = new Date(callDate).getTime();
+  const distance = (t: T) => Math.abs(new Date(t.date).getTime() - call) / 86_400_000;
+
+  return transcripts
+    .filter((t) => distance(t) <= CALL_WINDOW_DAYS)
+    .sort((a, b) => distance(a) - distance(b))[0];
+}
@@ -0,0 +1,78 @@
+// Kalshi Fee Model
+// Trading fees are rate × contracts × P × (1 − P), rounded up to the next cent.
+// Takers pay the general rate; resting orders that are filled pay the maker rate
+
+export type FeeRole = 'taker' | 'maker';
+
+export const KALSHI_TAKER_FEE_RATE = 0.07;
+export const KALSHI_MAKER_FEE_RATE = 0.0175;
+
+const FEE_RATES: Record<FeeRole, number> = {
+  taker: KALSHI_TAKER_FEE_RATE,
+  maker: KALSHI_MAKER_FEE_RATE,
+};
+
+/**
+ * Unrounded fee per contract in cents, for break-even and sizing math
+ */
+export function feePerContract(price: number, role: FeeRole = 'taker'): number {
+  if (price <= 0 || price >= 100) return 0;
+  return (FEE_RATES[role] * price * (100 - price)) / 100;
+}
+
+/**
+ * Fee in cents for one fill of `contracts` at `price`, rounded up to the cent
+ */
+export function tradingFee(
+  contracts: number,
+  price: number,
+  role: FeeRole = 'taker'
+): number {
+  const fee = contracts * feePerContract(price, role);
+  return fee > 0 ? Math.ceil(fee - 1e-9) : 0;
+}
+
+export function takerFee(contracts: number, price: number): number {
+  return tradingFee(contracts, price, 'taker');
+}
+
+export function makerFee(contracts: number, price: number): number {
+  return tradingFee(contracts, price, 'maker');
+}
+
+/**
+ * Probability (0-100) the side must win with for a buy at `price` to break
+ * even after fees
+ */
+export function breakEvenProbability(price: number, role: FeeRole = 'taker'): number {
+  return price + feePerContract(price, role);
+}
+
+// The BetRecord fields the fee helpers read (shared by client and server records)
+interface FeeBet {
+  count: number;
+  price: number;
+  filledCount?: number;
+  averagePrice?: number;
+  fees?: number;
+  result?: 'win' | 'loss' | 'void';
+  pnl?: number;
+}
+
+/**
+ * Fees for a bet: recorded from its fills, or the taker fee on its filled size
+ */
+export function betFees(bet: FeeBet): number {
+  if (bet.fees !== undefined) return bet.fees;
+  return takerFee(bet.filledCount ?? bet.count, bet.averagePrice ?? bet.price);
+}
+
+/**
+ * Settled P&L in cents net of fees. Bets settled before fees were tracked
+ * stored gross P&L and no fees, so their estimated fee is taken off here
+ */
+export function netPnl(bet: FeeBet): number {
+  if (bet.pnl === undefined) return 0;
+  if (bet.fees !== undefined || bet.result === 'void') return bet.pnl;
+  return bet.pnl - betFees(bet);
+}
@@ -0,0 +1,373 @@
+// MENTION Word Matcher
+// Single implementation of the Kalshi MENTION matching rules (docs/KALSHI_RULES.md)
+// Shared by the UI, the Express server and the scraping scripts
+
+/**
+ * The MENTION rule that made an occurrence count (or not count)
+ */
+export type MentionRule =
+  | 'exact'
+  | 'plural'
+  | 'possessive'
+  | 'ordinal'
+  | 'hyphenated-compound'
+  | 'inflection'
+  | 'closed-compound';
+
+/**
+ * Human-readable rule names (for tooltips and legends)
+ */
+export const MENTION_RULE_LABELS: Record<MentionRule, string> = {
+  exact: 'Exact match',
+  plural: 'Plural form',
+  possessive: 'Possessive form',
+  ordinal: 'Ordinal form',
+  'hyphenated-compound': 'Hyphenated compound',
+  inflection: 'Grammatical inflection',
+  'closed-compound': 'Closed compound word',
+};
+
+/**
+ * A single occurrence (or near-miss) of a MENTION word in a transcript
+ */
+export interface MentionMatch {
+  index: number; // Offset of the match in the source text
+  text: string; // Matched text, including plural/possessive/ordinal suffixes
+  alternative: string; // The alternative of the word that matched (e.g. "Doge" for "Doge/Dogecoin")
+  rule: MentionRule; // Rule that applied to this occurrence
+  included: boolean; // true = counts toward settlement, false = excluded near-miss
+}
+
+/**
+ * A MENTION word: either a single string ("Doge/Dogecoin") or an explicit
+ * list of alternatives (["Doge", "Dogecoin"])
+ */
+export type MentionWord = string | string[];
+
+// Letters and digits are the only characters that can extend a word.
+// Hyphens, whitespace and punctuation all act as boundaries, which is what
+// makes hyphenated ("pro-Palestine") and open ("couch potato") compounds count
+// while closed compounds ("firetruck") and inflections ("immigration") do not.
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+const LEFT_BOUNDARY = `(?<!${WORD_CHAR})`;
+const RIGHT_BOUNDARY = `(?!${WORD_CHAR})`;
+
+// Straight and curly apostrophes both appear in scraped transcripts
+const APOSTROPHE = "['’]";
+
+// Possessive suffix that may follow any (singular or plural) form
+const POSSESSIVE = `(?:${APOSTROPHE}s)?`;
+const PLURAL_POSSESSIVE = `${APOSTROPHE}?`;
+
+// Ordinal suffix for numbers ("January 6" -> "January 6th")
+const ORDINAL = '(?:st|nd|rd|th)?';
+
+// Suffixes that turn a word into a different inflection or derivation
+// ("immigrant" -> "immigration", "grow" -> "growth"); used to label near-misses
+const INFLECTION_SUFFIX =
+  /^(?:e?d|ing|ings|er|ers|est|ly|ily|th|te|tes|ted|ting|tion|tions|ation|ations|ion|ions|ment|ments|ity|ities|ness|al|ally|ive|ize|ized|izes|ise|ised|ises|ance|ence|ic|ical|ist|ists|ism)$/i;
+
+// Shortest extra word that makes a closed compound ("fire" + "truck")
+const MIN_COMPOUND_PART = 3;
+
+// Plurals that don't add s/es/ies; these still count as plural forms
+const IRREGULAR_PLURALS: Record<string, string> = {
+  analysis: 'analyses',
+  child: 'children',
+  crisis: 'crises',
+  criterion: 'criteria',
+  foot: 'feet',
+  goose: 'geese',
+  half: 'halves',
+  knife: 'knives',
+  leaf: 'leaves',
+  life: 'lives',
+  man: 'men',
+  mouse: 'mice',
+  person: 'people',
+  phenomenon: 'phenomena',
+  shelf: 'shelves',
+  thesis: 'theses',
+  tooth: 'teeth',
+  wife: 'wives',
+  wolf: 'wolves',
+  woman: 'women',
+};
+
+function irregularPlural(token: string): string | null {
+  return IRREGULAR_PLURALS[token.toLowerCase()] ?? null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Split a MENTION word into its alternatives
+ * "Doge/Dogecoin" and "Elon / Musk" are alternatives; "24/7" is a single word
+ */
+export function splitAlternatives(word: string): string[] {
+  const parts = word
+    .split('/')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+
+  if (parts.length > 1 && parts.every((part) => /\p{L}/u.test(part))) {
+    return parts;
+  }
+
+  const trimmed = word.trim();
+  return trimmed ? [trimmed] : [];
+}
+
+/**
+ * Resolve a MENTION word to its list of alternatives
+ */
+function toAlternatives(word: MentionWord): string[] {
+  if (Array.isArray(word)) {
+    return word.map((alt) => alt.trim()).filter((alt) => alt.length > 0);
+  }
+  return splitAlternatives(word);
+}
+
+/**
+ * Build the regex source for the inflected forms of the final token of a word
+ * Covers plurals (s, es, y -> ies, irregular), possessives ('s, s') and
+ * ordinals (6th)
+ */
+function finalTokenPattern(token: string): string {
+  const escaped = escapeRegExp(token);
+
+  if (/\p{N}$/u.test(token)) {
+    return `${escaped}${ORDINAL}`;
+  }
+
+  if (!/\p{L}$/u.test(token)) {
+    return escaped;
+  }
+
+  const forms = [`${escaped}${POSSESSIVE}`, `${escaped}s${PLURAL_POSSESSIVE}`];
+
+  // Sibilant endings take "es" (tax -> taxes, church -> churches)
+  if (/(?:s|x|z|ch|sh|o)$/i.test(token)) {
+    forms.push(`${escaped}es${PLURAL_POSSESSIVE}`);
+  }
+
+  // Consonant + y takes "ies" (company -> companies)
+  if (/[^aeiou]y$/i.test(token)) {
+    forms.push(`${escapeRegExp(token.slice(0, -1))}ies${PLURAL_POSSESSIVE}`);
+  }
+
+  // child -> children, person -> people
+  const irregular = irregularPlural(token);
+  if (irregular) {
+    forms.push(`${irregular}${irregular.endsWith('s') ? PLURAL_POSSESSIVE : POSSESSIVE}`);
+  }
+
+  return `(?:${forms.join('|')})`;
+}
+
+/**
+ * Build the regex source matching a single alternative (word or phrase)
+ */
+function alternativePattern(alternative: string): string {
+  const tokens = alternative.split(/\s+/).filter((t) => t.length > 0);
+  const last = tokens.pop() as string;
+  const leading = tokens.map((t) => {
+    const escaped = escapeRegExp(t);
+    return /\p{N}$/u.test(t) ? `${escaped}${ORDINAL}` : escaped;
+  });
+
+  const body = [...leading, finalTokenPattern(last)].join('\\s+');
+
+  // Only apply letter boundaries where the word itself starts/ends with a
+  // letter or digit, so words like "C++" can still match
+  const left = /^[\p{L}\p{N}]/u.test(alternative) ? LEFT_BOUNDARY : '';
+  const right = /[\p{L}\p{N}]$/u.test(alternative) ? RIGHT_BOUNDARY : '';
+
+  return `${left}(?:${body})${right}`;
+}
+
+/**
+ * Build a global, case-insensitive regex for a MENTION word
+ * Each alternative is wrapped in its own capture group so callers can tell
+ * which one matched. Returns null for empty words.
+ */
+export function buildMentionPattern(word: MentionWord): RegExp | null {
+  const alternatives = toAlternatives(word);
+  if (alternatives.length === 0) return null;
+
+  // Longest alternatives first so "Dogecoin" wins over "Doge" at the same offset
+  const ordered = [...alternatives].sort((a, b) => b.length - a.length);
+  const source = ordered.map((alt) => `(${alternativePattern(alt)})`).join('|');
+
+  return new RegExp(source, 'giu');
+}
+
+/**
+ * Classify which INCLUDED rule produced a match
+ */
+function classifyIncluded(
+  text: string,
+  index: number,
+  matched: string,
+  alternative: string
+): MentionRule {
+  if (/\p{N}(?:st|nd|rd|th)$/iu.test(matched) && !/(?:st|nd|rd|th)$/i.test(alternative)) {
+    return 'ordinal';
+  }
+
+  if (new RegExp(`${APOSTROPHE}s?$`, 'u').test(matched) && !/['’]s?$/.test(alternative)) {
+    return 'possessive';
+  }
+
+  const lastToken = alternative.split(/\s+/).pop() as string;
+  const irregular = irregularPlural(lastToken);
+  if (
+    matched.length > alternative.length ||
+    (irregular && matched.toLowerCase().endsWith(irregular))
+  ) {
+    return 'plural';
+  }
+
+  const before = text.slice(Math.max(0, index - 2), index);
+  const after = text.slice(index + matched.length, index + matched.length + 2);
+  if (/[\p{L}\p{N}]-$/u.test(before) || /^-[\p{L}\p{N}]/u.test(after)) {
+    return 'hyphenated-compound';
+  }
+
+  return 'exact';
+}
+
+/**
+ * Stem used to spot inflections of the final token ("immigrant" -> "immigra")
+ */
+function nearMissStem(token: string): string {
+  return token.length >= 6 ? token.slice(0, token.length - 2) : token;
+}
+
+/**
+ * Find excluded near-misses of one alternative: inflections ("immigration" for
+ * "immigrant") and closed compounds ("firetruck" for "fire")
+ */
+function findNearMisses(text: string, alternative: string): MentionMatch[] {
+  // Near-misses only make sense for words that start and end with letters.
+  // Acronyms ("AI", "ICE") are skipped: they sit inside too many unrelated words.
+  if (!/^\p{L}/u.test(alternative) || !/\p{L}$/u.test(alternative)) return [];
+  if (alternative.length <= 4 && alternative === alternative.toUpperCase()) return [];
+
+  const tokens = alternative.split(/\s+/).filter((t) => t.length > 0);
+  const last = tokens.pop() as string;
+  const stem = nearMissStem(last);
+  const leading = tokens.map(escapeRegExp);
+  const body = [...leading, escapeRegExp(stem)].join('\\s+');
+
+  const pattern = new RegExp(
+    `${LEFT_BOUNDARY}(${WORD_CHAR}*)(${body})(${WORD_CHAR}*)${RIGHT_BOUNDARY}`,
+    'giu'
+  );
+  const lowerAlt = alternative.toLowerCase();
+  const lowerLast = last.toLowerCase();
+  const nearMisses: MentionMatch[] = [];
+
+  for (const match of text.matchAll(pattern)) {
+    const [whole, prefix, , suffix] = match;
+    const index = match.index ?? 0;
+    const lowerWhole = whole.toLowerCase();
+
+    let rule: MentionRule | null = null;
+    if (prefix.length === 0) {
+      // "fired"/"growth" (full word + suffix) or "immigration" (stem + suffix)
+      const stemTail = suffix;
+      const fullTail = lowerWhole.startsWith(lowerAlt)
+        ? whole.slice(alternative.length)
+        : null;
+      if (
+        INFLECTION_SUFFIX.test(stemTail) ||
+        (fullTail !== null && INFLECTION_SUFFIX.test(fullTail))
+      ) {
+        rule = 'inflection';
+      } else if (fullTail !== null && fullTail.length >= MIN_COMPOUND_PART) {
+        rule = 'closed-compound';
+      }
+    } else if (
+      prefix.length >= MIN_COMPOUND_PART &&
+      lowerWhole.slice(prefix.length).startsWith(lowerLast)
+    ) {
+      // "firetruck" for "truck"
+      rule = 'closed-compound';
+    }
+
+    if (rule) {
+      nearMisses.push({ index, text: whole, alternative, rule, included: false });
+    }
+  }
+
+  return nearMisses;
+}
+
+/**
+ * Find every occurrence of a MENTION word in text that counts toward settlement
+ */
+export function findMentions(text: string, word: MentionWord): MentionMatch[] {
+  const pattern = buildMentionPattern(word);
+  if (!pattern || !text) return [];
+
+  const ordered = [...toAlternatives(word)].sort((a, b) => b.length - a.length);
+  const matches: MentionMatch[] = [];
+
+  for (const match of text.matchAll(pattern)) {
+    const groupIndex = match.slice(1).findIndex((group) => group !== undefined);
+    const alternative = ordered[groupIndex] ?? ordered[0];
+    const index = match.index ?? 0;
+    matches.push({
+      index,
+      text: match[0],
+      alternative,
+      rule: classifyIncluded(text, index, match[0], alternative),
+      included: true,
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Explain every occurrence of a MENTION word: counted matches plus excluded
+ * near-misses, ordered by position in the text
+ */
+export function explainMentions(text: string, word: MentionWord): MentionMatch[] {
+  const included = findMentions(text, word);
+  if (!text) return included;
+
+  const overlapsIncluded = (m: MentionMatch) =>
+    included.some(
+      (i) => m.index < i.index + i.text.length && i.index < m.index + m.text.length
+    );
+
+  const excluded: MentionMatch[] = [];
+  for (const alternative of toAlternatives(word)) {
+    for (const nearMiss of findNearMisses(text, alternative)) {
+      const duplicate = excluded.some((e) => e.index === nearMiss.index);
+      if (!duplicate && !overlapsIncluded(nearMiss)) {
+        excluded.push(nearMiss);
+      }
+    }
+  }
+
+  return [...included, ...excluded].sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Count occurrences of a MENTION word in text
+ */
+export function countMentions(text: string, word: MentionWord): number {
+  return findMentions(text, word).length;
+}
+
+/**
+ * Count a MENTION word across several texts (e.g. all transcripts for a company)
+ */
+export function countMentionsInAll(texts: string[], word: MentionWord): number {
+  return texts.reduce((sum, text) => sum + countMentions(text, word), 0);
+}
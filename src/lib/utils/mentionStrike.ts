@@ -0,0 +1,113 @@
+// MENTION Strike Specs
+// Parses Kalshi market titles/subtitles into a structured strike and
+// evaluates YES/NO against transcripts using the shared MENTION matcher
+
+import { countMentions, splitAlternatives } from './mentionMatcher';
+
+/**
+ * Structured strike for a MENTION market
+ * Examples:
+ *   "Tariff"              -> alternatives ["Tariff"], minCount 1
+ *   "Tariff (3+ times)"   -> alternatives ["Tariff"], minCount 3
+ *   "Doge/Dogecoin"       -> alternatives ["Doge", "Dogecoin"], minCount 1
+ *   "Free Cash Flow"      -> alternatives ["Free Cash Flow"] (a phrase), minCount 1
+ */
+export interface MentionStrike {
+  raw: string; // Original market title/subtitle
+  label: string; // Word/phrase with count qualifier and quotes removed
+  alternatives: string[]; // Words or phrases, any of which counts as a mention
+  minCount: number; // Mentions required for the market to resolve YES
+}
+
+/**
+ * Result of evaluating a strike against one transcript
+ */
+export interface StrikeEvaluation {
+  count: number; // Mentions of any alternative
+  minCount: number;
+  resolvesYes: boolean; // count >= minCount
+}
+
+/**
+ * Strike evaluated across several transcripts (e.g. past quarters)
+ */
+export interface StrikeHistory {
+  totalCount: number; // Mentions summed across all transcripts
+  hits: number; // Transcripts in which the strike would have resolved YES
+  evaluated: number; // Transcripts checked
+}
+
+// Minimum-count qualifiers seen in Kalshi MENTION markets
+const MIN_COUNT_PATTERNS: RegExp[] = [
+  /\(\s*(\d+)\s*\+\s*(?:times?|mentions?)?\s*\)/i, // "(3+ times)", "(3+)"
+  /\b(\d+)\s*\+\s*(?:times?|mentions?)\b/i, // "3+ times"
+  /\bat\s+least\s+(\d+)\s+(?:times?|mentions?)\b/i, // "at least 3 times"
+  /\b(\d+)\s+or\s+more\s+(?:times?|mentions?)\b/i, // "3 or more times"
+];
+
+// Quote characters wrapped around words in market titles
+const QUOTES = /^["'“”‘’]+|["'“”‘’]+$/g;
+
+/**
+ * Parse a market title/subtitle into a strike spec
+ */
+export function parseMentionStrike(raw: string): MentionStrike {
+  let label = raw.trim();
+  let minCount = 1;
+
+  for (const pattern of MIN_COUNT_PATTERNS) {
+    const match = label.match(pattern);
+    if (match) {
+      minCount = Math.max(1, parseInt(match[1], 10));
+      label = label.replace(match[0], ' ');
+      break;
+    }
+  }
+
+  label = label.replace(/\s+/g, ' ').trim().replace(QUOTES, '').trim();
+
+  return {
+    raw,
+    label,
+    alternatives: splitAlternatives(label).map((alt) => alt.replace(QUOTES, '')),
+    minCount,
+  };
+}
+
+/**
+ * Short display form for a strike ("Tariff", "Tariff (3+)")
+ */
+export function formatStrike(strike: MentionStrike): string {
+  return strike.minCount > 1 ? `${strike.label} (${strike.minCount}+)` : strike.label;
+}
+
+/**
+ * Evaluate a strike against a single transcript
+ */
+export function evaluateStrike(text: string, strike: MentionStrike): StrikeEvaluation {
+  const count = countMentions(text, strike.alternatives);
+  return {
+    count,
+    minCount: strike.minCount,
+    resolvesYes: count >= strike.minCount,
+  };
+}
+
+/**
+ * Evaluate a strike against several transcripts
+ */
+export function evaluateStrikeHistory(
+  texts: string[],
+  strike: MentionStrike
+): StrikeHistory {
+  let totalCount = 0;
+  let hits = 0;
+
+  for (const text of texts) {
+    const evaluation = evaluateStrike(text, strike);
+    totalCount += evaluation.count;
+    if (evaluation.resolvesYes) hits++;
+  }
+
+  return { totalCount, hits, evaluated: texts.length };
+}
@@ -0,0 +1,83 @@
+// Order Book Utilities
+// Kalshi books hold only bids: a YES ask at P is a NO bid at 100 - P
+
+export interface BookLevel {
+  price: number; // Cents for the side being bought
+  quantity: number;
+  cumulative: number; // Contracts at this price or better
+}
+
+export interface Ladder {
+  bids: BookLevel[]; // Best (highest) first
+  asks: BookLevel[]; // Best (lowest) first
+  bestBid: number | null;
+  bestAsk: number | null;
+  spread: number | null;
+}
+
+interface BookSides {
+  yes: Array<[number, number]>; // [price, quantity]
+  no: Array<[number, number]>;
+}
+
+function accumulate(levels: Array<[number, number]>): BookLevel[] {
+  let cumulative = 0;
+  return levels.map(([price, quantity]) => {
+    cumulative += quantity;
+    return { price, quantity, cumulative };
+  });
+}
+
+/**
+ * Bid/ask ladder for one side of a market, limited to `depth` levels each way
+ */
+export function buildLadder(book: BookSides, side: 'yes' | 'no', depth = 99): Ladder {
+  const own = side === 'yes' ? book.yes : book.no;
+  const opposite = side === 'yes' ? book.no : book.yes;
+
+  const bids = accumulate(
+    own.filter(([, quantity]) => quantity > 0).sort((a, b) => b[0] - a[0])
+  ).slice(0, depth);
+  const asks = accumulate(
+    opposite
+      .filter(([, quantity]) => quantity > 0)
+      .map(([price, quantity]): [number, number] => [100 - price, quantity])
+      .sort((a, b) => a[0] - b[0])
+  ).slice(0, depth);
+
+  const bestBid = bids[0]?.price ?? null;
+  const bestAsk = asks[0]?.price ?? null;
+
+  return {
+    bids,
+    asks,
+    bestBid,
+    bestAsk,
+    spread: bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null,
+  };
+}
+
+/**
+ * Contracts and average price a buy limit order would take from the asks
+ * immediately; any remainder rests on the book
+ */
+export function estimateFill(
+  asks: BookLevel[],
+  contracts: number,
+  limitPrice: number
+): { filled: number; averagePrice: number | null; resting: number } {
+  let filled = 0;
+  let cost = 0;
+  for (const level of asks) {
+    if (level.price > limitPrice || filled >= contracts) break;
+    const take = Math.min(level.quantity, contracts - filled);
+    filled += take;
+    cost += take * level.price;
+  }
+
+  return {
+    filled,
+    averagePrice: filled > 0 ? cost / filled : null,
+    resting: contracts - filled,
+  };
+}
@@ -0,0 +1,222 @@
+// Portfolio Utilities
+// Joins Kalshi positions with our earnings events and marks each one to the
+// live bid for its side, grouped by company and event. Amounts are in cents
+
+import type { KalshiPosition } from '@/lib/api/kalshi';
+import type { EarningsEvent } from '@/lib/api/data';
+
+// Events closing within this are flagged
+export const CLOSING_SOON_MS = 24 * 60 * 60 * 1000;
+
+// Latest prices for a market (REST snapshot or live ticker)
+export interface PortfolioQuote {
+  yes_bid: number;
+  no_bid: number;
+  last_price: number;
+  event_ticker?: string;
+  close_time?: string;
+}
+
+export interface PortfolioTotals {
+  cost: number; // What the open contracts cost (Kalshi market exposure)
+  marketValue: number;
+  unrealizedPnl: number; // Before exit fees
+  maxPayout: number; // Every position settles in our favour
+  maxLoss: number; // Every position settles against us
+}
+
+export interface PortfolioPosition extends PortfolioTotals {
+  ticker: string;
+  word: string;
+  side: 'yes' | 'no';
+  contracts: number;
+  mark: number; // Price per contract the position is valued at
+  priced: boolean; // False when the market has no usable price and cost is used
+  realizedPnl: number;
+  restingOrders: number;
+  closeTime?: string;
+  closingSoon: boolean;
+}
+
+export interface PortfolioEventGroup {
+  eventTicker: string;
+  title: string;
+  closeTime?: string;
+  closingSoon: boolean;
+  positions: PortfolioPosition[];
+  totals: PortfolioTotals;
+}
+
+export interface PortfolioCompanyGroup {
+  company: string;
+  events: PortfolioEventGroup[];
+  totals: PortfolioTotals;
+}
+
+export interface Portfolio {
+  companies: PortfolioCompanyGroup[];
+  totals: PortfolioTotals;
+  closingSoonCount: number; // Positions in events closing within 24 hours
+}
+
+// Company for positions in markets that aren't in our earnings events
+export const UNTRACKED_COMPANY = 'Other';
+
+const EMPTY_TOTALS: PortfolioTotals = {
+  cost: 0,
+  marketValue: 0,
+  unrealizedPnl: 0,
+  maxPayout: 0,
+  maxLoss: 0,
+};
+
+function addTotals(a: PortfolioTotals, b: PortfolioTotals): PortfolioTotals {
+  return {
+    cost: a.cost + b.cost,
+    marketValue: a.marketValue + b.marketValue,
+    unrealizedPnl: a.unrealizedPnl + b.unrealizedPnl,
+    maxPayout: a.maxPayout + b.maxPayout,
+    maxLoss: a.maxLoss + b.maxLoss,
+  };
+}
+
+/**
+ * Price a contract of `side` could be sold at now: the side's best bid, or the
+ * last trade when that side of the book is empty. Null when neither exists
+ * (a last price of 0 means the market has never traded)
+ */
+export function markPrice(quote: PortfolioQuote, side: 'yes' | 'no'): number | null {
+  const bid = side === 'yes' ? quote.yes_bid : quote.no_bid;
+  if (bid > 0) return bid;
+  if (quote.last_price < 1 || quote.last_price > 99) return null;
+  return side === 'yes' ? quote.last_price : 100 - quote.last_price;
+}
+
+/**
+ * Whether a close time falls within the next 24 hours
+ */
+export function isClosingSoon(closeTime: string | undefined, now: Date): boolean {
+  if (!closeTime) return false;
+  const remaining = new Date(closeTime).getTime() - now.getTime();
+  return remaining > 0 && remaining <= CLOSING_SOON_MS;
+}
+
+/**
+ * Value one Kalshi position (positive = YES contracts, negative = NO)
+ */
+export function valuePosition(
+  position: KalshiPosition,
+  quote: PortfolioQuote | undefined,
+  word: string,
+  closeTime: string | undefined,
+  now: Date
+): PortfolioPosition {
+  const side = position.position > 0 ? 'yes' : 'no';
+  const contracts = Math.abs(position.position);
+  const cost = position.market_exposure;
+  const quoted = quote ? markPrice(quote, side) : null;
+  const mark = quoted ?? Math.round(cost / contracts);
+  const marketValue = quoted !== null ? contracts * quoted : cost;
+
+  return {
+    ticker: position.ticker,
+    word,
+    side,
+    contracts,
+    mark,
+    priced: quoted !== null,
+    cost,
+    marketValue,
+    unrealizedPnl: marketValue - cost,
+    maxPayout: contracts * 100,
+    maxLoss: cost,
+    realizedPnl: position.realized_pnl,
+    restingOrders: position.resting_orders_count,
+    ...(closeTime ? { closeTime } : {}),
+    closingSoon: isClosingSoon(closeTime, now),
+  };
+}
+
+/**
+ * Open positions grouped by company and earnings event, largest exposure first.
+ * Markets we don't track are grouped under "Other" by their Kalshi event
+ */
+export function buildPortfolio(
+  positions: KalshiPosition[],
+  events: EarningsEvent[],
+  quotes: Map<string, PortfolioQuote>,
+  now = new Date()
+): Portfolio {
+  const marketIndex = new Map<string, { event: EarningsEvent; word: string }>();
+  events.forEach((event) =>
+    (event.markets || []).forEach((market) =>
+      marketIndex.set(market.ticker, { event, word: market.word })
+    )
+  );
+
+  const companies = new Map<string, Map<string, PortfolioEventGroup>>();
+
+  positions
+    .filter((position) => position.position !== 0)
+    .forEach((position) => {
+      const quote = quotes.get(position.ticker);
+      const match = marketIndex.get(position.ticker);
+      const company = match?.event.company ?? UNTRACKED_COMPANY;
+      const eventTicker =
+        match?.event.eventTicker ?? quote?.event_ticker ?? position.ticker;
+      const closeTime = quote?.close_time ?? match?.event.closeTime;
+
+      const valued = valuePosition(
+        position,
+        quote,
+        match?.word ?? position.ticker,
+        closeTime,
+        now
+      );
+
+      const groups = companies.get(company) ?? new Map<string, PortfolioEventGroup>();
+      companies.set(company, groups);
+      const group = groups.get(eventTicker) ?? {
+        eventTicker,
+        title: match?.event.title ?? eventTicker,
+        ...(closeTime ? { closeTime } : {}),
+        closingSoon: false,
+        positions: [],
+        totals: EMPTY_TOTALS,
+      };
+      groups.set(eventTicker, {
+        ...group,
+        closingSoon: group.closingSoon || valued.closingSoon,
+        positions: [...group.positions, valued],
+        totals: addTotals(group.totals, valued),
+      });
+    });
+
+  const byExposure = (a: { totals: PortfolioTotals }, b: { totals: PortfolioTotals }) =>
+    b.totals.cost - a.totals.cost;
+
+  const companyGroups = Array.from(companies.entries())
+    .map(([company, groups]) => {
+      const eventGroups = Array.from(groups.values())
+        .map((group) => ({
+          ...group,
+          positions: [...group.positions].sort((a, b) => b.cost - a.cost),
+        }))
+        .sort(byExposure);
+      return {
+        company,
+        events: eventGroups,
+        totals: eventGroups.reduce((sum, g) => addTotals(sum, g.totals), EMPTY_TOTALS),
+      };
+    })
+    .sort(byExposure);
+
+  return {
+    companies: companyGroups,
+    totals: companyGroups.reduce((sum, g) => addTotals(sum, g.totals), EMPTY_TOTALS),
+    closingSoonCount: companyGroups
+      .flatMap((c) => c.events)
+      .flatMap((e) => e.positions)
+      .filter((p) => p.closingSoon).length,
+  };
+}
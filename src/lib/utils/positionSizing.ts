@@ -0,0 +1,102 @@
+// Position Sizing Utilities
+// Recommend a contract count from our probability, the price, Kalshi fees and
+// the account balance. Amounts are in cents; probabilities are 0-1 for the side bought
+
+import { feePerContract, tradingFee, type FeeRole } from './fees';
+
+export type SizingMethod = 'kelly' | 'fixed_fraction' | 'fixed_risk';
+
+export interface SizingInput {
+  method: SizingMethod;
+  probability: number; // Our P(win) for the side being bought
+  price: number; // Limit price in cents
+  balance: number; // Available cash in cents
+  kellyMultiplier?: number; // 1 = full Kelly, 0.5 = half Kelly
+  fraction?: number; // Share of balance to stake for fixed_fraction
+  riskAmount?: number; // Cents to stake for fixed_risk
+}
+
+export interface PositionOutcome {
+  contracts: number;
+  cost: number; // Premium paid
+  fee: number;
+  expectedValue: number; // Net of fees
+  worstCaseLoss: number; // Cost plus fee, lost if the side settles against us
+  maxProfit: number; // Net of fees, if the side settles in our favour
+}
+
+export interface SizingResult extends PositionOutcome {
+  kellyFraction: number; // Full-Kelly share of balance, 0 without an edge
+  budget: number; // Cents the method allows to be staked
+}
+
+/**
+ * Full-Kelly share of bankroll for a binary contract costing `price` plus the
+ * taker fee and paying 100: f* = (p − c) / (1 − c), with c the all-in cost as a fraction
+ */
+export function kellyFraction(probability: number, price: number): number {
+  if (price <= 0 || price >= 100) return 0;
+  const cost = (price + feePerContract(price)) / 100;
+  return Math.max(0, (probability - cost) / (1 - cost));
+}
+
+/**
+ * Cost, fee, expected value and worst-case loss of buying `contracts` at `price`
+ */
+export function evaluatePosition(
+  contracts: number,
+  price: number,
+  probability: number,
+  role: FeeRole = 'taker'
+): PositionOutcome {
+  const cost = contracts * price;
+  const fee = tradingFee(contracts, price, role);
+  return {
+    contracts,
+    cost,
+    fee,
+    expectedValue: Math.round(probability * contracts * 100 - cost - fee),
+    worstCaseLoss: cost + fee,
+    maxProfit: contracts * 100 - cost - fee,
+  };
+}
+
+/**
+ * Most contracts whose premium plus rounded taker fee fits in the budget
+ */
+export function contractsForBudget(budget: number, price: number): number {
+  if (budget <= 0 || price <= 0 || price >= 100) return 0;
+  let contracts = Math.floor(budget / (price + feePerContract(price)));
+  while (contracts > 0 && contracts * price + tradingFee(contracts, price) > budget) {
+    contracts--;
+  }
+  return contracts;
+}
+
+/**
+ * Recommended position for the chosen method
+ */
+export function sizePosition(input: SizingInput): SizingResult {
+  const { method, probability, price, balance } = input;
+  const kelly = kellyFraction(probability, price);
+
+  let budget: number;
+  switch (method) {
+    case 'kelly':
+      budget = balance * kelly * (input.kellyMultiplier ?? 1);
+      break;
+    case 'fixed_fraction':
+      budget = balance * (input.fraction ?? 0);
+      break;
+    case 'fixed_risk':
+      budget = Math.min(balance, input.riskAmount ?? 0);
+      break;
+  }
+  budget = Math.max(0, Math.floor(budget));
+
+  return {
+    ...evaluatePosition(contractsForBudget(budget, price), price, probability),
+    kellyFraction: kelly,
+    budget,
+  };
+}
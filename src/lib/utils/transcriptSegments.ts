@@ -0,0 +1,291 @@
+// Transcript Speaker Segmentation
+// Splits an earnings call transcript into ordered speaker turns using the
+// participant lists at the top of the call (Seeking Alpha format)
+
+import { countMentions, type MentionWord } from './mentionMatcher';
+
+/**
+ * Who is speaking
+ *   executive - listed under "Company Participants"
+ *   analyst   - listed under "Conference Call Participants"
+ *   operator  - the call operator
+ */
+export type SpeakerRole = 'executive' | 'analyst' | 'operator';
+
+/**
+ * Part of the call a turn belongs to
+ */
+export type TranscriptSection = 'prepared' | 'qa';
+
+export const SPEAKER_ROLE_LABELS: Record<SpeakerRole, string> = {
+  executive: 'Executive',
+  analyst: 'Analyst',
+  operator: 'Operator',
+};
+
+export const SECTION_LABELS: Record<TranscriptSection, string> = {
+  prepared: 'Prepared Remarks',
+  qa: 'Q&A',
+};
+
+export interface TranscriptParticipant {
+  name: string;
+  title: string | null; // Job title for executives, firm for analysts
+  role: SpeakerRole;
+}
+
+export interface TranscriptSegment {
+  speaker: string;
+  role: SpeakerRole;
+  section: TranscriptSection;
+  text: string;
+}
+
+export interface SegmentedTranscript {
+  participants: TranscriptParticipant[];
+  segments: TranscriptSegment[];
+}
+
+export interface SpeakerSummary {
+  speaker: string;
+  role: SpeakerRole;
+  turns: number;
+}
+
+/**
+ * MENTION counts split by part of the call
+ */
+export interface SectionCounts {
+  prepared: number;
+  qa: number;
+}
+
+export interface SegmentFilter {
+  role?: SpeakerRole;
+  section?: TranscriptSection;
+  speaker?: string;
+}
+
+// Section headers (matched against a whole line/block)
+const EXECUTIVE_HEADER = /^(?:company|corporate)\s+participants:?$/i;
+const ANALYST_HEADER = /^(?:conference\s+)?call\s+participants:?$/i;
+const PREPARED_HEADER = /^(?:presentation|prepared\s+remarks):?$/i;
+const QA_HEADER =
+  /^(?:question[-\s]+and[-\s]+answer(?:\s+session)?|q\s*&\s*a(?:\s+session)?):?$/i;
+
+const OPERATOR = /^operator$/i;
+
+// Speakers SA labels without listing them as participants
+const UNLISTED_SPEAKERS: Array<{ pattern: RegExp; role: SpeakerRole }> = [
+  {
+    pattern: /^unidentified\s+(?:company\s+)?(?:representative|executive)$/i,
+    role: 'executive',
+  },
+  { pattern: /^(?:unidentified|unknown)\s+analyst$/i, role: 'analyst' },
+];
+
+// "Jamie Dimon - Chairman and CEO", "Ken Usdin – Jefferies"
+const PARTICIPANT_SEPARATOR = /\s+[-–—]\s+/;
+
+// Participant lines are short and are not sentences
+const MAX_PARTICIPANT_LENGTH = 120;
+
+// "Operator: Good morning..." style turns in pasted transcripts
+const INLINE_SPEAKER = /^([^:]{2,60}):\s+(.+)$/;
+
+/**
+ * Parse a participant list line into name and title
+ */
+export function parseParticipant(
+  line: string,
+  role: SpeakerRole
+): TranscriptParticipant | null {
+  const cleaned = line.replace(/\s+/g, ' ').trim();
+  if (!cleaned || cleaned.length > MAX_PARTICIPANT_LENGTH || /[.?!]$/.test(cleaned)) {
+    return null;
+  }
+
+  const [name, ...rest] = cleaned.split(PARTICIPANT_SEPARATOR);
+  if (!/\p{L}/u.test(name)) return null;
+
+  return {
+    name: name.trim(),
+    title: rest.length > 0 ? rest.join(' - ').trim() : null,
+    role,
+  };
+}
+
+/**
+ * Split a transcript into speaker turns
+ *
+ * @param input - Transcript text (split on newlines) or ordered text blocks
+ *                (e.g. the <p> elements of a Seeking Alpha article)
+ */
+export function segmentTranscript(input: string | string[]): SegmentedTranscript {
+  const blocks = (typeof input === 'string' ? input.split(/\r?\n/) : input)
+    .map((block) => block.replace(/\s+/g, ' ').trim())
+    .filter((block) => block.length > 0);
+
+  const participants: TranscriptParticipant[] = [];
+  const byName = new Map<string, TranscriptParticipant>();
+  const segments: TranscriptSegment[] = [];
+
+  let listing: SpeakerRole | null = null; // Inside a participants block
+  let section: TranscriptSection = 'prepared';
+  let current: TranscriptSegment | null = null;
+
+  for (const block of blocks) {
+    // Section and participant-list headers
+    if (EXECUTIVE_HEADER.test(block)) {
+      listing = 'executive';
+      continue;
+    }
+    if (ANALYST_HEADER.test(block)) {
+      listing = 'analyst';
+      continue;
+    }
+    if (PREPARED_HEADER.test(block)) {
+      listing = null;
+      section = 'prepared';
+      continue;
+    }
+    if (QA_HEADER.test(block)) {
+      listing = null;
+      section = 'qa';
+      current = null;
+      continue;
+    }
+
+    // Speaker header on its own line
+    const speaker = resolveSpeaker(block, byName);
+    if (speaker) {
+      listing = null;
+      current = { speaker: speaker.name, role: speaker.role, section, text: '' };
+      segments.push(current);
+      continue;
+    }
+
+    // Participant list entries
+    if (listing) {
+      const participant = parseParticipant(block, listing);
+      if (participant) {
+        const key = participant.name.toLowerCase();
+        if (!byName.has(key)) {
+          byName.set(key, participant);
+          participants.push(participant);
+        }
+        continue;
+      }
+      listing = null;
+    }
+
+    // "Speaker: text" on one line
+    const inline = block.match(INLINE_SPEAKER);
+    const inlineSpeaker = inline ? resolveSpeaker(inline[1], byName) : null;
+    if (inline && inlineSpeaker) {
+      current = {
+        speaker: inlineSpeaker.name,
+        role: inlineSpeaker.role,
+        section,
+        text: inline[2],
+      };
+      segments.push(current);
+      continue;
+    }
+
+    // Body text continues the current turn; text before the first speaker is skipped
+    if (current) {
+      current.text = current.text ? `${current.text}\n\n${block}` : block;
+    }
+  }
+
+  return {
+    participants,
+    segments: segments.filter((segment) => segment.text.length > 0),
+  };
+}
+
+// Match a line against the operator, listed participants and unlisted speakers
+function resolveSpeaker(
+  line: string,
+  byName: Map<string, TranscriptParticipant>
+): { name: string; role: SpeakerRole } | null {
+  const label = line.replace(/:$/, '').trim();
+
+  if (OPERATOR.test(label)) {
+    return { name: 'Operator', role: 'operator' };
+  }
+
+  // "Name" or "Name - Title" for a listed participant
+  const name = label.split(PARTICIPANT_SEPARATOR)[0].trim();
+  const participant = byName.get(name.toLowerCase());
+  if (participant) {
+    return { name: participant.name, role: participant.role };
+  }
+
+  for (const { pattern, role } of UNLISTED_SPEAKERS) {
+    if (pattern.test(label)) {
+      return { name: label, role };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Segments matching a role/section/speaker filter (unset fields match all)
+ */
+export function filterSegments(
+  segments: TranscriptSegment[],
+  filter: SegmentFilter
+): TranscriptSegment[] {
+  return segments.filter(
+    (segment) =>
+      (!filter.role || segment.role === filter.role) &&
+      (!filter.section || segment.section === filter.section) &&
+      (!filter.speaker || segment.speaker === filter.speaker)
+  );
+}
+
+/**
+ * Distinct speakers in order of first appearance, with turn counts
+ */
+export function summarizeSpeakers(segments: TranscriptSegment[]): SpeakerSummary[] {
+  const speakers = new Map<string, SpeakerSummary>();
+  for (const segment of segments) {
+    const existing = speakers.get(segment.speaker);
+    if (existing) {
+      existing.turns++;
+    } else {
+      speakers.set(segment.speaker, {
+        speaker: segment.speaker,
+        role: segment.role,
+        turns: 1,
+      });
+    }
+  }
+  return Array.from(speakers.values());
+}
+
+/**
+ * Count mentions of a word separately for prepared remarks and Q&A
+ */
+export function countMentionsBySection(
+  segments: TranscriptSegment[],
+  word: MentionWord
+): SectionCounts {
+  const counts: SectionCounts = { prepared: 0, qa: 0 };
+  for (const segment of segments) {
+    counts[segment.section] += countMentions(segment.text, word);
+  }
+  return counts;
+}
+
+/**
+ * Format a participant back into its list form ("Name - Title")
+ */
+export function formatParticipant(participant: TranscriptParticipant): string {
+  return participant.title
+    ? `${participant.name} - ${participant.title}`
+    : participant.name;
+}
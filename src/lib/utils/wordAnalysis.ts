@@ -1,29 +1,50 @@
 // Word Analysis Utilities
 // Following Kalshi MENTION contract rules
 
+import {
+  countMentions,
+  explainMentions,
+  MENTION_RULE_LABELS,
+  type MentionMatch,
+} from './mentionMatcher';
+import { tradingFee, type FeeRole } from './fees';
+
 /**
  * Count occurrences of a word in text
- * Handles plurals (s), possessives ('s), and possessive plurals (s')
+ * Delegates to the shared MENTION matcher (plurals, possessives, compounds, ordinals)
  */
 export function countOccurrences(text: string, word: string): number {
-  if (!word.trim()) return 0;
-  const escapedWord = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  const pattern = new RegExp(`\\b${escapedWord}(?:s|'s|s')?\\b`, 'gi');
-  const matches = text.match(pattern);
-  return matches ? matches.length : 0;
+  return countMentions(text, word);
+}
+
+/**
+ * Tooltip text naming the MENTION rule behind a match
+ */
+export function describeMatch(match: MentionMatch): string {
+  const label = MENTION_RULE_LABELS[match.rule];
+  return match.included ? `Counted: ${label}` : `Not counted: ${label}`;
 }
 
 /**
  * Highlight word occurrences in text with HTML mark tags
+ * Counted matches are yellow, excluded near-misses are red and struck through;
+ * both carry a title naming the rule that applied
  */
 export function highlightWord(text: string, word: string): string {
-  if (!word.trim()) return text;
-  const escapedWord = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  const pattern = new RegExp(`\\b${escapedWord}(?:s|'s|s')?\\b`, 'gi');
-  return text.replace(
-    pattern,
-    (match) => `<mark class="bg-yellow-500/30 text-yellow-300">${match}</mark>`
-  );
+  const matches = explainMentions(text, word);
+  if (matches.length === 0) return text;
+
+  let result = '';
+  let cursor = 0;
+  for (const match of matches) {
+    const className = match.included
+      ? 'bg-yellow-500/30 text-yellow-300'
+      : 'bg-loss-500/20 text-loss-400 line-through';
+    result += text.slice(cursor, match.index);
+    result += `<mark class="${className}" title="${describeMatch(match)}">${match.text}</mark>`;
+    cursor = match.index + match.text.length;
+  }
+  return result + text.slice(cursor);
 }
 
 /**
@@ -58,11 +79,17 @@ export function formatCents(cents: number): string {
 }
 
 /**
- * Calculate bet cost and payout
+ * Calculate bet cost (including the Kalshi fee), fee and payout in dollars
  */
-export function calculateBet(contracts: number, price: number): { cost: number; payout: number } {
+export function calculateBet(
+  contracts: number,
+  price: number,
+  role: FeeRole = 'taker'
+): { cost: number; fee: number; payout: number } {
+  const fee = tradingFee(contracts, price, role);
   return {
-    cost: (contracts * price) / 100,
+    cost: (contracts * price + fee) / 100,
+    fee: fee / 100,
     payout: contracts,
   };
 }
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  CalibrationPanel,
+  BacktestPanel,
+  PerformancePanel,
+} from '@/components/analytics';
+
+type TabId = 'calibration' | 'backtest' | 'performance';
+
+function Analytics() {
+  const [activeTab, setActiveTab] = useState<TabId>('calibration');
+
+  // Tab configuration
+  const tabs: { id: TabId; label: string }[] = [
+    { id: 'calibration', label: 'Calibration' },
+    { id: 'backtest', label: 'Backtest' },
+    { id: 'performance', label: 'Performance' },
+  ];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      {/* Back Link */}
+      <Link
+        to="/"
+        className="inline-flex items-center text-slate-400 hover:text-white mb-6 transition-colors"
+      >
+        <svg
+          className="w-4 h-4 mr-2"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 19l-7-7 7-7"
+          />
+        </svg>
+        Back to Dashboard
+      </Link>
+
+      {/* Header */}
+      <header className="mb-6">
+        <h1 className="text-3xl font-bold text-white mb-2">Analytics</h1>
+        <p className="text-slate-400">
+          How the base-rate model, our strategies and our own bets fare against settled
+          MENTION markets
+        </p>
+      </header>
+
+      {/* Tab Navigation */}
+      <div className="flex gap-1 mb-6 border-b border-slate-800">
+        {tabs.map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`px-4 py-2 text-sm font-medium transition-colors border-b-2 -mb-px ${
+              activeTab === tab.id
+                ? 'text-white border-profit-500'
+                : 'text-slate-400 border-transparent hover:text-white'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'calibration' && <CalibrationPanel />}
+      {activeTab === 'backtest' && <BacktestPanel />}
+      {activeTab === 'performance' && <PerformancePanel />}
+    </div>
+  );
+}
+
+export default Analytics;
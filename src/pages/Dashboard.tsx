@@ -148,11 +148,27 @@ function Dashboard() {
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
       {/* Header */}
-      <header className="mb-8">
-        <h1 className="text-3xl font-bold text-white mb-2">Earnings Call Bets</h1>
-        <p className="text-slate-400">
-          Track upcoming earnings calls and place MENTION bets on Kalshi
-        </p>
+      <header className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2">Earnings Call Bets</h1>
+          <p className="text-slate-400">
+            Track upcoming earnings calls and place MENTION bets on Kalshi
+          </p>
+        </div>
+        <div className="flex gap-4">
+          <Link
+            to="/portfolio"
+            className="text-sm text-slate-400 hover:text-white transition-colors whitespace-nowrap"
+          >
+            Portfolio →
+          </Link>
+          <Link
+            to="/analytics"
+            className="text-sm text-slate-400 hover:text-white transition-colors whitespace-nowrap"
+          >
+            Analytics →
+          </Link>
+        </div>
       </header>
 
       {/* Error Banner */}
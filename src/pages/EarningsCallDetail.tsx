@@ -1,14 +1,20 @@
 // Earnings Call Detail Page
 // Main page for viewing and betting on word mentions for a company's earnings call
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { useEarningsData, type WordBet } from '@/hooks/useEarningsData';
 import { type Transcript, type ResearchNote } from '@/lib/api/data';
 import { WordFrequencyChart } from '@/components/WordFrequencyChart';
 import {
   WordBetsTable,
+  WordDetailPanel,
   BetForm,
+  BasketTicket,
+  OpenOrdersPanel,
+  TriggerOrdersPanel,
+  AlertsPanel,
+  RiskLimitsPanel,
   TranscriptsTab,
   NotesTab,
   HistoryTab,
@@ -41,6 +47,16 @@ function EarningsCallDetail() {
     loadingNews,
     isWebSocketConnected,
     isKalshiLive,
+    orderbooks,
+    subscribeOrderbook,
+    unsubscribeOrderbook,
+    alerts,
+    unreadAlertCount,
+    notificationPermission,
+    markAlertsRead,
+    dismissAlert,
+    clearAlerts,
+    requestNotificationPermission,
   } = useEarningsData(decodedCompany, decodedEventTicker);
 
   // UI state
@@ -48,6 +64,16 @@ function EarningsCallDetail() {
   const [selectedWord, setSelectedWord] = useState<string | null>(null);
   const [selectedBet, setSelectedBet] = useState<WordBet | null>(null);
   const [betSide, setBetSide] = useState<'yes' | 'no'>('yes');
+  const [ordersVersion, setOrdersVersion] = useState(0);
+  const [basketTickers, setBasketTickers] = useState<Set<string>>(new Set());
+
+  // Watch order book depth for the selected market
+  const selectedTicker = selectedBet?.ticker;
+  useEffect(() => {
+    if (!selectedTicker || !isWebSocketConnected) return;
+    subscribeOrderbook([selectedTicker]);
+    return () => unsubscribeOrderbook([selectedTicker]);
+  }, [selectedTicker, isWebSocketConnected, subscribeOrderbook, unsubscribeOrderbook]);
 
   // Handle word selection
   const handleSelectWord = (word: string | null, bet: WordBet | null) => {
@@ -65,10 +91,29 @@ function EarningsCallDetail() {
     setBetSide(side);
   };
 
+  // Add or remove a word from the basket
+  const handleToggleBasket = (bet: WordBet) => {
+    setBasketTickers((current) => {
+      const next = new Set(current);
+      if (next.has(bet.ticker)) {
+        next.delete(bet.ticker);
+      } else {
+        next.add(bet.ticker);
+      }
+      return next;
+    });
+  };
+
+  // Handle basket placed - refresh open orders, keep the per-leg results visible
+  const handleBasketPlaced = () => {
+    setOrdersVersion((v) => v + 1);
+  };
+
   // Handle order placed - clear selection
   const handleOrderPlaced = () => {
     setSelectedWord(null);
     setSelectedBet(null);
+    setOrdersVersion((v) => v + 1);
   };
 
   // Handle transcript saved
@@ -261,8 +306,17 @@ function EarningsCallDetail() {
                 selectedWord={selectedWord}
                 onSelectWord={handleSelectWord}
                 onBetClick={handleBetClick}
+                basketTickers={basketTickers}
+                onToggleBasket={handleToggleBasket}
               />
 
+              {/* Selected Word Price History */}
+              {selectedBet && (
+                <div className="mt-6">
+                  <WordDetailPanel bet={selectedBet} />
+                </div>
+              )}
+
               {/* Word Frequency Chart */}
               {(transcripts.length > 0 || Object.keys(newsData).length > 0) && (
                 <div className="card">
@@ -286,6 +340,7 @@ function EarningsCallDetail() {
               companyName={companyName}
               stockTicker={earningsEvent?.stockTicker}
               transcripts={transcripts}
+              trackedStrikes={wordBets.map((b) => b.strike)}
               onTranscriptSaved={handleTranscriptSaved}
               onTranscriptUpdated={handleTranscriptUpdated}
               onTranscriptDeleted={handleTranscriptDeleted}
@@ -315,15 +370,59 @@ function EarningsCallDetail() {
 
         {/* Sidebar */}
         <div className="space-y-6">
+          {/* Basket Order */}
+          {basketTickers.size > 0 && (
+            <BasketTicket
+              bets={wordBets.filter((b) => basketTickers.has(b.ticker))}
+              eventTicker={decodedEventTicker}
+              companyName={companyName}
+              onRemove={handleToggleBasket}
+              onClear={() => setBasketTickers(new Set())}
+              onPlaced={handleBasketPlaced}
+            />
+          )}
+
           {/* Bet Form */}
           <BetForm
             selectedBet={selectedBet}
             eventTicker={decodedEventTicker}
             companyName={companyName}
             initialSide={betSide}
+            orderbook={selectedBet ? orderbooks.get(selectedBet.ticker) : undefined}
             onOrderPlaced={handleOrderPlaced}
           />
 
+          {/* Resting Orders */}
+          <OpenOrdersPanel
+            eventTicker={decodedEventTicker}
+            wordBets={wordBets}
+            refreshKey={ordersVersion}
+          />
+
+          {/* Conditional and Scheduled Orders */}
+          <TriggerOrdersPanel
+            eventTicker={decodedEventTicker}
+            companyName={companyName}
+            selectedBet={selectedBet}
+            closeTime={earningsEvent?.closeTime}
+          />
+
+          {/* Price and News Alerts */}
+          <AlertsPanel
+            companyName={companyName}
+            selectedBet={selectedBet}
+            alerts={alerts}
+            unreadAlertCount={unreadAlertCount}
+            notificationPermission={notificationPermission}
+            onMarkRead={markAlertsRead}
+            onDismiss={dismissAlert}
+            onClear={clearAlerts}
+            onEnableNotifications={requestNotificationPermission}
+          />
+
+          {/* Pre-trade Risk Limits */}
+          <RiskLimitsPanel />
+
           {/* Kalshi Rules */}
           <MentionRules />
 
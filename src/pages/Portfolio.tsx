@@ -0,0 +1,330 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  getPositions,
+  getMarkets,
+  type KalshiMarket,
+  type KalshiPosition,
+} from '@/lib/api/kalshi';
+import { getAllEarningsEvents, type EarningsEvent } from '@/lib/api/data';
+import { useKalshiWebSocket } from '@/hooks/useKalshiWebSocket';
+import {
+  buildPortfolio,
+  UNTRACKED_COMPANY,
+  type PortfolioQuote,
+  type PortfolioTotals,
+} from '@/lib/utils/portfolio';
+
+function formatDollars(cents: number): string {
+  return `$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+function formatPnl(cents: number): string {
+  return `${cents >= 0 ? '+' : '-'}${formatDollars(cents)}`;
+}
+
+function pnlClass(cents: number): string {
+  return cents >= 0 ? 'text-profit-500' : 'text-loss-500';
+}
+
+function formatCloses(closeTime: string, now: Date): string {
+  const hours = (new Date(closeTime).getTime() - now.getTime()) / (60 * 60 * 1000);
+  return hours < 1
+    ? `Closes in ${Math.max(1, Math.round(hours * 60))}m`
+    : `Closes in ${Math.floor(hours)}h`;
+}
+
+function TotalsRow({ totals }: { totals: PortfolioTotals }) {
+  return (
+    <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+      <span className="text-slate-400">
+        Cost <span className="text-white font-mono">{formatDollars(totals.cost)}</span>
+      </span>
+      <span className="text-slate-400">
+        Value{' '}
+        <span className="text-white font-mono">{formatDollars(totals.marketValue)}</span>
+      </span>
+      <span className="text-slate-400">
+        Unrealized{' '}
+        <span className={`font-mono ${pnlClass(totals.unrealizedPnl)}`}>
+          {formatPnl(totals.unrealizedPnl)}
+        </span>
+      </span>
+    </div>
+  );
+}
+
+function Portfolio() {
+  const [positions, setPositions] = useState<KalshiPosition[]>([]);
+  const [events, setEvents] = useState<EarningsEvent[]>([]);
+  const [markets, setMarkets] = useState<KalshiMarket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { isConnected, tickerUpdates, subscribe } = useKalshiWebSocket();
+
+  useEffect(() => {
+    async function fetchData() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const [positionsData, eventsData] = await Promise.all([
+          getPositions(),
+          getAllEarningsEvents().catch(() => []),
+        ]);
+        const open = positionsData.filter((p) => p.position !== 0);
+
+        // Current quotes and close times for every held market
+        const marketsData =
+          open.length > 0
+            ? await getMarkets({
+                tickers: open.map((p) => p.ticker).join(','),
+                limit: open.length,
+              })
+                .then((data) => data.markets)
+                .catch(() => [])
+            : [];
+
+        setPositions(open);
+        setEvents(eventsData);
+        setMarkets(marketsData);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch positions');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchData();
+  }, []);
+
+  // Live prices for held markets
+  const heldTickers = positions.map((p) => p.ticker).join(',');
+  useEffect(() => {
+    if (heldTickers && isConnected) {
+      subscribe(heldTickers.split(','));
+    }
+  }, [heldTickers, isConnected, subscribe]);
+
+  const now = new Date();
+  const portfolio = useMemo(() => {
+    const quotes = new Map<string, PortfolioQuote>();
+    markets.forEach((market) => quotes.set(market.ticker, market));
+    tickerUpdates.forEach((update, ticker) => {
+      const market = quotes.get(ticker);
+      quotes.set(ticker, { ...market, ...update });
+    });
+    return buildPortfolio(positions, events, quotes);
+  }, [positions, events, markets, tickerUpdates]);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      {/* Back Link */}
+      <Link
+        to="/"
+        className="inline-flex items-center text-slate-400 hover:text-white mb-6 transition-colors"
+      >
+        <svg
+          className="w-4 h-4 mr-2"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 19l-7-7 7-7"
+          />
+        </svg>
+        Back to Dashboard
+      </Link>
+
+      {/* Header */}
+      <header className="mb-6">
+        <h1 className="text-3xl font-bold text-white mb-2">Portfolio</h1>
+        <p className="text-slate-400">
+          Open positions by company and earnings event, marked to the live bid
+          {isConnected && <span className="ml-2 text-profit-400 text-xs">● Live</span>}
+        </p>
+      </header>
+
+      {/* Error Banner */}
+      {error && (
+        <div className="mb-6 p-4 bg-loss-500/10 border border-loss-500/30 rounded-lg">
+          <p className="text-loss-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+        {[
+          {
+            label: 'Cost',
+            value: formatDollars(portfolio.totals.cost),
+            className: 'text-white',
+          },
+          {
+            label: 'Market Value',
+            value: formatDollars(portfolio.totals.marketValue),
+            className: 'text-white',
+          },
+          {
+            label: 'Unrealized P&L',
+            value: formatPnl(portfolio.totals.unrealizedPnl),
+            className: pnlClass(portfolio.totals.unrealizedPnl),
+          },
+          {
+            label: 'Max Payout',
+            value: formatDollars(portfolio.totals.maxPayout),
+            className: 'text-profit-500',
+          },
+          {
+            label: 'Max Loss',
+            value: `-${formatDollars(portfolio.totals.maxLoss)}`,
+            className: 'text-loss-500',
+          },
+        ].map((stat) => (
+          <div key={stat.label} className="card">
+            <p className="text-slate-400 text-sm mb-1">{stat.label}</p>
+            {loading ? (
+              <div className="h-8 w-20 bg-slate-800 rounded animate-pulse" />
+            ) : (
+              <p className={`text-2xl font-bold font-mono ${stat.className}`}>
+                {stat.value}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {portfolio.closingSoonCount > 0 && (
+        <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+          <p className="text-yellow-400 text-sm">
+            {portfolio.closingSoonCount} position
+            {portfolio.closingSoonCount === 1 ? ' is' : 's are'} in events closing within
+            24 hours.
+          </p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="card h-40 animate-pulse" />
+      ) : portfolio.companies.length === 0 ? (
+        <div className="card text-center py-12">
+          <p className="text-slate-400">No open positions.</p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {portfolio.companies.map((company) => (
+            <section key={company.company}>
+              <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+                <h2 className="text-xl font-semibold text-white">{company.company}</h2>
+                <TotalsRow totals={company.totals} />
+              </div>
+
+              <div className="space-y-4">
+                {company.events.map((event) => (
+                  <div key={event.eventTicker} className="card">
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                      <div className="flex items-center gap-2">
+                        {company.company === UNTRACKED_COMPANY ? (
+                          <span className="text-white font-medium">{event.title}</span>
+                        ) : (
+                          <Link
+                            to={`/earnings/${encodeURIComponent(company.company)}/${encodeURIComponent(event.eventTicker)}`}
+                            className="text-white font-medium hover:text-profit-400 transition-colors"
+                          >
+                            {event.title}
+                          </Link>
+                        )}
+                        {event.closingSoon && event.closeTime && (
+                          <span className="px-2 py-0.5 text-xs rounded bg-yellow-500/20 text-yellow-400">
+                            {formatCloses(event.closeTime, now)}
+                          </span>
+                        )}
+                      </div>
+                      <TotalsRow totals={event.totals} />
+                    </div>
+
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-slate-400 border-b border-slate-800">
+                            <th className="pb-2 font-medium">Word</th>
+                            <th className="pb-2 font-medium">Side</th>
+                            <th className="pb-2 font-medium text-right">Contracts</th>
+                            <th className="pb-2 font-medium text-right">Cost</th>
+                            <th className="pb-2 font-medium text-right">Mark</th>
+                            <th className="pb-2 font-medium text-right">Value</th>
+                            <th className="pb-2 font-medium text-right">Unrealized</th>
+                            <th className="pb-2 font-medium text-right">Max Payout</th>
+                            <th className="pb-2 font-medium text-right">Max Loss</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800">
+                          {event.positions.map((position) => (
+                            <tr key={position.ticker}>
+                              <td className="py-2 text-white" title={position.ticker}>
+                                {position.word}
+                                {position.restingOrders > 0 && (
+                                  <span className="ml-2 text-xs text-slate-500">
+                                    {position.restingOrders} resting
+                                  </span>
+                                )}
+                              </td>
+                              <td
+                                className={`py-2 font-medium ${
+                                  position.side === 'yes'
+                                    ? 'text-profit-400'
+                                    : 'text-loss-400'
+                                }`}
+                              >
+                                {position.side.toUpperCase()}
+                              </td>
+                              <td className="py-2 text-right font-mono text-white">
+                                {position.contracts}
+                              </td>
+                              <td className="py-2 text-right font-mono text-slate-300">
+                                {formatDollars(position.cost)}
+                              </td>
+                              <td
+                                className="py-2 text-right font-mono text-slate-300"
+                                title={
+                                  position.priced ? undefined : 'No quote: valued at cost'
+                                }
+                              >
+                                {position.mark}¢{!position.priced && '*'}
+                              </td>
+                              <td className="py-2 text-right font-mono text-white">
+                                {formatDollars(position.marketValue)}
+                              </td>
+                              <td
+                                className={`py-2 text-right font-mono ${pnlClass(position.unrealizedPnl)}`}
+                              >
+                                {formatPnl(position.unrealizedPnl)}
+                              </td>
+                              <td className="py-2 text-right font-mono text-profit-500">
+                                {formatDollars(position.maxPayout)}
+                              </td>
+                              <td className="py-2 text-right font-mono text-loss-500">
+                                -{formatDollars(position.maxLoss)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Portfolio;
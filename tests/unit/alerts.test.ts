@@ -0,0 +1,350 @@
+// Unit Tests for price and news alerts
+// Covers rule validation, crossing/spread/volume checks and the engine's cooldowns,
+// word-scoped rules, news trending and closing-soon hits
+
+import { describe, it, expect } from 'bun:test';
+import {
+  normalizeAlertRule,
+  priceCrossed,
+  quoteSpread,
+  volumeIncrease,
+  AlertEngine,
+  type AlertHit,
+  type AlertMarket,
+  type AlertQuote,
+  type NewAlertRule,
+} from '../../server/lib/alerts';
+import type { AlertRule } from '../../server/lib/dynamodb';
+
+const TICKER = 'KXEARNINGSMENTIONAAPL-25OCT30-TARIFF';
+const EVENT = 'KXEARNINGSMENTIONAAPL-25OCT30';
+const NOW = new Date('2025-10-30T20:00:00.000Z');
+
+function quote(overrides: Partial<AlertQuote> = {}): AlertQuote {
+  return {
+    market_ticker: TICKER,
+    yes_bid: 42,
+    yes_ask: 45,
+    no_bid: 55,
+    no_ask: 58,
+    last_price: 44,
+    volume: 100,
+    volume_24h: 50,
+    open_interest: 80,
+    ...overrides,
+  };
+}
+
+const MARKETS: AlertMarket[] = [
+  {
+    ticker: TICKER,
+    word: 'Tariff',
+    eventTicker: EVENT,
+    company: 'Apple',
+    closeTime: '2025-10-30T21:00:00.000Z',
+  },
+];
+
+function minutesAfter(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60_000);
+}
+
+function createEngine(
+  options: {
+    markets?: AlertMarket[];
+    trending?: boolean[];
+    rules?: AlertRule[];
+  } = {}
+) {
+  const hits: AlertHit[] = [];
+  const fired: Array<[string, string | undefined]> = [];
+  const subscribed: string[][] = [];
+  const trending = [...(options.trending || [])];
+
+  const engine = new AlertEngine(
+    (alert) => hits.push(alert),
+    (tickers) => subscribed.push(tickers),
+    {
+      loadMarkets: async () => options.markets ?? MARKETS,
+      newsForWord: async () => ({
+        trending: trending.shift() ?? false,
+        recency: { today: 4, thisWeek: 9 },
+      }),
+    },
+    {
+      getAllAlertRules: async () => options.rules ?? [],
+      saveAlertRule: async (rule) =>
+        ({
+          ...rule,
+          PK: `ALERT#${rule.ruleId}`,
+          SK: 'METADATA',
+          createdAt: NOW.toISOString(),
+          updatedAt: NOW.toISOString(),
+        }) as AlertRule,
+      deleteAlertRule: async () => {},
+      markAlertRuleFired: async (ruleId, _firedAt, closedEventTicker) => {
+        fired.push([ruleId, closedEventTicker]);
+      },
+    }
+  );
+
+  return { engine, hits, subscribed, fired };
+}
+
+function rule(condition: NewAlertRule['condition'], scope: Partial<NewAlertRule> = {}) {
+  return { marketTicker: TICKER, condition, cooldownMinutes: 30, ...scope };
+}
+
+describe('normalizeAlertRule', () => {
+  it('accepts a price rule and applies the default cooldown', () => {
+    const result = normalizeAlertRule({
+      marketTicker: TICKER,
+      condition: { type: 'price_cross', field: 'yes_ask', direction: 'above', value: 60 },
+    });
+    expect(result).toEqual({
+      rule: {
+        marketTicker: TICKER,
+        condition: {
+          type: 'price_cross',
+          field: 'yes_ask',
+          direction: 'above',
+          value: 60,
+        },
+        cooldownMinutes: 30,
+      },
+    });
+  });
+
+  it('requires a market ticker or word', () => {
+    const result = normalizeAlertRule({ condition: { type: 'news_trending' } });
+    expect(result).toEqual({ error: 'marketTicker or word is required' });
+  });
+
+  it('rejects out-of-range parameters and unknown types', () => {
+    expect(
+      'error' in
+        normalizeAlertRule({
+          word: 'AI',
+          condition: { type: 'spread_tight', maxSpread: 0 },
+        })
+    ).toBe(true);
+    expect(
+      'error' in
+        normalizeAlertRule({
+          word: 'AI',
+          condition: { type: 'volume_spike', contracts: 100, windowMinutes: 600 },
+        })
+    ).toBe(true);
+    expect(
+      'error' in normalizeAlertRule({ word: 'AI', condition: { type: 'sentiment' } })
+    ).toBe(true);
+  });
+});
+
+describe('quote checks', () => {
+  const above60 = {
+    type: 'price_cross' as const,
+    field: 'yes_ask' as const,
+    direction: 'above' as const,
+    value: 60,
+  };
+
+  it('detects a price moving through the threshold only', () => {
+    expect(priceCrossed(above60, quote({ yes_ask: 58 }), quote({ yes_ask: 61 }))).toBe(
+      true
+    );
+    expect(priceCrossed(above60, quote({ yes_ask: 61 }), quote({ yes_ask: 63 }))).toBe(
+      false
+    );
+    expect(priceCrossed(above60, undefined, quote({ yes_ask: 61 }))).toBe(false);
+    // An emptied book side is not a cross
+    expect(priceCrossed(above60, quote({ yes_ask: 58 }), quote({ yes_ask: 100 }))).toBe(
+      false
+    );
+  });
+
+  it('measures the spread and the volume traded in a window', () => {
+    expect(quoteSpread(quote())).toBe(3);
+    expect(quoteSpread(quote({ yes_bid: 0 }))).toBeNull();
+
+    const samples = [
+      { at: NOW.getTime() - 30 * 60_000, volume: 100 },
+      { at: NOW.getTime() - 10 * 60_000, volume: 150 },
+      { at: NOW.getTime(), volume: 400 },
+    ];
+    expect(volumeIncrease(samples, 15, NOW)).toBe(250);
+    expect(volumeIncrease(samples, 60, NOW)).toBe(300);
+  });
+});
+
+describe('AlertEngine', () => {
+  it('fires a price rule on the cross and then cools down', async () => {
+    const { engine, hits, subscribed } = createEngine();
+    await engine.load();
+    await engine.create(
+      rule({ type: 'price_cross', field: 'yes_ask', direction: 'above', value: 60 }),
+      NOW
+    );
+    expect(subscribed).toEqual([[TICKER]]);
+
+    engine.onTicker(quote({ yes_ask: 58 }), NOW);
+    engine.onTicker(quote({ yes_ask: 61 }), NOW);
+    engine.onTicker(quote({ yes_ask: 58 }), minutesAfter(NOW, 5));
+    engine.onTicker(quote({ yes_ask: 62 }), minutesAfter(NOW, 6));
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].word).toBe('Tariff');
+    expect(hits[0].eventTicker).toBe(EVENT);
+    expect(hits[0].message).toContain('now 61¢');
+
+    // After the cooldown the next cross fires again
+    engine.onTicker(quote({ yes_ask: 58 }), minutesAfter(NOW, 40));
+    engine.onTicker(quote({ yes_ask: 61 }), minutesAfter(NOW, 41));
+    expect(hits).toHaveLength(2);
+  });
+
+  it('applies word rules to every market for the word', async () => {
+    const { engine, hits } = createEngine();
+    await engine.load();
+    await engine.create(
+      rule(
+        { type: 'spread_tight', maxSpread: 2 },
+        { marketTicker: undefined, word: 'tariff' }
+      ),
+      NOW
+    );
+
+    engine.onTicker(quote({ yes_bid: 40, yes_ask: 45 }), NOW);
+    engine.onTicker(quote({ yes_bid: 43, yes_ask: 45 }), NOW);
+    engine.onTicker(quote({ market_ticker: 'OTHER', yes_bid: 40, yes_ask: 45 }), NOW);
+    engine.onTicker(quote({ market_ticker: 'OTHER', yes_bid: 44, yes_ask: 45 }), NOW);
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].marketTicker).toBe(TICKER);
+    expect(hits[0].type).toBe('spread_tight');
+  });
+
+  it('fires a volume spike once enough contracts trade in the window', async () => {
+    const { engine, hits } = createEngine();
+    await engine.load();
+    await engine.create(
+      rule({ type: 'volume_spike', contracts: 200, windowMinutes: 10 }),
+      NOW
+    );
+
+    engine.onTicker(quote({ volume: 1000 }), NOW);
+    engine.onTicker(quote({ volume: 1150 }), minutesAfter(NOW, 5));
+    expect(hits).toHaveLength(0);
+    engine.onTicker(quote({ volume: 1250 }), minutesAfter(NOW, 8));
+    expect(hits).toHaveLength(1);
+    expect(hits[0].message).toBe('250 contracts traded in the last 10m');
+  });
+
+  it('fires news rules when the word becomes trending', async () => {
+    const { engine, hits } = createEngine({ trending: [false, true, true] });
+    await engine.load();
+    await engine.create(rule({ type: 'news_trending' }, { cooldownMinutes: 0 }), NOW);
+
+    await engine.checkNews(NOW);
+    await engine.checkNews(minutesAfter(NOW, 10));
+    await engine.checkNews(minutesAfter(NOW, 20));
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].message).toContain('"Tariff" is trending');
+  });
+
+  it('fires closing-soon rules once inside the lead time', async () => {
+    const { engine, hits } = createEngine();
+    await engine.load();
+    await engine.create(rule({ type: 'closing_soon', minutes: 30 }), NOW);
+
+    engine.checkCloses(minutesAfter(NOW, 20));
+    expect(hits).toHaveLength(0);
+    engine.checkCloses(minutesAfter(NOW, 40));
+    engine.checkCloses(minutesAfter(NOW, 45));
+    expect(hits).toHaveLength(1);
+    expect(hits[0].message).toBe(`${EVENT} closes in 20m`);
+
+    // Nothing after the close
+    engine.checkCloses(minutesAfter(NOW, 61));
+    expect(hits).toHaveLength(1);
+  });
+
+  it('fires a word rule once for each event closing in overlapping windows', async () => {
+    const other = 'KXEARNINGSMENTIONMSFT-25OCT30';
+    const { engine, hits, fired } = createEngine({
+      markets: [
+        ...MARKETS,
+        {
+          ticker: `${other}-TARIFF`,
+          word: 'Tariff',
+          eventTicker: other,
+          company: 'Microsoft',
+          closeTime: '2025-10-30T21:10:00.000Z',
+        },
+      ],
+    });
+    await engine.load();
+    const created = await engine.create(
+      rule(
+        { type: 'closing_soon', minutes: 30 },
+        { marketTicker: undefined, word: 'Tariff' }
+      ),
+      NOW
+    );
+
+    engine.checkCloses(minutesAfter(NOW, 40));
+    engine.checkCloses(minutesAfter(NOW, 45));
+
+    expect(hits.map((hit) => hit.message)).toEqual([
+      `${EVENT} closes in 20m`,
+      `${other} closes in 30m`,
+    ]);
+    expect(fired).toEqual([
+      [created.ruleId, EVENT],
+      [created.ruleId, other],
+    ]);
+  });
+
+  it('does not repeat a closing-soon hit saved before a restart', async () => {
+    const saved: AlertRule = {
+      ...rule({ type: 'closing_soon', minutes: 30 }),
+      PK: 'ALERT#alert-1',
+      SK: 'METADATA',
+      ruleId: 'alert-1',
+      closesFired: [EVENT],
+      createdAt: NOW.toISOString(),
+      updatedAt: NOW.toISOString(),
+    };
+    const { engine, hits } = createEngine({ rules: [saved] });
+    await engine.load();
+
+    engine.checkCloses(minutesAfter(NOW, 40));
+    expect(hits).toHaveLength(0);
+  });
+
+  it('gives rules created in the same millisecond their own ids', async () => {
+    const { engine } = createEngine();
+    const first = await engine.create(rule({ type: 'spread_tight', maxSpread: 2 }), NOW);
+    const second = await engine.create(rule({ type: 'spread_tight', maxSpread: 2 }), NOW);
+
+    expect(first.ruleId).toStartWith(`alert-${NOW.getTime()}-`);
+    expect(second.ruleId).not.toBe(first.ruleId);
+    expect(engine.list()).toHaveLength(2);
+  });
+
+  it('stops evaluating a removed rule', async () => {
+    const { engine, hits } = createEngine();
+    await engine.load();
+    const created = await engine.create(
+      rule({ type: 'spread_tight', maxSpread: 2 }),
+      NOW
+    );
+
+    expect(await engine.remove(created.ruleId)).toBe(true);
+    expect(await engine.remove(created.ruleId)).toBe(false);
+    engine.onTicker(quote({ yes_bid: 40, yes_ask: 45 }), NOW);
+    engine.onTicker(quote({ yes_bid: 44, yes_ask: 45 }), NOW);
+    expect(hits).toHaveLength(0);
+  });
+});
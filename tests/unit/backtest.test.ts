@@ -0,0 +1,167 @@
+// Unit Tests for the strategy backtester
+// Covers fill decisions, P&L, drawdown, pre-call quotes and strategy normalization
+
+import { describe, it, expect } from 'bun:test';
+import {
+  quoteFromSnapshot,
+  decideTrade,
+  runBacktest,
+  normalizeStrategy,
+  DEFAULT_STRATEGY,
+} from '../../server/lib/backtest';
+import type { SettledMarketReplay } from '../../server/lib/calibration';
+import type { EarningsEvent, PriceSnapshot } from '../../server/lib/dynamodb';
+import { takerFee } from '../../src/lib/utils/fees';
+
+describe('quoteFromSnapshot', () => {
+  function snapshot(yesBid: number, yesAsk: number, lastPrice: number): PriceSnapshot {
+    return {
+      PK: 'PRICE#T',
+      SK: 'TS#2025-10-29T20:00:00.000Z',
+      marketTicker: 'T',
+      bucket: '2025-10-29T20:00:00.000Z',
+      yesBid,
+      yesAsk,
+      lastPrice,
+      volume: 10,
+      openInterest: 5,
+      updates: 3,
+      updatedAt: '2025-10-29T20:04:00.000Z',
+      expiresAt: 0,
+    };
+  }
+
+  it('reads the recorded bid, ask and last price', () => {
+    expect(quoteFromSnapshot(snapshot(40, 45, 42))).toEqual({
+      yesBid: 40,
+      yesAsk: 45,
+      lastPrice: 42,
+    });
+  });
+
+  it('drops prices outside 1-99', () => {
+    expect(quoteFromSnapshot(snapshot(0, 100, 100))).toEqual({
+      yesBid: null,
+      yesAsk: null,
+      lastPrice: null,
+    });
+  });
+});
+
+describe('decideTrade', () => {
+  const quote = { yesBid: 40, yesAsk: 45, lastPrice: 42 };
+
+  it('buys YES when the model beats the ask by the minimum edge', () => {
+    expect(decideTrade(DEFAULT_STRATEGY, 61, quote)).toEqual({
+      side: 'yes',
+      price: 45,
+      model: 61,
+      edge: 16,
+    });
+    expect(decideTrade(DEFAULT_STRATEGY, 59, quote)).toBeNull();
+  });
+
+  it('buys NO at 100 minus the YES bid', () => {
+    const strategy = { ...DEFAULT_STRATEGY, side: 'no' as const };
+    expect(decideTrade(strategy, 20, quote)).toMatchObject({
+      side: 'no',
+      price: 60,
+      edge: 20,
+    });
+  });
+
+  it('respects the price band', () => {
+    const strategy = { ...DEFAULT_STRATEGY, maxPrice: 40 };
+    expect(decideTrade(strategy, 90, quote)).toBeNull();
+  });
+});
+
+function replay(
+  eventTicker: string,
+  callDate: string,
+  probability: number,
+  outcome: 0 | 1,
+  quote: { yesPrice: number; noPrice: number }
+): SettledMarketReplay {
+  const market = {
+    ticker: `${eventTicker}-${probability}`,
+    word: 'Tariff',
+    lastPrice: quote.yesPrice,
+    volume: 100,
+    status: 'finalized',
+    ...quote,
+  };
+  return {
+    event: { eventTicker, company: eventTicker } as EarningsEvent,
+    market,
+    callDate,
+    outcome,
+    estimate: {
+      probability,
+      companyRate: probability,
+      peerRate: 0.5,
+      transcripts: 4,
+      effectiveSamples: 3,
+      peerCompanies: 2,
+    },
+  };
+}
+
+describe('runBacktest', () => {
+  const replays = [
+    // Event B settles later but is listed first
+    replay('B', '2025-07-30', 0.8, 0, { yesPrice: 45, noPrice: 50 }),
+    replay('A', '2025-04-30', 0.8, 1, { yesPrice: 45, noPrice: 50 }),
+    replay('A', '2025-04-30', 0.4, 1, { yesPrice: 45, noPrice: 50 }),
+  ];
+  // Pre-call quotes; the market's own prices are post-settlement and never used
+  const preCall = (r: SettledMarketReplay) => ({
+    yesBid: r.market.yesPrice,
+    yesAsk: 100 - r.market.noPrice,
+    lastPrice: r.market.lastPrice,
+  });
+  const result = runBacktest(DEFAULT_STRATEGY, replays, preCall);
+
+  it('trades only on signals and nets fees from P&L', () => {
+    expect(result.summary.trades).toBe(2);
+    expect(result.summary.skipped.noSignal).toBe(1);
+    const fee = takerFee(10, 50);
+    expect(result.trades.find((t) => t.eventTicker === 'A')?.pnl).toBe(500 - fee);
+    expect(result.trades.find((t) => t.eventTicker === 'B')?.pnl).toBe(-500 - fee);
+  });
+
+  it('reports per-event P&L in call order with drawdown', () => {
+    expect(result.events.map((e) => e.eventTicker)).toEqual(['A', 'B']);
+    expect(result.events[1].cumulativePnl).toBe(result.summary.pnl);
+    expect(result.summary.maxDrawdown).toBe(500 + takerFee(10, 50));
+    expect(result.summary.hitRate).toBe(0.5);
+  });
+
+  it('skips markets without a quote from before the call', () => {
+    const missing = runBacktest(DEFAULT_STRATEGY, replays, (r) =>
+      r.event.eventTicker === 'A' ? null : preCall(r)
+    );
+    expect(missing.summary.skipped.noQuote).toBe(2);
+    expect(missing.trades.map((t) => t.eventTicker)).toEqual(['B']);
+  });
+
+  it('requires model history when asked', () => {
+    const strict = runBacktest(
+      { ...DEFAULT_STRATEGY, minTranscripts: 5 },
+      replays,
+      preCall
+    );
+    expect(strict.summary.trades).toBe(0);
+    expect(strict.summary.hitRate).toBeNull();
+  });
+});
+
+describe('normalizeStrategy', () => {
+  it('fills defaults and clamps values', () => {
+    expect(normalizeStrategy({})).toEqual(DEFAULT_STRATEGY);
+    const strategy = normalizeStrategy({ contracts: -5, maxPrice: 150, side: 'either' });
+    expect(strategy.contracts).toBe(1);
+    expect(strategy.maxPrice).toBe(99);
+    expect(strategy.side).toBe('either');
+  });
+});
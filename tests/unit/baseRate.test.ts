@@ -0,0 +1,98 @@
+// Unit Tests for the historical base-rate model
+// Covers recency weighting, the peer prior and the combined estimate
+
+import { describe, it, expect } from 'bun:test';
+import {
+  weightedHitRate,
+  peerPrior,
+  estimateMentionProbability,
+  BASE_RATE_CONFIG,
+} from '../../server/lib/baseRate';
+import { parseMentionStrike } from '../../src/lib/utils/mentionStrike';
+
+const tariff = parseMentionStrike('Tariff');
+
+// Calls listed newest first
+function calls(...contents: string[]) {
+  return contents.map((content, i) => ({
+    date: new Date(Date.UTC(2025, 9 - i * 3, 15)).toISOString().split('T')[0],
+    content,
+  }));
+}
+
+describe('weightedHitRate', () => {
+  it('returns null without transcripts', () => {
+    expect(weightedHitRate([], tariff)).toEqual({ rate: null, weight: 0 });
+  });
+
+  it('weights recent calls more heavily', () => {
+    const recentYes = weightedHitRate(
+      calls('tariffs rose', 'nothing', 'nothing'),
+      tariff
+    );
+    const oldYes = weightedHitRate(calls('nothing', 'nothing', 'tariffs rose'), tariff);
+    expect(recentYes.rate!).toBeGreaterThan(oldYes.rate!);
+  });
+
+  it('halves the weight every halfLife quarters', () => {
+    const { weight } = weightedHitRate(calls('a', 'b'), tariff, 1);
+    expect(weight).toBeCloseTo(1.5);
+  });
+
+  it('sorts by date rather than input order', () => {
+    const newestFirst = calls('tariff', 'none', 'none');
+    const shuffled = [newestFirst[2], newestFirst[0], newestFirst[1]];
+    expect(weightedHitRate(shuffled, tariff).rate).toBeCloseTo(
+      weightedHitRate(newestFirst, tariff).rate!
+    );
+  });
+
+  it('respects the strike minimum count', () => {
+    const strike = parseMentionStrike('Tariff (2+ times)');
+    expect(weightedHitRate(calls('tariff'), strike).rate).toBe(0);
+    expect(weightedHitRate(calls('tariff and tariffs'), strike).rate).toBe(1);
+  });
+});
+
+describe('peerPrior', () => {
+  it('falls back to the neutral rate without peers', () => {
+    expect(peerPrior([], tariff)).toEqual({
+      rate: BASE_RATE_CONFIG.neutralRate,
+      companies: 0,
+    });
+  });
+
+  it('averages peer companies and shrinks toward neutral', () => {
+    const prior = peerPrior([calls('tariff'), calls('tariff')], tariff);
+    expect(prior.companies).toBe(2);
+    expect(prior.rate).toBeGreaterThan(BASE_RATE_CONFIG.neutralRate);
+    expect(prior.rate).toBeLessThan(1);
+  });
+});
+
+describe('estimateMentionProbability', () => {
+  it('uses the peer prior when the company has no history', () => {
+    const result = estimateMentionProbability(tariff, [], [calls('none'), calls('none')]);
+    expect(result.companyRate).toBeNull();
+    expect(result.probability).toBeCloseTo(result.peerRate);
+  });
+
+  it('moves toward the company rate as history grows', () => {
+    const peers = [calls('none')];
+    const short = estimateMentionProbability(tariff, calls('tariff'), peers);
+    const long = estimateMentionProbability(
+      tariff,
+      calls('tariff', 'tariff', 'tariff', 'tariff', 'tariff', 'tariff'),
+      peers
+    );
+    expect(long.probability).toBeGreaterThan(short.probability);
+    expect(long.probability).toBeLessThan(1);
+    expect(long.transcripts).toBe(6);
+  });
+
+  it('stays strictly between 0 and 1', () => {
+    const never = estimateMentionProbability(tariff, calls('none', 'none'), []);
+    expect(never.probability).toBeGreaterThan(0);
+    expect(never.probability).toBeLessThan(0.5);
+  });
+});
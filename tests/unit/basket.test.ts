@@ -0,0 +1,72 @@
+// Unit Tests for Basket Order Utilities
+// Combined preview across legs and per-leg placement results
+
+import { describe, it, expect } from 'bun:test';
+import { previewBasket, placeBasket, type BasketLeg } from '../../src/lib/utils/basket';
+import { takerFee } from '../../src/lib/utils/fees';
+
+function leg(word: string, price: number, count = 10): BasketLeg {
+  return {
+    ticker: `KXEARNINGSMENTIONAAPL-25OCT30-${word}`,
+    word,
+    side: 'no',
+    count,
+    price,
+  };
+}
+
+describe('previewBasket', () => {
+  it('totals premium, fees, max loss and max profit', () => {
+    const legs = [leg('TARIFF', 90), leg('CHINA', 80)];
+    const fees = takerFee(10, 90) + takerFee(10, 80);
+    expect(previewBasket(legs)).toEqual({
+      contracts: 20,
+      premium: 1700,
+      fees,
+      cost: 1700 + fees,
+      maxLoss: 1700 + fees,
+      maxProfit: 2000 - 1700 - fees,
+    });
+  });
+
+  it('is empty for no legs', () => {
+    expect(previewBasket([]).cost).toBe(0);
+  });
+});
+
+describe('placeBasket', () => {
+  it('places legs in order and reports each failure without stopping', async () => {
+    const legs = [leg('A', 90), leg('B', 85), leg('C', 95)];
+    const placed: string[] = [];
+
+    const results = await placeBasket(legs, async (l, index) => {
+      if (l.word === 'B') throw new Error('Order rejected by risk checks');
+      placed.push(l.word);
+      return { betId: `basket-1-${index}` };
+    });
+
+    expect(placed).toEqual(['A', 'C']);
+    expect(results.map((r) => [r.leg.word, r.ok, r.betId ?? r.error])).toEqual([
+      ['A', true, 'basket-1-0'],
+      ['B', false, 'Order rejected by risk checks'],
+      ['C', true, 'basket-1-2'],
+    ]);
+  });
+
+  it('reports a leg whose order went out but whose bet was not saved as placed', async () => {
+    const results = await placeBasket([leg('A', 90), leg('B', 85)], async (l, index) => ({
+      betId: `basket-1-${index}`,
+      ...(l.word === 'A' ? { warning: 'order placed, bet not recorded' } : {}),
+    }));
+
+    expect(results).toEqual([
+      {
+        leg: leg('A', 90),
+        ok: true,
+        betId: 'basket-1-0',
+        warning: 'order placed, bet not recorded',
+      },
+      { leg: leg('B', 85), ok: true, betId: 'basket-1-1' },
+    ]);
+  });
+});
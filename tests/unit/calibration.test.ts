@@ -0,0 +1,172 @@
+// Unit Tests for model calibration
+// Covers the scoring rules, reliability bins and point-in-time sample building
+// (Kalshi results only, pre-call market prices)
+
+import { describe, it, expect } from 'bun:test';
+import {
+  brierScore,
+  logLoss,
+  reliabilityBins,
+  buildCalibrationSamples,
+  replaySettledMarkets,
+  summarizeCalibration,
+  CALIBRATION_CONFIG,
+} from '../../server/lib/calibration';
+import type { EarningsEvent, Transcript } from '../../server/lib/dynamodb';
+
+describe('brierScore', () => {
+  it('returns null without predictions', () => {
+    expect(brierScore([])).toBeNull();
+  });
+
+  it('is 0 for perfect and 0.25 for coin-flip forecasts', () => {
+    expect(
+      brierScore([
+        { probability: 1, outcome: 1 },
+        { probability: 0, outcome: 0 },
+      ])
+    ).toBe(0);
+    expect(
+      brierScore([
+        { probability: 0.5, outcome: 1 },
+        { probability: 0.5, outcome: 0 },
+      ])
+    ).toBe(0.25);
+  });
+});
+
+describe('logLoss', () => {
+  it('is ln 2 for coin-flip forecasts', () => {
+    expect(logLoss([{ probability: 0.5, outcome: 0 }])).toBeCloseTo(Math.LN2);
+  });
+
+  it('clips certain wrong forecasts instead of returning Infinity', () => {
+    const loss = logLoss([{ probability: 0, outcome: 1 }])!;
+    expect(Number.isFinite(loss)).toBe(true);
+    expect(loss).toBeCloseTo(-Math.log(CALIBRATION_CONFIG.epsilon));
+  });
+});
+
+describe('reliabilityBins', () => {
+  it('groups predictions into equal-width bins', () => {
+    const bins = reliabilityBins(
+      [
+        { probability: 0.12, outcome: 0 },
+        { probability: 0.18, outcome: 1 },
+        { probability: 0.95, outcome: 1 },
+        { probability: 1, outcome: 1 },
+      ],
+      10
+    );
+    expect(bins).toHaveLength(10);
+    expect(bins[1]).toMatchObject({ count: 2, observedRate: 0.5 });
+    expect(bins[1].meanPredicted).toBeCloseTo(0.15);
+    expect(bins[9]).toMatchObject({ count: 2, observedRate: 1 });
+    expect(bins[5]).toMatchObject({ count: 0, meanPredicted: null, observedRate: null });
+  });
+});
+
+function transcript(company: string, date: string, content: string): Transcript {
+  return {
+    PK: `TRANSCRIPT#${company}`,
+    SK: `DATE#${date}`,
+    eventTicker: `KXMENTION-${company}`,
+    company,
+    date,
+    quarter: 'Q1',
+    year: 2025,
+    content,
+    wordCount: content.split(' ').length,
+    createdAt: date,
+    verificationStatus: 'verified',
+  } as Transcript;
+}
+
+function event(markets: Partial<EarningsEvent['markets'][number]>[]): EarningsEvent {
+  return {
+    PK: 'EARNINGS#ACME',
+    SK: 'EVENT#KXMENTION-ACME',
+    eventTicker: 'KXMENTION-ACME',
+    company: 'ACME',
+    title: 'Acme',
+    category: 'Tech',
+    status: 'settled',
+    eventDate: '2025-10-20',
+    markets: markets.map((m, i) => ({
+      ticker: `KXMENTION-ACME-${i}`,
+      word: 'Tariff',
+      yesPrice: 0,
+      noPrice: 0,
+      lastPrice: 60,
+      volume: 100,
+      status: 'finalized',
+      ...m,
+    })),
+    totalVolume: 0,
+    marketCount: markets.length,
+    createdAt: '',
+    updatedAt: '',
+  };
+}
+
+function samplesFor(
+  events: EarningsEvent[],
+  transcripts: Transcript[],
+  preCallPrice?: Parameters<typeof buildCalibrationSamples>[1]
+) {
+  return buildCalibrationSamples(replaySettledMarkets(events, transcripts), preCallPrice);
+}
+
+describe('buildCalibrationSamples', () => {
+  const transcripts = [
+    transcript('ACME', '2025-04-20', 'tariffs everywhere'),
+    transcript('ACME', '2025-07-20', 'tariffs again'),
+    transcript('ACME', '2025-10-20', 'no mention this time'),
+  ];
+
+  it("scores Kalshi's result and only models on earlier calls", () => {
+    const { samples } = samplesFor([event([{ result: 'no' }])], transcripts);
+    expect(samples[0]).toMatchObject({ outcome: 0, modelTranscripts: 2 });
+    expect(samples[0].model).toBeGreaterThan(0.5);
+  });
+
+  it('skips markets without a Kalshi result instead of resolving them ourselves', () => {
+    const { samples, skipped } = samplesFor(
+      [event([{ result: 'yes' }, {}])],
+      transcripts
+    );
+    expect(samples).toHaveLength(1);
+    expect(skipped.noOutcome).toBe(1);
+  });
+
+  it('prices the market before the call, never from the settled lastPrice', () => {
+    const events = [event([{ result: 'yes', lastPrice: 99 }])];
+    expect(samplesFor(events, transcripts).samples[0].market).toBeNull();
+    expect(samplesFor(events, transcripts, () => 60).samples[0].market).toBe(0.6);
+    expect(samplesFor(events, transcripts, () => 0).samples[0].market).toBeNull();
+  });
+
+  it('ignores open markets', () => {
+    const open = { ...event([{ status: 'active' }]), status: 'active' as const };
+    expect(samplesFor([open], transcripts).samples).toHaveLength(0);
+  });
+});
+
+describe('summarizeCalibration', () => {
+  it('scores model and market on the same traded markets', () => {
+    const preCall: Record<string, number | null> = {
+      'KXMENTION-ACME-0': 90,
+      'KXMENTION-ACME-1': null,
+    };
+    const { samples, skipped } = samplesFor(
+      [event([{ result: 'yes' }, { result: 'no' }])],
+      [],
+      (replay) => preCall[replay.market.ticker]
+    );
+    const report = summarizeCalibration(samples, skipped);
+    expect(report.model.count).toBe(2);
+    expect(report.market.count).toBe(1);
+    expect(report.paired.count).toBe(1);
+    expect(report.paired.marketBrier).toBeCloseTo(0.01);
+  });
+});
@@ -0,0 +1,43 @@
+// Unit Tests for event call attribution
+// Covers the call date of an event and finding that call's transcript
+
+import { describe, it, expect } from 'bun:test';
+import {
+  eventCallDate,
+  transcriptForCall,
+  CALL_WINDOW_DAYS,
+} from '../../src/lib/utils/eventCalls';
+
+describe('eventCallDate', () => {
+  it('uses the scheduled date, then the close day', () => {
+    expect(
+      eventCallDate({ eventDate: '2025-10-30', closeTime: '2025-11-01T20:00:00Z' })
+    ).toBe('2025-10-30');
+    expect(eventCallDate({ closeTime: '2025-11-01T20:00:00Z' })).toBe('2025-11-01');
+    expect(eventCallDate(null)).toBeNull();
+  });
+});
+
+describe('transcriptForCall', () => {
+  const transcripts = [
+    { date: '2025-07-30' },
+    { date: '2025-10-29' },
+    { date: '2025-10-31' },
+    { date: '2026-01-29' },
+  ];
+
+  it('picks the closest transcript to the call date', () => {
+    expect(transcriptForCall(transcripts, '2025-10-28')?.date).toBe('2025-10-29');
+    expect(transcriptForCall(transcripts, '2025-11-01')?.date).toBe('2025-10-31');
+  });
+
+  it('does not fall forward to a later call', () => {
+    const later = new Date(
+      Date.parse('2026-01-29') - (CALL_WINDOW_DAYS + 1) * 86_400_000
+    );
+    expect(
+      transcriptForCall(transcripts, later.toISOString().split('T')[0])
+    ).toBeUndefined();
+    expect(transcriptForCall(transcripts, null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+// Unit Tests for the Kalshi fee model
+// Taker/maker fees, rounding, break-even and fee-aware P&L on bet records
+
+import { describe, it, expect } from 'bun:test';
+import {
+  tradingFee,
+  takerFee,
+  makerFee,
+  feePerContract,
+  breakEvenProbability,
+  betFees,
+  netPnl,
+} from '../../src/lib/utils/fees';
+
+describe('tradingFee', () => {
+  it('charges 0.07 × C × P × (1 − P) for takers, rounded up to the cent', () => {
+    expect(takerFee(100, 50)).toBe(175);
+    expect(takerFee(1, 50)).toBe(2); // 1.75¢ rounds up
+    expect(takerFee(10, 90)).toBe(7); // 6.3¢ rounds up
+    expect(takerFee(1, 1)).toBe(1); // 0.0693¢ rounds up
+  });
+
+  it('charges a quarter of that for makers', () => {
+    expect(makerFee(100, 50)).toBe(44); // 43.75¢
+    expect(tradingFee(100, 50, 'maker')).toBe(makerFee(100, 50));
+  });
+
+  it('charges nothing for no contracts or prices outside 1-99', () => {
+    expect(takerFee(0, 50)).toBe(0);
+    expect(takerFee(10, 100)).toBe(0);
+    expect(feePerContract(0)).toBe(0);
+  });
+});
+
+describe('breakEvenProbability', () => {
+  it('adds the per-contract fee to the price', () => {
+    expect(breakEvenProbability(50)).toBeCloseTo(51.75, 6);
+    expect(breakEvenProbability(50, 'maker')).toBeCloseTo(50.4375, 6);
+    expect(breakEvenProbability(90)).toBeCloseTo(90.63, 6);
+  });
+});
+
+describe('betFees / netPnl', () => {
+  const bet = { count: 10, price: 40 };
+
+  it('prefers recorded fees, else the taker fee on the filled size', () => {
+    expect(betFees({ ...bet, fees: 3 })).toBe(3);
+    expect(betFees({ ...bet, filledCount: 4, averagePrice: 39 })).toBe(takerFee(4, 39));
+  });
+
+  it('treats P&L with recorded fees as already net', () => {
+    expect(netPnl({ ...bet, result: 'win', pnl: 583, fees: 17 })).toBe(583);
+  });
+
+  it('takes the estimated fee off P&L settled before fees were tracked', () => {
+    expect(netPnl({ ...bet, result: 'loss', pnl: -400 })).toBe(-400 - takerFee(10, 40));
+    expect(netPnl({ ...bet, result: 'void', pnl: 0 })).toBe(0);
+    expect(netPnl(bet)).toBe(0); // Not settled
+  });
+});
@@ -0,0 +1,348 @@
+// Unit Tests for the shared MENTION word matcher
+// Table-driven from the INCLUDED/EXCLUDED rules in docs/KALSHI_RULES.md
+
+import { describe, it, expect } from 'bun:test';
+import {
+  buildMentionPattern,
+  countMentions,
+  countMentionsInAll,
+  explainMentions,
+  findMentions,
+  splitAlternatives,
+} from '../../src/lib/utils/mentionMatcher';
+
+interface RuleCase {
+  rule: string;
+  word: string;
+  text: string;
+  expected: number;
+}
+
+// INCLUDED: each case should count as a match
+const INCLUDED: RuleCase[] = [
+  { rule: 'plural (s)', word: 'Immigrant', text: 'Immigrants arrived.', expected: 1 },
+  { rule: 'plural (es)', word: 'tax', text: 'New taxes were proposed.', expected: 1 },
+  {
+    rule: 'plural (ies)',
+    word: 'company',
+    text: 'Many companies reported.',
+    expected: 1,
+  },
+  {
+    rule: 'plural (irregular)',
+    word: 'child',
+    text: 'Programs for children and families.',
+    expected: 1,
+  },
+  {
+    rule: 'plural (irregular, possessive)',
+    word: 'person',
+    text: "The people's choice.",
+    expected: 1,
+  },
+  {
+    rule: 'possessive',
+    word: 'Netflix',
+    text: "Netflix's subscribers grew.",
+    expected: 1,
+  },
+  {
+    rule: 'possessive plural',
+    word: 'Egg',
+    text: "The eggs' shells cracked.",
+    expected: 1,
+  },
+  {
+    rule: 'curly possessive',
+    word: 'Apple',
+    text: 'Apple’s margin expanded.',
+    expected: 1,
+  },
+  {
+    rule: 'hyphenated compound (prefix)',
+    word: 'Palestine',
+    text: 'A pro-Palestine rally.',
+    expected: 1,
+  },
+  {
+    rule: 'hyphenated compound (suffix)',
+    word: 'AI',
+    text: 'Our AI-driven products.',
+    expected: 1,
+  },
+  { rule: 'open compound', word: 'couch', text: 'A real couch potato.', expected: 1 },
+  { rule: 'ordinal', word: 'January 6', text: 'On January 6th we met.', expected: 1 },
+  {
+    rule: 'ordinal (plain number)',
+    word: 'January 6',
+    text: 'On January 6 we met.',
+    expected: 1,
+  },
+  { rule: 'homonym', word: 'ICE', text: 'A glass of ice water.', expected: 1 },
+  {
+    rule: 'homograph',
+    word: 'bass',
+    text: 'A bass guitar and bass fishing.',
+    expected: 2,
+  },
+  {
+    rule: 'adjacent context (alternatives)',
+    word: 'Elon / Musk',
+    text: 'He studied at Elon University.',
+    expected: 1,
+  },
+  {
+    rule: 'alternatives (no spaces)',
+    word: 'Doge/Dogecoin',
+    text: 'Doge and Dogecoin were both mentioned.',
+    expected: 2,
+  },
+  { rule: 'phrase', word: 'free cash flow', text: 'Free cash flow was up.', expected: 1 },
+  {
+    rule: 'phrase across line break',
+    word: 'free cash flow',
+    text: 'Our free cash\nflow was up.',
+    expected: 1,
+  },
+  {
+    rule: 'case insensitive',
+    word: 'tariff',
+    text: 'TARIFF, Tariff, tariff.',
+    expected: 3,
+  },
+];
+
+// EXCLUDED: each case should NOT count as a match
+const EXCLUDED: RuleCase[] = [
+  {
+    rule: 'grammatical inflection',
+    word: 'Immigrant',
+    text: 'Immigration policy changed.',
+    expected: 0,
+  },
+  { rule: 'tense change', word: 'grow', text: 'Growing and grew.', expected: 0 },
+  { rule: 'closed compound', word: 'fire', text: 'The firetruck arrived.', expected: 0 },
+  {
+    rule: 'closed compound (prefix)',
+    word: 'truck',
+    text: 'The firetruck.',
+    expected: 0,
+  },
+  { rule: 'other language', word: 'fire', text: 'Fuego en la casa.', expected: 0 },
+  { rule: 'homophone', word: 'write', text: 'That is right.', expected: 0 },
+  { rule: 'synonym', word: 'revenue', text: 'Sales and turnover rose.', expected: 0 },
+  {
+    rule: 'no false "es" plural',
+    word: 'Tim',
+    text: 'These are good times.',
+    expected: 0,
+  },
+  {
+    rule: 'ordinal only for numbers',
+    word: 'nor',
+    text: 'The north region.',
+    expected: 0,
+  },
+];
+
+// Rule labels expected on match records
+const EXPLAINED: Array<RuleCase & { match: string; included: boolean; applied: string }> =
+  [
+    {
+      rule: 'plural',
+      word: 'Immigrant',
+      text: 'Immigrants',
+      expected: 1,
+      match: 'Immigrants',
+      included: true,
+      applied: 'plural',
+    },
+    {
+      rule: 'plural (irregular)',
+      word: 'child',
+      text: 'children',
+      expected: 1,
+      match: 'children',
+      included: true,
+      applied: 'plural',
+    },
+    {
+      rule: 'plural (irregular, same length)',
+      word: 'person',
+      text: 'people',
+      expected: 1,
+      match: 'people',
+      included: true,
+      applied: 'plural',
+    },
+    {
+      rule: 'possessive',
+      word: 'Netflix',
+      text: "Netflix's",
+      expected: 1,
+      match: "Netflix's",
+      included: true,
+      applied: 'possessive',
+    },
+    {
+      rule: 'ordinal',
+      word: 'January 6',
+      text: 'January 6th',
+      expected: 1,
+      match: 'January 6th',
+      included: true,
+      applied: 'ordinal',
+    },
+    {
+      rule: 'hyphenated',
+      word: 'Palestine',
+      text: 'pro-Palestine',
+      expected: 1,
+      match: 'Palestine',
+      included: true,
+      applied: 'hyphenated-compound',
+    },
+    {
+      rule: 'exact',
+      word: 'fire',
+      text: 'fire',
+      expected: 1,
+      match: 'fire',
+      included: true,
+      applied: 'exact',
+    },
+    {
+      rule: 'inflection',
+      word: 'Immigrant',
+      text: 'Immigration',
+      expected: 0,
+      match: 'Immigration',
+      included: false,
+      applied: 'inflection',
+    },
+    {
+      rule: 'inflection (suffix)',
+      word: 'grow',
+      text: 'growth',
+      expected: 0,
+      match: 'growth',
+      included: false,
+      applied: 'inflection',
+    },
+    {
+      rule: 'closed compound',
+      word: 'fire',
+      text: 'firetruck',
+      expected: 0,
+      match: 'firetruck',
+      included: false,
+      applied: 'closed-compound',
+    },
+    {
+      rule: 'closed compound (prefix)',
+      word: 'truck',
+      text: 'firetruck',
+      expected: 0,
+      match: 'firetruck',
+      included: false,
+      applied: 'closed-compound',
+    },
+  ];
+
+describe('MENTION rules - INCLUDED', () => {
+  for (const c of INCLUDED) {
+    it(`${c.rule}: "${c.word}" in "${c.text}"`, () => {
+      expect(countMentions(c.text, c.word)).toBe(c.expected);
+    });
+  }
+});
+
+describe('MENTION rules - EXCLUDED', () => {
+  for (const c of EXCLUDED) {
+    it(`${c.rule}: "${c.word}" in "${c.text}"`, () => {
+      expect(countMentions(c.text, c.word)).toBe(c.expected);
+    });
+  }
+});
+
+describe('splitAlternatives', () => {
+  it('should split slash-separated alternatives', () => {
+    expect(splitAlternatives('Doge/Dogecoin')).toEqual(['Doge', 'Dogecoin']);
+    expect(splitAlternatives('Elon / Musk')).toEqual(['Elon', 'Musk']);
+  });
+
+  it('should not split numeric slashes', () => {
+    expect(splitAlternatives('24/7')).toEqual(['24/7']);
+  });
+
+  it('should return empty list for blank words', () => {
+    expect(splitAlternatives('   ')).toEqual([]);
+  });
+});
+
+describe('findMentions', () => {
+  it('should return offsets and matched text', () => {
+    const text = 'Tariffs matter. A tariff is a tax.';
+    const matches = findMentions(text, 'tariff');
+
+    expect(matches).toHaveLength(2);
+    expect(matches[0]).toMatchObject({ index: 0, text: 'Tariffs' });
+    expect(matches[1]).toMatchObject({ index: 18, text: 'tariff' });
+  });
+
+  it('should report which alternative matched', () => {
+    const matches = findMentions('Dogecoin rallied.', 'Doge/Dogecoin');
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].alternative).toBe('Dogecoin');
+  });
+
+  it('should include ordinal suffix in matched text', () => {
+    const matches = findMentions('January 6th', 'January 6');
+    expect(matches[0].text).toBe('January 6th');
+  });
+
+  it('should handle empty input', () => {
+    expect(findMentions('', 'revenue')).toEqual([]);
+    expect(findMentions('revenue', '')).toEqual([]);
+    expect(buildMentionPattern('  ')).toBeNull();
+  });
+});
+
+describe('countMentionsInAll', () => {
+  it('should sum counts across transcripts', () => {
+    const texts = ['Tariffs rose.', 'No mention here.', 'Tariff and tariffs.'];
+    expect(countMentionsInAll(texts, 'tariff')).toBe(3);
+  });
+});
+
+describe('explainMentions', () => {
+  for (const c of EXPLAINED) {
+    it(`${c.rule}: "${c.word}" in "${c.text}" -> ${c.applied}`, () => {
+      const [match] = explainMentions(c.text, c.word);
+
+      expect(match).toMatchObject({
+        text: c.match,
+        included: c.included,
+        rule: c.applied,
+      });
+      expect(countMentions(c.text, c.word)).toBe(c.expected);
+    });
+  }
+
+  it('should order counted matches and near-misses by position', () => {
+    const text = 'Immigration reform helps immigrants.';
+    const matches = explainMentions(text, 'immigrant');
+
+    expect(matches.map((m) => [m.text, m.included])).toEqual([
+      ['Immigration', false],
+      ['immigrants', true],
+    ]);
+  });
+
+  it('should not report acronyms inside unrelated words', () => {
+    const matches = explainMentions('The office service uses ICE.', 'ICE');
+    expect(matches).toHaveLength(1);
+    expect(matches[0].included).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+// Unit Tests for MENTION strike parsing and evaluation
+// Covers minimum counts ("Tariff (3+ times)") and alternatives ("Doge/Dogecoin")
+
+import { describe, it, expect } from 'bun:test';
+import {
+  parseMentionStrike,
+  formatStrike,
+  evaluateStrike,
+  evaluateStrikeHistory,
+} from '../../src/lib/utils/mentionStrike';
+import { marketToStrike } from '../../src/lib/api/kalshi';
+
+describe('parseMentionStrike', () => {
+  const cases: Array<{
+    raw: string;
+    label: string;
+    alternatives: string[];
+    minCount: number;
+  }> = [
+    { raw: 'Tariff', label: 'Tariff', alternatives: ['Tariff'], minCount: 1 },
+    { raw: 'Tariff (3+ times)', label: 'Tariff', alternatives: ['Tariff'], minCount: 3 },
+    { raw: 'Tariff (5+)', label: 'Tariff', alternatives: ['Tariff'], minCount: 5 },
+    { raw: 'Tariff 2+ times', label: 'Tariff', alternatives: ['Tariff'], minCount: 2 },
+    { raw: 'AI at least 10 times', label: 'AI', alternatives: ['AI'], minCount: 10 },
+    {
+      raw: 'China 4 or more times',
+      label: 'China',
+      alternatives: ['China'],
+      minCount: 4,
+    },
+    {
+      raw: 'Doge/Dogecoin',
+      label: 'Doge/Dogecoin',
+      alternatives: ['Doge', 'Dogecoin'],
+      minCount: 1,
+    },
+    {
+      raw: '"Free Cash Flow"',
+      label: 'Free Cash Flow',
+      alternatives: ['Free Cash Flow'],
+      minCount: 1,
+    },
+    { raw: 'January 6', label: 'January 6', alternatives: ['January 6'], minCount: 1 },
+  ];
+
+  for (const c of cases) {
+    it(`should parse "${c.raw}"`, () => {
+      const strike = parseMentionStrike(c.raw);
+      expect(strike.raw).toBe(c.raw);
+      expect(strike.label).toBe(c.label);
+      expect(strike.alternatives).toEqual(c.alternatives);
+      expect(strike.minCount).toBe(c.minCount);
+    });
+  }
+});
+
+describe('formatStrike', () => {
+  it('should only show the count qualifier when above one', () => {
+    expect(formatStrike(parseMentionStrike('Tariff'))).toBe('Tariff');
+    expect(formatStrike(parseMentionStrike('Tariff (3+ times)'))).toBe('Tariff (3+)');
+  });
+});
+
+describe('evaluateStrike', () => {
+  it('should resolve YES only when the minimum count is reached', () => {
+    const strike = parseMentionStrike('Tariff (3+ times)');
+
+    expect(evaluateStrike('Tariffs and tariff.', strike)).toEqual({
+      count: 2,
+      minCount: 3,
+      resolvesYes: false,
+    });
+    expect(evaluateStrike('Tariffs, tariff, tariff.', strike).resolvesYes).toBe(true);
+  });
+
+  it('should count any alternative toward the strike', () => {
+    const strike = parseMentionStrike('Doge/Dogecoin (2+ times)');
+    const result = evaluateStrike('Doge rallied. Dogecoin too.', strike);
+
+    expect(result.count).toBe(2);
+    expect(result.resolvesYes).toBe(true);
+  });
+});
+
+describe('evaluateStrikeHistory', () => {
+  it('should count transcripts that would have resolved YES', () => {
+    const strike = parseMentionStrike('Tariff (2+)');
+    const history = evaluateStrikeHistory(
+      ['Tariff, tariffs.', 'One tariff.', 'Nothing here.'],
+      strike
+    );
+
+    expect(history).toEqual({ totalCount: 3, hits: 1, evaluated: 3 });
+  });
+});
+
+describe('marketToStrike', () => {
+  it('should read the word from the subtitle and the count from the title', () => {
+    const strike = marketToStrike({
+      ticker: 'KXEARNINGSMENTIONNFLX-26JAN20-TARI',
+      title: 'Will Netflix say Tariff 3+ times during its earnings call?',
+      subtitle: '',
+      yes_sub_title: 'Tariff',
+    });
+
+    expect(strike.label).toBe('Tariff');
+    expect(strike.minCount).toBe(3);
+  });
+
+  it('should fall back to the ticker suffix', () => {
+    const strike = marketToStrike({
+      ticker: 'KXEARNINGSMENTIONNFLX-26JAN20-AI',
+      title: 'What will Netflix say during their earnings call?',
+      subtitle: '',
+    });
+
+    expect(strike.label).toBe('AI');
+    expect(strike.minCount).toBe(1);
+  });
+});
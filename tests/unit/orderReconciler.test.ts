@@ -0,0 +1,323 @@
+// Unit Tests for the bet/order reconciler
+// Covers fill totals, partial fills, cancels, settlement and a full sweep
+
+import { describe, it, expect } from 'bun:test';
+import {
+  reconcileBet,
+  settleBet,
+  betIdForClientOrder,
+  orderForBet,
+  fillsForBet,
+  OrderReconciler,
+  type KalshiFillRecord,
+  type KalshiOrderState,
+} from '../../server/lib/orderReconciler';
+import type { BetRecord, BetUpdate } from '../../server/lib/dynamodb';
+import { takerFee, makerFee } from '../../src/lib/utils/fees';
+
+const TICKER = 'KXEARNINGSMENTIONAAPL-25OCT30-AI';
+
+function bet(overrides: Partial<BetRecord> = {}): BetRecord {
+  return {
+    PK: 'BET#order-1',
+    SK: 'METADATA',
+    betId: 'order-1',
+    eventTicker: 'KXEARNINGSMENTIONAAPL-25OCT30',
+    marketTicker: TICKER,
+    company: 'Apple',
+    word: 'AI',
+    side: 'yes',
+    action: 'buy',
+    count: 10,
+    price: 40,
+    status: 'pending',
+    createdAt: '2025-10-28T12:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function order(status: string, remaining = 0): KalshiOrderState {
+  return {
+    order_id: 'k-1',
+    client_order_id: 'order-1',
+    ticker: TICKER,
+    status,
+    side: 'yes',
+    remaining_count: remaining,
+  };
+}
+
+function fill(
+  tradeId: string,
+  count: number,
+  yesPrice: number,
+  isTaker = true
+): KalshiFillRecord {
+  return {
+    trade_id: tradeId,
+    order_id: 'k-1',
+    ticker: TICKER,
+    side: 'yes',
+    count,
+    yes_price: yesPrice,
+    no_price: 100 - yesPrice,
+    is_taker: isTaker,
+  };
+}
+
+describe('reconcileBet', () => {
+  it('marks a resting order with some fills as partial', () => {
+    expect(reconcileBet(bet(), order('resting', 6), [fill('t1', 4, 39)])).toEqual({
+      status: 'partial',
+      orderId: 'k-1',
+      filledCount: 4,
+      averagePrice: 39,
+      fees: takerFee(4, 39),
+    });
+  });
+
+  it('charges maker fees on fills of a resting order', () => {
+    const update = reconcileBet(bet(), order('executed'), [
+      fill('t1', 4, 40, false),
+      fill('t2', 6, 40),
+    ]);
+    expect(update.fees).toBe(makerFee(4, 40) + takerFee(6, 40));
+  });
+
+  it('keeps the filled part of a cancelled order', () => {
+    const update = reconcileBet(bet(), order('canceled'), [
+      fill('t1', 2, 38),
+      fill('t2', 2, 40),
+    ]);
+    expect(update).toMatchObject({ status: 'filled', filledCount: 4, averagePrice: 39 });
+    expect(reconcileBet(bet(), order('canceled'), [])).toMatchObject({
+      status: 'cancelled',
+      filledCount: 0,
+    });
+  });
+
+  it('treats an executed order without listed fills as filled at the limit', () => {
+    expect(reconcileBet(bet(), order('executed'), [])).toMatchObject({
+      status: 'filled',
+      filledCount: 10,
+      averagePrice: 40,
+      fees: takerFee(10, 40),
+    });
+  });
+
+  it('prices NO fills on the NO side', () => {
+    const update = reconcileBet(bet({ side: 'no' }), order('executed'), [
+      fill('t1', 10, 55),
+    ]);
+    expect(update.averagePrice).toBe(45);
+  });
+
+  it('returns only changed fields', () => {
+    const current = bet({
+      status: 'partial',
+      orderId: 'k-1',
+      filledCount: 4,
+      averagePrice: 39,
+      fees: takerFee(4, 39),
+    });
+    expect(reconcileBet(current, order('resting', 6), [fill('t1', 4, 39)])).toEqual({});
+  });
+});
+
+describe('betIdForClientOrder', () => {
+  it('strips the amend suffix from client order ids', () => {
+    expect(betIdForClientOrder('order-1')).toBe('order-1');
+    expect(betIdForClientOrder('order-1~1761652800000')).toBe('order-1');
+  });
+});
+
+describe('orderForBet', () => {
+  const cancelled = {
+    ...order('canceled'),
+    order_id: 'k-1',
+    created_time: '2025-10-28T12:00:00Z',
+  };
+  const amended = {
+    ...order('canceled'),
+    order_id: 'k-2',
+    client_order_id: 'order-1~1761652800000',
+    created_time: '2025-10-28T13:00:00Z',
+  };
+  const live = {
+    ...order('resting', 10),
+    order_id: 'k-3',
+    client_order_id: 'order-1~1761656400000',
+    created_time: '2025-10-28T14:00:00Z',
+  };
+
+  it('prefers the order id recorded on the bet', () => {
+    expect(orderForBet(bet({ orderId: 'k-3' }), [cancelled, amended, live])).toBe(live);
+  });
+
+  it('falls back to the newest order for the client order id', () => {
+    expect(orderForBet(bet({ orderId: 'k-9' }), [cancelled, live, amended])).toBe(live);
+    expect(orderForBet(bet(), [cancelled, amended])).toBe(amended);
+    expect(orderForBet(bet({ betId: 'order-2' }), [cancelled, live])).toBeUndefined();
+  });
+});
+
+describe('settleBet', () => {
+  const filled = bet({ status: 'filled', filledCount: 4, averagePrice: 39 });
+  const now = new Date('2025-10-31T00:00:00.000Z');
+
+  it('waits for the market to finalize', () => {
+    expect(settleBet(filled, { status: 'closed', result: 'yes' })).toBeNull();
+    expect(settleBet(filled, { status: 'finalized', result: '' })).toBeNull();
+  });
+
+  it('pays out on the filled contracts at the average price, net of fees', () => {
+    expect(settleBet(filled, { status: 'finalized', result: 'yes' }, now)).toEqual({
+      result: 'win',
+      pnl: 244 - 7,
+      fees: 7,
+      settledAt: now.toISOString(),
+    });
+    expect(settleBet(filled, { status: 'finalized', result: 'no' }, now)).toMatchObject({
+      result: 'loss',
+      pnl: -156 - 7,
+    });
+  });
+
+  it('uses the fees recorded from fills', () => {
+    const maker = { ...filled, fees: 2 };
+    expect(settleBet(maker, { status: 'finalized', result: 'yes' }, now)).toMatchObject({
+      pnl: 242,
+      fees: 2,
+    });
+  });
+
+  it('mirrors P&L for sells and zeroes voided markets', () => {
+    const sold = bet({ action: 'sell', status: 'filled', filledCount: 10 });
+    expect(settleBet(sold, { status: 'finalized', result: 'no' })).toMatchObject({
+      result: 'win',
+      pnl: 400 - takerFee(10, 40),
+    });
+    expect(settleBet(filled, { status: 'finalized', result: 'void' })).toMatchObject({
+      result: 'void',
+      pnl: 0,
+    });
+  });
+});
+
+describe('OrderReconciler', () => {
+  it('matches bets by client order id, then settles filled bets', async () => {
+    const bets = [
+      bet(),
+      bet({ betId: 'order-2', PK: 'BET#order-2', status: 'filled', filledCount: 5 }),
+      bet({ betId: 'order-3', PK: 'BET#order-3', status: 'cancelled' }),
+    ];
+    const writes: Array<[string, BetUpdate]> = [];
+    const requests: string[] = [];
+
+    const reconciler = new OrderReconciler(
+      async (_method, endpoint) => {
+        requests.push(endpoint.split('?')[0]);
+        if (endpoint.startsWith('/portfolio/orders')) {
+          return { status: 200, data: { orders: [order('executed')], cursor: '' } };
+        }
+        if (endpoint.startsWith('/portfolio/fills')) {
+          return { status: 200, data: { fills: [fill('t1', 10, 41)] } };
+        }
+        return { status: 200, data: { market: { status: 'finalized', result: 'yes' } } };
+      },
+      undefined,
+      {
+        getAllBets: async () => bets,
+        updateBet: async (betId, update) => {
+          writes.push([betId, update]);
+        },
+      }
+    );
+
+    const summary = await reconciler.reconcile();
+
+    expect(summary.checked).toBe(2);
+    expect(summary.settled).toBe(2);
+    expect(requests).toEqual([
+      '/portfolio/orders',
+      '/portfolio/fills',
+      `/markets/${TICKER}`,
+    ]);
+    expect(writes.map(([id, u]) => [id, u.status ?? u.result])).toEqual([
+      ['order-1', 'filled'],
+      ['order-1', 'win'],
+      ['order-2', 'win'],
+    ]);
+    expect(writes[1][1].pnl).toBe((100 - 41) * 10 - takerFee(10, 41));
+  });
+
+  it('keeps fills from before an amend when the new order fills the rest', async () => {
+    // 4 filled at 39 as a maker, then repriced; the amended order fills 6 at 41
+    const amended = {
+      ...order('executed'),
+      order_id: 'k-2',
+      client_order_id: 'order-1~1761652800000',
+    };
+    const fills = [fill('t1', 4, 39, false), { ...fill('t2', 6, 41), order_id: 'k-2' }];
+    const writes: Array<[string, BetUpdate]> = [];
+
+    const reconciler = new OrderReconciler(
+      async (_method, endpoint) => {
+        if (endpoint.startsWith('/portfolio/orders')) {
+          return {
+            status: 200,
+            data: { orders: [amended, order('canceled')], cursor: '' },
+          };
+        }
+        if (endpoint.startsWith('/portfolio/fills')) {
+          return { status: 200, data: { fills } };
+        }
+        return { status: 200, data: { market: { status: 'active' } } };
+      },
+      undefined,
+      {
+        getAllBets: async () => [
+          bet({ orderId: 'k-2', price: 41, status: 'partial', filledCount: 4 }),
+        ],
+        updateBet: async (betId, update) => {
+          writes.push([betId, update]);
+        },
+      }
+    );
+
+    await reconciler.reconcile();
+
+    expect(writes).toHaveLength(1);
+    expect(writes[0][1]).toMatchObject({
+      status: 'filled',
+      filledCount: 10,
+      averagePrice: 40.2,
+      fees: makerFee(4, 39) + takerFee(6, 41),
+    });
+  });
+});
+
+describe('fillsForBet', () => {
+  it("takes fills from every order with the bet's client order id", () => {
+    const amended = {
+      ...order('resting', 6),
+      order_id: 'k-2',
+      client_order_id: 'order-1~1',
+    };
+    const other = { ...order('resting', 5), order_id: 'k-9', client_order_id: 'order-2' };
+    const fills = [
+      fill('t1', 4, 39),
+      { ...fill('t2', 1, 41), order_id: 'k-2' },
+      { ...fill('t3', 5, 40), order_id: 'k-9' },
+    ];
+
+    expect(
+      fillsForBet(
+        bet({ orderId: 'k-2' }),
+        amended,
+        [amended, order('canceled'), other],
+        fills
+      ).map((f) => f.trade_id)
+    ).toEqual(['t1', 't2']);
+  });
+});
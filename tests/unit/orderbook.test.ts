@@ -0,0 +1,117 @@
+// Unit Tests for order book maintenance and the bid/ask ladder
+// Covers snapshot/delta application, ladder derivation and fill estimates
+
+import { describe, it, expect } from 'bun:test';
+import { OrderBookStore } from '../../server/lib/orderbook';
+import { buildLadder, estimateFill } from '../../src/lib/utils/orderBook';
+
+const snapshot = {
+  type: 'orderbook_snapshot' as const,
+  msg: {
+    market_ticker: 'KXEARNINGSMENTIONAAPL-25OCT30-AI',
+    yes: [
+      [40, 100],
+      [42, 50],
+    ] as Array<[number, number]>,
+    no: [
+      [55, 30],
+      [50, 200],
+    ] as Array<[number, number]>,
+  },
+};
+
+function delta(side: 'yes' | 'no', price: number, change: number) {
+  return {
+    type: 'orderbook_delta' as const,
+    msg: { market_ticker: snapshot.msg.market_ticker, price, delta: change, side },
+  };
+}
+
+describe('OrderBookStore', () => {
+  it('sorts levels best price first', () => {
+    const store = new OrderBookStore();
+    const book = store.apply(snapshot);
+    expect(book?.yes).toEqual([
+      [42, 50],
+      [40, 100],
+    ]);
+    expect(book?.no).toEqual([
+      [55, 30],
+      [50, 200],
+    ]);
+  });
+
+  it('applies deltas and removes emptied levels', () => {
+    const store = new OrderBookStore();
+    store.apply(snapshot);
+    store.apply(delta('yes', 42, -50));
+    store.apply(delta('yes', 41, 25));
+    const book = store.apply(delta('no', 50, 10));
+
+    expect(book?.yes).toEqual([
+      [41, 25],
+      [40, 100],
+    ]);
+    expect(book?.no).toContainEqual([50, 210]);
+  });
+
+  it('ignores deltas before the snapshot', () => {
+    const store = new OrderBookStore();
+    expect(store.apply(delta('yes', 40, 5))).toBeNull();
+    expect(store.get(snapshot.msg.market_ticker)).toBeNull();
+  });
+
+  it('rebuilds from a new snapshot after clearing', () => {
+    const store = new OrderBookStore();
+    store.apply(snapshot);
+    store.clear();
+    expect(store.get(snapshot.msg.market_ticker)).toBeNull();
+    expect(store.apply(snapshot)?.yes).toHaveLength(2);
+  });
+});
+
+describe('buildLadder', () => {
+  const book = { yes: snapshot.msg.yes, no: snapshot.msg.no };
+
+  it('derives YES asks from NO bids', () => {
+    const ladder = buildLadder(book, 'yes');
+    expect(ladder.bids.map((l) => l.price)).toEqual([42, 40]);
+    expect(ladder.asks).toEqual([
+      { price: 45, quantity: 30, cumulative: 30 },
+      { price: 50, quantity: 200, cumulative: 230 },
+    ]);
+    expect(ladder.spread).toBe(3);
+  });
+
+  it('mirrors the book for the NO side', () => {
+    const ladder = buildLadder(book, 'no', 1);
+    expect(ladder.bestBid).toBe(55);
+    expect(ladder.bestAsk).toBe(58);
+    expect(ladder.asks).toHaveLength(1);
+  });
+
+  it('has no spread for an empty side', () => {
+    expect(buildLadder({ yes: [], no: [] }, 'yes').spread).toBeNull();
+  });
+});
+
+describe('estimateFill', () => {
+  const asks = buildLadder({ yes: snapshot.msg.yes, no: snapshot.msg.no }, 'yes').asks;
+
+  it('walks asks up to the limit price', () => {
+    expect(estimateFill(asks, 50, 50)).toEqual({
+      filled: 50,
+      averagePrice: (30 * 45 + 20 * 50) / 50,
+      resting: 0,
+    });
+  });
+
+  it('leaves the rest of the order resting', () => {
+    expect(estimateFill(asks, 50, 46)).toEqual({
+      filled: 30,
+      averagePrice: 45,
+      resting: 20,
+    });
+    expect(estimateFill(asks, 10, 40).averagePrice).toBeNull();
+  });
+});
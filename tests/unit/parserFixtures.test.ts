@@ -0,0 +1,129 @@
+// Unit Tests for the parser fixture regression suite
+// Runs the checked-in raw-html snapshots against their goldens and covers the
+// diff, missing-golden and update modes on a scratch directory
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  runFixtureSuite,
+  formatFixtureReport,
+  goldenPath,
+  fixtureSourceUrl,
+} from '../../scripts/scraping/fixtures';
+
+const RAW_HTML_DIR = path.resolve(__dirname, '../fixtures/raw-html');
+
+function transcriptPage(title: string, paragraphs: number): string {
+  const body = Array.from(
+    { length: paragraphs },
+    (_, i) => `<p>Paragraph ${i} about revenue, guidance and margins this quarter.</p>`
+  ).join('\n');
+  return `<html><head>
+    <link rel="canonical" href="https://seekingalpha.com/article/1-acme-q4-2025">
+  </head><body>
+    <h1 data-test-id="post-title">${title}</h1>
+    <time datetime="2026-01-29T21:00:00Z">Jan. 29, 2026</time>
+    <div data-test-id="article-content">${body}</div>
+  </body></html>`;
+}
+
+describe('stored snapshots', () => {
+  it('match their goldens', () => {
+    const report = runFixtureSuite({ dir: RAW_HTML_DIR });
+
+    expect(report.results.length).toBeGreaterThan(0);
+    expect(formatFixtureReport(report)).not.toContain('FAIL');
+    expect(report.failed).toBe(0);
+    expect(report.orphanedGoldens).toEqual([]);
+  });
+
+  it('include a transcript the parser extracts in full', () => {
+    const golden = JSON.parse(
+      fs.readFileSync(goldenPath(RAW_HTML_DIR, 'acme-q4-2025-transcript.html'), 'utf8')
+    );
+
+    expect(golden).toMatchObject({ success: true, ticker: 'ACME', selectorsMissing: [] });
+    expect(golden.wordCount).toBeGreaterThan(500);
+  });
+});
+
+describe('runFixtureSuite', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'parser-fixtures-'));
+    fs.writeFileSync(
+      path.join(dir, 'acme.html'),
+      transcriptPage('Acme Corp (ACME) Q4 2025 Earnings Call Transcript', 20)
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports snapshots without goldens, then records them in update mode', () => {
+    expect(runFixtureSuite({ dir }).results[0].status).toBe('missing');
+
+    const updated = runFixtureSuite({ dir, update: true });
+    expect(updated.results[0].status).toBe('updated');
+
+    const golden = JSON.parse(fs.readFileSync(goldenPath(dir, 'acme.html'), 'utf8'));
+    expect(golden).toMatchObject({
+      sourceUrl: 'https://seekingalpha.com/article/1-acme-q4-2025',
+      success: true,
+      ticker: 'ACME',
+      quarter: 'Q4',
+      fiscalYear: 2025,
+      callDate: '2026-01-29T21:00:00Z',
+      selectorsFound: ['articleTitle', 'publishDate', 'transcriptBody'],
+    });
+    expect(golden.contentHash).toHaveLength(64);
+
+    expect(runFixtureSuite({ dir }).results[0].status).toBe('pass');
+  });
+
+  it('diffs fields that changed since the golden was recorded', () => {
+    runFixtureSuite({ dir, update: true });
+
+    // Simulate a layout change that drops the title and half the body
+    fs.writeFileSync(
+      path.join(dir, 'acme.html'),
+      transcriptPage('Acme Corp (ACME) Q4 2025 Earnings Call Transcript', 10).replace(
+        'data-test-id="post-title"',
+        ''
+      )
+    );
+
+    const report = runFixtureSuite({ dir });
+    const fields = report.results[0].diffs.map((diff) => diff.field);
+
+    expect(report.results[0].status).toBe('fail');
+    expect(report.failed).toBe(1);
+    expect(fields).toContain('wordCount');
+    expect(fields).toContain('contentHash');
+    expect(fields).toContain('ticker');
+    expect(fields).not.toContain('callDate');
+    expect(formatFixtureReport(report)).toContain('FAIL     acme.html');
+  });
+
+  it('lists goldens whose snapshot was deleted', () => {
+    runFixtureSuite({ dir, update: true });
+    fs.unlinkSync(path.join(dir, 'acme.html'));
+
+    expect(runFixtureSuite({ dir }).orphanedGoldens).toEqual(['acme.json']);
+  });
+});
+
+describe('fixtureSourceUrl', () => {
+  it('reads the canonical link and falls back to Seeking Alpha', () => {
+    expect(fixtureSourceUrl(transcriptPage('Acme', 1))).toBe(
+      'https://seekingalpha.com/article/1-acme-q4-2025'
+    );
+    expect(fixtureSourceUrl('<html><body>Denied</body></html>')).toBe(
+      'https://seekingalpha.com/'
+    );
+  });
+});
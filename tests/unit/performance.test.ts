@@ -0,0 +1,141 @@
+// Unit Tests for bet performance analytics
+// Covers attributing bets to their events, edge at entry, the breakdowns and
+// the equity curve
+
+import { describe, it, expect } from 'bun:test';
+import {
+  buildPerformanceReport,
+  entryEdge,
+  priceBucket,
+} from '../../server/lib/performance';
+import type { SettledMarketReplay } from '../../server/lib/calibration';
+import type { BetRecord, EarningsEvent } from '../../server/lib/dynamodb';
+
+function event(eventTicker: string, company: string, eventDate: string): EarningsEvent {
+  return { eventTicker, company, eventDate, markets: [] } as unknown as EarningsEvent;
+}
+
+function bet(overrides: Partial<BetRecord>): BetRecord {
+  return {
+    PK: `BET#${overrides.betId}`,
+    SK: 'METADATA',
+    betId: 'bet',
+    eventTicker: 'KXAAPL-25OCT30',
+    marketTicker: 'KXAAPL-25OCT30-TARIFF',
+    company: 'KXAAPL',
+    word: 'Tariff',
+    side: 'yes',
+    action: 'buy',
+    count: 10,
+    price: 40,
+    status: 'filled',
+    fees: 0,
+    createdAt: '2025-10-01T12:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const EVENTS = [
+  // Apple's fiscal Q4 call is in late October
+  event('KXAAPL-25OCT30', 'Apple', '2025-10-30'),
+  event('KXMSFT-25JUL29', 'Microsoft', '2025-07-29'),
+];
+
+describe('priceBucket', () => {
+  it('buckets entry prices in 20-cent bands', () => {
+    expect(priceBucket(1)).toBe('1-20¢');
+    expect(priceBucket(20)).toBe('1-20¢');
+    expect(priceBucket(45)).toBe('41-60¢');
+    expect(priceBucket(99)).toBe('81-99¢');
+  });
+});
+
+describe('entryEdge', () => {
+  it('uses the recorded model probability for the side bought', () => {
+    expect(entryEdge({ side: 'yes', modelProbability: 65 }, 40, undefined)).toEqual({
+      edge: 25,
+      edgeSource: 'entry',
+    });
+    expect(entryEdge({ side: 'no', modelProbability: 65 }, 30, undefined)).toEqual({
+      edge: 5,
+      edgeSource: 'entry',
+    });
+  });
+
+  it('falls back to the replayed model, or no edge', () => {
+    const replay = { estimate: { probability: 0.3 } } as SettledMarketReplay;
+    expect(entryEdge({ side: 'yes' }, 40, replay)).toEqual({
+      edge: -10,
+      edgeSource: 'replay',
+    });
+    expect(entryEdge({ side: 'yes' }, 40, undefined)).toEqual({
+      edge: null,
+      edgeSource: null,
+    });
+  });
+});
+
+describe('buildPerformanceReport', () => {
+  const records = [
+    bet({ betId: 'a1', result: 'win', pnl: 600, modelProbability: 60 }),
+    bet({ betId: 'a2', word: 'China', side: 'no', price: 70, result: 'loss', pnl: -700 }),
+    bet({
+      betId: 'm1',
+      eventTicker: 'KXMSFT-25JUL29',
+      marketTicker: 'KXMSFT-25JUL29-AI',
+      company: 'KXMSFT',
+      word: 'AI',
+      price: 30,
+      result: 'win',
+      pnl: 700,
+      // Placed in the calendar quarter before its call
+      createdAt: '2025-06-20T12:00:00.000Z',
+    }),
+    bet({ betId: 'open', result: undefined }),
+    bet({ betId: 'void', result: 'void', pnl: 0 }),
+  ];
+  const report = buildPerformanceReport(records, EVENTS);
+
+  it('summarizes settled bets only', () => {
+    expect(report.summary).toMatchObject({
+      bets: 3,
+      wins: 2,
+      cost: 400 + 700 + 300,
+      pnl: 600,
+      avgEdge: 20,
+      edgeBets: 1,
+      open: 1,
+      voided: 1,
+    });
+    expect(report.summary.winRate).toBeCloseTo(2 / 3);
+    expect(report.summary.roi).toBeCloseTo(600 / 1400);
+  });
+
+  it('attributes each bet to its event call date and company', () => {
+    const msft = report.bets.find((b) => b.betId === 'm1')!;
+    expect(msft.eventDate).toBe('2025-07-29');
+    expect(msft.company).toBe('Microsoft');
+  });
+
+  it('breaks P&L down by company, word, side and price bucket', () => {
+    expect(report.byCompany.map((g) => [g.key, g.pnl])).toEqual([
+      ['Microsoft', 700],
+      ['Apple', -100],
+    ]);
+    expect(report.byWord.map((g) => g.key)).toEqual(['AI', 'Tariff', 'China']);
+    expect(report.bySide.map((g) => [g.key, g.bets])).toEqual([
+      ['yes', 2],
+      ['no', 1],
+    ]);
+    expect(report.byPriceBucket.map((g) => g.key)).toEqual(['21-40¢', '61-80¢']);
+  });
+
+  it('builds the equity curve in call order with max drawdown', () => {
+    expect(report.events.map((e) => [e.eventTicker, e.cumulativePnl])).toEqual([
+      ['KXMSFT-25JUL29', 700],
+      ['KXAAPL-25OCT30', 600],
+    ]);
+    expect(report.events[1].drawdown).toBe(100);
+    expect(report.summary.maxDrawdown).toBe(100);
+  });
+});
@@ -0,0 +1,195 @@
+// Unit Tests for the portfolio view
+// Covers marking positions to the bid, grouping by company and event, and the
+// closing-within-24-hours flag
+
+import { describe, it, expect } from 'bun:test';
+import {
+  buildPortfolio,
+  markPrice,
+  isClosingSoon,
+  UNTRACKED_COMPANY,
+  type PortfolioQuote,
+} from '../../src/lib/utils/portfolio';
+import type { KalshiPosition } from '../../src/lib/api/kalshi';
+import type { EarningsEvent } from '../../src/lib/api/data';
+
+const NOW = new Date('2025-10-29T20:00:00.000Z');
+
+function position(ticker: string, contracts: number, cost: number): KalshiPosition {
+  return {
+    ticker,
+    position: contracts,
+    market_exposure: cost,
+    realized_pnl: 0,
+    resting_orders_count: 0,
+    total_traded: cost,
+  };
+}
+
+function quote(overrides: Partial<PortfolioQuote> = {}): PortfolioQuote {
+  return { yes_bid: 40, no_bid: 55, last_price: 42, ...overrides };
+}
+
+function event(
+  company: string,
+  eventTicker: string,
+  words: string[],
+  closeTime: string
+): EarningsEvent {
+  return {
+    PK: `EARNINGS#${company.toUpperCase()}`,
+    SK: `EVENT#${eventTicker}`,
+    eventTicker,
+    company,
+    title: `${company} earnings call`,
+    category: 'Mentions',
+    status: 'active',
+    closeTime,
+    markets: words.map((word) => ({
+      ticker: `${eventTicker}-${word.toUpperCase()}`,
+      word,
+      yesPrice: 40,
+      noPrice: 60,
+      lastPrice: 42,
+      volume: 0,
+      status: 'active',
+    })),
+    totalVolume: 0,
+    marketCount: words.length,
+    createdAt: NOW.toISOString(),
+    updatedAt: NOW.toISOString(),
+  };
+}
+
+const AAPL = event(
+  'Apple',
+  'KXAAPL-25OCT30',
+  ['Tariff', 'China'],
+  '2025-10-30T12:00:00.000Z'
+);
+const MSFT = event(
+  'Microsoft',
+  'KXMSFT-25NOV05',
+  ['Copilot'],
+  '2025-11-05T20:00:00.000Z'
+);
+
+describe('markPrice', () => {
+  it('uses the bid for the held side and falls back to the last trade', () => {
+    expect(markPrice(quote(), 'yes')).toBe(40);
+    expect(markPrice(quote(), 'no')).toBe(55);
+    expect(markPrice(quote({ yes_bid: 0 }), 'yes')).toBe(42);
+    expect(markPrice(quote({ no_bid: 0 }), 'no')).toBe(58);
+  });
+
+  it('has no price when the book side is empty and the market never traded', () => {
+    expect(markPrice(quote({ no_bid: 0, last_price: 0 }), 'no')).toBeNull();
+    expect(markPrice(quote({ yes_bid: 0, last_price: 0 }), 'yes')).toBeNull();
+  });
+});
+
+describe('isClosingSoon', () => {
+  it('flags close times within the next 24 hours only', () => {
+    expect(isClosingSoon('2025-10-30T12:00:00.000Z', NOW)).toBe(true);
+    expect(isClosingSoon('2025-10-31T12:00:00.000Z', NOW)).toBe(false);
+    expect(isClosingSoon('2025-10-29T12:00:00.000Z', NOW)).toBe(false);
+    expect(isClosingSoon(undefined, NOW)).toBe(false);
+  });
+});
+
+describe('buildPortfolio', () => {
+  const quotes = new Map<string, PortfolioQuote>([
+    ['KXAAPL-25OCT30-TARIFF', quote({ yes_bid: 50 })],
+    ['KXAAPL-25OCT30-CHINA', quote({ no_bid: 70 })],
+    ['KXMSFT-25NOV05-COPILOT', quote({ yes_bid: 80 })],
+  ]);
+
+  const positions = [
+    position('KXAAPL-25OCT30-TARIFF', 10, 400), // YES at 40
+    position('KXAAPL-25OCT30-CHINA', -20, 1200), // NO at 60
+    position('KXMSFT-25NOV05-COPILOT', 5, 350),
+    position('KXAAPL-25OCT30-CLOSED', 0, 0),
+  ];
+
+  it('marks each position and sums payout, loss and unrealized P&L', () => {
+    const portfolio = buildPortfolio(positions, [AAPL, MSFT], quotes, NOW);
+    const apple = portfolio.companies.find((c) => c.company === 'Apple')!;
+    const [tariff, china] = [
+      apple.events[0].positions.find((p) => p.word === 'Tariff')!,
+      apple.events[0].positions.find((p) => p.word === 'China')!,
+    ];
+
+    expect(tariff).toMatchObject({
+      side: 'yes',
+      contracts: 10,
+      mark: 50,
+      marketValue: 500,
+      unrealizedPnl: 100,
+      maxPayout: 1000,
+      maxLoss: 400,
+    });
+    expect(china).toMatchObject({
+      side: 'no',
+      contracts: 20,
+      mark: 70,
+      marketValue: 1400,
+      unrealizedPnl: 200,
+      maxPayout: 2000,
+    });
+
+    expect(portfolio.totals).toEqual({
+      cost: 1950,
+      marketValue: 2300,
+      unrealizedPnl: 350,
+      maxPayout: 3500,
+      maxLoss: 1950,
+    });
+  });
+
+  it('groups by company and event, largest exposure first, and flags closing events', () => {
+    const portfolio = buildPortfolio(positions, [AAPL, MSFT], quotes, NOW);
+
+    expect(portfolio.companies.map((c) => c.company)).toEqual(['Apple', 'Microsoft']);
+    expect(portfolio.companies[0].events[0].positions.map((p) => p.word)).toEqual([
+      'China',
+      'Tariff',
+    ]);
+    expect(portfolio.companies[0].events[0].closingSoon).toBe(true);
+    expect(portfolio.companies[1].events[0].closingSoon).toBe(false);
+    expect(portfolio.closingSoonCount).toBe(2);
+  });
+
+  it('values unquoted positions at cost and groups untracked markets under Other', () => {
+    const portfolio = buildPortfolio(
+      [position('KXFED-25DEC-CUT', 4, 120)],
+      [AAPL],
+      new Map(),
+      NOW
+    );
+
+    expect(portfolio.companies[0].company).toBe(UNTRACKED_COMPANY);
+    expect(portfolio.companies[0].events[0].positions[0]).toMatchObject({
+      priced: false,
+      mark: 30,
+      marketValue: 120,
+      unrealizedPnl: 0,
+    });
+  });
+
+  it('values a NO position at cost when the market has no bid or trade', () => {
+    const portfolio = buildPortfolio(
+      [position('KXAAPL-25OCT30-CHINA', -10, 300)],
+      [AAPL],
+      new Map([['KXAAPL-25OCT30-CHINA', quote({ no_bid: 0, last_price: 0 })]]),
+      NOW
+    );
+
+    expect(portfolio.companies[0].events[0].positions[0]).toMatchObject({
+      side: 'no',
+      priced: false,
+      mark: 30,
+      marketValue: 300,
+      unrealizedPnl: 0,
+    });
+  });
+});
@@ -0,0 +1,96 @@
+// Unit Tests for Position Sizing Utilities
+// Kelly, fixed-fraction and fixed-risk sizing with Kalshi taker fees
+
+import { describe, it, expect } from 'bun:test';
+import {
+  kellyFraction,
+  evaluatePosition,
+  contractsForBudget,
+  sizePosition,
+} from '../../src/lib/utils/positionSizing';
+import { takerFee } from '../../src/lib/utils/fees';
+
+describe('kellyFraction', () => {
+  it('is zero without an edge after fees', () => {
+    expect(kellyFraction(0.5, 50)).toBe(0);
+    expect(kellyFraction(0.51, 50)).toBe(0); // 50¢ + 1.75¢ fee
+  });
+
+  it('grows with the edge', () => {
+    const f = kellyFraction(0.7, 50);
+    // c = 0.5175, f* = (0.7 - 0.5175) / 0.4825
+    expect(f).toBeCloseTo(0.3782, 4);
+    expect(kellyFraction(0.9, 50)).toBeGreaterThan(f);
+  });
+
+  it('ignores prices outside 1-99', () => {
+    expect(kellyFraction(0.9, 0)).toBe(0);
+    expect(kellyFraction(0.9, 100)).toBe(0);
+  });
+});
+
+describe('evaluatePosition', () => {
+  it('reports EV, worst-case loss and max profit net of fees', () => {
+    expect(evaluatePosition(10, 40, 0.6)).toEqual({
+      contracts: 10,
+      cost: 400,
+      fee: 17,
+      expectedValue: 183,
+      worstCaseLoss: 417,
+      maxProfit: 583,
+    });
+  });
+
+  it('charges no fee for an empty position', () => {
+    expect(evaluatePosition(0, 40, 0.6).worstCaseLoss).toBe(0);
+  });
+});
+
+describe('contractsForBudget', () => {
+  it('keeps premium plus rounded fee within the budget', () => {
+    const contracts = contractsForBudget(1000, 50);
+    expect(contracts).toBe(19);
+    expect(contracts * 50 + takerFee(contracts, 50)).toBeLessThanOrEqual(1000);
+    expect((contracts + 1) * 50 + takerFee(contracts + 1, 50)).toBeGreaterThan(1000);
+  });
+
+  it('returns zero when nothing fits', () => {
+    expect(contractsForBudget(40, 50)).toBe(0);
+  });
+});
+
+describe('sizePosition', () => {
+  const base = { probability: 0.7, price: 50, balance: 100_000 };
+
+  it('scales Kelly by the multiplier', () => {
+    const full = sizePosition({ ...base, method: 'kelly' });
+    const half = sizePosition({ ...base, method: 'kelly', kellyMultiplier: 0.5 });
+    expect(full.budget).toBe(37_823);
+    expect(half.budget).toBe(18_911);
+    expect(half.contracts).toBeLessThan(full.contracts);
+    expect(full.worstCaseLoss).toBeLessThanOrEqual(full.budget);
+  });
+
+  it('recommends nothing under Kelly without an edge', () => {
+    expect(sizePosition({ ...base, probability: 0.4, method: 'kelly' }).contracts).toBe(
+      0
+    );
+  });
+
+  it('stakes a share of balance for fixed-fraction', () => {
+    const result = sizePosition({ ...base, method: 'fixed_fraction', fraction: 0.02 });
+    expect(result.budget).toBe(2000);
+    expect(result.contracts).toBe(38);
+  });
+
+  it('caps fixed risk at the balance', () => {
+    const result = sizePosition({
+      ...base,
+      balance: 500,
+      method: 'fixed_risk',
+      riskAmount: 5000,
+    });
+    expect(result.budget).toBe(500);
+    expect(result.worstCaseLoss).toBeLessThanOrEqual(500);
+  });
+});
@@ -0,0 +1,115 @@
+// Unit Tests for recorded market price history
+// Covers bucketing, resampling and the buffered recorder
+
+import { describe, it, expect } from 'bun:test';
+import {
+  bucketStart,
+  resampleHistory,
+  isHistoryInterval,
+  PriceHistoryRecorder,
+} from '../../server/lib/priceHistory';
+
+function tick(ticker: string, yesBid: number, yesAsk: number) {
+  return {
+    market_ticker: ticker,
+    yes_bid: yesBid,
+    yes_ask: yesAsk,
+    no_bid: 100 - yesAsk,
+    no_ask: 100 - yesBid,
+    last_price: yesBid,
+    volume: 10,
+    volume_24h: 10,
+    open_interest: 5,
+  };
+}
+
+describe('bucketStart', () => {
+  it('floors to the start of the bucket', () => {
+    const time = Date.parse('2025-10-30T14:07:42.000Z');
+    expect(bucketStart(time, 5)).toBe('2025-10-30T14:05:00.000Z');
+    expect(bucketStart(time, 60)).toBe('2025-10-30T14:00:00.000Z');
+    expect(bucketStart(time, 1440)).toBe('2025-10-30T00:00:00.000Z');
+  });
+});
+
+describe('isHistoryInterval', () => {
+  it('accepts only known intervals', () => {
+    expect(isHistoryInterval('1h')).toBe(true);
+    expect(isHistoryInterval('2h')).toBe(false);
+    expect(isHistoryInterval(undefined)).toBe(false);
+  });
+});
+
+describe('resampleHistory', () => {
+  it('keeps the last quote of each interval regardless of input order', () => {
+    const snapshot = (bucket: string, lastPrice: number) => ({
+      bucket,
+      yesBid: lastPrice - 1,
+      yesAsk: lastPrice + 1,
+      lastPrice,
+      volume: 0,
+      openInterest: 0,
+    });
+    const points = resampleHistory(
+      [
+        snapshot('2025-10-30T14:55:00.000Z', 44),
+        snapshot('2025-10-30T14:05:00.000Z', 40),
+        snapshot('2025-10-30T15:00:00.000Z', 50),
+      ],
+      '1h'
+    );
+    expect(points.map((p) => [p.timestamp, p.lastPrice])).toEqual([
+      ['2025-10-30T14:00:00.000Z', 44],
+      ['2025-10-30T15:00:00.000Z', 50],
+    ]);
+  });
+});
+
+describe('PriceHistoryRecorder', () => {
+  const start = Date.parse('2025-10-30T14:01:00.000Z');
+
+  it('folds updates into one snapshot per market and bucket', () => {
+    const recorder = new PriceHistoryRecorder(async () => {});
+    recorder.record(tick('A', 40, 45), start);
+    recorder.record(tick('A', 42, 46), start + 60_000);
+    recorder.record(tick('B', 10, 12), start);
+
+    const [snapshot] = recorder.pendingFor('A');
+    expect(recorder.pendingFor('A')).toHaveLength(1);
+    expect(snapshot).toMatchObject({ yesBid: 42, yesAsk: 46, updates: 2 });
+    expect(snapshot.bucket).toBe('2025-10-30T14:00:00.000Z');
+  });
+
+  it('writes changed buckets once and drops closed ones', async () => {
+    const saved: string[] = [];
+    const recorder = new PriceHistoryRecorder(async (s) => {
+      saved.push(`${s.marketTicker}|${s.bucket}`);
+    });
+    recorder.record(tick('A', 40, 45), start);
+
+    expect(await recorder.flush(start + 60_000)).toBe(1);
+    expect(await recorder.flush(start + 120_000)).toBe(0);
+    expect(recorder.pendingFor('A')).toHaveLength(1);
+
+    // Next bucket: the closed one is dropped after it has been saved
+    await recorder.flush(start + 5 * 60_000);
+    expect(recorder.pendingFor('A')).toHaveLength(0);
+    expect(saved).toEqual(['A|2025-10-30T14:00:00.000Z']);
+  });
+
+  it('keeps snapshots that failed to save', async () => {
+    const recorder = new PriceHistoryRecorder(async () => {
+      throw new Error('throttled');
+    });
+    recorder.record(tick('A', 40, 45), start);
+
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      expect(await recorder.flush(start + 10 * 60_000)).toBe(0);
+    } finally {
+      console.error = originalError;
+    }
+    expect(recorder.pendingFor('A')).toHaveLength(1);
+  });
+});
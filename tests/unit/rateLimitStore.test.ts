@@ -0,0 +1,128 @@
+// Unit Tests for the persisted scraper rate limit
+// Covers limits holding across limiter instances (restarts and concurrent
+// processes share one state file), day rollover, budget reporting and
+// recovery from a lock left behind by a crashed process
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  RateLimitStore,
+  RATE_LIMIT_LOCK_CONFIG,
+  rateLimitBudget,
+  rollRateLimitState,
+  type RateLimitState,
+} from '../../scripts/scraping/audit/rateLimitStore';
+import { RateLimiter } from '../../scripts/scraping/scraper';
+
+describe('RateLimiter with a persisted store', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rate-limit-'));
+    file = path.join(dir, 'rate-limit.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the daily cap after a restart', async () => {
+    const first = new RateLimiter(100, 2, new RateLimitStore(file));
+    await first.waitForSlot();
+    await first.waitForSlot();
+
+    const restarted = new RateLimiter(100, 2, new RateLimitStore(file));
+    expect(restarted.getStats().dailyCount).toBe(2);
+    await expect(restarted.waitForSlot()).rejects.toThrow(
+      'Daily request limit (2) reached'
+    );
+  });
+
+  it('shares the cap between concurrent limiters and counts each session', async () => {
+    const a = new RateLimiter(100, 3, new RateLimitStore(file));
+    const b = new RateLimiter(100, 3, new RateLimitStore(file));
+
+    const results = await Promise.allSettled([
+      a.waitForSlot(),
+      b.waitForSlot(),
+      a.waitForSlot(),
+      b.waitForSlot(),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(3);
+    expect(results.filter((r) => r.status === 'rejected')).toHaveLength(1);
+
+    const budget = a.getBudget();
+    expect(budget).toMatchObject({ dailyCount: 3, dailyLimit: 3, remaining: 0 });
+    expect(budget.sessions).toHaveLength(2);
+    expect(budget.sessions.reduce((sum, s) => sum + s.requestCount, 0)).toBe(3);
+    expect(budget.sessions.every((s) => s.pid === process.pid && s.active)).toBe(true);
+    expect(fs.existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it('takes over a lock left behind by a crashed process', async () => {
+    fs.writeFileSync(`${file}.lock`, '999999');
+    const old = (Date.now() - RATE_LIMIT_LOCK_CONFIG.staleMs - 1000) / 1000;
+    fs.utimesSync(`${file}.lock`, old, old);
+
+    const limiter = new RateLimiter(100, 5, new RateLimitStore(file));
+    await limiter.waitForSlot();
+
+    expect(limiter.getStats().dailyCount).toBe(1);
+  });
+});
+
+describe('rateLimitBudget', () => {
+  const now = Date.parse('2026-03-02T15:00:30Z');
+
+  function state(overrides: Partial<RateLimitState>): RateLimitState {
+    return {
+      version: 1,
+      date: '2026-03-02',
+      dailyCount: 0,
+      requestTimes: [],
+      sessions: {},
+      updatedAt: '2026-03-02T15:00:00Z',
+      ...overrides,
+    };
+  }
+
+  it('reports remaining quota and when the per-minute limit frees up', () => {
+    const budget = rateLimitBudget(
+      state({ dailyCount: 40, requestTimes: [now - 90000, now - 20000, now - 5000] }),
+      { requestsPerMinute: 2, maxDailyRequests: 100 },
+      now
+    );
+
+    expect(budget).toMatchObject({
+      remaining: 60,
+      requestsInLastMinute: 2,
+      nextSlotAt: new Date(now + 40000).toISOString(),
+    });
+  });
+
+  it('starts a fresh count on a new UTC day', () => {
+    const yesterday = state({
+      date: '2026-03-01',
+      dailyCount: 100,
+      requestTimes: [now - 1000],
+      sessions: {
+        '1-1': { pid: 1, startedAt: '', lastRequestAt: null, requestCount: 100 },
+      },
+    });
+
+    expect(rollRateLimitState(yesterday, now)).toMatchObject({
+      date: '2026-03-02',
+      dailyCount: 0,
+      requestTimes: [],
+      sessions: {},
+    });
+    expect(
+      rateLimitBudget(yesterday, { requestsPerMinute: 2, maxDailyRequests: 100 }, now)
+        .remaining
+    ).toBe(100);
+  });
+});
@@ -0,0 +1,179 @@
+// Unit Tests for the pre-trade risk gate
+// Covers order validation, exposure caps, the strike limit, the daily loss limit
+// and amends of resting orders
+
+import { describe, it, expect } from 'bun:test';
+import {
+  evaluateOrder,
+  evaluateAmend,
+  amendedOrder,
+  eventTickerFor,
+  orderCost,
+  realizedPnlOn,
+  normalizeRiskLimits,
+  DEFAULT_RISK_LIMITS,
+  KALSHI_STRIKE_POSITION_LIMIT,
+  type OrderIntent,
+  type KalshiRestingOrder,
+} from '../../server/lib/riskGate';
+import type { BetRecord } from '../../server/lib/dynamodb';
+
+const EVENT = 'KXEARNINGSMENTIONAAPL-25OCT30';
+const MARKET = `${EVENT}-AI`;
+
+function order(overrides: Partial<OrderIntent> = {}): OrderIntent {
+  return {
+    ticker: MARKET,
+    action: 'buy',
+    side: 'yes',
+    count: 10,
+    yes_price: 40,
+    ...overrides,
+  };
+}
+
+const empty = { marketExposure: {}, realizedToday: 0 };
+
+function rules(check: ReturnType<typeof evaluateOrder>) {
+  return check.violations.map((v) => v.rule);
+}
+
+describe('eventTickerFor / orderCost', () => {
+  it('strips the market suffix', () => {
+    expect(eventTickerFor(MARKET)).toBe(EVENT);
+  });
+
+  it('prices the side bought, assuming 99¢ without a price', () => {
+    expect(orderCost(order())).toBe(400);
+    expect(orderCost(order({ side: 'no', yes_price: undefined, no_price: 65 }))).toBe(
+      650
+    );
+    expect(orderCost(order({ yes_price: undefined }))).toBe(990);
+  });
+});
+
+describe('evaluateOrder', () => {
+  it('allows an order inside every limit', () => {
+    expect(evaluateOrder(order(), empty, DEFAULT_RISK_LIMITS)).toEqual({
+      allowed: true,
+      violations: [],
+    });
+  });
+
+  it('rejects malformed orders before other checks', () => {
+    const check = evaluateOrder(order({ count: 2.5 }), empty, DEFAULT_RISK_LIMITS);
+    expect(rules(check)).toEqual(['invalid_order']);
+    expect(
+      rules(evaluateOrder(order({ yes_price: 100 }), empty, DEFAULT_RISK_LIMITS))
+    ).toEqual(['invalid_order']);
+  });
+
+  it('caps contracts per order, for sells too', () => {
+    const limits = { ...DEFAULT_RISK_LIMITS, maxContractsPerOrder: 5 };
+    expect(rules(evaluateOrder(order(), empty, limits))).toEqual(['max_contracts']);
+    expect(rules(evaluateOrder(order({ action: 'sell' }), empty, limits))).toEqual([
+      'max_contracts',
+    ]);
+  });
+
+  it('adds the order cost to market and event exposure', () => {
+    const context = {
+      marketExposure: { [MARKET]: 99_800, [`${EVENT}-TARIFF`]: 400_000, OTHER: 900_000 },
+      realizedToday: 0,
+    };
+    const check = evaluateOrder(order(), context, DEFAULT_RISK_LIMITS);
+    expect(rules(check)).toEqual(['market_exposure', 'event_exposure']);
+    expect(check.violations[0]).toMatchObject({ current: 99_800, attempted: 100_200 });
+    expect(check.violations[1]).toMatchObject({ current: 499_800, attempted: 500_200 });
+  });
+
+  it("enforces Kalshi's per-strike limit whatever the configured caps", () => {
+    const limits = {
+      ...DEFAULT_RISK_LIMITS,
+      maxMarketExposure: 10_000_000,
+      maxEventExposure: 10_000_000,
+    };
+    const context = {
+      marketExposure: { [MARKET]: KALSHI_STRIKE_POSITION_LIMIT },
+      realizedToday: 0,
+    };
+    expect(rules(evaluateOrder(order(), context, limits))).toEqual(['strike_position']);
+  });
+
+  it('halts buys once the daily loss limit is reached', () => {
+    const context = {
+      marketExposure: {},
+      realizedToday: -DEFAULT_RISK_LIMITS.dailyLossLimit,
+    };
+    expect(rules(evaluateOrder(order(), context, DEFAULT_RISK_LIMITS))).toEqual([
+      'daily_loss',
+    ]);
+    expect(
+      evaluateOrder(order({ action: 'sell' }), context, DEFAULT_RISK_LIMITS).allowed
+    ).toBe(true);
+  });
+});
+
+describe('evaluateAmend', () => {
+  const resting: KalshiRestingOrder = {
+    status: 'resting',
+    ticker: MARKET,
+    action: 'buy',
+    side: 'yes',
+    yes_price: 40,
+    no_price: 60,
+    remaining_count: 10,
+  };
+
+  it('keeps the original price or count when the amend leaves it out', () => {
+    expect(amendedOrder(resting, { count: 25 })).toEqual(order({ count: 25 }));
+    expect(amendedOrder(resting, { yes_price: 55 })).toEqual(order({ yes_price: 55 }));
+  });
+
+  it('checks the full post-amend order without counting the original twice', () => {
+    const limits = { ...DEFAULT_RISK_LIMITS, maxMarketExposure: 1000 };
+    const context = { marketExposure: { [MARKET]: 400 }, realizedToday: 0 };
+
+    // 10 @ 40¢ already rests; 25 @ 40¢ after the amend is $10 in the market
+    expect(evaluateAmend(resting, { count: 25 }, context, limits).allowed).toBe(true);
+
+    const raised = evaluateAmend(resting, { count: 20, yes_price: 60 }, context, limits);
+    expect(rules(raised)).toEqual(['market_exposure']);
+    expect(raised.violations[0]).toMatchObject({ current: 0, attempted: 1200 });
+  });
+
+  it('holds the amended size to the per-order limit', () => {
+    const check = evaluateAmend(
+      resting,
+      { count: DEFAULT_RISK_LIMITS.maxContractsPerOrder + 1, yes_price: 1 },
+      empty,
+      DEFAULT_RISK_LIMITS
+    );
+    expect(rules(check)).toContain('max_contracts');
+  });
+});
+
+describe('realizedPnlOn', () => {
+  it('sums P&L net of fees of bets settled that day', () => {
+    const settled = { count: 10, price: 30, result: 'loss', fees: 15 };
+    const bets = [
+      { ...settled, settledAt: '2025-10-31T14:00:00.000Z', pnl: -315 },
+      { ...settled, settledAt: '2025-10-31T20:00:00.000Z', pnl: 120, result: 'win' },
+      { ...settled, settledAt: '2025-10-30T20:00:00.000Z', pnl: -900 },
+      { count: 10, price: 30 },
+    ] as BetRecord[];
+    expect(realizedPnlOn(bets, '2025-10-31')).toBe(-195);
+  });
+});
+
+describe('normalizeRiskLimits', () => {
+  it('merges valid fields and reports invalid ones', () => {
+    expect(normalizeRiskLimits({ maxContractsPerOrder: '250' }).limits).toEqual({
+      ...DEFAULT_RISK_LIMITS,
+      maxContractsPerOrder: 250,
+    });
+    expect(
+      normalizeRiskLimits({ dailyLossLimit: -1, maxEventExposure: 'x' }).invalid
+    ).toEqual(['maxEventExposure', 'dailyLossLimit']);
+  });
+});
@@ -0,0 +1,348 @@
+// Unit Tests for the batch scraping job queue
+// Covers persistence across restarts, retries with backoff, changes made from
+// another process, the runner's daily cap and verified-transcript skips,
+// and planning jobs from earnings events
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ScrapeJobQueue,
+  QUEUE_CONFIG,
+  planMissingTranscripts,
+  runScrapeQueue,
+  type NewScrapeJob,
+  type QueueRunnerDeps,
+  type ScrapeJobOutcome,
+} from '../../scripts/scraping/queue';
+import { type EarningsEvent, type Transcript } from '../../server/lib/dynamodb';
+
+function newJob(eventTicker: string): NewScrapeJob {
+  return {
+    eventTicker,
+    company: 'Acme',
+    ticker: 'ACME',
+    quarter: 'Q4',
+    fiscalYear: 2025,
+    url: 'https://seekingalpha.com/symbol/ACME/earnings/transcripts',
+  };
+}
+
+describe('ScrapeJobQueue', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scrape-queue-'));
+    file = path.join(dir, 'queue.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists jobs and ignores events that are already queued', () => {
+    const queue = new ScrapeJobQueue(file);
+    expect(queue.enqueue([newJob('ACME-25Q4'), newJob('ACME-26Q1')])).toHaveLength(2);
+    expect(queue.enqueue([newJob('ACME-25Q4')])).toHaveLength(0);
+
+    const reopened = new ScrapeJobQueue(file);
+    expect(reopened.progress()).toMatchObject({ pending: 2, total: 2 });
+    expect(reopened.next()?.id).toBe('ACME-25Q4');
+  });
+
+  it('puts jobs interrupted mid-run back in the queue after a restart', () => {
+    const queue = new ScrapeJobQueue(file);
+    queue.enqueue([newJob('ACME-25Q4')]);
+    queue.start('ACME-25Q4');
+
+    // Hand the job to a runner process that has since exited
+    const state = JSON.parse(fs.readFileSync(file, 'utf8'));
+    state.jobs[0].runnerPid = spawnSync(process.execPath, ['--version']).pid;
+    fs.writeFileSync(file, JSON.stringify(state));
+
+    const restarted = new ScrapeJobQueue(file);
+    expect(restarted.getJob('ACME-25Q4')).toMatchObject({
+      status: 'pending',
+      attempts: 0,
+    });
+    expect(restarted.getJob('ACME-25Q4')?.runnerPid).toBeUndefined();
+  });
+
+  it('leaves a job alone while its runner is still alive', () => {
+    const runner = new ScrapeJobQueue(file);
+    runner.enqueue([newJob('ACME-25Q4')]);
+    runner.start('ACME-25Q4');
+
+    new ScrapeJobQueue(file).pause();
+    new ScrapeJobQueue(file).resume();
+    expect(new ScrapeJobQueue(file).getJob('ACME-25Q4')).toMatchObject({
+      status: 'running',
+      attempts: 1,
+      runnerPid: process.pid,
+    });
+
+    runner.succeed('ACME-25Q4', { transcriptId: 'DATE#2026-01-29' });
+    expect(new ScrapeJobQueue(file).getJob('ACME-25Q4')).toMatchObject({
+      status: 'succeeded',
+      attempts: 1,
+    });
+  });
+
+  it('lets only one of two runners claim a pending job', () => {
+    const first = new ScrapeJobQueue(file);
+    first.enqueue([newJob('ACME-25Q4'), newJob('ACME-26Q1')]);
+    const second = new ScrapeJobQueue(file);
+
+    expect(first.next()?.id).toBe('ACME-25Q4');
+    expect(second.next()?.id).toBe('ACME-25Q4');
+    expect(first.start('ACME-25Q4')).toMatchObject({ status: 'running', attempts: 1 });
+    expect(second.start('ACME-25Q4')).toBeNull();
+
+    expect(second.next()?.id).toBe('ACME-26Q1');
+    expect(new ScrapeJobQueue(file).getJob('ACME-25Q4')).toMatchObject({
+      status: 'running',
+      attempts: 1,
+    });
+  });
+
+  it('keeps jobs enqueued and retried by another process when saving', () => {
+    const runner = new ScrapeJobQueue(file);
+    runner.enqueue([newJob('ACME-25Q4'), { ...newJob('ACME-26Q1'), maxAttempts: 1 }]);
+    runner.start('ACME-26Q1');
+    runner.fail('ACME-26Q1', 'Timeout');
+
+    const cli = new ScrapeJobQueue(file);
+    cli.enqueue([newJob('ACME-26Q2')]);
+    cli.retry();
+
+    runner.start('ACME-25Q4');
+    const saved = new ScrapeJobQueue(file);
+    expect(saved.getJobs().map((job) => [job.id, job.status])).toEqual([
+      ['ACME-25Q4', 'running'],
+      ['ACME-26Q1', 'pending'],
+      ['ACME-26Q2', 'pending'],
+    ]);
+    expect(runner.next()?.id).toBe('ACME-26Q1');
+    expect(fs.existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it('retries with backoff until attempts run out', () => {
+    const queue = new ScrapeJobQueue(file);
+    queue.enqueue([{ ...newJob('ACME-25Q4'), maxAttempts: 2 }]);
+    const now = new Date('2026-02-01T12:00:00Z');
+
+    queue.start('ACME-25Q4');
+    const first = queue.fail('ACME-25Q4', 'Timeout', { now });
+    expect(first.status).toBe('pending');
+    expect(first.nextAttemptAt).toBe(
+      new Date(now.getTime() + QUEUE_CONFIG.retryDelayMs).toISOString()
+    );
+    expect(queue.next(now)).toBeNull();
+
+    queue.start('ACME-25Q4');
+    const second = queue.fail('ACME-25Q4', 'Timeout again', { now });
+    expect(second.status).toBe('failed');
+    expect(second.errors.map((e) => e.message)).toEqual(['Timeout', 'Timeout again']);
+
+    expect(queue.retry()).toHaveLength(1);
+    expect(queue.getJob('ACME-25Q4')).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+
+  it('sees a pause made by another process and keeps it when saving', () => {
+    const runner = new ScrapeJobQueue(file);
+    runner.enqueue([newJob('ACME-25Q4')]);
+
+    new ScrapeJobQueue(file).pause('Maintenance');
+    expect(runner.isPaused()).toBe(true);
+
+    runner.start('ACME-25Q4');
+    expect(new ScrapeJobQueue(file).getState()).toMatchObject({
+      paused: true,
+      pausedReason: 'Maintenance',
+    });
+  });
+});
+
+describe('runScrapeQueue', () => {
+  let dir: string;
+  let queue: ScrapeJobQueue;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scrape-runner-'));
+    queue = new ScrapeJobQueue(path.join(dir, 'queue.json'));
+    queue.enqueue([newJob('A-25Q4'), newJob('B-25Q4'), newJob('C-25Q4')]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function deps(
+    outcomes: Record<string, ScrapeJobOutcome>,
+    options: { verified?: string[]; limit?: number } = {}
+  ): QueueRunnerDeps & { used: number } {
+    const state = {
+      used: 0,
+      async runJob(job: { id: string }) {
+        state.used++;
+        return outcomes[job.id] ?? { status: 'saved', transcriptId: `DATE#${job.id}` };
+      },
+      async hasVerifiedTranscript(job: { id: string }) {
+        return (options.verified ?? []).includes(job.id);
+      },
+      dailyBudget() {
+        return { used: state.used, limit: options.limit ?? 100 };
+      },
+    };
+    return state as QueueRunnerDeps & { used: number };
+  }
+
+  it('saves, skips verified events and separates rejections from retryable errors', async () => {
+    const summary = await runScrapeQueue(
+      queue,
+      deps(
+        {
+          'A-25Q4': { status: 'rejected', message: 'Validation rejected: wrong quarter' },
+          'C-25Q4': { status: 'error', message: 'Timeout' },
+        },
+        { verified: ['B-25Q4'] }
+      )
+    );
+
+    expect(summary).toMatchObject({
+      processed: 3,
+      failed: 1,
+      skipped: 1,
+      retrying: 1,
+      stoppedBecause: 'waiting-retry',
+    });
+    expect(queue.getJob('A-25Q4')?.status).toBe('failed');
+    expect(queue.getJob('B-25Q4')?.status).toBe('skipped');
+    expect(queue.getJob('C-25Q4')).toMatchObject({ status: 'pending', attempts: 1 });
+  });
+
+  it('stops at the daily cap and leaves the rest for the next run', async () => {
+    const summary = await runScrapeQueue(queue, deps({}, { limit: 2 }));
+
+    expect(summary).toMatchObject({ succeeded: 2, stoppedBecause: 'daily-limit' });
+    expect(queue.getJob('C-25Q4')).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+
+  it('releases a job the scraper refused for the daily cap', async () => {
+    const summary = await runScrapeQueue(
+      queue,
+      deps({
+        'A-25Q4': {
+          status: 'rate-limited',
+          message: 'Daily request limit (100) reached',
+        },
+      })
+    );
+
+    expect(summary.stoppedBecause).toBe('daily-limit');
+    expect(queue.getJob('A-25Q4')).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+
+  it('stops when the queue is paused', async () => {
+    let done = 0;
+    const summary = await runScrapeQueue(queue, deps({}), {
+      onJobDone: () => {
+        if (++done === 1) queue.pause();
+      },
+    });
+
+    expect(summary).toMatchObject({ processed: 1, stoppedBecause: 'paused' });
+    expect(queue.progress()).toMatchObject({ succeeded: 1, pending: 2 });
+  });
+});
+
+describe('planMissingTranscripts', () => {
+  const now = new Date('2026-02-15T00:00:00Z');
+
+  function event(overrides: Partial<EarningsEvent>): EarningsEvent {
+    return {
+      PK: 'EARNINGS#ACME',
+      SK: 'EVENT#ACME-25Q4',
+      eventTicker: 'ACME-25Q4',
+      company: 'Acme',
+      stockTicker: 'acme',
+      title: 'What will Acme say on their Q4 2025 earnings call?',
+      category: 'Mentions',
+      status: 'closed',
+      eventDate: '2026-01-29T21:00:00Z',
+      markets: [],
+      totalVolume: 0,
+      marketCount: 0,
+      createdAt: '2026-01-01T00:00:00Z',
+      updatedAt: '2026-01-01T00:00:00Z',
+      ...overrides,
+    };
+  }
+
+  it('plans jobs for past calls without a verified transcript', () => {
+    const events = [
+      event({
+        seekingAlphaUrl:
+          'https://seekingalpha.com/article/4757001-acme-q4-2025-earnings-call-transcript',
+      }),
+      event({ eventTicker: 'ACME-26Q1', eventDate: '2026-04-30T21:00:00Z' }),
+      event({ eventTicker: 'BETA-25Q4', company: 'Beta', stockTicker: undefined }),
+      event({
+        eventTicker: 'GAMMA-25Q4',
+        company: 'Gamma',
+        stockTicker: 'gmma',
+        seekingAlphaUrl:
+          'https://seekingalpha.com/article/4737002-gamma-q3-2025-earnings-call-transcript',
+        title: 'What will Gamma say on their earnings call?',
+        eventDate: '2025-11-05T21:00:00Z',
+      }),
+      event({
+        eventTicker: 'DELTA-25Q4',
+        company: 'Delta',
+        stockTicker: undefined,
+        seekingAlphaUrl: 'https://seekingalpha.com/symbol/DLTA/earnings/transcripts',
+      }),
+      event({ eventTicker: 'EPS-25Q4', company: 'Eps', stockTicker: 'eps' }),
+      event({ eventTicker: 'DONE-25Q4', company: 'Done' }),
+    ];
+    const transcripts = new Map<string, Transcript[]>([
+      ['DONE-25Q4', [{ verificationStatus: 'verified' } as Transcript]],
+      ['ACME-25Q4', [{ verificationStatus: 'pending' } as Transcript]],
+    ]);
+
+    const plan = planMissingTranscripts(events, transcripts, now);
+
+    expect(plan.jobs).toEqual([
+      {
+        eventTicker: 'GAMMA-25Q4',
+        company: 'Gamma',
+        ticker: 'GMMA',
+        quarter: 'Q3',
+        fiscalYear: 2025,
+        url: 'https://seekingalpha.com/article/4737002-gamma-q3-2025-earnings-call-transcript',
+        expectedDate: '2025-11-05',
+      },
+      {
+        eventTicker: 'ACME-25Q4',
+        company: 'Acme',
+        ticker: 'ACME',
+        quarter: 'Q4',
+        fiscalYear: 2025,
+        url: 'https://seekingalpha.com/article/4757001-acme-q4-2025-earnings-call-transcript',
+        expectedDate: '2026-01-29',
+      },
+    ]);
+    expect(
+      Object.fromEntries(plan.skipped.map((s) => [s.eventTicker, s.reason]))
+    ).toEqual({
+      'ACME-26Q1': 'Call has not happened yet',
+      'BETA-25Q4': 'No stock ticker',
+      'DELTA-25Q4': 'No transcript URL',
+      'EPS-25Q4': 'No transcript URL',
+      'DONE-25Q4': 'Verified transcript already stored',
+    });
+  });
+});
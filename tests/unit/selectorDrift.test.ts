@@ -0,0 +1,247 @@
+// Unit Tests for parser fallback strategies and selector drift tracking
+// Covers the ranked per-field fallbacks, the strategy recorded for each
+// field, selector hit rates across runs and drift warnings
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseTranscriptHtml } from '../../scripts/scraping/parser';
+import {
+  AuditLogger,
+  DRIFT_CONFIG,
+  recordSelectorOutcomes,
+  detectSelectorDrift,
+  selectorHitRates,
+  createAuditLogEntry,
+  type AuditLogEntry,
+  type SelectorStatsMap,
+} from '../../scripts/scraping/audit';
+import { type CombinedValidationResult } from '../../scripts/scraping/validators';
+
+const TITLE = 'Acme Corp (ACME) Q4 2025 Earnings Call Transcript';
+const BODY = Array.from(
+  { length: 30 },
+  (_, i) => `Paragraph ${i}: revenue grew, margins expanded and guidance was raised.`
+);
+
+describe('parser fallback strategies', () => {
+  it('records the selector strategy when the page markup matches', () => {
+    const html = `<html><body>
+      <h1 data-test-id="post-title">${TITLE}</h1>
+      <time datetime="2026-01-29T21:00:00Z">Jan. 29, 2026</time>
+      <div data-test-id="article-content">${BODY.map((p) => `<p>${p}</p>`).join('')}</div>
+    </body></html>`;
+    const result = parseTranscriptHtml(html, 'https://seekingalpha.com/article/1-acme');
+
+    expect(result.data?.fieldSources).toMatchObject({
+      title: 'selector',
+      companyName: 'selector',
+      ticker: 'selector',
+      quarter: 'selector',
+      callDate: 'selector',
+      content: 'selector',
+    });
+    expect(result.selectors.missing).not.toContain('articleTitle');
+  });
+
+  it('falls back to JSON-LD and still reports the missing selectors', () => {
+    const jsonLd = JSON.stringify({
+      '@context': 'https://schema.org',
+      '@type': 'NewsArticle',
+      headline: TITLE,
+      datePublished: '2026-01-29T21:00:00Z',
+      articleBody: BODY.join('\n'),
+    });
+    const html = `<html><head>
+      <script type="application/ld+json">${jsonLd}</script>
+    </head><body><div class="redesigned-layout">Loading...</div></body></html>`;
+    const result = parseTranscriptHtml(html, 'https://seekingalpha.com/article/1-acme');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      companyName: 'Acme Corp',
+      ticker: 'ACME',
+      callDate: '2026-01-29T21:00:00Z',
+    });
+    expect(result.data?.fieldSources).toMatchObject({
+      title: 'json-ld',
+      ticker: 'json-ld',
+      callDate: 'json-ld',
+      content: 'json-ld',
+    });
+    expect(result.selectors.missing).toEqual(
+      expect.arrayContaining(['articleTitle', 'publishDate', 'transcriptBody'])
+    );
+  });
+
+  it('uses OpenGraph tags and the densest text block', () => {
+    const html = `<html><head>
+      <meta property="og:title" content="${TITLE} | Seeking Alpha">
+      <meta property="article:published_time" content="2026-01-29T21:00:00Z">
+    </head><body>
+      <nav><p><a href="/a">Markets</a></p><p><a href="/b">News</a></p></nav>
+      <div class="sidebar"><p>Short promo text.</p></div>
+      <div class="new-body">${BODY.map((p) => `<p>${p}</p>`).join('')}</div>
+    </body></html>`;
+    const result = parseTranscriptHtml(html, 'https://seekingalpha.com/article/1-acme');
+
+    expect(result.data?.title).toBe(TITLE);
+    expect(result.data?.content).toContain('Paragraph 29');
+    expect(result.data?.content).not.toContain('Short promo');
+    expect(result.data?.fieldSources).toMatchObject({
+      title: 'opengraph',
+      callDate: 'opengraph',
+      content: 'text-density',
+    });
+  });
+});
+
+describe('selector hit rates', () => {
+  function runs(stats: SelectorStatsMap, hits: boolean[]): SelectorStatsMap {
+    return hits.reduce(
+      (acc, hit) =>
+        recordSelectorOutcomes(
+          acc,
+          hit
+            ? { found: ['transcriptBody'], missing: [] }
+            : { found: [], missing: ['transcriptBody'] },
+          'seeking-alpha'
+        ),
+      stats
+    );
+  }
+
+  it('tracks hits, attempts and a recent window per source and selector', () => {
+    const stats = runs({}, [true, true, false]);
+
+    expect(stats['seeking-alpha/transcriptBody']).toMatchObject({
+      hits: 2,
+      attempts: 3,
+      recent: [true, true, false],
+    });
+    expect(selectorHitRates(stats)[0].hitRate).toBeCloseTo(2 / 3);
+  });
+
+  it('warns once a reliable selector starts failing', () => {
+    const reliable = runs({}, Array(10).fill(true));
+    expect(detectSelectorDrift(reliable)).toEqual([]);
+
+    const drifting = runs(reliable, Array(DRIFT_CONFIG.recentWindow).fill(false));
+    const warnings = detectSelectorDrift(drifting);
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({
+      key: 'seeking-alpha/transcriptBody',
+      baselineHitRate: 1,
+      recentHitRate: 0,
+    });
+  });
+
+  it('does not warn about selectors that never matched reliably', () => {
+    // H = hit, M = miss
+    const flaky = runs(
+      {},
+      Array.from('HMMHMMMMMM', (c) => c === 'H')
+    );
+    expect(detectSelectorDrift(flaky)).toEqual([]);
+  });
+});
+
+describe('AuditLogger selector tracking', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-selectors-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const passed = { passed: true, errors: [], warnings: [], checksPerformed: [] };
+  const validationResult: CombinedValidationResult = {
+    layer1: passed,
+    layer2: passed,
+    layer3: passed,
+    confidence: 95,
+    autoDecision: 'approve',
+    reasons: [],
+  };
+
+  function entry(hit: boolean): AuditLogEntry {
+    return createAuditLogEntry({
+      sourceUrl:
+        'https://seekingalpha.com/article/1-acme-q4-2025-earnings-call-transcript',
+      sourceTitle: TITLE,
+      rawHtml: '<html></html>',
+      rawHtmlHash: 'hash',
+      extractedData: {
+        companyName: 'Acme Corp',
+        ticker: 'ACME',
+        quarter: 'Q4',
+        fiscalYear: 2025,
+        callDate: null,
+        content: null,
+        participants: [],
+        source: 'seeking-alpha',
+      },
+      selectors: hit
+        ? { found: ['articleTitle'], missing: [] }
+        : { found: [], missing: ['articleTitle'] },
+      expectedData: {
+        companyName: 'Acme Corp',
+        ticker: 'ACME',
+        quarter: 'Q4',
+        fiscalYear: 2025,
+        kalshiEventDate: null,
+      },
+      validationResult,
+      savedToDb: false,
+      transcriptId: null,
+      verificationStatus: null,
+      contentHash: null,
+    });
+  }
+
+  it('persists hit rates across logger instances and warns on drift', async () => {
+    const first = new AuditLogger({ console: false, file: true, filePath: dir });
+    for (let i = 0; i < 10; i++) {
+      await first.log(entry(true));
+    }
+
+    const warn = spyOn(console, 'warn').mockImplementation(() => {});
+    const second = new AuditLogger({ console: false, file: true, filePath: dir });
+    expect(second.getSelectorStats()['seeking-alpha/articleTitle'].attempts).toBe(10);
+
+    for (let i = 0; i < DRIFT_CONFIG.recentWindow; i++) {
+      await second.log(entry(false));
+    }
+
+    expect(second.getSelectorDrift().map((d) => d.key)).toEqual([
+      'seeking-alpha/articleTitle',
+    ]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('counts failed parses recorded without an audit entry', () => {
+    const logger = new AuditLogger({ console: false, file: true, filePath: dir });
+    const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+    for (let i = 0; i < 10; i++) {
+      logger.recordSelectors({ found: ['articleTitle'], missing: [] }, 'seeking-alpha');
+    }
+    for (let i = 0; i < DRIFT_CONFIG.recentWindow; i++) {
+      logger.recordSelectors({ found: [], missing: ['articleTitle'] }, 'seeking-alpha');
+    }
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+    const reloaded = new AuditLogger({ console: false, file: true, filePath: dir });
+    expect(reloaded.getSelectorStats()['seeking-alpha/articleTitle']).toMatchObject({
+      hits: 10,
+      attempts: 15,
+    });
+  });
+});
@@ -0,0 +1,196 @@
+// Unit Tests for transcript speaker segmentation
+// Covers participant lists, speaker roles, prepared remarks vs Q&A and the SA parser
+
+import { describe, it, expect } from 'bun:test';
+import {
+  segmentTranscript,
+  parseParticipant,
+  filterSegments,
+  summarizeSpeakers,
+  formatParticipant,
+  countMentionsBySection,
+} from '../../src/lib/utils/transcriptSegments';
+import { parseTranscriptHtml } from '../../scripts/scraping/parser';
+
+const TRANSCRIPT = `
+Acme Corp (ACME) Q4 2025 Earnings Call Transcript
+Company Participants
+Jane Smith - Chief Executive Officer
+John Doe - Chief Financial Officer
+Conference Call Participants
+Ken Usdin - Jefferies
+Betsy Graseck – Morgan Stanley
+Operator
+Good morning, and welcome to the Acme fourth quarter call.
+Jane Smith
+Thanks, operator. Tariffs were a headwind this quarter.
+We expect that to ease.
+John Doe
+Revenue grew 12%.
+Question-and-Answer Session
+Operator
+Our first question comes from Ken Usdin with Jefferies.
+Ken Usdin
+How should we think about tariffs next year?
+Jane Smith
+We are watching tariffs closely.
+Betsy Graseck
+Thanks. Any update on AI spend?
+John Doe
+AI spend is flat.
+`;
+
+describe('parseParticipant', () => {
+  it('splits name and title', () => {
+    expect(parseParticipant('Jane Smith - Chief Executive Officer', 'executive')).toEqual(
+      {
+        name: 'Jane Smith',
+        title: 'Chief Executive Officer',
+        role: 'executive',
+      }
+    );
+  });
+
+  it('accepts en dashes and names without a title', () => {
+    expect(parseParticipant('Betsy Graseck – Morgan Stanley', 'analyst')?.title).toBe(
+      'Morgan Stanley'
+    );
+    expect(parseParticipant('Jane Smith', 'executive')?.title).toBeNull();
+  });
+
+  it('rejects sentences', () => {
+    expect(
+      parseParticipant('Good morning, and welcome to the call.', 'executive')
+    ).toBeNull();
+  });
+
+  it('round-trips through formatParticipant', () => {
+    const participant = parseParticipant('Ken Usdin - Jefferies', 'analyst')!;
+    expect(formatParticipant(participant)).toBe('Ken Usdin - Jefferies');
+  });
+});
+
+describe('segmentTranscript', () => {
+  const { participants, segments } = segmentTranscript(TRANSCRIPT);
+
+  it('reads participants and their roles', () => {
+    expect(participants.map((p) => [p.name, p.role])).toEqual([
+      ['Jane Smith', 'executive'],
+      ['John Doe', 'executive'],
+      ['Ken Usdin', 'analyst'],
+      ['Betsy Graseck', 'analyst'],
+    ]);
+  });
+
+  it('splits ordered speaker turns with roles and sections', () => {
+    expect(segments.map((s) => [s.speaker, s.role, s.section])).toEqual([
+      ['Operator', 'operator', 'prepared'],
+      ['Jane Smith', 'executive', 'prepared'],
+      ['John Doe', 'executive', 'prepared'],
+      ['Operator', 'operator', 'qa'],
+      ['Ken Usdin', 'analyst', 'qa'],
+      ['Jane Smith', 'executive', 'qa'],
+      ['Betsy Graseck', 'analyst', 'qa'],
+      ['John Doe', 'executive', 'qa'],
+    ]);
+  });
+
+  it('joins multi-paragraph turns', () => {
+    expect(segments[1].text).toBe(
+      'Thanks, operator. Tariffs were a headwind this quarter.\n\nWe expect that to ease.'
+    );
+  });
+
+  it('skips text before the first speaker', () => {
+    expect(segments.some((s) => s.text.includes('Earnings Call Transcript'))).toBe(false);
+  });
+
+  it('accepts ordered blocks instead of text', () => {
+    const blocks = TRANSCRIPT.split('\n');
+    expect(segmentTranscript(blocks).segments).toEqual(segments);
+  });
+
+  it('handles inline "Speaker: text" turns', () => {
+    const result = segmentTranscript(
+      [
+        'Company Participants',
+        'Jane Smith - CEO',
+        'Operator: Welcome to the call.',
+        'Jane Smith: Thank you.',
+      ].join('\n')
+    );
+    expect(result.segments.map((s) => [s.speaker, s.text])).toEqual([
+      ['Operator', 'Welcome to the call.'],
+      ['Jane Smith', 'Thank you.'],
+    ]);
+  });
+
+  it('recognizes unidentified analysts', () => {
+    const result = segmentTranscript(
+      'Operator\nNext question.\nUnidentified Analyst\nHi.'
+    );
+    expect(result.segments[1]).toMatchObject({
+      speaker: 'Unidentified Analyst',
+      role: 'analyst',
+    });
+  });
+
+  it('returns no segments for flattened text', () => {
+    expect(segmentTranscript(TRANSCRIPT.replace(/\s+/g, ' ')).segments).toEqual([]);
+  });
+});
+
+describe('filterSegments / summarizeSpeakers', () => {
+  const { segments } = segmentTranscript(TRANSCRIPT);
+
+  it('filters by section, role and speaker', () => {
+    expect(filterSegments(segments, { section: 'qa', role: 'analyst' })).toHaveLength(2);
+    expect(filterSegments(segments, { speaker: 'Jane Smith' })).toHaveLength(2);
+    expect(filterSegments(segments, {})).toHaveLength(segments.length);
+  });
+
+  it('counts turns per speaker in order of appearance', () => {
+    expect(summarizeSpeakers(segments).slice(0, 2)).toEqual([
+      { speaker: 'Operator', role: 'operator', turns: 2 },
+      { speaker: 'Jane Smith', role: 'executive', turns: 2 },
+    ]);
+  });
+});
+
+describe('countMentionsBySection', () => {
+  const { segments } = segmentTranscript(TRANSCRIPT);
+
+  it('splits counts between prepared remarks and Q&A', () => {
+    expect(countMentionsBySection(segments, 'tariff')).toEqual({ prepared: 1, qa: 2 });
+  });
+
+  it('reports words only raised in Q&A', () => {
+    expect(countMentionsBySection(segments, 'AI')).toEqual({ prepared: 0, qa: 2 });
+  });
+
+  it('accepts alternatives', () => {
+    expect(countMentionsBySection(segments, ['revenue', 'tariff'])).toEqual({
+      prepared: 2,
+      qa: 2,
+    });
+  });
+});
+
+describe('parseTranscriptHtml speaker segments', () => {
+  const paragraphs = TRANSCRIPT.trim()
+    .split('\n')
+    .slice(1)
+    .map((line) => `<p>${line}</p>`)
+    .join('\n');
+  const filler = '<p>' + 'word '.repeat(150) + '</p>';
+  const html = `<html><body><article>
+    <h1 data-test-id="post-title">Acme Corp (ACME) Q4 2025 Earnings Call Transcript</h1>
+    <div data-test-id="article-content">${paragraphs}${filler}</div>
+  </article></body></html>`;
+
+  it('segments article paragraphs and fills participants', () => {
+    const result = parseTranscriptHtml(html, 'https://seekingalpha.com/article/1-acme');
+    expect(result.data?.segmented?.segments).toHaveLength(8);
+    expect(result.data?.participants).toContain('Jane Smith - Chief Executive Officer');
+  });
+});
@@ -0,0 +1,203 @@
+// Unit Tests for transcript source adapters
+// Covers picking a source per URL, the investor-relations and press-release
+// parsers, PDF text extraction and running their output through validation
+
+import { describe, it, expect } from 'bun:test';
+import zlib from 'zlib';
+import {
+  getTranscriptSource,
+  getTranscriptSourceById,
+  investorRelationsSource,
+  pressReleaseSource,
+  extractPdfText,
+  findQuarter,
+  findExchangeTicker,
+  findCompanyName,
+} from '../../scripts/scraping/sources';
+import { runValidationPipeline } from '../../scripts/scraping/validators';
+
+const TURNS = `Company Participants
+Jane Smith - Chief Executive Officer
+John Doe - Chief Financial Officer
+Conference Call Participants
+Ken Usdin - Jefferies
+Operator
+Good morning, and welcome to the Acme fourth quarter fiscal 2025 earnings call.
+Jane Smith
+Thanks, operator. Revenue grew and tariffs were a headwind this quarter.
+Question-and-Answer Session
+Operator
+Our first question comes from Ken Usdin with Jefferies.
+Ken Usdin
+How should we think about tariffs and guidance next year?
+John Doe
+We expect operating margin to improve.`;
+
+const FILLER = 'Our revenue and earnings outlook for the quarter remains strong. '.repeat(
+  30
+);
+
+/**
+ * Minimal one-page PDF whose content stream draws `lines`
+ */
+function buildPdf(lines: string[]): Buffer {
+  const escape = (line: string) => line.replace(/[\\()]/g, (c) => `\\${c}`);
+  const content = lines
+    .map((line, i) => `BT /F1 10 Tf 50 ${750 - i * 12} Td (${escape(line)}) Tj ET`)
+    .join('\n');
+  const stream = zlib.deflateSync(Buffer.from(content, 'latin1'));
+
+  return Buffer.concat([
+    Buffer.from('%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\n', 'latin1'),
+    Buffer.from(
+      `4 0 obj << /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`,
+      'latin1'
+    ),
+    stream,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n', 'latin1'),
+  ]);
+}
+
+describe('getTranscriptSource', () => {
+  it('picks a source per URL', () => {
+    expect(getTranscriptSource('https://seekingalpha.com/article/1-acme')?.id).toBe(
+      'seeking-alpha'
+    );
+    expect(getTranscriptSource('https://investor.acme.com/files/q4-call.pdf')?.id).toBe(
+      'press-release'
+    );
+    expect(getTranscriptSource('https://investor.acme.com/events/q4-2025')?.id).toBe(
+      'investor-relations'
+    );
+    expect(getTranscriptSource('ftp://acme.com/call')).toBeNull();
+    expect(getTranscriptSourceById('press-release')).toBe(pressReleaseSource);
+  });
+
+  it('only builds URLs for sources that have predictable ones', () => {
+    expect(getTranscriptSourceById('seeking-alpha')?.buildUrl('aapl')).toBe(
+      'https://seekingalpha.com/symbol/AAPL/earnings/transcripts'
+    );
+    expect(investorRelationsSource.buildUrl('AAPL')).toBeNull();
+  });
+});
+
+describe('metadata patterns', () => {
+  it('reads quarters written several ways', () => {
+    expect(findQuarter('Q3 FY25 Earnings Call')).toEqual({
+      quarter: 'Q3',
+      fiscalYear: 2025,
+    });
+    expect(findQuarter('Fourth Quarter Fiscal 2025 Results')).toEqual({
+      quarter: 'Q4',
+      fiscalYear: 2025,
+    });
+    expect(findQuarter('fiscal 2026 first-quarter conference call')).toEqual({
+      quarter: 'Q1',
+      fiscalYear: 2026,
+    });
+  });
+
+  it('reads exchange tickers and company names', () => {
+    expect(findExchangeTicker('Acme Corp. (NASDAQ: ACME) today announced')).toBe('ACME');
+    expect(findCompanyName('Acme Corp. (NYSE: ACME) today announced')).toBe('Acme Corp.');
+    expect(findCompanyName('Acme Q4 2025 Earnings Call Transcript')).toBe('Acme');
+  });
+});
+
+describe('investorRelationsSource', () => {
+  const html = `<html><head>
+    <title>Q4 2025 Earnings Call Transcript | Acme Investor Relations</title>
+    <meta property="og:site_name" content="Acme Corp - Investor Relations">
+    <meta property="article:published_time" content="2026-01-29T21:00:00Z">
+  </head><body>
+    <nav>Home Investors Press</nav>
+    <h1>Acme Q4 2025 Earnings Call Transcript</h1>
+    <div class="transcript-body">
+      ${TURNS.split('\n')
+        .map((line) => `<p>${line}</p>`)
+        .join('\n')}
+      <p>${FILLER}</p>
+      <p>Acme Corp. (NASDAQ: ACME)</p>
+    </div>
+  </body></html>`;
+
+  it('parses the transcript container, turns and metadata', () => {
+    const result = investorRelationsSource.parse(html, 'https://investor.acme.com/q4');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      companyName: 'Acme',
+      ticker: 'ACME',
+      quarter: 'Q4',
+      fiscalYear: 2025,
+      callDate: '2026-01-29T21:00:00Z',
+    });
+    expect(result.data?.content).not.toContain('Home Investors Press');
+    expect(result.data?.segmented?.segments.length).toBeGreaterThan(4);
+    expect(result.data?.participants).toContain('Jane Smith - Chief Executive Officer');
+  });
+
+  it('recognises the page as a transcript', () => {
+    expect(investorRelationsSource.isTranscriptPage(html).isTranscript).toBe(true);
+  });
+
+  it('reads a title that sits inside the page header', () => {
+    const check = investorRelationsSource.isTranscriptPage(
+      html
+        .replace(/<title>.*<\/title>/, '<title>Acme Investor Relations</title>')
+        .replace('<nav>', '<header><h1>Acme Q4 2025 Earnings Call</h1></header><nav>')
+        .replace('<h1>Acme Q4 2025 Earnings Call Transcript</h1>', '')
+    );
+
+    expect(check.reasons).toContain('Earnings call title detected');
+  });
+
+  it('runs through the same validation layers', () => {
+    const { data } = investorRelationsSource.parse(html, 'https://investor.acme.com/q4');
+    const validation = runValidationPipeline(
+      { ...data!, source: 'investor-relations' },
+      { companyName: 'Acme', ticker: 'ACME', quarter: 'Q4', fiscalYear: 2025 },
+      { existingContentHashes: [] },
+      { skipCrossReferenceIfEmpty: true }
+    );
+
+    expect(validation.layer2.passed).toBe(true);
+    expect(validation.layer2.errors).toHaveLength(0);
+  });
+});
+
+describe('pressReleaseSource', () => {
+  const text = `Acme Corp. (NASDAQ: ACME) Fourth Quarter Fiscal 2025 Earnings Conference Call
+October 30, 2025
+
+${TURNS}
+
+${FILLER}`;
+
+  it('parses plain-text releases', () => {
+    const result = pressReleaseSource.parse(text, 'https://newswire.example/acme.txt');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      companyName: 'Acme Corp.',
+      ticker: 'ACME',
+      quarter: 'Q4',
+      fiscalYear: 2025,
+      callDate: 'October 30, 2025',
+    });
+    expect(result.data?.segmented?.segments.length).toBeGreaterThan(4);
+  });
+
+  it('decodes PDF documents to text', () => {
+    const pdf = buildPdf([
+      'Acme Corp. (NASDAQ: ACME)',
+      'Q4 2025 Earnings Call (Transcript)',
+    ]);
+
+    expect(extractPdfText(pdf)).toBe(
+      'Acme Corp. (NASDAQ: ACME)\nQ4 2025 Earnings Call (Transcript)'
+    );
+    expect(pressReleaseSource.decode!(pdf, 'application/pdf')).toContain('Q4 2025');
+    expect(pressReleaseSource.decode!(Buffer.from('plain'), 'text/plain')).toBe('plain');
+  });
+});
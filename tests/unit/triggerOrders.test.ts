@@ -0,0 +1,237 @@
+// Unit Tests for trigger orders
+// Covers condition checks, request validation and the engine firing, cancelling and logging
+
+import { describe, it, expect } from 'bun:test';
+import {
+  conditionMet,
+  normalizeTrigger,
+  TriggerEngine,
+  TRIGGER_CONFIG,
+  type NewTrigger,
+  type TriggerQuote,
+} from '../../server/lib/triggerOrders';
+import type {
+  TriggerLogEntry,
+  TriggerOrder,
+  TriggerUpdate,
+} from '../../server/lib/dynamodb';
+
+const TICKER = 'KXEARNINGSMENTIONAAPL-25OCT30-TARIFF';
+const NOW = new Date('2025-10-30T20:00:00.000Z');
+
+function quote(overrides: Partial<TriggerQuote> = {}): TriggerQuote {
+  return {
+    market_ticker: TICKER,
+    yes_bid: 42,
+    yes_ask: 45,
+    no_bid: 55,
+    no_ask: 58,
+    last_price: 44,
+    volume: 100,
+    volume_24h: 50,
+    open_interest: 80,
+    ...overrides,
+  };
+}
+
+const buyAt40: NewTrigger = {
+  eventTicker: 'KXEARNINGSMENTIONAAPL-25OCT30',
+  marketTicker: TICKER,
+  company: 'Apple',
+  word: 'Tariff',
+  condition: { type: 'price', field: 'yes_ask', operator: 'lte', value: 40 },
+  order: { action: 'buy', side: 'yes', count: 10, price: 40 },
+};
+
+function createEngine(
+  submit: (t: TriggerOrder) => Promise<{ orderId?: string }>,
+  stored: TriggerOrder[] = []
+) {
+  const saved = [...stored];
+  const updates: Array<[string, TriggerUpdate, TriggerLogEntry]> = [];
+  const subscribed: string[][] = [];
+
+  const engine = new TriggerEngine(submit, (tickers) => subscribed.push(tickers), {
+    getAllTriggerOrders: async () => saved,
+    saveTriggerOrder: async (trigger) => {
+      const item = {
+        ...trigger,
+        PK: `TRIGGER#${trigger.triggerId}`,
+        SK: 'METADATA',
+        createdAt: NOW.toISOString(),
+        updatedAt: NOW.toISOString(),
+      };
+      saved.push(item);
+      return item;
+    },
+    updateTriggerOrder: async (id, update, entry) => {
+      updates.push([id, update, entry]);
+    },
+  });
+
+  return { engine, saved, updates, subscribed };
+}
+
+// Let fire() run its awaits
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('conditionMet', () => {
+  it('compares the chosen quote field', () => {
+    expect(conditionMet(buyAt40.condition, quote({ yes_ask: 40 }), NOW)).toBe(true);
+    expect(conditionMet(buyAt40.condition, quote({ yes_ask: 41 }), NOW)).toBe(false);
+    expect(
+      conditionMet(
+        { type: 'price', field: 'last_price', operator: 'gte', value: 44 },
+        quote(),
+        NOW
+      )
+    ).toBe(true);
+  });
+
+  it('ignores empty book sides and missing quotes', () => {
+    expect(conditionMet(buyAt40.condition, quote({ yes_ask: 0 }), NOW)).toBe(false);
+    expect(conditionMet(buyAt40.condition, undefined, NOW)).toBe(false);
+  });
+
+  it('fires time conditions once the time has passed', () => {
+    const condition = { type: 'time' as const, at: NOW.toISOString() };
+    expect(conditionMet(condition, undefined, NOW)).toBe(true);
+    expect(conditionMet(condition, undefined, new Date(NOW.getTime() - 1))).toBe(false);
+  });
+});
+
+describe('normalizeTrigger', () => {
+  it('accepts a valid price trigger', () => {
+    expect(normalizeTrigger({ ...buyAt40 }, NOW)).toEqual({ trigger: buyAt40 });
+  });
+
+  it('rejects bad orders and conditions', () => {
+    expect(
+      normalizeTrigger({ ...buyAt40, order: { ...buyAt40.order, price: 0 } }, NOW)
+    ).toHaveProperty('error');
+    expect(
+      normalizeTrigger(
+        {
+          ...buyAt40,
+          condition: { type: 'price', field: 'volume', operator: 'lte', value: 40 },
+        },
+        NOW
+      )
+    ).toHaveProperty('error');
+    expect(
+      normalizeTrigger(
+        { ...buyAt40, condition: { type: 'time', at: '2025-10-30T19:00:00Z' } },
+        NOW
+      )
+    ).toEqual({ error: 'time condition needs a future ISO time' });
+  });
+});
+
+describe('TriggerEngine', () => {
+  it('watches the market and submits once when the price condition is met', async () => {
+    const submitted: string[] = [];
+    const { engine, updates, subscribed } = createEngine(async (t) => {
+      submitted.push(t.triggerId);
+      return { orderId: 'k-1' };
+    });
+
+    const trigger = await engine.create(buyAt40, NOW);
+    expect(subscribed).toEqual([[TICKER]]);
+    expect(trigger.log[0].event).toBe('created');
+
+    engine.onTicker(quote({ yes_ask: 41 }), NOW);
+    engine.onTicker(quote({ yes_ask: 40 }), NOW);
+    engine.onTicker(quote({ yes_ask: 39 }), NOW);
+    await settle();
+
+    expect(submitted).toEqual([trigger.triggerId]);
+    expect(updates.map(([, u, e]) => [u.status, e.event])).toEqual([
+      ['triggered', 'triggered'],
+      ['submitted', 'submitted'],
+    ]);
+    expect(updates[1][1].orderId).toBe('k-1');
+    expect(await engine.cancel(trigger.triggerId)).toBe(false);
+  });
+
+  it('gives triggers created in the same millisecond their own ids', async () => {
+    const { engine } = createEngine(async () => ({}));
+    const first = await engine.create(buyAt40, NOW);
+    const second = await engine.create(buyAt40, NOW);
+
+    expect(first.triggerId).toStartWith(`trigger-${NOW.getTime()}-`);
+    expect(second.triggerId).not.toBe(first.triggerId);
+  });
+
+  it('keeps a placed order submitted when recording the bet fails', async () => {
+    const { engine, updates } = createEngine(async () => ({
+      orderId: 'k-2',
+      warning: 'bet not recorded',
+    }));
+    await engine.create(buyAt40, NOW);
+
+    engine.onTicker(quote({ yes_ask: 40 }), NOW);
+    await settle();
+
+    expect(updates[1][1]).toEqual({ status: 'submitted', orderId: 'k-2' });
+    expect(updates[1][2].message).toBe('Order sent (k-2); bet not recorded');
+  });
+
+  it('logs a failed submission', async () => {
+    const { engine, updates } = createEngine(async () => {
+      throw new Error('Rejected by risk checks: daily loss');
+    });
+    await engine.create(buyAt40, NOW);
+    engine.onTicker(quote({ yes_ask: 38 }), NOW);
+    await settle();
+
+    expect(updates[1][1]).toEqual({
+      status: 'failed',
+      error: 'Rejected by risk checks: daily loss',
+    });
+  });
+
+  it('cancels active triggers so they never fire', async () => {
+    const submitted: string[] = [];
+    const { engine, updates } = createEngine(async (t) => {
+      submitted.push(t.triggerId);
+      return {};
+    });
+    const trigger = await engine.create(buyAt40, NOW);
+
+    expect(await engine.cancel(trigger.triggerId)).toBe(true);
+    engine.onTicker(quote({ yes_ask: 30 }), NOW);
+    await settle();
+
+    expect(submitted).toEqual([]);
+    expect(updates.map(([, u]) => u.status)).toEqual(['cancelled']);
+  });
+
+  it('fires due time triggers and fails ones missed while not running', async () => {
+    const submitted: string[] = [];
+    const { engine, saved, updates } = createEngine(async (t) => {
+      submitted.push(t.word);
+      return {};
+    });
+    const at = new Date(NOW.getTime() + 60_000).toISOString();
+    await engine.create(
+      { ...buyAt40, word: 'Due', condition: { type: 'time', at } },
+      NOW
+    );
+
+    await engine.checkTimes(NOW);
+    expect(submitted).toEqual([]);
+    await engine.checkTimes(new Date(NOW.getTime() + 61_000));
+    expect(submitted).toEqual(['Due']);
+
+    // A fresh engine loading a trigger whose time passed long ago
+    const { engine: restarted, updates: restartUpdates } = createEngine(
+      async () => ({}),
+      [{ ...saved[0], status: 'active', triggerId: 'trigger-old' }]
+    );
+    await restarted.load(new Date(NOW.getTime() + 60_000 + TRIGGER_CONFIG.maxLateMs + 1));
+    expect(restartUpdates.map(([id, u]) => [id, u.status])).toEqual([
+      ['trigger-old', 'failed'],
+    ]);
+    expect(updates.length).toBe(2);
+  });
+});
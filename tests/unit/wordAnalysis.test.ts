@@ -60,7 +60,7 @@ describe('countOccurrences', () => {
 
     it('should match possessive plurals (word + s\')', () => {
       const text = "The companies' revenues increased.";
-      expect(countOccurrences(text, 'company')).toBe(0); // "companies" is not "company"
+      expect(countOccurrences(text, 'company')).toBe(1); // "companies" is the plural of "company"
       expect(countOccurrences(text, 'revenue')).toBe(1);
     });
   });
@@ -118,6 +118,12 @@ describe('highlightWord', () => {
     expect(result).toContain('revenue');
   });
 
+  it('should mark excluded near-misses with the rule that applied', () => {
+    const result = highlightWord('The firetruck and the fire.', 'fire');
+    expect(result).toContain('title="Not counted: Closed compound word">firetruck</mark>');
+    expect(result).toContain('title="Counted: Exact match">fire</mark>');
+  });
+
   it('should return original text for empty word', () => {
     const text = 'Some text here';
     expect(highlightWord(text, '')).toBe(text);
@@ -189,19 +195,26 @@ describe('formatCents', () => {
 });
 
 describe('calculateBet', () => {
-  it('should calculate cost and payout correctly', () => {
+  it('should calculate cost, fee and payout correctly', () => {
     const result = calculateBet(10, 50);
-    expect(result.cost).toBe(5); // 10 * 50 / 100 = $5
+    expect(result.fee).toBe(0.18); // 0.07 * 10 * 0.5 * 0.5 = 17.5¢, rounded up
+    expect(result.cost).toBe(5.18); // $5 premium + fee
     expect(result.payout).toBe(10); // 10 contracts = $10 max payout
   });
 
+  it('should charge the lower maker fee for resting orders', () => {
+    const result = calculateBet(10, 50, 'maker');
+    expect(result.fee).toBe(0.05); // 4.375¢, rounded up
+    expect(result.cost).toBe(5.05);
+  });
+
   it('should handle edge cases', () => {
     const result1 = calculateBet(1, 1);
-    expect(result1.cost).toBe(0.01);
+    expect(result1.cost).toBe(0.02); // Fee rounds up to 1¢
     expect(result1.payout).toBe(1);
 
     const result2 = calculateBet(100, 99);
-    expect(result2.cost).toBe(99);
+    expect(result2.cost).toBe(99.07);
     expect(result2.payout).toBe(100);
   });
 });